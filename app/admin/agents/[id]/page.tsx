@@ -0,0 +1,95 @@
+import { redirect } from "next/navigation"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import Link from "next/link"
+import { Header } from "@/components/Header"
+import { Footer } from "@/components/Footer"
+import { AgentDefinitionForm } from "@/components/AgentDefinitionForm"
+
+export default async function EditAgentDefinitionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    redirect("/auth/signin")
+  }
+
+  const currentUser = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  })
+
+  if (currentUser?.role !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const requested = await prisma.validationAgentDefinition.findUnique({
+    where: { id },
+  })
+
+  if (!requested) {
+    redirect("/admin/agents")
+  }
+
+  // Edits always start from the latest version, whichever version was linked
+  const versions = await prisma.validationAgentDefinition.findMany({
+    where: { name: requested.name },
+    orderBy: { version: "desc" },
+  })
+  const latest = versions[0]
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+      <main className="flex-1 p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-8">
+            <Link
+              href="/admin/agents"
+              className="text-black underline hover:no-underline mb-4 inline-block"
+            >
+              ← Back to validation agents
+            </Link>
+            <h1 className="text-3xl font-bold text-black">Edit {latest.name}</h1>
+            <p className="text-black mt-2">Version {latest.version}. Saving creates version {latest.version + 1}.</p>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg p-6">
+            <AgentDefinitionForm key={latest.id} definition={latest} />
+          </div>
+
+          <div className="mt-6 bg-white border border-gray-200 rounded-lg p-6">
+            <h2 className="text-xl font-semibold text-black mb-4">Version History</h2>
+            <div className="space-y-4">
+              {versions.map((version) => (
+                <div key={version.id} className="border-b border-gray-200 pb-4 last:border-b-0 last:pb-0">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-black">
+                      v{version.version} • <span className="font-mono">{version.provider ? `${version.provider}:${version.model}` : version.model}</span> • temperature {version.temperature}
+                    </span>
+                    <span className="text-gray-500">{new Date(version.createdAt).toLocaleString()}</span>
+                  </div>
+                  {version.promptTemplate ? (
+                    <details className="mt-2">
+                      <summary className="text-sm text-gray-600 cursor-pointer">Prompt template</summary>
+                      <pre className="mt-2 p-3 bg-gray-50 rounded text-xs text-black whitespace-pre-wrap font-mono">
+                        {version.promptTemplate}
+                      </pre>
+                    </details>
+                  ) : (
+                    <p className="mt-1 text-sm text-gray-500">Built-in prompt</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  )
+}
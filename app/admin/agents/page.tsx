@@ -0,0 +1,167 @@
+import { redirect } from "next/navigation"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { prisma } from "@/lib/prisma"
+import Link from "next/link"
+import { Header } from "@/components/Header"
+import { Footer } from "@/components/Footer"
+import { ImportAgentDefinitionsButton } from "@/components/ImportAgentDefinitionsButton"
+import { ValidationCacheControls } from "@/components/ValidationCacheControls"
+import { getLatestStoredDefinitions } from "@/lib/citation-identification/agent-definitions"
+import { getValidationCacheStats, isValidationCacheEnabled } from "@/lib/citation-identification/validation-cache"
+import { PROVIDER_API_KEYS, VALIDATION_CACHE_TTL_DAYS } from "@/lib/env"
+
+export default async function AgentDefinitionsPage() {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    redirect("/auth/signin")
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  })
+
+  if (user?.role !== "admin") {
+    redirect("/dashboard")
+  }
+
+  const definitions = await getLatestStoredDefinitions()
+  const cacheStats = await getValidationCacheStats(PROVIDER_API_KEYS)
+
+  return (
+    <div className="min-h-screen flex flex-col bg-white">
+      <Header />
+      <main className="flex-1 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <Link
+              href="/admin"
+              className="text-black underline hover:no-underline mb-4 inline-block"
+            >
+              ← Back to admin
+            </Link>
+            <h1 className="text-3xl font-bold text-black">Validation Agents</h1>
+            <p className="text-black mt-2">
+              Prompts, models and temperatures of the Tier 2 and Tier 3 panels. Every save creates a new
+              version, and each verdict records the version that produced it. Each tier runs the built-in
+              panel, with every agent stored here in place of the built-in of the same name and added
+              alongside it otherwise; disabling an agent takes it off the panel.
+            </p>
+          </div>
+
+          <div className="mb-4 flex justify-end space-x-4">
+            <ImportAgentDefinitionsButton />
+            <Link
+              href="/admin/agents/new"
+              className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              + Create New Agent
+            </Link>
+          </div>
+
+          <div className="bg-white border border-gray-200 rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-black">Agents ({definitions.length})</h2>
+            </div>
+            {definitions.length === 0 ? (
+              <p className="px-6 py-4 text-sm text-gray-500">
+                No agents are stored yet, so both tiers run the built-in panels. Import them to start editing.
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Name
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Tier
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Model
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Temperature
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Version
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Prompt
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {definitions.map((definition) => (
+                      <tr key={definition.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-black">
+                          {definition.name}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                          {definition.tier === "tier3" ? "Tier 3" : "Tier 2"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-black font-mono">
+                          {definition.provider ? `${definition.provider}:${definition.model}` : definition.model}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                          {definition.temperature}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                          v{definition.version}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-black">
+                          {definition.promptTemplate ? "Custom" : "Built-in"}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <span
+                            className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                              definition.enabled
+                                ? "bg-green-100 text-green-800"
+                                : "bg-gray-100 text-gray-800"
+                            }`}
+                          >
+                            {definition.enabled ? "enabled" : "disabled"}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          <Link
+                            href={`/admin/agents/${definition.id}`}
+                            className="text-black underline hover:no-underline"
+                          >
+                            Edit
+                          </Link>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-6 bg-white border border-gray-200 rounded-lg">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-black">Validation Cache</h2>
+            </div>
+            <div className="px-6 py-4">
+              <ValidationCacheControls
+                enabled={isValidationCacheEnabled()}
+                ttlDays={VALIDATION_CACHE_TTL_DAYS}
+                {...cacheStats}
+              />
+            </div>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  )
+}
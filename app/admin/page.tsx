@@ -40,7 +40,13 @@ export default async function AdminPage() {
             <p className="text-black mt-2">Manage users and accounts</p>
           </div>
 
-          <div className="mb-4 flex justify-end">
+          <div className="mb-4 flex justify-end space-x-4">
+            <Link
+              href="/admin/agents"
+              className="px-4 py-2 border border-gray-300 rounded-md text-black bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+            >
+              Validation Agents
+            </Link>
             <Link
               href="/admin/users/new"
               className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { setAgentDefinitionEnabled } from "@/lib/citation-identification/agent-definitions"
+
+/**
+ * Enable or disable the agent a definition belongs to: body { enabled }
+ * Prompt, model and temperature changes are saved as a new version through POST /api/admin/agent-definitions
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    if (typeof body.enabled !== "boolean") {
+      return NextResponse.json({ error: "enabled must be true or false" }, { status: 400 })
+    }
+
+    const definition = await prisma.validationAgentDefinition.findUnique({
+      where: { id },
+    })
+    if (!definition) {
+      return NextResponse.json({ error: "Agent definition not found" }, { status: 404 })
+    }
+
+    const updated = await setAgentDefinitionEnabled(definition.name, body.enabled)
+    return NextResponse.json(updated)
+  } catch (error) {
+    return handleApiError(error, 'UpdateAgentDefinition')
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { importBuiltInAgentDefinitions } from "@/lib/citation-identification/agent-definitions"
+
+/**
+ * Store the built-in Tier 2 and Tier 3 agents that are not stored yet, so they can be edited
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const created = await importBuiltInAgentDefinitions()
+    return NextResponse.json({ imported: created.length, definitions: created })
+  } catch (error) {
+    return handleApiError(error, 'ImportAgentDefinitions')
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { VALIDATION_TIERS, getLatestStoredDefinitions, saveAgentDefinition } from "@/lib/citation-identification/agent-definitions"
+import { PROVIDERS, ValidationTier, getBuiltInPrompt } from "@/lib/citation-identification/validation"
+import { Provider, getProviderFromModel } from "@/lib/llm"
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const definitions = await getLatestStoredDefinitions()
+    return NextResponse.json({ definitions })
+  } catch (error) {
+    return handleApiError(error, 'ListAgentDefinitions')
+  }
+}
+
+/**
+ * Save an agent definition: version 1 of a new agent, or the next version of an existing one
+ * Body: { name, tier, promptTemplate (null to use the built-in prompt), provider (taken from the model name
+ * when omitted), model, temperature }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const tier = body.tier as ValidationTier
+    const promptTemplate = typeof body.promptTemplate === "string" && body.promptTemplate.trim() ? body.promptTemplate : null
+    const model = typeof body.model === "string" ? body.model.trim() : ""
+    const provider = (body.provider || getProviderFromModel(model)) as Provider
+    const temperature = body.temperature === undefined ? 0.4 : Number(body.temperature)
+
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      return NextResponse.json(
+        { error: "Name must use lowercase letters, digits and underscores" },
+        { status: 400 }
+      )
+    }
+
+    if (!VALIDATION_TIERS.includes(tier)) {
+      return NextResponse.json({ error: "Invalid tier" }, { status: 400 })
+    }
+
+    if (!model) {
+      return NextResponse.json({ error: "Model is required" }, { status: 400 })
+    }
+
+    if (!PROVIDERS.includes(provider)) {
+      return NextResponse.json(
+        { error: `Provider must be one of ${PROVIDERS.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(temperature) || temperature < 0 || temperature > 2) {
+      return NextResponse.json(
+        { error: "Temperature must be between 0 and 2" },
+        { status: 400 }
+      )
+    }
+
+    if (!promptTemplate && !getBuiltInPrompt(name)) {
+      return NextResponse.json(
+        { error: `${name} is not a built-in agent, so it needs a prompt template` },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.validationAgentDefinition.findFirst({
+      where: { name },
+    })
+    if (existing && existing.tier !== tier) {
+      return NextResponse.json(
+        { error: `${name} is a ${existing.tier} agent` },
+        { status: 400 }
+      )
+    }
+
+    const definition = await saveAgentDefinition({ name, tier, promptTemplate, provider, model, temperature })
+    return NextResponse.json(definition, { status: 201 })
+  } catch (error) {
+    return handleApiError(error, 'SaveAgentDefinition')
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { getValidationCacheStats, invalidateValidationCache, isValidationCacheEnabled } from "@/lib/citation-identification/validation-cache"
+import { PROVIDER_API_KEYS, VALIDATION_CACHE_TTL_DAYS } from "@/lib/env"
+
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const stats = await getValidationCacheStats(PROVIDER_API_KEYS)
+    return NextResponse.json({ enabled: isValidationCacheEnabled(), ttlDays: VALIDATION_CACHE_TTL_DAYS, ...stats })
+  } catch (error) {
+    return handleApiError(error, 'GetValidationCache')
+  }
+}
+
+/**
+ * Invalidate cached validation results
+ * Query: ?key=<normalized key> for one citation, ?stale=true for expired entries and entries from
+ * agent definitions or models no longer in use; with neither, every entry is deleted
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    if (authResult.user.role !== "admin") {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const deleted = await invalidateValidationCache({
+      key: searchParams.get("key") || undefined,
+      staleOnly: searchParams.get("stale") === "true",
+      apiKeys: PROVIDER_API_KEYS,
+    })
+
+    return NextResponse.json({ deleted })
+  } catch (error) {
+    return handleApiError(error, 'InvalidateValidationCache')
+  }
+}
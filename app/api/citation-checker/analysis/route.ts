@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { CitationDocument, Citation, CitationValidation, AnalysisStatistics, Tier3Verdict, Tier3FinalStatus, ValidationVerdict, AgreementLevel, Tier3RiskLevel } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, isNewFormatTier3Result } from "@/lib/citation-identification/format-helpers"
+import { isNewFormatCitationValidation, isNewFormatTier3Result, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
 import { logger } from "@/lib/logger"
 
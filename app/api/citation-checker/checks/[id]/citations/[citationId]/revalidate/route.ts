@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { validateCitationWithPanel, validateCitationTier3 } from "@/lib/citation-identification/validation"
+import { validateCitationTier3 } from "@/lib/citation-identification/validation"
+import { validateCitationWithIndex } from "@/lib/citation-identification/authority-index"
+import { getAgentDefinitions } from "@/lib/citation-identification/agent-definitions"
 import { extractDocumentContext } from "@/lib/citation-identification/context-extractor"
-import { ANTHROPIC_API_KEY } from "@/lib/env"
+import { ANTHROPIC_API_KEY, PROVIDER_API_KEYS } from "@/lib/env"
 import { CitationDocument, Citation } from "@/types/citation-json"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
 import { logger } from "@/lib/logger"
@@ -72,10 +74,10 @@ export async function POST(
     const forceTier3 = body.forceTier3 === true
 
     // Run Tier 2 validation
-    const validation = await validateCitationWithPanel(
+    const validation = await validateCitationWithIndex(
       citation,
       context,
-      ANTHROPIC_API_KEY
+      PROVIDER_API_KEYS
     )
 
     // Check if Tier 3 is needed (either triggered by Tier 2 or forced by flag)
@@ -86,7 +88,8 @@ export async function POST(
         citation,
         context,
         validation,
-        ANTHROPIC_API_KEY
+        PROVIDER_API_KEYS,
+        await getAgentDefinitions("tier3")
       )
     }
 
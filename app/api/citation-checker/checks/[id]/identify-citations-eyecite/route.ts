@@ -81,9 +81,13 @@ export async function POST(
       contentLength: jsonData?.document?.content?.length,
     }, 'EyeciteAPI')
     
+    // Caption, TOA, signature and certificate blocks are skipped unless ?includeStructural=true
+    const { searchParams } = new URL(request.url)
+    const includeStructuralBlocks = searchParams.get("includeStructural") === "true"
+    
     let result
     try {
-      result = identifyCitationsEyecite(jsonData)
+      result = identifyCitationsEyecite(jsonData, { includeStructuralBlocks })
       logger.debug('Result structure', {
         hasDocument: !!result?.document,
         hasLogs: Array.isArray(result?.logs),
@@ -62,8 +62,11 @@ export async function POST(
     })
 
     // Process citations and update jsonData
+    // Caption, TOA, signature and certificate blocks are skipped unless ?includeStructural=true
+    const { searchParams } = new URL(request.url)
+    const includeStructuralBlocks = searchParams.get("includeStructural") === "true"
     const jsonData = currentCheck.jsonData as any
-    const updatedJsonData = identifyCitations(jsonData)
+    const updatedJsonData = identifyCitations(jsonData, { includeStructuralBlocks })
 
     // Update version 2 with citations
     const updated = await prisma.citationCheck.update({
@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { CitationDocument, ContentParagraph, Citation } from "@/types/citation-json"
 import { reidentifyCitationsInParagraph, validateParagraphCitations } from "@/lib/citation-identification/paragraph-processor"
+import { resolveShortForms, applyAntecedentVerdicts, needsOwnValidation } from "@/lib/citation-identification/short-forms"
+import { captureSignalsAndParentheticals } from "@/lib/citation-identification/signals"
+import { lintCitations } from "@/lib/citation-identification/bluebook-lint"
+import { attachQuotations } from "@/lib/citation-identification/quotations"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
 import { logger } from "@/lib/logger"
 
@@ -92,12 +96,20 @@ export async function PATCH(
     // Update paragraph in content
     content[paragraphIndex] = updatedParagraph
 
-    // Update document with new citations (before validation)
-    jsonData.document.citations = updatedCitations
-    jsonData.document.metadata = {
-      ...jsonData.document.metadata,
-      totalCitations: updatedCitations.length,
-    }
+    // Re-link short forms, since the edit can add or remove the antecedent of a later Id. or short cite,
+    // re-read signals, since a string cite's later citations take their signal from the first,
+    // re-lint, since the edit may have applied a style correction, and re-attach quotations,
+    // since the edit may have changed a quotation or the citation after it
+    const identifiedCitationIds = new Set(citations.map(c => c.id))
+    const resolvedDocument = attachQuotations(lintCitations(captureSignalsAndParentheticals(resolveShortForms({
+      document: { ...jsonData.document, content, citations: updatedCitations },
+    }))))
+    jsonData.document = resolvedDocument.document
+    const resolvedParagraph = jsonData.document.content[paragraphIndex]
+    const addedCitations = jsonData.document.citations.filter(
+      (c: Citation) => !identifiedCitationIds.has(c.id)
+    )
+    applyAntecedentVerdicts(jsonData.document.citations)
 
     // Save intermediate state (paragraph updated, citations re-identified)
     await prisma.citationCheck.update({
@@ -108,7 +120,7 @@ export async function PATCH(
     })
 
     // Validate the new citations (Tier 2 and Tier 3 if needed)
-    const newCitationIds = newCitations.map(c => c.id)
+    const newCitationIds = addedCitations.filter(needsOwnValidation).map(c => c.id)
     if (newCitationIds.length > 0) {
       try {
         const validatedCitations = await validateParagraphCitations(
@@ -118,17 +130,18 @@ export async function PATCH(
         )
 
         // Update citations with validation results
+        const documentCitations = jsonData.document.citations
         for (const validatedCitation of validatedCitations) {
-          const citationIndex = updatedCitations.findIndex(
+          const citationIndex = documentCitations.findIndex(
             (c: Citation) => c.id === validatedCitation.id
           )
           if (citationIndex !== -1) {
-            updatedCitations[citationIndex] = validatedCitation
+            documentCitations[citationIndex] = validatedCitation
           }
         }
 
-        // Update document with validated citations
-        jsonData.document.citations = updatedCitations
+        // Short forms citing the new citations share their verdicts
+        applyAntecedentVerdicts(documentCitations)
       } catch (validationError) {
         logger.error("Error validating citations after edit", validationError, 'EditParagraph')
         // Continue even if validation fails - citations are still re-identified
@@ -144,8 +157,8 @@ export async function PATCH(
     })
 
     return NextResponse.json({
-      paragraph: updatedParagraph,
-      newCitations: newCitations.map(c => c.id),
+      paragraph: resolvedParagraph,
+      newCitations: addedCitations.map(c => c.id),
       removedCitations: removedCitationIds,
       checkId: updated.id,
     })
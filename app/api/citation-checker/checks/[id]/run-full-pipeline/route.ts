@@ -44,6 +44,7 @@ export async function POST(
     // Get identification method from request body (default to 'eyecite')
     const body = await request.json().catch(() => ({}))
     const identificationMethod = body.identificationMethod || currentCheck.identificationMethod || 'eyecite'
+    const includeStructuralBlocks = body.includeStructuralBlocks === true
 
     let checkId = id
     let jsonData = currentCheck.jsonData
@@ -51,7 +52,7 @@ export async function POST(
     // Step 1: Generate JSON if needed
     if (!jsonData) {
       // Import and call generate-json logic
-      const { parseWordDocument, parseTextDocument } = await import("@/lib/document-parser")
+      const { parseWordDocument, parseTextDocument, parsePdfDocument, isPdfFile } = await import("@/lib/document-parser")
       
       if (!currentCheck.fileUpload.blobUrl) {
         return NextResponse.json(
@@ -79,6 +80,8 @@ export async function POST(
         // Convert buffer to string for text documents
         const text = buffer.toString('utf-8')
         parsedDocument = await parseTextDocument(text, currentCheck.fileUpload.originalName, uploadDate)
+      } else if (isPdfFile(currentCheck.fileUpload.mimeType, currentCheck.fileUpload.originalName)) {
+        parsedDocument = await parsePdfDocument(fileBuffer, currentCheck.fileUpload.originalName, uploadDate)
       } else {
         parsedDocument = await parseWordDocument(fileBuffer, currentCheck.fileUpload.originalName, uploadDate)
       }
@@ -126,11 +129,11 @@ export async function POST(
       let updatedJsonData: any
       if (identificationMethod === 'eyecite') {
         const { identifyCitationsEyecite } = await import("@/lib/citation-identification/eyecite-adapter")
-        const result = identifyCitationsEyecite(jsonDataObj)
+        const result = identifyCitationsEyecite(jsonDataObj, { includeStructuralBlocks })
         updatedJsonData = result.document
       } else {
         const { identifyCitations } = await import("@/lib/citation-identification")
-        updatedJsonData = identifyCitations(jsonDataObj)
+        updatedJsonData = identifyCitations(jsonDataObj, { includeStructuralBlocks })
       }
       
       const updated = await prisma.citationCheck.update({
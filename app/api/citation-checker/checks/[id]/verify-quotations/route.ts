@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { CitationDocument } from "@/types/citation-json"
+import { verifyQuotations } from "@/lib/citation-identification/quotation-verification"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { canModifyWorkflow } from "@/lib/access-control"
+
+/**
+ * Verify the quotations attached to the check's citations against the opinion corpus,
+ * or against source text pasted by the reviewer: body { sources?: { [citationId]: text } }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+    const { user } = authResult
+
+    const citationCheck = await prisma.citationCheck.findUnique({
+      where: { id },
+    })
+
+    if (!citationCheck) {
+      return NextResponse.json({ error: "Citation check not found" }, { status: 404 })
+    }
+
+    if (!citationCheck.jsonData) {
+      return NextResponse.json(
+        { error: "Citation check has no document data" },
+        { status: 400 }
+      )
+    }
+
+    const canModify = await canModifyWorkflow(user.id, id)
+    if (!canModify) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
+    }
+
+    const body = (await request.json().catch(() => null)) || {}
+    if (body.sources !== undefined && (!body.sources || typeof body.sources !== "object" || Array.isArray(body.sources))) {
+      return NextResponse.json(
+        { error: "sources must be an object of citation ids to source text" },
+        { status: 400 }
+      )
+    }
+    // Entries without source text are left to the opinion corpus
+    const sources: Record<string, string> = Object.fromEntries(
+      Object.entries(body.sources || {}).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string" && entry[1].trim() !== ""
+      )
+    )
+
+    const jsonData = citationCheck.jsonData as unknown as CitationDocument
+    const { document, summary } = await verifyQuotations(jsonData, sources)
+
+    await prisma.citationCheck.update({
+      where: { id },
+      data: {
+        jsonData: document as any,
+      },
+    })
+
+    return NextResponse.json({ checkId: id, ...summary })
+  } catch (error) {
+    return handleApiError(error, 'VerifyQuotations')
+  }
+}
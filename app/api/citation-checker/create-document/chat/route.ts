@@ -95,6 +95,7 @@ export async function POST(request: NextRequest) {
         model: model || undefined,
         systemPrompt: systemPrompt || undefined,
         mode: mode as "ask" | "edit",
+        signal: request.signal,
       }
     )
 
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from "next/server"
+import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { parseTextDocument } from "@/lib/document-parser"
+import { generateTableOfAuthorities, insertTableOfAuthorities } from "@/lib/citation-identification/toa-generator"
+import { logger } from "@/lib/logger"
+
+/**
+ * Generate a table of authorities for a drafted document
+ * Identifies citations in the draft text, builds a Bluebook-ordered table and,
+ * when `insert` is true, returns the draft with the table inserted (replacing any existing one)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+
+    const body = await request.json()
+    const { documentText, identificationMethod = "eyecite", insert = false } = body
+
+    if (!documentText || typeof documentText !== 'string') {
+      return NextResponse.json(
+        { error: "documentText is required" },
+        { status: 400 }
+      )
+    }
+
+    if (identificationMethod !== "eyecite" && identificationMethod !== "custom") {
+      return NextResponse.json(
+        { error: "identificationMethod must be 'eyecite' or 'custom'" },
+        { status: 400 }
+      )
+    }
+
+    const parsedDocument = await parseTextDocument(documentText, "draft.txt", new Date().toISOString())
+
+    let identifiedDocument
+    if (identificationMethod === "eyecite") {
+      const { identifyCitationsEyecite } = await import("@/lib/citation-identification/eyecite-adapter")
+      identifiedDocument = identifyCitationsEyecite(parsedDocument).document
+    } else {
+      const { identifyCitations } = await import("@/lib/citation-identification")
+      identifiedDocument = identifyCitations(parsedDocument)
+    }
+
+    const tableOfAuthorities = generateTableOfAuthorities(identifiedDocument)
+
+    logger.debug(`Generated table of authorities with ${tableOfAuthorities.entryCount} entries`, {
+      identificationMethod,
+      citations: identifiedDocument.document.citations.length,
+      insert,
+    }, 'TableOfAuthorities')
+
+    return NextResponse.json({
+      tableOfAuthorities,
+      ...(insert
+        ? { documentText: insertTableOfAuthorities(documentText, tableOfAuthorities.text, parsedDocument.document.content) }
+        : {}),
+    })
+  } catch (error) {
+    return handleApiError(error, 'TableOfAuthorities')
+  }
+}
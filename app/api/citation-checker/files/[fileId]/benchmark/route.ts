@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server"
+import { CitationDocument, GroundTruthLabel } from "@/types/citation-json"
+import { requireAuth, handleApiError, getLatestCheck } from "@/lib/api-helpers"
+import { canAccessFile } from "@/lib/access-control"
+import {
+  getBenchmarkHistory,
+  getBenchmarkLabels,
+  isGroundTruthLabel,
+  rescoreBenchmarkFile,
+  saveBenchmarkLabels,
+} from "@/lib/citation-identification/benchmark-store"
+
+/**
+ * Ground-truth labels for the file's citations and the scores of its validation runs
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params
+
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+    const { user } = authResult
+
+    if (!(await canAccessFile(user.id, fileId, 'view'))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const latestCheck = await getLatestCheck(fileId)
+    const citations = (latestCheck?.jsonData as unknown as CitationDocument | null)?.document?.citations || []
+
+    const [labels, history] = await Promise.all([
+      getBenchmarkLabels(fileId),
+      getBenchmarkHistory(fileId),
+    ])
+
+    return NextResponse.json({
+      citations: citations.map(citation => ({
+        id: citation.id,
+        citationText: citation.citationText,
+        citationType: citation.citationType,
+      })),
+      labels,
+      history,
+    })
+  } catch (error) {
+    return handleApiError(error, 'GetBenchmark')
+  }
+}
+
+/**
+ * Set or clear labels, then score every validation run of the file against them
+ * Body: { labels: [{ citationId, citationText, label: "real" | "fabricated" | "miscited" | null, notes? }] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params
+
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+    const { user } = authResult
+
+    if (!(await canAccessFile(user.id, fileId, 'edit'))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json()
+    if (!Array.isArray(body.labels)) {
+      return NextResponse.json({ error: "labels must be an array" }, { status: 400 })
+    }
+
+    const labels: Array<{ citationId: string; citationText: string; label: GroundTruthLabel | null; notes?: string | null }> = []
+    for (const entry of body.labels) {
+      if (typeof entry?.citationId !== "string" || typeof entry?.citationText !== "string") {
+        return NextResponse.json({ error: "Each label needs a citationId and citationText" }, { status: 400 })
+      }
+      if (entry.label !== null && !isGroundTruthLabel(entry.label)) {
+        return NextResponse.json(
+          { error: `Invalid label for ${entry.citationId}: use real, fabricated, miscited or null` },
+          { status: 400 }
+        )
+      }
+      labels.push({
+        citationId: entry.citationId,
+        citationText: entry.citationText,
+        label: entry.label,
+        notes: typeof entry.notes === "string" ? entry.notes : null,
+      })
+    }
+
+    await saveBenchmarkLabels(fileId, labels)
+    const scored = await rescoreBenchmarkFile(fileId)
+
+    const [savedLabels, history] = await Promise.all([
+      getBenchmarkLabels(fileId),
+      getBenchmarkHistory(fileId),
+    ])
+
+    return NextResponse.json({ labels: savedLabels, history, scored })
+  } catch (error) {
+    return handleApiError(error, 'SaveBenchmarkLabels')
+  }
+}
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { CitationDocument, SyntheticPerturbationType } from "@/types/citation-json"
+import { requireAuth, handleApiError, getLatestCheck } from "@/lib/api-helpers"
+import { canAccessFile } from "@/lib/access-control"
+import { logger } from "@/lib/logger"
+import { SYNTHETIC_PERTURBATION_TYPES, generateSyntheticDocument } from "@/lib/citation-identification/synthetic"
+import { saveBenchmarkLabels } from "@/lib/citation-identification/benchmark-store"
+import { createTestRun } from "@/lib/citation-identification/test-runs"
+
+/**
+ * Create a benchmark file from this file's identified citations with known faults injected,
+ * labeled with its ground truth, and optionally start a test run on it
+ * Body: { seed?, rate? (0-1), types?: SyntheticPerturbationType[], numberOfRuns? (0-10) }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ fileId: string }> }
+) {
+  try {
+    const { fileId } = await params
+
+    const authResult = await requireAuth(request)
+    if (authResult.error) return authResult.error
+    const { user } = authResult
+
+    if (!(await canAccessFile(user.id, fileId, 'view'))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const seed = typeof body.seed === "string" && body.seed.trim() ? body.seed.trim() : undefined
+    const rate = body.rate === undefined ? undefined : Number(body.rate)
+    const numberOfRuns = body.numberOfRuns === undefined ? 0 : parseInt(body.numberOfRuns)
+    const types: SyntheticPerturbationType[] | undefined = body.types
+
+    if (rate !== undefined && (isNaN(rate) || rate <= 0 || rate > 1)) {
+      return NextResponse.json({ error: "rate must be greater than 0 and at most 1" }, { status: 400 })
+    }
+    if (isNaN(numberOfRuns) || numberOfRuns < 0 || numberOfRuns > 10) {
+      return NextResponse.json({ error: "Number of runs must be between 0 and 10" }, { status: 400 })
+    }
+    if (types !== undefined && (!Array.isArray(types) || types.some(type => !SYNTHETIC_PERTURBATION_TYPES.includes(type)))) {
+      return NextResponse.json(
+        { error: `types must be a list of: ${SYNTHETIC_PERTURBATION_TYPES.join(", ")}` },
+        { status: 400 }
+      )
+    }
+
+    const fileUpload = await prisma.fileUpload.findUnique({
+      where: { id: fileId },
+    })
+
+    if (!fileUpload) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 })
+    }
+
+    const latestCheck = await getLatestCheck(fileId)
+    const source = latestCheck?.jsonData as unknown as CitationDocument | null
+
+    if (!latestCheck || !source?.document?.citations?.length) {
+      return NextResponse.json(
+        { error: "No identified citations found for this file. Please identify citations first." },
+        { status: 400 }
+      )
+    }
+
+    const synthetic = generateSyntheticDocument(source, {
+      seed,
+      rate,
+      types,
+      source: { fileId, checkId: latestCheck.id },
+    })
+
+    if (synthetic.perturbations.length === 0) {
+      return NextResponse.json(
+        { error: "None of this file's citations can take the selected faults" },
+        { status: 400 }
+      )
+    }
+
+    const { metadata } = synthetic.document.document
+    const originalName = `${fileUpload.originalName} (synthetic, seed ${metadata.synthetic!.seed})`
+
+    // The synthetic file has no blob of its own, so deleting it leaves the source file intact
+    const syntheticFile = await prisma.fileUpload.create({
+      data: {
+        userId: user.id,
+        filename: originalName,
+        originalName,
+        fileSize: fileUpload.fileSize,
+        mimeType: fileUpload.mimeType,
+        blobUrl: null,
+        caseId: fileUpload.caseId,
+        legalDocumentType: fileUpload.legalDocumentType,
+        filedByOrganization: fileUpload.filedByOrganization,
+      },
+    })
+
+    const syntheticCheck = await prisma.citationCheck.create({
+      data: {
+        fileUploadId: syntheticFile.id,
+        userId: user.id,
+        version: 1,
+        status: "citations_identified",
+        jsonData: synthetic.document as any,
+        workflowType: "standard",
+        documentMetadata: metadata as any,
+        citationCount: synthetic.document.document.citations.length,
+        identificationMethod: metadata.identificationMethod || null,
+        completedSteps: ["upload", "generate-json", "identify-citations"],
+        currentStep: "validate-citations",
+      },
+    })
+
+    // Update workflowId to check.id for standard workflow grouping
+    await prisma.citationCheck.update({
+      where: { id: syntheticCheck.id },
+      data: { workflowId: syntheticCheck.id },
+    })
+
+    // Runs of the file are scored against these as they complete
+    await saveBenchmarkLabels(syntheticFile.id, synthetic.labels)
+
+    logger.info(`Created synthetic benchmark file`, {
+      sourceFileId: fileId,
+      fileId: syntheticFile.id,
+      perturbations: synthetic.perturbations.length,
+    }, 'SyntheticBenchmark')
+
+    const testRun = numberOfRuns > 0
+      ? await createTestRun(syntheticFile.id, user.id, syntheticCheck, numberOfRuns)
+      : null
+
+    return NextResponse.json({
+      fileId: syntheticFile.id,
+      checkId: syntheticCheck.id,
+      perturbations: synthetic.perturbations,
+      labelCount: synthetic.labels.length,
+      testRunId: testRun?.testRunId || null,
+      checkIds: testRun?.checkIds || [],
+    })
+  } catch (error) {
+    return handleApiError(error, 'SyntheticBenchmark')
+  }
+}
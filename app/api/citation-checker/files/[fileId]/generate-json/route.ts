@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { parseWordDocument, parseTextDocument } from "@/lib/document-parser"
+import { parseWordDocument, parseTextDocument, parsePdfDocument, isPdfFile } from "@/lib/document-parser"
 import { canModifyWorkflow } from "@/lib/access-control"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
 import { logger } from "@/lib/logger"
@@ -104,7 +104,7 @@ export async function POST(
       )
     }
 
-    // Parse document to JSON structure (Word or text)
+    // Parse document to JSON structure (Word, PDF or text)
     let jsonData: any
     try {
       logger.debug('Starting document parse', undefined, 'GenerateJson')
@@ -119,6 +119,14 @@ export async function POST(
           fileUpload.originalName,
           fileUpload.createdAt.toISOString()
         )
+      } else if (isPdfFile(fileUpload.mimeType, fileUpload.originalName)) {
+        // Parse as PDF
+        logger.debug('Parsing as PDF document', undefined, 'GenerateJson')
+        jsonData = await parsePdfDocument(
+          fileBuffer,
+          fileUpload.originalName,
+          fileUpload.createdAt.toISOString()
+        )
       } else {
         // Parse as Word document (existing behavior)
         jsonData = await parseWordDocument(
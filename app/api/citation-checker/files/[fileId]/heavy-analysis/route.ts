@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { runHeavyAnalysis, getProviderFromModel, DEFAULT_MODELS } from "@/lib/citation-identification/heavy-analysis"
+import { runHeavyAnalysis, DEFAULT_MODELS } from "@/lib/citation-identification/heavy-analysis"
+import { getProviderFromModel } from "@/lib/llm"
 import { CitationDocument } from "@/types/citation-json"
 import { readFileSync } from "fs"
 import { join } from "path"
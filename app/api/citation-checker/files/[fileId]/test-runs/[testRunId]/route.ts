@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { getCitationRiskLevel } from "@/lib/citation-identification/format-helpers"
+import { getCitationRiskLevel, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
+import { getBenchmarkHistory } from "@/lib/citation-identification/benchmark-store"
 import { logger } from "@/lib/logger"
 
 export async function GET(
@@ -390,6 +390,9 @@ export async function GET(
     const sourceCheck = checks.find(c => c.version === sourceVersion)
     const sourceCheckId = sourceCheck?.id || null
 
+    // Accuracy against the file's ground-truth labels, for runs scored so far
+    const benchmark = await getBenchmarkHistory(fileId, { testRunId })
+
     return NextResponse.json({
       testRunId,
       testRunTotal,
@@ -413,6 +416,7 @@ export async function GET(
       },
       agentConsistency: tier2AgentConsistency,
       tier3AgentConsistency: tier3AgentConsistency,
+      benchmark,
     })
   } catch (error) {
     return handleApiError(error, 'GetTestRun')
@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
 import { Prisma } from "@prisma/client"
-import { createValidationJob, retryUnvalidatedCitations, checkJobCompletion } from "@/lib/citation-identification/queue"
-import { CitationDocument } from "@/types/citation-json"
-import { randomUUID } from "crypto"
+import { createTestRun } from "@/lib/citation-identification/test-runs"
 import { requireAuth, handleApiError, getLatestCheck } from "@/lib/api-helpers"
-import { logger } from "@/lib/logger"
-import { deepClone } from "@/lib/utils"
 
 export async function GET(
   request: NextRequest,
@@ -168,114 +164,7 @@ export async function POST(
       )
     }
 
-    // Generate test run ID
-    const testRunId = randomUUID()
-
-    // Get the latest version number to start from
-    const latestVersion = latestCheck.version
-
-    // Cast jsonData
-    const sourceJsonData = latestCheck.jsonData as unknown as CitationDocument
-
-    // Create N CitationCheck versions, each with test run metadata
-    const checkIds: string[] = []
-    
-    for (let i = 1; i <= numberOfRuns; i++) {
-      // Deep copy the JSON data
-      const freshJsonData = deepClone(sourceJsonData)
-      
-      // Clear ALL validation results - start with clean Tier 1 citation data only
-      if (freshJsonData.document?.citations) {
-        freshJsonData.document.citations = freshJsonData.document.citations.map((citation: any) => {
-          // Create clean citation object with only Tier 1 fields
-          const cleanCitation: any = {
-            id: citation.id,
-            citationText: citation.citationText,
-            citationType: citation.citationType,
-            extractedComponents: citation.extractedComponents,
-            paragraphId: citation.paragraphId,
-            paragraphText: citation.paragraphText,
-          }
-          // Preserve any other Tier 1 fields that might exist
-          if (citation.tier_1) {
-            cleanCitation.tier_1 = citation.tier_1
-          }
-          return cleanCitation
-        })
-      }
-
-      // Add test run metadata to jsonData (for backward compatibility)
-      if (freshJsonData.document?.metadata) {
-        freshJsonData.document.metadata.testRunId = testRunId
-        freshJsonData.document.metadata.testRunNumber = i
-        freshJsonData.document.metadata.testRunTotal = numberOfRuns
-      }
-
-      // Create new CitationCheck version with workflow tracking
-      const newCheck = await prisma.citationCheck.create({
-        data: {
-          fileUploadId: fileId,
-          userId: user.id,
-          version: latestVersion + i,
-          status: "citations_validated",
-          jsonData: freshJsonData as any,
-          // Populate workflow fields
-          workflowType: "test_run",
-          workflowId: testRunId,
-          workflowMetadata: {
-            testRunNumber: i,
-            testRunTotal: numberOfRuns,
-          } as any,
-          documentMetadata: freshJsonData.document?.metadata as any,
-          citationCount: freshJsonData.document?.citations?.length || null,
-          identificationMethod: freshJsonData.document?.metadata?.identificationMethod || null,
-          completedSteps: ["upload", "generate-json", "identify-citations"],
-          currentStep: "validate-citations",
-        },
-      })
-
-      checkIds.push(newCheck.id)
-
-      // Create validation job for this check (uses existing queue system)
-      try {
-        const jobId = await createValidationJob(newCheck.id, freshJsonData)
-        logger.debug(`Created validation job`, { jobId, checkId: newCheck.id, runNumber: i, totalRuns: numberOfRuns }, 'TestRuns')
-        
-        // Trigger worker to start processing (similar to validate-citations route)
-        try {
-          const { processQueueItems } = await import("@/lib/citation-identification/worker")
-          logger.debug(`Starting worker processing`, { runNumber: i }, 'TestRuns')
-          
-          // Process first batch asynchronously (don't await to avoid blocking)
-          processQueueItems(5)
-            .then((result) => {
-              logger.debug(`Worker processed items`, { processed: result.processed, runNumber: i }, 'TestRuns')
-              // Continue processing more items asynchronously if needed
-              if (result.processed > 0 && result.hasMore) {
-                const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
-                fetch(`${baseUrl}/api/citation-checker/worker/process-queue?maxItems=5`, {
-                  method: 'POST',
-                })
-                  .then((res) => {
-                    logger.debug(`Continuation batch triggered`, { status: res.status, runNumber: i }, 'TestRuns')
-                  })
-                  .catch((err) => {
-                    logger.error(`Error triggering continuation`, err, 'TestRuns')
-                  })
-              }
-            })
-            .catch((err) => {
-              logger.error(`Error in worker processing`, err, 'TestRuns')
-            })
-        } catch (workerError) {
-          logger.error(`Failed to trigger worker`, workerError, 'TestRuns')
-          // Don't fail the request if worker trigger fails - jobs are still queued
-        }
-      } catch (error) {
-        logger.error(`Failed to create validation job`, error, 'TestRuns')
-        // Continue with other runs even if one fails
-      }
-    }
+    const { testRunId, checkIds } = await createTestRun(fileId, user.id, latestCheck, numberOfRuns)
 
     return NextResponse.json({
       testRunId,
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { prisma } from "@/lib/prisma"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { getCitationRiskLevel } from "@/lib/citation-identification/format-helpers"
+import { getCitationRiskLevel, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { requireAuth, handleApiError } from "@/lib/api-helpers"
 import { logger } from "@/lib/logger"
 
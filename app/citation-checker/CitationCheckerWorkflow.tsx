@@ -671,11 +671,11 @@ function UploadStep({
     <div className="space-y-6">
       <div>
         <label className="block text-sm font-medium text-black mb-2">
-          Upload New Word Document
+          Upload New Word or PDF Document
         </label>
         <input
           type="file"
-          accept=".doc,.docx"
+          accept=".doc,.docx,.pdf"
           onChange={handleFileChange}
           className="block w-full text-sm text-black file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
         />
@@ -1429,13 +1429,16 @@ function IdentifyCitationsStep({
           </h3>
           <div className="space-y-2 max-h-96 overflow-y-auto">
             {citations.map((citation: any, index: number) => {
-              const type = (citation.citationType || 'unknown') as 'case' | 'statute' | 'regulation' | 'rule' | 'unknown'
+              const type = (citation.citationType || 'unknown') as 'case' | 'statute' | 'regulation' | 'rule' | 'constitution' | 'sessionLaw' | 'secondary' | 'unknown'
               const text = citation.citationText || ''
               const typeColor = {
                 case: 'bg-blue-100 text-blue-800',
                 statute: 'bg-green-100 text-green-800',
                 regulation: 'bg-purple-100 text-purple-800',
                 rule: 'bg-orange-100 text-orange-800',
+                constitution: 'bg-teal-100 text-teal-800',
+                sessionLaw: 'bg-lime-100 text-lime-800',
+                secondary: 'bg-pink-100 text-pink-800',
                 unknown: 'bg-gray-100 text-gray-800'
               }[type] || 'bg-gray-100 text-gray-800'
               
@@ -1542,13 +1545,16 @@ function ValidateCitationsStep({
           </h3>
           <div className="space-y-1 max-h-64 overflow-y-auto">
             {citations.slice(0, 10).map((citation: any, index: number) => {
-              const type = (citation.citationType || 'unknown') as 'case' | 'statute' | 'regulation' | 'rule' | 'unknown'
+              const type = (citation.citationType || 'unknown') as 'case' | 'statute' | 'regulation' | 'rule' | 'constitution' | 'sessionLaw' | 'secondary' | 'unknown'
               const text = citation.citationText || ''
               const typeColor = {
                 case: 'bg-blue-100 text-blue-800',
                 statute: 'bg-green-100 text-green-800',
                 regulation: 'bg-purple-100 text-purple-800',
                 rule: 'bg-orange-100 text-orange-800',
+                constitution: 'bg-teal-100 text-teal-800',
+                sessionLaw: 'bg-lime-100 text-lime-800',
+                secondary: 'bg-pink-100 text-pink-800',
                 unknown: 'bg-gray-100 text-gray-800'
               }[type] || 'bg-gray-100 text-gray-800'
               
@@ -0,0 +1,51 @@
+import { redirect } from "next/navigation"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth"
+import { Header } from "@/components/Header"
+import { Footer } from "@/components/Footer"
+import { BenchmarkPage } from "../../components/BenchmarkPage"
+import { prisma } from "@/lib/prisma"
+
+export default async function BenchmarkPageRoute({
+  params,
+}: {
+  params: Promise<{ fileId: string }>
+}) {
+  const { fileId } = await params
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    redirect("/auth/signin")
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email },
+  })
+
+  if (user?.role !== "admin") {
+    redirect("/dashboard")
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+      <main className="flex-1 py-12 px-4 sm:px-6 lg:px-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-4xl font-normal text-black mb-4">
+              Benchmark
+            </h1>
+            <p className="text-black text-lg">
+              Label citations with their ground truth and track how accurately each validation run flags them
+            </p>
+          </div>
+
+          <div className="border border-gray-200 rounded-lg p-8 bg-white">
+            <BenchmarkPage fileId={fileId} />
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  )
+}
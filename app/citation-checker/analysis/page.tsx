@@ -4,8 +4,7 @@ import { authOptions } from "@/lib/auth"
 import { Header } from "@/components/Header"
 import { Footer } from "@/components/Footer"
 import { AnalysisStatistics, CitationDocument, Citation, CitationValidation, Tier3Verdict, Tier3FinalStatus, ValidationVerdict, AgreementLevel } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, isNewFormatTier3Result } from "@/lib/citation-identification/format-helpers"
+import { isNewFormatCitationValidation, isNewFormatTier3Result, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { prisma } from "@/lib/prisma"
 
 async function getAnalysisData(): Promise<AnalysisStatistics | null> {
@@ -0,0 +1,494 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import {
+  BenchmarkBreakdown,
+  BenchmarkLabel,
+  BenchmarkRunScore,
+  DetectionMetrics,
+  GroundTruthLabel,
+} from "@/types/citation-json"
+import { formatRate } from "@/lib/citation-identification/benchmark"
+
+interface BenchmarkCitation {
+  id: string
+  citationText: string
+  citationType: string
+}
+
+interface LabelDraft {
+  label: GroundTruthLabel | null
+  notes: string
+}
+
+interface BenchmarkPageProps {
+  fileId: string
+}
+
+const LABEL_OPTIONS: Array<{ value: GroundTruthLabel; label: string }> = [
+  { value: "real", label: "Real" },
+  { value: "fabricated", label: "Fabricated" },
+  { value: "miscited", label: "Mis-cited" },
+]
+
+function formatScore(value: number | null): string {
+  return value === null ? "—" : value.toFixed(3)
+}
+
+function runName(score: BenchmarkRunScore): string {
+  return score.runNumber ? `v${score.version} (test run ${score.runNumber})` : `v${score.version}`
+}
+
+function MetricsRow({ name, metrics }: { name: string; metrics: DetectionMetrics }) {
+  return (
+    <tr>
+      <td className="px-4 py-2 text-sm font-medium text-gray-900">{name}</td>
+      <td className="px-4 py-2 text-sm text-gray-600">{metrics.evaluated}</td>
+      <td className="px-4 py-2 text-sm text-gray-900">{formatRate(metrics.precision)}</td>
+      <td className="px-4 py-2 text-sm text-gray-900">{formatRate(metrics.recall)}</td>
+      <td className="px-4 py-2 text-sm font-semibold text-gray-900">{formatRate(metrics.f1)}</td>
+      <td className="px-4 py-2 text-sm text-gray-600">{formatRate(metrics.recallByLabel.fabricated)}</td>
+      <td className="px-4 py-2 text-sm text-gray-600">{formatRate(metrics.recallByLabel.miscited)}</td>
+      <td className="px-4 py-2 text-sm text-gray-600">{formatScore(metrics.brierScore)}</td>
+      <td className="px-4 py-2 text-sm text-gray-600">{formatScore(metrics.expectedCalibrationError)}</td>
+    </tr>
+  )
+}
+
+function MetricsTable({ rows }: { rows: Array<{ name: string; metrics: DetectionMetrics }> }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            {["", "Evaluated", "Precision", "Recall", "F1", "Fabricated Recall", "Mis-cited Recall", "Brier", "ECE"].map((heading) => (
+              <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                {heading}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {rows.map((row) => (
+            <MetricsRow key={row.name} name={row.name} metrics={row.metrics} />
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function breakdownRows(breakdowns: BenchmarkBreakdown[]) {
+  return breakdowns.map((breakdown) => ({
+    name: `${breakdown.tier === "tier2" ? "Tier 2" : "Tier 3"}: ${breakdown.name}`,
+    metrics: breakdown.metrics,
+  }))
+}
+
+export function BenchmarkPage({ fileId }: BenchmarkPageProps) {
+  const router = useRouter()
+  const [citations, setCitations] = useState<BenchmarkCitation[]>([])
+  const [drafts, setDrafts] = useState<Record<string, LabelDraft>>({})
+  const [history, setHistory] = useState<BenchmarkRunScore[]>([])
+  const [selectedScoreId, setSelectedScoreId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [syntheticSeed, setSyntheticSeed] = useState("benchmark")
+  const [syntheticRate, setSyntheticRate] = useState<number>(30)
+  const [syntheticRuns, setSyntheticRuns] = useState<number>(3)
+  const [generating, setGenerating] = useState(false)
+
+  const applyLabels = (labels: BenchmarkLabel[]) => {
+    const next: Record<string, LabelDraft> = {}
+    for (const label of labels) {
+      next[label.citationId] = { label: label.label, notes: label.notes || "" }
+    }
+    setDrafts(next)
+  }
+
+  useEffect(() => {
+    const loadBenchmark = async () => {
+      try {
+        const res = await fetch(`/api/citation-checker/files/${fileId}/benchmark`)
+        if (!res.ok) {
+          const errorData = await res.json().catch(() => ({ error: "Unknown error" }))
+          setError(errorData.error || "Failed to load benchmark")
+          return
+        }
+        const data = await res.json()
+        setCitations(data.citations || [])
+        applyLabels(data.labels || [])
+        setHistory(data.history || [])
+      } catch (err) {
+        console.error("Error loading benchmark:", err)
+        setError("Failed to load benchmark. Please try again.")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadBenchmark()
+  }, [fileId])
+
+  const updateDraft = (citationId: string, update: Partial<LabelDraft>) => {
+    setDrafts((current) => ({
+      ...current,
+      [citationId]: { ...(current[citationId] || { label: null, notes: "" }), ...update },
+    }))
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/citation-checker/files/${fileId}/benchmark`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          labels: citations.map((citation) => ({
+            citationId: citation.id,
+            citationText: citation.citationText,
+            label: drafts[citation.id]?.label ?? null,
+            notes: drafts[citation.id]?.notes || null,
+          })),
+        }),
+      })
+
+      if (res.ok) {
+        const data = await res.json()
+        applyLabels(data.labels || [])
+        setHistory(data.history || [])
+        setMessage(`Labels saved; ${data.scored} validation run${data.scored === 1 ? "" : "s"} scored`)
+      } else {
+        const errorData = await res.json().catch(() => ({ error: "Unknown error" }))
+        setError(errorData.error || "Failed to save labels")
+      }
+    } catch (err) {
+      console.error("Error saving benchmark labels:", err)
+      setError("Failed to save labels. Please try again.")
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleGenerateSynthetic = async () => {
+    setGenerating(true)
+    setError(null)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/citation-checker/files/${fileId}/benchmark/synthetic`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          seed: syntheticSeed,
+          rate: syntheticRate / 100,
+          numberOfRuns: syntheticRuns,
+        }),
+      })
+
+      if (res.ok) {
+        const data = await res.json()
+        // Follow the test run when one was started, otherwise open the new file's labels
+        router.push(data.testRunId
+          ? `/citation-checker/${data.fileId}/test-run/${data.testRunId}/results`
+          : `/citation-checker/${data.fileId}/benchmark`)
+      } else {
+        const errorData = await res.json().catch(() => ({ error: "Unknown error" }))
+        setError(errorData.error || "Failed to generate synthetic document")
+      }
+    } catch (err) {
+      console.error("Error generating synthetic document:", err)
+      setError("Failed to generate synthetic document. Please try again.")
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-600">Loading benchmark...</div>
+  }
+
+  const labeledCount = citations.filter((citation) => drafts[citation.id]?.label).length
+  const selectedScore = history.find((score) => score.id === selectedScoreId) || history[history.length - 1]
+
+  return (
+    <div className="space-y-8">
+      {/* Labels */}
+      <div>
+        <h3 className="text-lg font-semibold text-black mb-2">
+          Ground-Truth Labels
+        </h3>
+        <p className="text-gray-600 text-sm mb-4">
+          Mark each citation as real, fabricated or mis-cited. Unlabeled citations are left out of the scores.
+          Saving scores every validation run of this file again; later runs are scored as they complete.
+        </p>
+
+        {citations.length === 0 ? (
+          <p className="text-sm text-gray-500">No citations have been identified for this file yet.</p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Citation</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Label</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {citations.map((citation) => (
+                  <tr key={citation.id}>
+                    <td className="px-4 py-2 text-sm text-gray-900 max-w-md">{citation.citationText}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{citation.citationType}</td>
+                    <td className="px-4 py-2 text-sm">
+                      <select
+                        value={drafts[citation.id]?.label || ""}
+                        onChange={(e) => updateDraft(citation.id, { label: (e.target.value || null) as GroundTruthLabel | null })}
+                        disabled={saving}
+                        className="px-2 py-1 border border-gray-300 rounded-md text-black"
+                      >
+                        <option value="">Unlabeled</option>
+                        {LABEL_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <input
+                        type="text"
+                        value={drafts[citation.id]?.notes || ""}
+                        onChange={(e) => updateDraft(citation.id, { notes: e.target.value })}
+                        disabled={saving}
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-black"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
+            <p className="text-red-800 text-sm">{error}</p>
+          </div>
+        )}
+        {message && (
+          <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-md">
+            <p className="text-green-800 text-sm">{message}</p>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-4 mt-4">
+          <button
+            onClick={handleSave}
+            disabled={saving || citations.length === 0}
+            className="px-6 py-3 bg-purple-600 text-white rounded-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Saving..." : "Save Labels"}
+          </button>
+          <button
+            onClick={() => router.push(`/citation-checker/${fileId}/test-run/setup`)}
+            disabled={saving}
+            className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500 disabled:opacity-50"
+          >
+            Set Up Test Run
+          </button>
+          <span className="text-sm text-gray-500">
+            {labeledCount} of {citations.length} citations labeled
+          </span>
+        </div>
+      </div>
+
+      {/* Synthetic Document */}
+      {citations.length > 0 && (
+        <div className="border-t border-gray-200 pt-6">
+          <h3 className="text-lg font-semibold text-black mb-2">
+            Synthetic Benchmark Document
+          </h3>
+          <p className="text-gray-600 text-sm mb-4">
+            Copy this file with known faults injected into some of its citations: a wrong volume, a swapped page,
+            invented parties, an impossible court or year, the wrong reporter series or a fabricated quotation.
+            The copy is labeled with its ground truth, taking this file&apos;s citations to be real. The same seed
+            always injects the same faults.
+          </p>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-black mb-1">Seed</label>
+              <input
+                type="text"
+                value={syntheticSeed}
+                onChange={(e) => setSyntheticSeed(e.target.value)}
+                disabled={generating}
+                className="block w-40 px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-1">Citations Perturbed (%)</label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={syntheticRate}
+                onChange={(e) => setSyntheticRate(parseInt(e.target.value) || 1)}
+                disabled={generating}
+                className="block w-32 px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-black mb-1">Test Runs</label>
+              <input
+                type="number"
+                min={0}
+                max={10}
+                value={syntheticRuns}
+                onChange={(e) => setSyntheticRuns(parseInt(e.target.value) || 0)}
+                disabled={generating}
+                className="block w-24 px-3 py-2 border border-gray-300 rounded-md text-black"
+              />
+            </div>
+            <button
+              onClick={handleGenerateSynthetic}
+              disabled={generating || syntheticRate < 1 || syntheticRate > 100 || syntheticRuns < 0 || syntheticRuns > 10}
+              className="px-6 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {generating ? "Generating..." : "Generate Synthetic Document"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Accuracy History */}
+      <div className="border-t border-gray-200 pt-6">
+        <h3 className="text-lg font-semibold text-black mb-2">
+          Accuracy History
+        </h3>
+        {history.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No validation runs have been scored yet. Save labels, then validate the file or start a test run.
+          </p>
+        ) : (
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Run", "Scored", "Labels", "Precision", "Recall", "F1", "Brier", "Models"].map((heading) => (
+                    <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {history.map((score) => (
+                  <tr
+                    key={score.id}
+                    onClick={() => setSelectedScoreId(score.id)}
+                    className={`cursor-pointer hover:bg-gray-50 ${score.id === selectedScore?.id ? "bg-purple-50" : ""}`}
+                  >
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">{runName(score)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{new Date(score.updatedAt).toLocaleString()}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{score.labelCount}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{formatRate(score.metrics.tiers.final.precision)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{formatRate(score.metrics.tiers.final.recall)}</td>
+                    <td className="px-4 py-2 text-sm font-semibold text-gray-900">{formatRate(score.metrics.tiers.final.f1)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatScore(score.metrics.tiers.final.brierScore)}</td>
+                    <td className="px-4 py-2 text-xs text-gray-600">
+                      {Array.from(new Set(score.configuration.agents.map((agent) => agent.model))).join(", ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Selected Run Breakdown */}
+      {selectedScore && (
+        <div className="border-t border-gray-200 pt-6 space-y-6">
+          <div>
+            <h3 className="text-lg font-semibold text-black mb-1">
+              Run {runName(selectedScore)}
+            </h3>
+            {(selectedScore.metrics.unmatchedLabels > 0 || selectedScore.metrics.unvalidated > 0) && (
+              <p className="text-sm text-yellow-700">
+                {selectedScore.metrics.unmatchedLabels} label{selectedScore.metrics.unmatchedLabels === 1 ? "" : "s"} not found in this run;{" "}
+                {selectedScore.metrics.unvalidated} labeled citation{selectedScore.metrics.unvalidated === 1 ? "" : "s"} not validated
+              </p>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-md font-semibold text-gray-900 mb-2">By Tier</h4>
+            <MetricsTable
+              rows={[
+                { name: "Final", metrics: selectedScore.metrics.tiers.final },
+                { name: "Tier 2", metrics: selectedScore.metrics.tiers.tier2 },
+                { name: "Tier 3", metrics: selectedScore.metrics.tiers.tier3 },
+              ]}
+            />
+          </div>
+
+          {selectedScore.metrics.agents.length > 0 && (
+            <div>
+              <h4 className="text-md font-semibold text-gray-900 mb-2">By Agent</h4>
+              <MetricsTable rows={breakdownRows(selectedScore.metrics.agents)} />
+            </div>
+          )}
+
+          {selectedScore.metrics.models.length > 0 && (
+            <div>
+              <h4 className="text-md font-semibold text-gray-900 mb-2">By Model</h4>
+              <MetricsTable rows={breakdownRows(selectedScore.metrics.models)} />
+            </div>
+          )}
+
+          {selectedScore.metrics.tiers.final.calibration.length > 0 && (
+            <div>
+              <h4 className="text-md font-semibold text-gray-900 mb-2">Calibration</h4>
+              <p className="text-sm text-gray-600 mb-2">
+                Predicted probability of a problem against the share of citations that were actually fabricated or mis-cited.
+              </p>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["Predicted", "Citations", "Mean Predicted", "Observed"].map((heading) => (
+                      <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {selectedScore.metrics.tiers.final.calibration.map((bin) => (
+                    <tr key={bin.lower}>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {Math.round(bin.lower * 100)}–{Math.round(bin.upper * 100)}%
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-600">{bin.count}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{formatRate(bin.meanPredicted)}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">{formatRate(bin.observedRate)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
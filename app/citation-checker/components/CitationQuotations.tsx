@@ -0,0 +1,113 @@
+"use client"
+
+import { useState } from "react"
+import { Quotation, QuotationMatchStatus } from "@/types/citation-json"
+
+interface CitationQuotationsProps {
+  citationId: string
+  quotations: Quotation[]
+  verifying: boolean
+  onVerifyWithSource: (citationId: string, sourceText: string) => Promise<void>
+}
+
+const STATUS_LABELS: Record<QuotationMatchStatus, string> = {
+  exact: "EXACT MATCH",
+  near: "NEAR MATCH",
+  not_found: "NOT FOUND",
+}
+
+const STATUS_CLASSES: Record<QuotationMatchStatus, string> = {
+  exact: "bg-green-100 text-green-800",
+  near: "bg-yellow-100 text-yellow-800",
+  not_found: "bg-red-100 text-red-800",
+}
+
+export function CitationQuotations({ citationId, quotations, verifying, onVerifyWithSource }: CitationQuotationsProps) {
+  const [showSourceInput, setShowSourceInput] = useState(false)
+  const [sourceText, setSourceText] = useState("")
+
+  const handleVerify = async () => {
+    await onVerifyWithSource(citationId, sourceText)
+    setShowSourceInput(false)
+    setSourceText("")
+  }
+
+  return (
+    <div className="mb-3 p-3 bg-white border border-gray-200 rounded-md">
+      <div className="flex items-center justify-between mb-2 gap-2">
+        <div className="text-xs font-semibold text-gray-900">Quotations ({quotations.length})</div>
+        <button
+          onClick={() => setShowSourceInput(!showSourceInput)}
+          className="text-xs text-blue-600 hover:text-blue-800 hover:underline flex-shrink-0"
+        >
+          {showSourceInput ? "Cancel" : "Verify against pasted source"}
+        </button>
+      </div>
+
+      {showSourceInput && (
+        <div className="mb-3">
+          <textarea
+            value={sourceText}
+            onChange={(e) => setSourceText(e.target.value)}
+            placeholder="Paste the text of the cited opinion"
+            rows={5}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={handleVerify}
+            disabled={verifying || !sourceText.trim()}
+            className="mt-1 px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {verifying ? "Verifying..." : "Verify Quotations"}
+          </button>
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {quotations.map((quotation, index) => {
+          const verification = quotation.verification
+          return (
+            <li key={`${quotation.paragraphId}-${index}`} className="text-sm">
+              <div className="flex items-start gap-2">
+                {verification ? (
+                  <span
+                    className={`px-1.5 py-0.5 text-xs font-medium rounded flex-shrink-0 ${STATUS_CLASSES[verification.status]}`}
+                    title={`Checked against ${verification.source === "user" ? "pasted source text" : verification.source}`}
+                  >
+                    {STATUS_LABELS[verification.status]}
+                    {verification.status !== "exact" && ` (${Math.round(verification.similarity * 100)}%)`}
+                  </span>
+                ) : (
+                  <span className="px-1.5 py-0.5 text-xs font-medium rounded flex-shrink-0 bg-gray-100 text-gray-700">
+                    NOT CHECKED
+                  </span>
+                )}
+                <p className="text-gray-800 italic">
+                  {quotation.blockQuote && <span className="not-italic text-xs text-gray-500">Block quote: </span>}
+                  “{quotation.text}”
+                </p>
+              </div>
+              {verification?.diff && (
+                <p className="mt-1 ml-2 pl-2 border-l-2 border-yellow-300 text-xs text-gray-700">
+                  <span className="font-medium">Source differs: </span>
+                  {verification.diff.map((segment, segmentIndex) => (
+                    <span key={segmentIndex}>
+                      {segmentIndex > 0 && " "}
+                      {segment.type === "same" && segment.text}
+                      {segment.type === "added" && (
+                        <span className="bg-red-100 text-red-800 line-through" title="Quoted, but not in the source">{segment.text}</span>
+                      )}
+                      {segment.type === "omitted" && (
+                        <span className="bg-green-100 text-green-800" title="In the source, but left out of the quotation">{segment.text}</span>
+                      )}
+                    </span>
+                  ))}
+                </p>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
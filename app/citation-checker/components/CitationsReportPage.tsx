@@ -3,10 +3,15 @@
 import { useState, useEffect, useRef } from "react"
 import Link from "next/link"
 import { ContextPanel } from "./ContextPanel"
-import { CitationValidation, ValidationVerdict, Tier3FinalStatus } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, isNewFormatTier3Result, calculateRiskStatistics, getCitationRiskLevel } from "@/lib/citation-identification/format-helpers"
+import { CitationValidation, ValidationVerdict, Tier3FinalStatus, CaseCaption, ShortFormResolution, Tier1Result, Quotation } from "@/types/citation-json"
+import { isNewFormatCitationValidation, isNewFormatTier3Result, calculateRiskStatistics, getCitationRiskLevel, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { ValidationSummary } from "./ValidationSummary"
+import { DocumentOutline } from "./DocumentOutline"
+import { TableOfAuthoritiesCheck } from "./TableOfAuthoritiesCheck"
+import { UnresolvedShortForms } from "./UnresolvedShortForms"
+import { CitationQuotations } from "./CitationQuotations"
+import { buildDocumentOutline, getSectionBlockIds, OutlineNode } from "@/lib/document-parser/outline"
+import { checkTableOfAuthorities, TableOfAuthoritiesCheck as TableOfAuthoritiesCheckResult } from "@/lib/citation-identification/toa-check"
 import jsPDF from "jspdf"
 
 interface CitationsReportPageProps {
@@ -23,6 +28,13 @@ interface CitationWithValidation {
   extractedComponents?: any
   paragraphId?: string
   paragraphText?: string
+  footnoteLabel?: string // e.g. "Footnote 3" when the citation sits in a note
+  anchorParagraphId?: string // Paragraph carrying the note's reference mark
+  anchorText?: string
+  tier_1?: Tier1Result
+  antecedentId?: string // Full citation this short form refers to
+  shortForm?: ShortFormResolution
+  quotations?: Quotation[]
   manualReview?: {
     status: "approved" | "questionable"
     notes?: string
@@ -36,6 +48,7 @@ interface DocumentMetadata {
   documentType?: string
   totalCitations: number
   identificationMethod?: string
+  caption?: CaseCaption
 }
 
 export function CitationsReportPage({ fileId, checkId: initialCheckId }: CitationsReportPageProps) {
@@ -52,6 +65,9 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
   const [generatingPDF, setGeneratingPDF] = useState(false)
   const [copiedStates, setCopiedStates] = useState<Record<string, boolean>>({})
   const [reprocessingId, setReprocessingId] = useState<string | null>(null)
+  const [verifyingQuotations, setVerifyingQuotations] = useState(false)
+  const [outline, setOutline] = useState<OutlineNode[]>([])
+  const [toaCheck, setToaCheck] = useState<TableOfAuthoritiesCheckResult | null>(null)
   const reportRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -169,6 +185,9 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
               const enrichedCitations = citationsList.map((citation: any) => {
                 let paragraphId: string | undefined
                 let paragraphText: string | undefined
+                let footnoteLabel: string | undefined
+                let anchorParagraphId: string | undefined
+                let anchorText: string | undefined
                 
                 for (const para of content) {
                   if (para.text && para.text.includes(`[CITATION:${citation.id}]`)) {
@@ -177,6 +196,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                       .replace(/\[CITATION:[^\]]+\]/g, '')
                       .replace(/\[\/CITATION:[^\]]+\]/g, '')
                       .trim()
+                    if (para.type === 'footnote') {
+                      footnoteLabel = `${para.noteKind === 'endnote' ? 'Endnote' : 'Footnote'} ${para.footnoteNumber ?? ''}`.trim()
+                      anchorParagraphId = para.anchorParagraphId
+                      const anchor = content.find((p: any) => p.id === para.anchorParagraphId)
+                      anchorText = anchor?.text
+                        ?.replace(/\[CITATION:[^\]]+\]/g, '')
+                        .replace(/\[\/CITATION:[^\]]+\]/g, '')
+                        .trim()
+                    }
                     break
                   }
                 }
@@ -185,10 +213,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                   ...citation,
                   paragraphId,
                   paragraphText,
+                  footnoteLabel,
+                  anchorParagraphId,
+                  anchorText,
                 }
               })
               
               setCitations(enrichedCitations)
+              setOutline(buildDocumentOutline(content))
+              setToaCheck(checkTableOfAuthorities(data.jsonData))
               
               // Log if no citations with validation
               const citationsWithValidation = enrichedCitations.filter((c: any) => c.validation)
@@ -243,6 +276,9 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
           const enrichedCitations = citationsList.map((citation: any) => {
             let paragraphId: string | undefined
             let paragraphText: string | undefined
+            let footnoteLabel: string | undefined
+            let anchorParagraphId: string | undefined
+            let anchorText: string | undefined
             
             for (const para of content) {
               if (para.text && para.text.includes(`[CITATION:${citation.id}]`)) {
@@ -251,6 +287,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                   .replace(/\[CITATION:[^\]]+\]/g, '')
                   .replace(/\[\/CITATION:[^\]]+\]/g, '')
                   .trim()
+                if (para.type === 'footnote') {
+                  footnoteLabel = `${para.noteKind === 'endnote' ? 'Endnote' : 'Footnote'} ${para.footnoteNumber ?? ''}`.trim()
+                  anchorParagraphId = para.anchorParagraphId
+                  const anchor = content.find((p: any) => p.id === para.anchorParagraphId)
+                  anchorText = anchor?.text
+                    ?.replace(/\[CITATION:[^\]]+\]/g, '')
+                    .replace(/\[\/CITATION:[^\]]+\]/g, '')
+                    .trim()
+                }
                 break
               }
             }
@@ -259,10 +304,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
               ...citation,
               paragraphId,
               paragraphText,
+              footnoteLabel,
+              anchorParagraphId,
+              anchorText,
             }
           })
           
           setCitations(enrichedCitations)
+          setOutline(buildDocumentOutline(content))
+          setToaCheck(checkTableOfAuthorities(data.jsonData))
         }
       }
     } catch (err) {
@@ -295,6 +345,36 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
     }
   }
 
+  // Handler to verify quotations against the opinion corpus, or against source text pasted for one citation
+  const handleVerifyQuotations = async (sources?: Record<string, string>) => {
+    if (!checkId) return
+    
+    setVerifyingQuotations(true)
+    try {
+      const res = await fetch(`/api/citation-checker/checks/${checkId}/verify-quotations`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sources }),
+      })
+      
+      if (res.ok) {
+        const summary = await res.json()
+        await reloadCitationData()
+        if (!sources && summary.verified === 0) {
+          alert('No cited opinions were found in the opinion corpus. Paste the source text for a citation to verify its quotations.')
+        }
+      } else {
+        const errorData = await res.json()
+        alert(`Failed to verify quotations: ${errorData.error || 'Unknown error'}`)
+      }
+    } catch (error) {
+      console.error('Error verifying quotations:', error)
+      alert('Failed to verify quotations. Please try again.')
+    } finally {
+      setVerifyingQuotations(false)
+    }
+  }
+
   // Get final status for a citation, prioritizing manual review over AI validation
   const getFinalStatus = (citation: CitationWithValidation): {
     status: "APPROVED" | "QUESTIONABLE" | "LOW_RISK" | "MODERATE_RISK" | "NEEDS_ADDITIONAL_REVIEW" | "UNKNOWN"
@@ -641,6 +721,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
         if (metadata.identificationMethod) {
           addText(`Identification Method: ${metadata.identificationMethod}`, 10)
         }
+        if (metadata.caption?.court) {
+          addText(`Court: ${metadata.caption.court}`, 10)
+        }
+        if (metadata.caption?.caseNumber) {
+          addText(`Case Number: ${metadata.caption.caseNumber}`, 10)
+        }
+        if (metadata.caption && metadata.caption.parties.length > 0) {
+          addText(`Parties: ${metadata.caption.parties.map(p => p.role ? `${p.name} (${p.role})` : p.name).join('; ')}`, 10)
+        }
         yPosition += sectionSpacing
         addHorizontalLine()
         yPosition += sectionSpacing
@@ -668,6 +757,33 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
       addText(summaryText, 10)
       yPosition += sectionSpacing * 2
 
+      // Table of Authorities Check
+      if (toaCheck?.hasTableOfAuthorities) {
+        addText('Table of Authorities Check', 14, true)
+        yPosition += sectionSpacing
+        addText(`TOA Entries: ${toaCheck.entryCount} (${toaCheck.matchedCount} matched)`, 10)
+        if (toaCheck.missingFromToa.length > 0) {
+          addText(`Cited in the body but missing from the TOA (${toaCheck.missingFromToa.length}):`, 10, true, [239, 68, 68])
+          toaCheck.missingFromToa.forEach(ref => addText(`• ${ref.citationText}`, 9))
+        }
+        if (toaCheck.neverCited.length > 0) {
+          addText(`Listed in the TOA but never cited (${toaCheck.neverCited.length}):`, 10, true, [234, 179, 8])
+          toaCheck.neverCited.forEach(entry => addText(`• ${entry.text} (${entry.pages.join(', ') || 'no pages listed'})`, 9))
+        }
+        if (toaCheck.mismatches.length > 0) {
+          addText(`TOA and body disagree (${toaCheck.mismatches.length}):`, 10, true, [249, 115, 22])
+          toaCheck.mismatches.forEach(mismatch => {
+            addText(`• ${mismatch.entry.text}`, 9)
+            mismatch.differences.forEach(difference => {
+              addText(`  ${difference.field}: TOA has "${difference.toa}", body has "${difference.body}"`, 8, false, [100, 100, 100])
+            })
+          })
+        }
+        yPosition += sectionSpacing
+        addHorizontalLine()
+        yPosition += sectionSpacing
+      }
+
       // Citation Summary by Paragraph
       if (citationsByParagraph.size > 0) {
         addText('Citation Summary by Paragraph', 14, true)
@@ -874,7 +990,10 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
           // Document context if available
           if (citation.paragraphId && citation.paragraphText) {
             yPosition += 3
-            addText(`Document Context (${citation.paragraphId}):`, 9, true)
+            addText(`Document Context (${citation.footnoteLabel ? `${citation.footnoteLabel}, ` : ''}${citation.paragraphId}):`, 9, true)
+            if (citation.anchorText) {
+              addText(`Referenced from ${citation.anchorParagraphId}: ${citation.anchorText.substring(0, 300)}${citation.anchorText.length > 300 ? '...' : ''}`, 8, false, [120, 120, 120])
+            }
             addText(citation.paragraphText.substring(0, 500) + (citation.paragraphText.length > 500 ? '...' : ''), 8, false, [80, 80, 80])
           }
         }
@@ -933,6 +1052,15 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
         >
           Print Report
         </button>
+        {citations.some(c => c.quotations && c.quotations.length > 0) && (
+          <button
+            onClick={() => handleVerifyQuotations()}
+            disabled={verifyingQuotations}
+            className="px-6 py-3 bg-teal-600 text-white rounded-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {verifyingQuotations ? "Verifying Quotations..." : "Verify Quotations"}
+          </button>
+        )}
         <button
           onClick={() => window.location.href = `/citation-checker`}
           className="px-6 py-3 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-500"
@@ -1005,6 +1133,26 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                 <div className="text-gray-900 capitalize">{metadata.identificationMethod}</div>
               </div>
             )}
+            {metadata.caption?.court && (
+              <div>
+                <div className="text-xs font-medium text-blue-700 mb-1">Court</div>
+                <div className="text-gray-900">{metadata.caption.court}</div>
+              </div>
+            )}
+            {metadata.caption?.caseNumber && (
+              <div>
+                <div className="text-xs font-medium text-blue-700 mb-1">Case Number</div>
+                <div className="text-gray-900">{metadata.caption.caseNumber}</div>
+              </div>
+            )}
+            {metadata.caption && metadata.caption.parties.length > 0 && (
+              <div className="col-span-2">
+                <div className="text-xs font-medium text-blue-700 mb-1">Parties</div>
+                <div className="text-gray-900">
+                  {metadata.caption.parties.map(p => p.role ? `${p.name} (${p.role})` : p.name).join("; ")}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -1121,6 +1269,40 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
           </p>
         </div>
 
+        {/* Document Outline - jump to the first citation in a section */}
+        {outline.length > 0 && (
+          <div className="mt-6">
+            <DocumentOutline
+              outline={outline}
+              title="Citations by Section"
+              onSelect={(node) => {
+                const sectionBlockIds = new Set(getSectionBlockIds(node))
+                const firstCitation = citations.find(c => c.paragraphId && sectionBlockIds.has(c.paragraphId))
+                if (firstCitation) {
+                  scrollToCitation(firstCitation.id)
+                }
+              }}
+              getCount={(blockIds) => citations.filter(c => c.paragraphId && blockIds.has(c.paragraphId)).length}
+            />
+          </div>
+        )}
+
+        {/* Table of Authorities Check - TOA entries against body citations */}
+        {toaCheck?.hasTableOfAuthorities && (
+          <div className="mt-6">
+            <TableOfAuthoritiesCheck result={toaCheck} onSelectCitation={scrollToCitation} />
+          </div>
+        )}
+
+        {/* Short forms with no single antecedent */}
+        <div className="mt-6">
+          <UnresolvedShortForms
+            citations={citations}
+            getCitationText={(citationId) => citations.find(c => c.id === citationId)?.citationText}
+            onSelectCitation={scrollToCitation}
+          />
+        </div>
+
         {/* Citation Summary by Paragraph */}
         {citationsByParagraph.size > 0 && (
           <div className="mt-6 p-4 bg-gray-50 border border-gray-200 rounded-lg">
@@ -1315,6 +1497,9 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                               citation.citationType === 'statute' ? 'bg-green-100 text-green-800' :
                               citation.citationType === 'regulation' ? 'bg-purple-100 text-purple-800' :
                               citation.citationType === 'rule' ? 'bg-orange-100 text-orange-800' :
+                              citation.citationType === 'constitution' ? 'bg-teal-100 text-teal-800' :
+                              citation.citationType === 'sessionLaw' ? 'bg-lime-100 text-lime-800' :
+                              citation.citationType === 'secondary' ? 'bg-pink-100 text-pink-800' :
                               'bg-gray-100 text-gray-800'
                             }`}>
                               {citation.citationType?.toUpperCase() || 'UNKNOWN'}
@@ -1447,8 +1632,44 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                                 TIER 3 TRIGGERED
                               </span>
                             )}
+
+                            {(citation.validation?.cache || citation.tier_3?.cache) && (
+                              <span
+                                className="px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-800"
+                                title={`Reused from an earlier validation of the same authority (${new Date((citation.validation?.cache || citation.tier_3.cache).cached_at).toLocaleDateString()}); no models were called`}
+                              >
+                                CACHED
+                              </span>
+                            )}
                           </div>
                           <p className="text-base font-medium text-gray-900 mb-3">{citation.citationText}</p>
+                          {citation.antecedentId && (
+                            <p className="-mt-2 mb-3 text-xs text-gray-600">
+                              Short form of{" "}
+                              <button
+                                onClick={() => scrollToCitation(citation.antecedentId!)}
+                                className="text-blue-600 hover:text-blue-800 hover:underline"
+                              >
+                                {citations.find(c => c.id === citation.antecedentId)?.citationText || citation.antecedentId}
+                              </button>
+                              ; verdict inherited from that citation
+                            </p>
+                          )}
+                          {citation.tier_1?.issues && citation.tier_1.issues.length > 0 && (
+                            <ul className="mb-3 p-2 bg-red-50 border border-red-200 rounded text-xs text-red-800 space-y-0.5">
+                              {citation.tier_1.issues.map((issue) => (
+                                <li key={issue}>{issue}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {citation.quotations && citation.quotations.length > 0 && (
+                            <CitationQuotations
+                              citationId={citation.id}
+                              quotations={citation.quotations}
+                              verifying={verifyingQuotations}
+                              onVerifyWithSource={(citationId, sourceText) => handleVerifyQuotations({ [citationId]: sourceText })}
+                            />
+                          )}
                           
                           {/* Manual Review Section */}
                           {citation.manualReview && (
@@ -1512,7 +1733,7 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                             <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-md overflow-hidden">
                               <div className="flex items-center justify-between mb-1 gap-2">
                                 <div className="text-xs font-semibold text-blue-900 min-w-0">
-                                  Document Context ({citation.paragraphId})
+                                  Document Context ({citation.footnoteLabel ? `${citation.footnoteLabel}, ${citation.paragraphId}` : citation.paragraphId})
                                 </div>
                                 <button
                                   onClick={() => copyToClipboard(citation.paragraphText || '', `context-${citation.id}`)}
@@ -1525,7 +1746,16 @@ export function CitationsReportPage({ fileId, checkId: initialCheckId }: Citatio
                                   {copiedStates[`context-${citation.id}`] ? 'Copied!' : 'Copy'}
                                 </button>
                               </div>
+                              {citation.anchorText && (
+                                <p className="text-sm text-gray-500 break-words whitespace-pre-wrap overflow-wrap-anywhere max-w-full mb-2">
+                                  <span className="text-xs font-medium text-blue-900 not-italic">Referenced from {citation.anchorParagraphId}: </span>
+                                  {citation.anchorText}
+                                </p>
+                              )}
                               <p className="text-sm text-gray-700 italic break-words whitespace-pre-wrap overflow-wrap-anywhere max-w-full">
+                                {citation.footnoteLabel && (
+                                  <span className="not-italic font-medium text-blue-900">{citation.footnoteLabel}: </span>
+                                )}
                                 {citation.paragraphText}
                               </p>
                             </div>
@@ -87,6 +87,7 @@ export function CreateDocumentPage() {
   const [loading, setLoading] = useState(false)
   const [saving, setSaving] = useState(false)
   const [savedSuccessfully, setSavedSuccessfully] = useState(false)
+  const [generatingToa, setGeneratingToa] = useState(false)
   const [pendingChange, setPendingChange] = useState<PendingChange | null>(null)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
@@ -1250,6 +1251,55 @@ export function CreateDocumentPage() {
     await handleSave(true)
   }
 
+  // Generate a table of authorities from the citations in the draft, then insert or download it
+  const handleTableOfAuthorities = async (action: "insert" | "export") => {
+    if (!documentText.trim()) return
+
+    setGeneratingToa(true)
+    try {
+      const response = await fetch("/api/citation-checker/create-document/table-of-authorities", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          documentText,
+          insert: action === "insert",
+        }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || "Failed to generate table of authorities")
+      }
+
+      const data = await response.json()
+      if (data.tableOfAuthorities.entryCount === 0) {
+        alert("No citations were found in the document")
+        return
+      }
+
+      if (action === "insert") {
+        setDocumentTextWithLogging(data.documentText, 'Table of authorities inserted')
+      } else {
+        const blob = new Blob([data.tableOfAuthorities.text], { type: 'text/plain' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `${documentName.trim() || 'Document'} - Table of Authorities.txt`
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+      }
+    } catch (error) {
+      console.error("Error generating table of authorities:", error)
+      alert(`Failed to generate table of authorities: ${error instanceof Error ? error.message : "Unknown error"}`)
+    } finally {
+      setGeneratingToa(false)
+    }
+  }
+
   const handleWizardGenerate = async (wizardData: DocumentWizardData) => {
     setLoading(true)
     try {
@@ -1415,6 +1465,25 @@ export function CreateDocumentPage() {
                   <span className="text-sm font-medium text-green-800">Document saved successfully!</span>
                 </div>
               )}
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700">Table of Authorities:</span>
+                <button
+                  onClick={() => handleTableOfAuthorities("insert")}
+                  disabled={!documentText.trim() || generatingToa}
+                  className="px-3 py-1.5 text-xs bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Insert a generated table after the caption, replacing any existing table"
+                >
+                  {generatingToa ? "Generating..." : "Insert"}
+                </button>
+                <button
+                  onClick={() => handleTableOfAuthorities("export")}
+                  disabled={!documentText.trim() || generatingToa}
+                  className="px-3 py-1.5 text-xs bg-white border border-gray-300 rounded-md hover:bg-gray-50 text-gray-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Download the generated table as a text file"
+                >
+                  Export
+                </button>
+              </div>
               <div className="flex gap-3">
                 <button
                   onClick={() => handleSave(false)}
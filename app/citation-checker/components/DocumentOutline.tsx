@@ -0,0 +1,62 @@
+"use client"
+
+import { useState } from "react"
+import { OutlineNode, getSectionBlockIds } from "@/lib/document-parser/outline"
+
+interface DocumentOutlineProps {
+  outline: OutlineNode[]
+  onSelect: (node: OutlineNode) => void
+  // Optional badge count per section, e.g. citations found under that heading
+  getCount?: (blockIds: Set<string>) => number
+  title?: string
+}
+
+export function DocumentOutline({ outline, onSelect, getCount, title = "Document Outline" }: DocumentOutlineProps) {
+  const [collapsed, setCollapsed] = useState(false)
+
+  if (outline.length === 0) {
+    return null
+  }
+
+  const renderNodes = (nodes: OutlineNode[], depth: number) => (
+    <ul className={depth > 0 ? "ml-4 border-l border-gray-200 pl-2 space-y-1" : "space-y-1"}>
+      {nodes.map((node) => {
+        const count = getCount ? getCount(new Set(getSectionBlockIds(node))) : null
+        return (
+          <li key={node.id}>
+            <button
+              onClick={() => onSelect(node)}
+              className="w-full flex items-center justify-between gap-2 px-2 py-1 text-left text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+              title={node.text}
+            >
+              <span className={`truncate ${depth === 0 ? "font-semibold text-gray-900" : ""}`}>
+                {node.text}
+              </span>
+              {count !== null && count > 0 && (
+                <span className="flex-shrink-0 px-2 py-0.5 text-xs font-medium bg-indigo-100 text-indigo-800 rounded">
+                  {count}
+                </span>
+              )}
+            </button>
+            {node.children.length > 0 && renderNodes(node.children, depth + 1)}
+          </li>
+        )
+      })}
+    </ul>
+  )
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">{title}</h4>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="text-xs text-gray-600 hover:text-gray-900"
+        >
+          {collapsed ? "Show" : "Hide"}
+        </button>
+      </div>
+      {!collapsed && renderNodes(outline, 0)}
+    </div>
+  )
+}
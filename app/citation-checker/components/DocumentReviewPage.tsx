@@ -1,18 +1,28 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import Link from "next/link"
 import { useRouter } from "next/navigation"
-import { ContentParagraph, Citation, AgentVerdict, ValidationVerdict } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, getCitationRiskLevel } from "@/lib/citation-identification/format-helpers"
+import { ContentParagraph, Citation, AgentVerdict, ValidationVerdict, CitationRecommendation } from "@/types/citation-json"
+import { isNewFormatCitationValidation, getCitationRiskLevel, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
+import { applyRecommendation } from "@/lib/citation-identification/bluebook-lint"
 import { getCitationStatusColor, manualReviewColors, badgeStyles, cn } from "@/lib/styles"
+import { buildDocumentOutline } from "@/lib/document-parser/outline"
+import { DocumentOutline } from "./DocumentOutline"
 
 interface DocumentReviewPageProps {
   fileId: string
   checkId?: string
 }
 
+// Structural regions separated by the parser; citations are not identified in them by default
+const STRUCTURAL_BLOCK_LABELS: Partial<Record<ContentParagraph["type"], string>> = {
+  caption: "Caption",
+  tableOfAuthorities: "Table of Authorities",
+  signatureBlock: "Signature Block",
+  certificateOfService: "Certificate of Service",
+}
+
 interface ParagraphWithCitations {
   paragraph: ContentParagraph
   citations: Citation[]
@@ -38,6 +48,7 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
   const [editingParagraph, setEditingParagraph] = useState<{ paragraphId: string; text: string; citations: Citation[] } | null>(null)
   const [editText, setEditText] = useState<string>("")
   const [savingEdit, setSavingEdit] = useState(false)
+  const [applyingRecommendation, setApplyingRecommendation] = useState<string | null>(null)
   const [editingNotes, setEditingNotes] = useState<{ paragraphId: string; notes: string } | null>(null)
   const [notesText, setNotesText] = useState<string>("")
   const [savingNotes, setSavingNotes] = useState(false)
@@ -45,6 +56,9 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
   const [showDevSection, setShowDevSection] = useState(false)
   const [jsonData, setJsonData] = useState<any>(null)
 
+  // Nested heading outline for navigation
+  const outline = useMemo(() => buildDocumentOutline(paragraphs.map(p => p.paragraph)), [paragraphs])
+
   useEffect(() => {
     const loadDocument = async () => {
       try {
@@ -462,6 +476,76 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
     })
   }
 
+  // Save paragraph text through the edit route, which re-identifies and revalidates its citations,
+  // then reload the document
+  const submitParagraphEdit = async (
+    paragraphId: string,
+    paragraphText: string,
+    editedCitations?: Array<{ citationId: string; citationText: string }>
+  ) => {
+    const res = await fetch(
+      `/api/citation-checker/checks/${checkId}/paragraphs/${paragraphId}/edit`,
+      {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          paragraphText,
+          editedCitations,
+        }),
+      }
+    )
+
+    if (!res.ok) {
+      const errorData = await res.json()
+      throw new Error(errorData.error || "Failed to save edit")
+    }
+
+    const data = await res.json()
+
+    // Show success message with info about re-identification
+    if (data.newCitations && data.newCitations.length > 0) {
+      console.log(`Re-identified ${data.newCitations.length} citation(s) in paragraph`)
+    }
+    if (data.removedCitations && data.removedCitations.length > 0) {
+      console.log(`Removed ${data.removedCitations.length} old citation(s)`)
+    }
+
+    // Reload document to get updated data
+    const checkRes = await fetch(`/api/citation-checker/checks/${checkId}`)
+    if (checkRes.ok) {
+      const checkData = await checkRes.json()
+      if (checkData.jsonData?.document) {
+        const document = checkData.jsonData.document
+        const content = document.content || []
+        const citations = document.citations || []
+
+        const paragraphsWithCitations: ParagraphWithCitations[] = content.map((para: ContentParagraph) => {
+          const citationIds = new Set<string>()
+          const citationMarkerRegex = /\[CITATION:([^\]]+)\]/g
+          let match
+          while ((match = citationMarkerRegex.exec(para.text)) !== null) {
+            citationIds.add(match[1])
+          }
+
+          const paraCitations = citations.filter((cit: Citation) => 
+            citationIds.has(cit.id)
+          )
+
+          return {
+            paragraph: para,
+            citations: paraCitations,
+          }
+        })
+
+        setParagraphs(paragraphsWithCitations)
+      }
+    }
+
+    return data
+  }
+
   const handleSaveEdit = async () => {
     if (!checkId || !editingParagraph) return
 
@@ -491,68 +575,12 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
       // If no markers found but citations exist, the user may have removed markers
       // In that case, we'll save the paragraph text as-is (citations may need re-identification)
       
-      const updatedParagraphText = editText
-
-      const res = await fetch(
-        `/api/citation-checker/checks/${checkId}/paragraphs/${editingParagraph.paragraphId}/edit`,
-        {
-          method: "PATCH",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            paragraphText: updatedParagraphText,
-            editedCitations: editedCitations.length > 0 ? editedCitations : undefined,
-          }),
-        }
+      const data = await submitParagraphEdit(
+        editingParagraph.paragraphId,
+        editText,
+        editedCitations.length > 0 ? editedCitations : undefined
       )
 
-      if (!res.ok) {
-        const errorData = await res.json()
-        throw new Error(errorData.error || "Failed to save edit")
-      }
-
-      const data = await res.json()
-
-      // Show success message with info about re-identification
-      if (data.newCitations && data.newCitations.length > 0) {
-        console.log(`Re-identified ${data.newCitations.length} citation(s) in paragraph`)
-      }
-      if (data.removedCitations && data.removedCitations.length > 0) {
-        console.log(`Removed ${data.removedCitations.length} old citation(s)`)
-      }
-
-      // Reload document to get updated data
-      const checkRes = await fetch(`/api/citation-checker/checks/${checkId}`)
-      if (checkRes.ok) {
-        const checkData = await checkRes.json()
-        if (checkData.jsonData?.document) {
-          const document = checkData.jsonData.document
-          const content = document.content || []
-          const citations = document.citations || []
-
-          const paragraphsWithCitations: ParagraphWithCitations[] = content.map((para: ContentParagraph) => {
-            const citationIds = new Set<string>()
-            const citationMarkerRegex = /\[CITATION:([^\]]+)\]/g
-            let match
-            while ((match = citationMarkerRegex.exec(para.text)) !== null) {
-              citationIds.add(match[1])
-            }
-
-            const paraCitations = citations.filter((cit: Citation) => 
-              citationIds.has(cit.id)
-            )
-
-            return {
-              paragraph: para,
-              citations: paraCitations,
-            }
-          })
-
-          setParagraphs(paragraphsWithCitations)
-        }
-      }
-
       setEditingParagraph(null)
       setEditText("")
       
@@ -575,6 +603,31 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
     setEditText("")
   }
 
+  // Apply a Bluebook style correction to the citation's text in the paragraph
+  const handleApplyRecommendation = async (
+    paragraph: ContentParagraph,
+    citation: Citation,
+    recommendation: CitationRecommendation
+  ) => {
+    if (!checkId) return
+
+    const paragraphText = applyRecommendation(paragraph.text, citation.id, recommendation)
+    if (paragraphText === null) {
+      alert(`"${recommendation.original}" was not found in the citation; edit the paragraph instead.`)
+      return
+    }
+
+    setApplyingRecommendation(citation.id)
+    try {
+      await submitParagraphEdit(paragraph.id, paragraphText)
+    } catch (err) {
+      console.error("Error applying correction:", err)
+      alert(err instanceof Error ? err.message : "Failed to apply correction")
+    } finally {
+      setApplyingRecommendation(null)
+    }
+  }
+
   const handleEditNotes = (paraWithCitations: ParagraphWithCitations) => {
     setNotesText(paraWithCitations.paragraph.notes || "")
     setEditingNotes({
@@ -877,18 +930,32 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
         )
       })()}
 
+      {/* Document Outline */}
+      <DocumentOutline
+        outline={outline}
+        onSelect={(node) => {
+          document.getElementById(`block-${node.id}`)?.scrollIntoView({ behavior: "smooth", block: "start" })
+        }}
+        getCount={(blockIds) => paragraphs
+          .filter(p => blockIds.has(p.paragraph.id))
+          .reduce((sum, p) => sum + p.citations.length, 0)}
+      />
+
       {/* Document Paragraphs */}
       <div className="space-y-4">
         {paragraphs.map((paraWithCitations, index) => {
           const indicators = getParagraphIndicators(paraWithCitations)
           const isHeading = paraWithCitations.paragraph.type === "heading"
+          const isFootnote = paraWithCitations.paragraph.type === "footnote"
+          const structuralLabel = STRUCTURAL_BLOCK_LABELS[paraWithCitations.paragraph.type]
 
           return (
             <div
               key={paraWithCitations.paragraph.id}
+              id={`block-${paraWithCitations.paragraph.id}`}
               className={`p-4 border border-gray-200 rounded-lg bg-white hover:border-gray-300 transition-colors ${
                 isHeading ? "bg-gray-50" : ""
-              }`}
+              } ${isFootnote ? "ml-8 border-dashed" : ""} ${structuralLabel ? "opacity-75" : ""}`}
             >
               <div className="flex items-start gap-4">
                 {/* Indicators Column */}
@@ -925,6 +992,20 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
                           Heading {paraWithCitations.paragraph.level || 1}
                         </span>
                       )}
+                      {structuralLabel && (
+                        <span
+                          className="px-2 py-0.5 text-xs font-medium bg-amber-100 text-amber-800 rounded"
+                          title="Skipped during citation identification"
+                        >
+                          {structuralLabel}
+                        </span>
+                      )}
+                      {isFootnote && (
+                        <span className="px-2 py-0.5 text-xs font-medium bg-slate-100 text-slate-700 rounded">
+                          {paraWithCitations.paragraph.noteKind === "endnote" ? "Endnote" : "Footnote"} {paraWithCitations.paragraph.footnoteNumber}
+                          {paraWithCitations.paragraph.anchorParagraphId && ` → ${paraWithCitations.paragraph.anchorParagraphId}`}
+                        </span>
+                      )}
                       {paraWithCitations.citations.length > 0 && (
                         <span className="px-2 py-0.5 text-xs font-medium bg-indigo-100 text-indigo-800 rounded">
                           {paraWithCitations.citations.length} citation{paraWithCitations.citations.length !== 1 ? 's' : ''}
@@ -1057,6 +1138,14 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
                                 <span className="text-xs font-mono text-gray-500 flex-shrink-0">
                                   {citation.id}:
                                 </span>
+                                {citation.signal && (
+                                  <span
+                                    className="px-1.5 py-0.5 text-xs italic rounded bg-gray-200 text-gray-700 flex-shrink-0"
+                                    title="Introductory signal"
+                                  >
+                                    {citation.signal}
+                                  </span>
+                                )}
                                 <span className="text-xs text-gray-700 flex-1 min-w-0 truncate">
                                   {citation.citationText}
                                 </span>
@@ -1114,6 +1203,40 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
                                 )}
                               </div>
 
+                              {citation.parenthetical && (
+                                <p className="px-3 pb-2 -mt-1 text-xs text-gray-600">
+                                  <span className="font-medium text-gray-700">Parenthetical:</span> ({citation.parenthetical})
+                                </p>
+                              )}
+
+                              {citation.recommendations?.some(recommendation => recommendation.rule) && (
+                                <div className="px-3 pb-2 space-y-1">
+                                  {citation.recommendations.filter(recommendation => recommendation.rule).map((recommendation, index) => (
+                                    <div key={index} className="flex items-center gap-2 text-xs">
+                                      <span className="px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 flex-shrink-0">
+                                        Bluebook
+                                      </span>
+                                      <span className="text-gray-700 flex-1 min-w-0">
+                                        {recommendation.reason}
+                                        {recommendation.replacement !== undefined && (
+                                          <span className="text-gray-500"> ({recommendation.original} → {recommendation.replacement})</span>
+                                        )}
+                                      </span>
+                                      {recommendation.replacement !== undefined && (
+                                        <button
+                                          onClick={() => handleApplyRecommendation(paraWithCitations.paragraph, citation, recommendation)}
+                                          disabled={applyingRecommendation !== null}
+                                          className="px-2 py-0.5 font-medium rounded bg-amber-100 text-amber-800 hover:bg-amber-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex-shrink-0"
+                                          title={`Change to: ${recommendation.citationText}`}
+                                        >
+                                          {applyingRecommendation === citation.id ? "..." : "Apply"}
+                                        </button>
+                                      )}
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+
                               {/* Expandable System Review Details */}
                               {isExpanded && (
                                 <div className="px-3 py-3 bg-white border-t border-gray-200 space-y-3">
@@ -1313,7 +1436,7 @@ export function DocumentReviewPage({ fileId, checkId: initialCheckId }: Document
                                                     </div>
                                                   )}
                                                   <div className="mt-1 text-xs text-gray-500">
-                                                    Model: {agent.model} • {new Date(agent.timestamp).toLocaleString()}
+                                                    Model: {agent.model}{agent.fallback_from ? ` (no API key for ${agent.fallback_from})` : ""} • {new Date(agent.timestamp).toLocaleString()}
                                                   </div>
                                                 </div>
                                               ))}
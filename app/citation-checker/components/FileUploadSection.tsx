@@ -57,11 +57,11 @@ export function FileUploadSection({ onUploadComplete, onCancel }: FileUploadSect
     <div className="space-y-4">
       <div>
         <label className="block text-sm font-medium text-black mb-2">
-          Upload New Word Document
+          Upload New Word or PDF Document
         </label>
         <input
           type="file"
-          accept=".doc,.docx"
+          accept=".doc,.docx,.pdf"
           onChange={handleFileChange}
           className="block w-full text-sm text-black file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-indigo-50 file:text-indigo-700 hover:file:bg-indigo-100"
         />
@@ -4,8 +4,7 @@ import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { ContextPanel } from "./ContextPanel"
 import { CitationValidation, ValidationVerdict, Tier3FinalStatus } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, isNewFormatTier3Result } from "@/lib/citation-identification/format-helpers"
+import { isNewFormatCitationValidation, isNewFormatTier3Result, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 
 interface ReviewDiscrepanciesPageProps {
   fileId: string
@@ -359,6 +358,9 @@ export function ReviewDiscrepanciesPage({ fileId }: ReviewDiscrepanciesPageProps
                             citation.citationType === 'statute' ? 'bg-green-100 text-green-800' :
                             citation.citationType === 'regulation' ? 'bg-purple-100 text-purple-800' :
                             citation.citationType === 'rule' ? 'bg-orange-100 text-orange-800' :
+                            citation.citationType === 'constitution' ? 'bg-teal-100 text-teal-800' :
+                            citation.citationType === 'sessionLaw' ? 'bg-lime-100 text-lime-800' :
+                            citation.citationType === 'secondary' ? 'bg-pink-100 text-pink-800' :
                             'bg-gray-100 text-gray-800'
                           }`}>
                             {citation.citationType?.toUpperCase() || 'UNKNOWN'}
@@ -527,7 +529,7 @@ export function ReviewDiscrepanciesPage({ fileId }: ReviewDiscrepanciesPageProps
                               </div>
                             )}
                             <div className="mt-1 text-xs text-gray-500">
-                              Model: {agent.model} • {new Date(agent.timestamp).toLocaleString()}
+                              Model: {agent.model}{agent.fallback_from ? ` (no API key for ${agent.fallback_from})` : ""} • {new Date(agent.timestamp).toLocaleString()}
                             </div>
                           </div>
                         )
@@ -638,7 +640,7 @@ export function ReviewDiscrepanciesPage({ fileId }: ReviewDiscrepanciesPageProps
                                     </div>
                                   )}
                                   <div className="mt-1 text-xs text-gray-500">
-                                    Model: {agent.model} • {new Date(agent.timestamp).toLocaleString()}
+                                    Model: {agent.model}{agent.fallback_from ? ` (no API key for ${agent.fallback_from})` : ""} • {new Date(agent.timestamp).toLocaleString()}
                                   </div>
                                 </div>
                               ))}
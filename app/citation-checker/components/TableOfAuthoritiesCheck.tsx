@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { TableOfAuthoritiesCheck as TableOfAuthoritiesCheckResult, ToaField } from "@/lib/citation-identification/toa-check"
+
+interface TableOfAuthoritiesCheckProps {
+  result: TableOfAuthoritiesCheckResult
+  onSelectCitation: (citationId: string) => void
+}
+
+const FIELD_LABELS: Record<ToaField, string> = {
+  caseName: "Case name",
+  volume: "Volume",
+  reporter: "Reporter",
+  page: "Page",
+  title: "Title",
+  section: "Section",
+}
+
+function formatPages(pages: string[]): string {
+  return pages.length > 0 ? pages.join(", ") : "no pages listed"
+}
+
+export function TableOfAuthoritiesCheck({ result, onSelectCitation }: TableOfAuthoritiesCheckProps) {
+  const [collapsed, setCollapsed] = useState(false)
+
+  if (!result.hasTableOfAuthorities) {
+    return null
+  }
+
+  const issueCount = result.missingFromToa.length + result.neverCited.length + result.mismatches.length
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">Table of Authorities Check</h4>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="text-xs text-gray-600 hover:text-gray-900"
+        >
+          {collapsed ? "Show" : "Hide"}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-700">
+        {result.entryCount} TOA entr{result.entryCount !== 1 ? "ies" : "y"}, {result.matchedCount} matched.{" "}
+        {issueCount === 0
+          ? "The table of authorities agrees with the citations in the body."
+          : `${issueCount} issue${issueCount !== 1 ? "s" : ""} found.`}
+      </p>
+
+      {!collapsed && issueCount > 0 && (
+        <div className="mt-3 space-y-4">
+          {result.missingFromToa.length > 0 && (
+            <div>
+              <h5 className="text-xs font-semibold text-red-800 uppercase tracking-wide mb-1">
+                Cited in the body but missing from the TOA ({result.missingFromToa.length})
+              </h5>
+              <ul className="space-y-1">
+                {result.missingFromToa.map((ref) => (
+                  <li key={ref.citationIds[0]} className="flex items-center justify-between gap-2 p-2 bg-red-50 border border-red-200 rounded text-sm">
+                    <span className="text-gray-900">{ref.citationText}</span>
+                    <button
+                      onClick={() => onSelectCitation(ref.citationIds[0])}
+                      className="flex-shrink-0 text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                    >
+                      {ref.citationIds.length > 1 ? `${ref.citationIds.length} citations` : "View citation"}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.neverCited.length > 0 && (
+            <div>
+              <h5 className="text-xs font-semibold text-yellow-800 uppercase tracking-wide mb-1">
+                Listed in the TOA but never cited ({result.neverCited.length})
+              </h5>
+              <ul className="space-y-1">
+                {result.neverCited.map((entry) => (
+                  <li key={entry.blockIds.join("-")} className="p-2 bg-yellow-50 border border-yellow-200 rounded text-sm">
+                    <span className="text-gray-900">{entry.text}</span>
+                    <span className="ml-2 text-xs text-gray-600">
+                      {entry.category ? `${entry.category} · ` : ""}{formatPages(entry.pages)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.mismatches.length > 0 && (
+            <div>
+              <h5 className="text-xs font-semibold text-orange-800 uppercase tracking-wide mb-1">
+                TOA and body disagree ({result.mismatches.length})
+              </h5>
+              <ul className="space-y-1">
+                {result.mismatches.map((mismatch) => (
+                  <li key={mismatch.entry.blockIds.join("-")} className="p-2 bg-orange-50 border border-orange-200 rounded text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-gray-900">{mismatch.entry.text}</span>
+                      <button
+                        onClick={() => onSelectCitation(mismatch.citationIds[0])}
+                        className="flex-shrink-0 text-xs text-blue-600 hover:text-blue-800 hover:underline"
+                      >
+                        View citation
+                      </button>
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {mismatch.differences.map((difference) => (
+                        <li key={difference.field} className="text-xs text-gray-700">
+                          <span className="font-medium">{FIELD_LABELS[difference.field]}:</span>{" "}
+                          TOA has &quot;{difference.toa}&quot;, body has &quot;{difference.body}&quot;
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
+import { BenchmarkRunScore } from "@/types/citation-json"
+import { formatRate } from "@/lib/citation-identification/benchmark"
 
 interface TestRunResult {
   id: string
@@ -60,6 +62,7 @@ interface TestRunData {
   }
   agentConsistency?: AgentConsistency[]
   tier3AgentConsistency?: AgentConsistency[]
+  benchmark?: BenchmarkRunScore[] // Runs scored against the file's ground-truth labels
 }
 
 interface QueueStatus {
@@ -528,6 +531,47 @@ export function TestRunResultsPage({ fileId, testRunId }: TestRunResultsPageProp
         </table>
       </div>
 
+      {/* Benchmark Accuracy */}
+      {data.benchmark && data.benchmark.length > 0 && (
+        <div className="p-6 bg-white border border-gray-200 rounded-lg">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Benchmark Accuracy
+          </h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Detection of citations labeled fabricated or mis-cited, scored against {data.benchmark[0].labelCount} labels.
+            A citation counts as flagged when it is not assessed as low risk.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  {["Run #", "Precision", "Recall", "F1", "Tier 2 F1", "Tier 3 F1", "Brier Score"].map((heading) => (
+                    <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {heading}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {data.benchmark.map((score) => (
+                  <tr key={score.id}>
+                    <td className="px-4 py-2 text-sm font-medium text-gray-900">Run {score.runNumber ?? score.version}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{formatRate(score.metrics.tiers.final.precision)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-900">{formatRate(score.metrics.tiers.final.recall)}</td>
+                    <td className="px-4 py-2 text-sm font-semibold text-gray-900">{formatRate(score.metrics.tiers.final.f1)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatRate(score.metrics.tiers.tier2.f1)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">{formatRate(score.metrics.tiers.tier3.f1)}</td>
+                    <td className="px-4 py-2 text-sm text-gray-600">
+                      {score.metrics.tiers.final.brierScore === null ? "—" : score.metrics.tiers.final.brierScore.toFixed(3)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Comparison Summary */}
       {data.runs.length > 1 && (
         <>
@@ -813,6 +857,12 @@ export function TestRunResultsPage({ fileId, testRunId }: TestRunResultsPageProp
         >
           Run Another Test
         </button>
+        <button
+          onClick={() => router.push(`/citation-checker/${fileId}/benchmark`)}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 text-sm"
+        >
+          Benchmark Labels
+        </button>
         <button
           onClick={() => window.open(`/api/citation-checker/files/${fileId}/heavy-analysis/compare?testRunId=${testRunId}`, '_blank')}
           className="px-4 py-2 bg-indigo-600 text-white rounded-md hover:bg-indigo-700 text-sm"
@@ -140,6 +140,12 @@ export function TestRunSetupPage({ fileId }: TestRunSetupPageProps) {
         >
           Cancel
         </button>
+        <Link
+          href={`/citation-checker/${fileId}/benchmark`}
+          className="px-6 py-3 text-purple-600 hover:text-purple-800"
+        >
+          Benchmark Labels
+        </Link>
       </div>
 
       {/* Previous Test Runs */}
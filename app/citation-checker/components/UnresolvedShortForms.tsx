@@ -0,0 +1,82 @@
+"use client"
+
+import { ShortFormKind, ShortFormResolution } from "@/types/citation-json"
+
+interface ShortFormCitation {
+  id: string
+  citationText: string
+  paragraphId?: string
+  footnoteLabel?: string
+  shortForm?: ShortFormResolution
+}
+
+interface UnresolvedShortFormsProps {
+  citations: ShortFormCitation[]
+  getCitationText: (citationId: string) => string | undefined
+  onSelectCitation: (citationId: string) => void
+}
+
+const KIND_LABELS: Record<ShortFormKind, string> = {
+  id: "Id.",
+  supra: "Supra",
+  shortCase: "Short cite",
+}
+
+export function UnresolvedShortForms({ citations, getCitationText, onSelectCitation }: UnresolvedShortFormsProps) {
+  const unresolved = citations.filter((c) => c.shortForm && c.shortForm.status !== "resolved")
+
+  if (unresolved.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="p-4 bg-white border border-gray-200 rounded-lg">
+      <h4 className="text-sm font-semibold text-gray-900 mb-2">Unresolved Short Forms ({unresolved.length})</h4>
+      <p className="text-sm text-gray-700 mb-3">
+        These short forms could not be tied to a single earlier full citation, so they have no verdict of their own.
+      </p>
+      <ul className="space-y-1">
+        {unresolved.map((citation) => {
+          const shortForm = citation.shortForm!
+          return (
+            <li
+              key={citation.id}
+              className={`p-2 border rounded text-sm ${
+                shortForm.status === "orphaned" ? "bg-red-50 border-red-200" : "bg-yellow-50 border-yellow-200"
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-gray-100 text-gray-700 flex-shrink-0">
+                  {KIND_LABELS[shortForm.kind]}
+                </span>
+                <span className="text-gray-900">{citation.citationText}</span>
+                <span className="ml-auto text-xs text-gray-600 flex-shrink-0">
+                  {citation.footnoteLabel || citation.paragraphId}
+                </span>
+              </div>
+              <p className="mt-1 text-xs text-gray-700">
+                {shortForm.status === "orphaned"
+                  ? "No earlier full citation matches this short form."
+                  : "More than one earlier citation could be meant:"}
+              </p>
+              {shortForm.candidateIds && shortForm.candidateIds.length > 0 && (
+                <ul className="mt-1 space-y-0.5">
+                  {shortForm.candidateIds.map((candidateId) => (
+                    <li key={candidateId}>
+                      <button
+                        onClick={() => onSelectCitation(candidateId)}
+                        className="text-xs text-blue-600 hover:text-blue-800 hover:underline text-left"
+                      >
+                        {getCitationText(candidateId) || candidateId}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -5,8 +5,7 @@ import { useRouter } from "next/navigation"
 import { CitationList } from "./CitationList"
 import { ContextPanel } from "./ContextPanel"
 import { CitationValidation, ValidationVerdict } from "@/types/citation-json"
-import { getTier3FinalStatus } from "@/lib/citation-identification/validation"
-import { isNewFormatCitationValidation, calculateRiskStatistics, getCitationRiskLevel } from "@/lib/citation-identification/format-helpers"
+import { isNewFormatCitationValidation, calculateRiskStatistics, getCitationRiskLevel, getTier3FinalStatus } from "@/lib/citation-identification/format-helpers"
 import { ValidationSummary } from "./ValidationSummary"
 import { buttonStyles } from "@/lib/styles"
 
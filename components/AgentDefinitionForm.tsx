@@ -0,0 +1,257 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { buttonStyles, inputStyles, labelStyles, alertStyles, cn } from "@/lib/styles"
+import { MODEL_PRICING } from "@/lib/citation-identification/model-pricing"
+import { PROMPT_TEMPLATE_VARIABLES } from "@/lib/citation-identification/prompt-templates"
+
+interface AgentDefinition {
+  id: string
+  name: string
+  tier: string
+  promptTemplate: string | null
+  provider: string | null
+  model: string
+  temperature: number
+  version: number
+  enabled: boolean
+}
+
+export function AgentDefinitionForm({ definition }: { definition?: AgentDefinition }) {
+  const router = useRouter()
+  const [name, setName] = useState(definition?.name || "")
+  const [tier, setTier] = useState(definition?.tier || "tier2")
+  const [provider, setProvider] = useState(definition?.provider || "")
+  const [model, setModel] = useState(definition?.model || "claude-haiku-4-5-20251001")
+  const [temperature, setTemperature] = useState(String(definition?.temperature ?? 0.4))
+  const [promptTemplate, setPromptTemplate] = useState(definition?.promptTemplate || "")
+  const [enabled, setEnabled] = useState(definition?.enabled ?? true)
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch("/api/admin/agent-definitions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          name,
+          tier,
+          provider: provider || null,
+          model,
+          temperature: parseFloat(temperature),
+          promptTemplate: promptTemplate.trim() ? promptTemplate : null,
+        }),
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to save agent")
+      }
+
+      setMessage({ type: "success", text: `Saved ${data.name} version ${data.version}` })
+      router.push(`/admin/agents/${data.id}`)
+      router.refresh()
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to save agent",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleEnabled = async () => {
+    if (!definition) return
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/admin/agent-definitions/${definition.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ enabled: !enabled }),
+      })
+
+      if (!res.ok) {
+        throw new Error("Failed to update agent")
+      }
+
+      setEnabled(!enabled)
+      router.refresh()
+    } catch (error) {
+      setMessage({ type: "error", text: "Failed to update agent" })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="name" className={labelStyles.required}>
+          Name <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          id="name"
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={!!definition}
+          className={cn(inputStyles.base, definition && "bg-gray-50 text-gray-500")}
+          placeholder="citation_authority_validator_v2"
+        />
+        <p className="mt-1 text-sm text-gray-500">Recorded on every verdict; lowercase letters, digits and underscores</p>
+      </div>
+
+      <div>
+        <label htmlFor="tier" className={labelStyles.base}>
+          Tier
+        </label>
+        <select
+          id="tier"
+          value={tier}
+          onChange={(e) => setTier(e.target.value)}
+          disabled={!!definition}
+          className={cn(inputStyles.base, definition && "bg-gray-50 text-gray-500")}
+        >
+          <option value="tier2">Tier 2 (scores 1-10)</option>
+          <option value="tier3">Tier 3 (risk levels)</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="provider" className={labelStyles.base}>
+          Provider
+        </label>
+        <select
+          id="provider"
+          value={provider}
+          onChange={(e) => setProvider(e.target.value)}
+          className={inputStyles.base}
+        >
+          <option value="">From the model name</option>
+          <option value="anthropic">Anthropic</option>
+          <option value="openai">OpenAI</option>
+          <option value="gemini">Gemini</option>
+          <option value="grok">Grok</option>
+        </select>
+      </div>
+
+      <div>
+        <label htmlFor="model" className={labelStyles.required}>
+          Model <span className="text-red-500">*</span>
+        </label>
+        <input
+          type="text"
+          id="model"
+          required
+          list="agent-models"
+          value={model}
+          onChange={(e) => setModel(e.target.value)}
+          className={inputStyles.base}
+        />
+        <datalist id="agent-models">
+          {Object.keys(MODEL_PRICING).map((modelName) => (
+            <option key={modelName} value={modelName} />
+          ))}
+        </datalist>
+      </div>
+
+      <div>
+        <label htmlFor="temperature" className={labelStyles.base}>
+          Temperature
+        </label>
+        <input
+          type="number"
+          id="temperature"
+          min={0}
+          max={2}
+          step={0.1}
+          value={temperature}
+          onChange={(e) => setTemperature(e.target.value)}
+          className={inputStyles.base}
+        />
+      </div>
+
+      <div>
+        <label htmlFor="promptTemplate" className={labelStyles.base}>
+          Prompt Template
+        </label>
+        <textarea
+          id="promptTemplate"
+          rows={16}
+          value={promptTemplate}
+          onChange={(e) => setPromptTemplate(e.target.value)}
+          className={cn(inputStyles.base, "font-mono text-sm")}
+          placeholder="Leave empty to use the built-in prompt for this agent"
+        />
+        <div className="mt-2 text-sm text-gray-500">
+          <p className="mb-1">
+            Variables:{" "}
+            {PROMPT_TEMPLATE_VARIABLES.map((variable, index) => (
+              <span key={variable.name} title={variable.description}>
+                {index > 0 && ", "}
+                <code className="bg-gray-100 px-1 rounded">{`{{${variable.name}}}`}</code>
+              </span>
+            ))}
+          </p>
+          <p>
+            {tier === "tier2"
+              ? "The response must give SCORE: [1-10] and REASONING: [...] lines."
+              : "The response must give RISK_LEVEL: LOW_RISK | MODERATE_RISK | NEEDS_ADDITIONAL_REVIEW, REASONING: [...] and CASE_LINK: [URL or NOT_FOUND] lines."}
+          </p>
+        </div>
+      </div>
+
+      {message && (
+        <div className={message.type === "success" ? alertStyles.success : alertStyles.error}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex justify-between">
+        <div>
+          {definition && (
+            <button
+              type="button"
+              onClick={handleToggleEnabled}
+              disabled={loading}
+              className={enabled ? buttonStyles.danger : buttonStyles.secondary}
+            >
+              {enabled ? "Disable Agent" : "Enable Agent"}
+            </button>
+          )}
+        </div>
+        <div className="flex space-x-4">
+          <button
+            type="button"
+            onClick={() => router.push("/admin/agents")}
+            className={buttonStyles.secondary}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={loading}
+            className={buttonStyles.primary}
+          >
+            {loading ? "Saving..." : definition ? `Save as Version ${definition.version + 1}` : "Create Agent"}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
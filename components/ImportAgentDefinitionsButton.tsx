@@ -0,0 +1,40 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { buttonStyles } from "@/lib/styles"
+
+export function ImportAgentDefinitionsButton() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+
+  const handleImport = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch("/api/admin/agent-definitions/import", {
+        method: "POST",
+      })
+
+      if (!res.ok) {
+        throw new Error("Failed to import built-in agents")
+      }
+
+      router.refresh()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to import built-in agents")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={handleImport}
+      disabled={loading}
+      className={buttonStyles.secondary}
+    >
+      {loading ? "Importing..." : "Import Built-in Agents"}
+    </button>
+  )
+}
@@ -0,0 +1,105 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { buttonStyles, alertStyles } from "@/lib/styles"
+
+interface ValidationCacheControlsProps {
+  enabled: boolean
+  ttlDays: number
+  total: number
+  expired: number
+  stale: number
+  hits: number
+}
+
+export function ValidationCacheControls({ enabled, ttlDays, total, expired, stale, hits }: ValidationCacheControlsProps) {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+
+  const handleInvalidate = async (staleOnly: boolean) => {
+    const confirmMessage = staleOnly
+      ? "Delete expired entries and entries from agents or models no longer in use?"
+      : "Delete every cached validation result? The next document citing each authority will run the panel again."
+    if (!confirm(confirmMessage)) return
+
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const res = await fetch(`/api/admin/validation-cache${staleOnly ? "?stale=true" : ""}`, {
+        method: "DELETE",
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        throw new Error(data.error || "Failed to clear the validation cache")
+      }
+
+      setMessage({ type: "success", text: `Deleted ${data.deleted} cached ${data.deleted === 1 ? "result" : "results"}` })
+      router.refresh()
+    } catch (error) {
+      setMessage({
+        type: "error",
+        text: error instanceof Error ? error.message : "Failed to clear the validation cache",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-black mb-4">
+        {enabled
+          ? `Tier 2 and Tier 3 results are reused for ${ttlDays} days when another document cites the same authority. Results from agents or models no longer in use are never reused.`
+          : "The cache is off (VALIDATION_CACHE_TTL_DAYS is 0), so every citation runs the panel."}
+      </p>
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Entries</dt>
+          <dd className="text-2xl font-semibold text-black">{total}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Hits</dt>
+          <dd className="text-2xl font-semibold text-black">{hits}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Stale</dt>
+          <dd className="text-2xl font-semibold text-black">{stale}</dd>
+        </div>
+        <div>
+          <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">Expired</dt>
+          <dd className="text-2xl font-semibold text-black">{expired}</dd>
+        </div>
+      </dl>
+
+      {message && (
+        <div className={`mb-4 ${message.type === "success" ? alertStyles.success : alertStyles.error}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="flex space-x-4">
+        <button
+          type="button"
+          onClick={() => handleInvalidate(true)}
+          disabled={loading || stale + expired === 0}
+          className={buttonStyles.secondary}
+        >
+          Clear Stale Entries
+        </button>
+        <button
+          type="button"
+          onClick={() => handleInvalidate(false)}
+          disabled={loading || total === 0}
+          className={buttonStyles.danger}
+        >
+          Clear All
+        </button>
+      </div>
+    </div>
+  )
+}
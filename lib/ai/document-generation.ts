@@ -3,11 +3,8 @@
  * Handles AI chat interactions for document creation
  */
 
-import Anthropic from '@anthropic-ai/sdk'
-import retry from 'async-retry'
-import type OpenAI from 'openai'
-import type { GoogleGenerativeAI } from '@google/generative-ai'
-import { extractTokens, calculateCost, TokenUsage, Provider } from '@/lib/citation-identification/token-tracking'
+import { calculateCost, TokenUsage, Provider } from '@/lib/citation-identification/token-tracking'
+import { chat, extractJSONText, LLMMessage } from '@/lib/llm'
 
 // Default system prompt for document editing
 const DEFAULT_EDIT_SYSTEM_PROMPT = `You are a legal document writing assistant. Your task is to help create and edit legal documents such as briefs, motions, memoranda, and other legal filings.
@@ -174,53 +171,7 @@ export function buildWizardPrompt(wizardData: WizardData): string {
   return prompt
 }
 
-// Retry configuration
-const RETRY_CONFIG = {
-  retries: 3,
-  minTimeout: 1000,
-  maxTimeout: 10000,
-  factor: 2,
-  randomize: true,
-}
-
-/**
- * Check if an error is retryable
- */
-function isRetryableError(error: any): boolean {
-  if (error?.status) {
-    const status = error.status
-    if (status === 429 || (status >= 500 && status < 600)) {
-      return true
-    }
-    if (status >= 400 && status < 500) {
-      return false
-    }
-  }
-  
-  if (error?.code) {
-    const code = error.code.toLowerCase()
-    if (code === 'econnreset' || code === 'etimedout' || code === 'econnrefused' || 
-        code === 'enotfound' || code === 'timeout' || code === 'network_error') {
-      return true
-    }
-  }
-  
-  const message = error?.message?.toLowerCase() || ''
-  if (message.includes('rate limit') || 
-      message.includes('timeout') || 
-      message.includes('network') ||
-      message.includes('server error') ||
-      message.includes('temporary')) {
-    return true
-  }
-  
-  return true
-}
-
-export interface ChatMessage {
-  role: 'user' | 'assistant'
-  content: string
-}
+export type ChatMessage = LLMMessage
 
 export interface DocumentGenerationOptions {
   apiKey: string
@@ -230,6 +181,7 @@ export interface DocumentGenerationOptions {
   maxTokens?: number // Default: 4096
   temperature?: number // Default: 0.7
   mode?: "ask" | "edit" // Default: "edit"
+  signal?: AbortSignal // Cancels the request, e.g. when the client disconnects
 }
 
 export interface DocumentGenerationResult {
@@ -255,8 +207,6 @@ const DEFAULT_MODELS: Record<Provider, string> = {
   grok: 'grok-3-fast',
 }
 
-const GROK_MODELS = ['grok-3-fast-beta', 'grok-3-fast', 'grok-3-fast-latest']
-
 /**
  * Generate or update document using AI chat
  */
@@ -296,230 +246,41 @@ export async function generateDocument(
   }
 
   try {
-    let responseText: string
-    let tokenUsage: TokenUsage | null = null
     let parsedResponse: { explanation?: string; document?: string } | null = null
-    let jsonParseAttempts = 0
-    const maxJsonRetries = 3
-
-    // Build messages array for conversation-based APIs
-    const conversationMessages: Array<{ role: string; content: string }> = []
-    for (const msg of conversationHistory) {
-      conversationMessages.push({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content,
-      })
-    }
-    conversationMessages.push({
+
+    // Build messages array from the conversation so far
+    const messages: LLMMessage[] = conversationHistory.map(msg => ({
+      role: msg.role === 'assistant' ? 'assistant' : 'user',
+      content: msg.content,
+    }))
+    messages.push({
       role: 'user',
       content: userContent,
     })
 
-    // Call appropriate provider
-    if (provider === 'anthropic') {
-      const anthropic = new Anthropic({ apiKey: options.apiKey })
-      const messages: Anthropic.Messages.MessageParam[] = conversationMessages.map(msg => ({
-        role: msg.role as 'user' | 'assistant',
-        content: msg.content,
-      }))
-
-      const message = await retry(
-        async (bail: (error: Error) => void): Promise<Anthropic.Messages.Message> => {
-          try {
-            return await anthropic.messages.create({
-              model,
-              max_tokens: maxTokens,
-              temperature,
-              system: systemPrompt,
-              messages: messages as Anthropic.MessageParam[],
-            })
-          } catch (error: any) {
-            if (!isRetryableError(error)) {
-              bail(error instanceof Error ? error : new Error(String(error)))
-              throw error
-            }
-            throw error
-          }
-        },
-        {
-          ...RETRY_CONFIG,
-          onRetry: (error: Error, attempt: number) => {
-            console.warn(
-              `[DocumentGeneration] Retrying (attempt ${attempt}/${RETRY_CONFIG.retries + 1}):`,
-              error instanceof Error ? error.message : String(error)
-            )
-          },
-        }
-      )
-
-      responseText = message.content
-        .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
-        .map(block => block.text)
-        .join('\n')
-      
-      tokenUsage = extractTokens(message, model, 'anthropic')
-    } else if (provider === 'openai' || provider === 'grok') {
-      const { default: OpenAI } = await import('openai')
-      const baseURL = provider === 'grok' ? 'https://api.x.ai/v1' : undefined
-      const openai = new OpenAI({ apiKey: options.apiKey, baseURL })
-
-      if (provider === 'grok' && !GROK_MODELS.includes(model)) {
-        throw new Error(`Invalid Grok model: ${model}. Valid models: ${GROK_MODELS.join(', ')}`)
-      }
-
-      const isGPT51 = model.startsWith('gpt-5.1')
-      const requestParams: any = {
-        model,
-        temperature,
-        messages: conversationMessages.map(msg => ({
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content,
-        })),
-      }
-
-      // Add system message if provided
-      if (systemPrompt) {
-        requestParams.messages.unshift({
-          role: 'system',
-          content: systemPrompt,
-        })
-      }
-
-      // Use correct parameter name based on model version
-      if (isGPT51) {
-        requestParams.max_completion_tokens = maxTokens
-      } else {
-        requestParams.max_tokens = maxTokens
-      }
-
-      const completion = await retry(
-        async (bail: (error: Error) => void) => {
-          try {
-            return await openai.chat.completions.create(requestParams)
-          } catch (error: any) {
-            if (!isRetryableError(error)) {
-              bail(error instanceof Error ? error : new Error(String(error)))
-              throw error
-            }
-            throw error
-          }
-        },
-        RETRY_CONFIG
-      )
-
-      responseText = completion.choices[0]?.message?.content || ''
-      tokenUsage = extractTokens(completion, model, provider === 'grok' ? 'grok' : 'openai')
-    } else if (provider === 'gemini') {
-      // Gemini doesn't support system messages in the same way, so we'll prepend it to the first user message
-      const { GoogleGenerativeAI } = await import('@google/generative-ai')
-      const genAI = new GoogleGenerativeAI(options.apiKey)
-      
-      // Combine system prompt with conversation for Gemini
-      let fullPrompt = systemPrompt ? `${systemPrompt}\n\n` : ''
-      for (const msg of conversationMessages) {
-        fullPrompt += `${msg.role === 'assistant' ? 'Assistant' : 'User'}: ${msg.content}\n\n`
-      }
-
-      const genModel = genAI.getGenerativeModel({ 
-        model,
-        generationConfig: {
-          maxOutputTokens: maxTokens,
-          temperature,
-        },
-      })
-
-      const result = await retry(
-        async (bail: (error: Error) => void) => {
-          try {
-            return await genModel.generateContent(fullPrompt)
-          } catch (error: any) {
-            if (!isRetryableError(error)) {
-              bail(error instanceof Error ? error : new Error(String(error)))
-              throw error
-            }
-            throw error
-          }
-        },
-        RETRY_CONFIG
-      )
-
-      responseText = result.response.text()
-      const usageMetadata = (result.response as any).usageMetadata
-      tokenUsage = usageMetadata ? {
-        input_tokens: usageMetadata.promptTokenCount || 0,
-        output_tokens: usageMetadata.candidatesTokenCount || 0,
-        total_tokens: usageMetadata.totalTokenCount || 0,
-        provider: 'gemini',
-        model,
-      } : null
-    } else {
-      throw new Error(`Unsupported provider: ${provider}`)
-    }
+    const { text: responseText, tokenUsage } = await chat({
+      provider,
+      model,
+      apiKey: options.apiKey,
+      system: systemPrompt,
+      messages,
+      maxTokens,
+      temperature,
+      json: mode === "edit",
+      signal: options.signal,
+      label: 'document generation',
+      logContext: 'DocumentGeneration',
+      task: mode === "edit" ? 'document_edit' : 'document_ask',
+    })
 
     // Try to parse JSON response (for edit mode)
     if (mode === "edit") {
       try {
-        let jsonText = responseText.trim()
-        
-        console.log('[DocumentGeneration] Attempting to parse JSON, response length:', jsonText.length)
-        console.log('[DocumentGeneration] Response preview:', jsonText.substring(0, 200))
+        console.log('[DocumentGeneration] Attempting to parse JSON, response length:', responseText.length)
+        console.log('[DocumentGeneration] Response preview:', responseText.trim().substring(0, 200))
         
-        // Try to extract JSON from code blocks first
-        const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/) || 
-                         jsonText.match(/```\s*([\s\S]*?)\s*```/)
-        if (jsonMatch) {
-          jsonText = jsonMatch[1].trim()
-          console.log('[DocumentGeneration] Extracted JSON from code block')
-        }
-        
-        // Try to find JSON object boundaries if not already extracted
-        if (!jsonText.startsWith('{')) {
-          const firstBrace = jsonText.indexOf('{')
-          if (firstBrace !== -1) {
-            // Find the matching closing brace by counting braces
-            let braceCount = 0
-            let endIndex = -1
-            for (let i = firstBrace; i < jsonText.length; i++) {
-              if (jsonText[i] === '{') braceCount++
-              if (jsonText[i] === '}') {
-                braceCount--
-                if (braceCount === 0) {
-                  endIndex = i + 1
-                  break
-                }
-              }
-            }
-            if (endIndex > firstBrace) {
-              jsonText = jsonText.substring(firstBrace, endIndex)
-              console.log('[DocumentGeneration] Extracted JSON by brace matching, length:', jsonText.length)
-            } else {
-              // Fallback to last brace if matching fails
-              const lastBrace = jsonText.lastIndexOf('}')
-              if (lastBrace !== -1 && lastBrace > firstBrace) {
-                jsonText = jsonText.substring(firstBrace, lastBrace + 1)
-                console.log('[DocumentGeneration] Used fallback brace matching')
-              }
-            }
-          }
-        } else {
-          // Already starts with {, but make sure we have the complete object
-          let braceCount = 0
-          let endIndex = -1
-          for (let i = 0; i < jsonText.length; i++) {
-            if (jsonText[i] === '{') braceCount++
-            if (jsonText[i] === '}') {
-              braceCount--
-              if (braceCount === 0) {
-                endIndex = i + 1
-                break
-              }
-            }
-          }
-          if (endIndex > 0 && endIndex < jsonText.length) {
-            jsonText = jsonText.substring(0, endIndex)
-            console.log('[DocumentGeneration] Trimmed JSON to complete object, length:', jsonText.length)
-          }
-        }
+        // Extract the JSON object from code blocks or surrounding text
+        const jsonText = extractJSONText(responseText)
         
         // Parse the JSON
         console.log('[DocumentGeneration] Attempting JSON.parse, jsonText length:', jsonText.length)
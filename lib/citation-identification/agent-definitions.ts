@@ -0,0 +1,184 @@
+/**
+ * Validation Agent Definitions
+ * Loads the Tier 2/3 panels: the built-in agents in validation.ts, each replaced by the stored
+ * ValidationAgentDefinition of the same name, plus any new agents stored. Edits never change a row:
+ * each one adds the next version, and verdicts are stamped with the version that produced them
+ * Uses Prisma, so it is imported by server code only; validation.ts is shared with the client
+ */
+
+import { ValidationAgentDefinition } from '@prisma/client'
+import { Citation } from '@/types/citation-json'
+import { prisma } from '@/lib/prisma'
+import { Provider, getProviderFromModel } from '@/lib/llm'
+import { logger } from '@/lib/logger'
+import { AgentDefinition, ValidationTier, getBuiltInAgentDefinitions, getBuiltInPrompt } from './validation'
+import { renderPromptTemplate } from './prompt-templates'
+
+export const VALIDATION_TIERS: ValidationTier[] = ['tier2', 'tier3']
+
+const CACHE_TTL_MS = 60 * 1000 // Definitions change rarely; edits clear the cache directly
+
+let cache: {
+  loadedAt: number
+  definitions: Map<ValidationTier, AgentDefinition[]> // Enabled stored definitions
+  disabled: Set<string> // Names whose latest stored version is disabled
+} | null = null
+
+export interface AgentDefinitionInput {
+  name: string
+  tier: ValidationTier
+  promptTemplate: string | null
+  provider: Provider
+  model: string
+  temperature: number
+}
+
+/**
+ * Latest version of every stored definition, by tier then name
+ */
+export async function getLatestStoredDefinitions(): Promise<ValidationAgentDefinition[]> {
+  const rows = await prisma.validationAgentDefinition.findMany({
+    orderBy: [{ tier: 'asc' }, { name: 'asc' }, { version: 'desc' }],
+  })
+  const latest = new Map<string, ValidationAgentDefinition>()
+  for (const row of rows) {
+    if (!latest.has(row.name)) latest.set(row.name, row)
+  }
+  return Array.from(latest.values())
+}
+
+function toAgentDefinition(row: ValidationAgentDefinition): AgentDefinition | null {
+  const builtInPrompt = getBuiltInPrompt(row.name)
+  const template = row.promptTemplate
+  const getPrompt = template
+    ? (citation: Citation, context: string) => renderPromptTemplate(template, citation, context)
+    : builtInPrompt
+  if (!getPrompt) {
+    logger.warn(`Agent definition ${row.name} v${row.version} has no prompt template and no built-in prompt`, undefined, 'AgentDefinitions')
+    return null
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    tier: row.tier as ValidationTier,
+    version: row.version,
+    provider: (row.provider as Provider | null) || getProviderFromModel(row.model),
+    model: row.model,
+    temperature: row.temperature,
+    getPrompt,
+  }
+}
+
+/**
+ * The panel for a tier: the built-in agents with each stored one in place of the built-in of its name,
+ * then the stored agents that are not built in. A disabled agent is left out, built in or not, so
+ * storing one agent never drops the rest of the built-in panel
+ */
+export async function getAgentDefinitions(tier: ValidationTier): Promise<AgentDefinition[]> {
+  if (!cache || Date.now() - cache.loadedAt > CACHE_TTL_MS) {
+    const definitions = new Map<ValidationTier, AgentDefinition[]>()
+    const disabled = new Set<string>()
+    for (const row of await getLatestStoredDefinitions()) {
+      if (!row.enabled) {
+        disabled.add(row.name)
+        continue
+      }
+      const definition = toAgentDefinition(row)
+      if (!definition) continue
+      definitions.set(definition.tier, [...(definitions.get(definition.tier) || []), definition])
+    }
+    cache = { loadedAt: Date.now(), definitions, disabled }
+  }
+
+  const stored = cache.definitions.get(tier) || []
+  const storedByName = new Map(stored.map(definition => [definition.name, definition]))
+  const builtIns = getBuiltInAgentDefinitions(tier)
+  const builtInNames = new Set(builtIns.map(definition => definition.name))
+  const { disabled } = cache
+  return [
+    ...builtIns.filter(definition => !disabled.has(definition.name)).map(definition => storedByName.get(definition.name) || definition),
+    ...stored.filter(definition => !builtInNames.has(definition.name)),
+  ]
+}
+
+export function clearAgentDefinitionCache(): void {
+  cache = null
+}
+
+/**
+ * Store a definition as the next version of its name (version 1 for a new name); a new version
+ * keeps the enabled flag of the one it replaces
+ */
+export async function saveAgentDefinition(input: AgentDefinitionInput): Promise<ValidationAgentDefinition> {
+  const latest = await prisma.validationAgentDefinition.findFirst({
+    where: { name: input.name },
+    orderBy: { version: 'desc' },
+  })
+
+  const row = await prisma.validationAgentDefinition.create({
+    data: {
+      name: input.name,
+      tier: input.tier,
+      promptTemplate: input.promptTemplate,
+      provider: input.provider,
+      model: input.model,
+      temperature: input.temperature,
+      version: latest ? latest.version + 1 : 1,
+      enabled: latest ? latest.enabled : true,
+    },
+  })
+
+  clearAgentDefinitionCache()
+  logger.info(`Saved agent definition`, { name: row.name, version: row.version, provider: row.provider, model: row.model }, 'AgentDefinitions')
+  return row
+}
+
+/**
+ * Enable or disable an agent; the flag lives on its latest version, so no new version is created
+ */
+export async function setAgentDefinitionEnabled(name: string, enabled: boolean): Promise<ValidationAgentDefinition | null> {
+  const latest = await prisma.validationAgentDefinition.findFirst({
+    where: { name },
+    orderBy: { version: 'desc' },
+  })
+  if (!latest) return null
+
+  const row = await prisma.validationAgentDefinition.update({
+    where: { id: latest.id },
+    data: { enabled },
+  })
+  clearAgentDefinitionCache()
+  return row
+}
+
+/**
+ * Store the built-in agents not stored yet as version 1, using the built-in prompt (promptTemplate null),
+ * so admins can edit them. Version 1 of a built-in agent is the same agent whether stored or not
+ */
+export async function importBuiltInAgentDefinitions(): Promise<ValidationAgentDefinition[]> {
+  const storedNames = new Set(
+    (await prisma.validationAgentDefinition.findMany({ select: { name: true }, distinct: ['name'] })).map(row => row.name)
+  )
+
+  const created: ValidationAgentDefinition[] = []
+  for (const tier of VALIDATION_TIERS) {
+    for (const definition of getBuiltInAgentDefinitions(tier)) {
+      if (storedNames.has(definition.name)) continue
+      created.push(await prisma.validationAgentDefinition.create({
+        data: {
+          name: definition.name,
+          tier,
+          promptTemplate: null,
+          provider: definition.provider,
+          model: definition.model,
+          temperature: definition.temperature,
+          version: 1,
+        },
+      }))
+    }
+  }
+
+  clearAgentDefinitionCache()
+  return created
+}
@@ -0,0 +1,315 @@
+/**
+ * Local Authority Index
+ * Offline lookup of cases by volume, reporter and page, loaded from a bulk CSV or JSONL dump
+ * (volume, reporter, page, case name, court, year), so a case citation can be confirmed or shown
+ * to point at a different case before the Tier 2 panel runs
+ * Reads the dump from disk, so it is imported by server code only; validation.ts is shared with the client
+ */
+
+import { createReadStream } from 'fs'
+import path from 'path'
+import { createInterface } from 'readline'
+import { AuthorityIndexResult, CaseComponents, Citation, CitationValidation, IndexedAuthority } from '@/types/citation-json'
+import { compareCaseNames, normalizeReporter, parseCitation } from './authority'
+import { validateCitationWithPanel } from './validation'
+import { getAgentDefinitions } from './agent-definitions'
+import { ProviderApiKeys } from '@/lib/llm'
+import { AUTHORITY_INDEX_PATH } from '@/lib/env'
+import { logger } from '@/lib/logger'
+
+/**
+ * A source of known cases; the bundled implementation holds a dump in memory, but any store
+ * that can answer volume/reporter/page lookups can be plugged in with setAuthorityIndex
+ */
+export interface AuthorityIndex {
+  name: string
+  lookup(volume: string, reporter: string, page: string): Promise<IndexedAuthority[]>
+}
+
+// Column names accepted for each field, in CSV headers and JSONL keys
+const FIELD_ALIASES: Record<keyof IndexedAuthority, string[]> = {
+  volume: ['volume', 'vol'],
+  reporter: ['reporter'],
+  page: ['page', 'first_page', 'firstPage'],
+  caseName: ['case_name', 'caseName', 'name', 'name_abbreviation'],
+  court: ['court', 'court_abbreviation'],
+  year: ['year', 'date_filed', 'decision_date', 'dateFiled', 'decisionDate'],
+}
+
+let authorityIndex: AuthorityIndex | null | undefined
+let loadingIndex: Promise<AuthorityIndex | null> | null = null
+
+function locationKey(volume: string, reporter: string, page: string): string {
+  return `${volume.trim()}:${normalizeReporter(reporter)}:${page.trim()}`
+}
+
+/**
+ * Authority index over records held in memory
+ */
+export function createMemoryAuthorityIndex(name: string, records: IndexedAuthority[]): AuthorityIndex {
+  const byLocation = new Map<string, IndexedAuthority[]>()
+  for (const record of records) {
+    const key = locationKey(record.volume, record.reporter, record.page)
+    const existing = byLocation.get(key)
+    if (existing) existing.push(record)
+    else byLocation.set(key, [record])
+  }
+  return {
+    name,
+    lookup: async (volume, reporter, page) => byLocation.get(locationKey(volume, reporter, page)) || [],
+  }
+}
+
+/**
+ * Split a CSV line, honouring double-quoted fields with "" escapes
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  fields.push(field)
+  return fields
+}
+
+/**
+ * Indexed authority from a dump row, or null when it lacks a volume, reporter, page or name
+ */
+function toIndexedAuthority(row: Record<string, unknown>): IndexedAuthority | null {
+  const read = (field: keyof IndexedAuthority) => {
+    const key = FIELD_ALIASES[field].find(alias => row[alias] !== undefined && row[alias] !== null && row[alias] !== '')
+    return key ? String(row[key]).trim() : ''
+  }
+  const volume = read('volume')
+  const reporter = read('reporter')
+  const page = read('page')
+  const caseName = read('caseName')
+  if (!volume || !reporter || !page || !caseName) return null
+
+  const court = read('court')
+  // Dates are accepted in place of years ("1999-06-14")
+  const year = parseInt(read('year').slice(0, 4), 10)
+  return {
+    volume,
+    reporter,
+    page,
+    caseName,
+    ...(court ? { court } : {}),
+    ...(!isNaN(year) ? { year } : {}),
+  }
+}
+
+/**
+ * Load a CSV (with a header row) or JSONL dump into an in-memory authority index
+ * Rows without a volume, reporter, page or case name are skipped
+ */
+export async function loadAuthorityIndexFile(filePath: string): Promise<AuthorityIndex> {
+  const isJsonLines = /\.(?:jsonl|ndjson)$/i.test(filePath)
+  const lines = createInterface({ input: createReadStream(filePath, 'utf8'), crlfDelay: Infinity })
+  const records: IndexedAuthority[] = []
+  let header: string[] | null = null
+  let skipped = 0
+
+  for await (const line of lines) {
+    if (!line.trim()) continue
+    let row: Record<string, unknown>
+    if (isJsonLines) {
+      try {
+        row = JSON.parse(line)
+      } catch {
+        skipped++
+        continue
+      }
+    } else if (!header) {
+      header = parseCsvLine(line).map(column => column.trim())
+      continue
+    } else {
+      const values = parseCsvLine(line)
+      row = Object.fromEntries(header.map((column, index) => [column, values[index]]))
+    }
+    const record = toIndexedAuthority(row)
+    if (record) records.push(record)
+    else skipped++
+  }
+
+  logger.info(`Loaded local authority index`, { filePath, records: records.length, skipped }, 'AuthorityIndex')
+  return createMemoryAuthorityIndex(path.basename(filePath), records)
+}
+
+/**
+ * Use an authority index in place of the one configured by AUTHORITY_INDEX_PATH; null turns lookups off
+ */
+export function setAuthorityIndex(index: AuthorityIndex | null): void {
+  authorityIndex = index
+  loadingIndex = null
+}
+
+/**
+ * The configured authority index, loaded from AUTHORITY_INDEX_PATH on first use, or null if there is none
+ * A dump that fails to load is logged and treated as no index, so validation falls back to the panel
+ */
+export async function getAuthorityIndex(): Promise<AuthorityIndex | null> {
+  if (authorityIndex !== undefined) return authorityIndex
+  if (!AUTHORITY_INDEX_PATH) {
+    authorityIndex = null
+    return null
+  }
+  if (!loadingIndex) {
+    loadingIndex = loadAuthorityIndexFile(AUTHORITY_INDEX_PATH)
+      .catch(error => {
+        logger.error(`Failed to load local authority index from ${AUTHORITY_INDEX_PATH}`, error, 'AuthorityIndex')
+        return null
+      })
+      .then(index => {
+        authorityIndex = index
+        return index
+      })
+  }
+  return loadingIndex
+}
+
+function describeAuthority(authority: IndexedAuthority): string {
+  const parenthetical = [authority.court, authority.year].filter(Boolean).join(' ')
+  return `${authority.caseName}, ${authority.volume} ${authority.reporter} ${authority.page}${parenthetical ? ` (${parenthetical})` : ''}`
+}
+
+/**
+ * Look a case citation up in the local authority index, trying each reporter of a parallel cite
+ * Returns null when there is no index, the citation is not a case, or it gives no case name to compare
+ */
+export async function checkAuthorityIndex(citation: Citation): Promise<AuthorityIndexResult | null> {
+  if (citation.citationType !== 'case') return null
+  const index = await getAuthorityIndex()
+  if (!index) return null
+
+  const parsed = parseCitation(citation)
+  const components = citation.extractedComponents as Partial<CaseComponents>
+  const citedName = parsed.name
+  if (!citedName) return null
+
+  const locations = [
+    ...(parsed.kind === 'case' ? [{ volume: parsed.volume!, reporter: parsed.reporter!, page: parsed.page! }] : []),
+    ...(components.parallelCitations || []),
+  ]
+
+  for (const location of locations) {
+    const matches = await index.lookup(location.volume, location.reporter, location.page)
+    if (matches.length === 0) continue
+
+    const compared = matches.map(match => ({ match, name: compareCaseNames(citedName, match.caseName) }))
+    const named = compared.filter(entry => entry.name === 'full').map(entry => entry.match)
+    if (named.length === 0) {
+      // One shared party is not enough to verify a case, nor to call it fabricated; the panel decides
+      const related = compared.filter(entry => entry.name === 'partial').map(entry => entry.match)
+      return related.length > 0
+        ? { status: 'partial', matches: related, source: index.name }
+        : { status: 'mismatch', matches, source: index.name }
+    }
+
+    const year = components.year
+    const dated = named.filter(match => !year || isNaN(year) || !match.year || match.year === year)
+    return { status: dated.length > 0 ? 'verified' : 'partial', matches: dated.length > 0 ? dated : named, source: index.name }
+  }
+
+  return { status: 'not_found', matches: [], source: index.name }
+}
+
+/**
+ * Validation decided by the index alone: verified citations pass and mismatched ones are flagged
+ * as likely fabrications naming the real case, without calling the panel; null when the panel must decide
+ */
+export function getIndexValidation(citation: Citation, result: AuthorityIndexResult): CitationValidation | null {
+  if (result.status === 'verified') {
+    return {
+      panel_evaluation: [],
+      consensus: {
+        agreement_level: 'unanimous',
+        scores: [],
+        average_score: 10,
+        variance: 0,
+        standard_deviation: 0,
+        confidence_score: 1,
+        recommendation: 'CITATION_LIKELY_VALID',
+        reasoning: `Found in the local authority index (${result.source}): ${describeAuthority(result.matches[0])}.`,
+        tier_3_trigger: false,
+      },
+      authority_index: result,
+    }
+  }
+
+  if (result.status === 'mismatch') {
+    const realCases = result.matches.map(describeAuthority).join('; ')
+    return {
+      panel_evaluation: [],
+      consensus: {
+        agreement_level: 'unanimous',
+        scores: [],
+        average_score: 1,
+        variance: 0,
+        standard_deviation: 0,
+        confidence_score: 0.1,
+        recommendation: 'CITATION_LIKELY_HALLUCINATED',
+        reasoning: `Likely fabricated: the local authority index (${result.source}) has ${realCases} at this volume and page, not "${parseCitation(citation).name}".`,
+        tier_3_trigger: false,
+      },
+      authority_index: result,
+    }
+  }
+
+  return null
+}
+
+// The index's answer for a citation: the lookup, and the validation it settles on, if any
+export interface IndexSettlement {
+  result: AuthorityIndexResult | null
+  validation: CitationValidation | null
+}
+
+/**
+ * Look a citation up in the local authority index and decide it without the panel where the index can
+ */
+export async function settleWithAuthorityIndex(citation: Citation): Promise<IndexSettlement> {
+  const result = await checkAuthorityIndex(citation)
+  const validation = result && getIndexValidation(citation, result)
+  if (validation) {
+    logger.debug(`Authority index settled citation`, { citationId: citation.id, status: result.status }, 'AuthorityIndex')
+  }
+  return { result, validation }
+}
+
+/**
+ * Tier 2 validation that consults the local authority index first: a case the index verifies, or finds
+ * a different case at, is decided without the panel; otherwise the panel runs and the lookup is recorded
+ * Pass the settlement when the caller has already looked the citation up
+ */
+export async function validateCitationWithIndex(
+  citation: Citation,
+  documentContext: string,
+  apiKeys: ProviderApiKeys,
+  settlement?: IndexSettlement
+): Promise<CitationValidation> {
+  const { result, validation: indexValidation } = settlement || await settleWithAuthorityIndex(citation)
+  if (indexValidation) return indexValidation
+
+  const validation = await validateCitationWithPanel(citation, documentContext, apiKeys, await getAgentDefinitions('tier2'))
+  return result ? { ...validation, authority_index: result } : validation
+}
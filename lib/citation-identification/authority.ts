@@ -0,0 +1,251 @@
+/**
+ * Authority Parsing
+ * Reduces citations and table of authorities entries to the authority they name,
+ * so different spellings of the same cite can be compared
+ */
+
+import { Citation } from '@/types/citation-json'
+import {
+  findConstitutionCitations,
+  findSecondarySourceCitations,
+  findSessionLawCitations,
+  findStateRegulationCitations,
+  findStateStatuteCitations,
+} from './patterns'
+
+export interface ParsedAuthority {
+  kind: 'case' | 'statute' | 'regulation' | 'rule' | 'other'
+  key: string
+  name?: string
+  volume?: string
+  reporter?: string
+  page?: string
+  title?: string
+  code?: string
+  section?: string
+}
+
+const CASE_CORE_PATTERN = /(\d+)\s+([A-Z][A-Za-z0-9.'\s]*?)\s+(\d+)(?=\s*[,(]|\s*$)/
+const CODE_SECTION_PATTERN = /(\d+)\s+(U\.\s?S\.\s?C\.(?:\s?A\.)?|C\.\s?F\.\s?R\.)\s*(?:Supp\.\s*)?(?:§+|sec(?:tion)?\.?)\s*([0-9A-Za-z\-]+(?:\.[0-9A-Za-z\-]+)*)/i
+const FEDERAL_RULE_PATTERN = /Fed(?:eral|\.)\s*R(?:ules?|\.)\s*(?:of\s+)?(Civ(?:il)?|Crim(?:inal)?|Evid(?:ence)?|App(?:ellate)?|Bankr(?:uptcy)?)\.?\s*(?:P(?:\.|rocedure))?\s*(\d+)/i
+const SHORT_FORM_PATTERN = /^(id\.|ibid\.?)|\bsupra\b|\b\d+\s+[A-Z][A-Za-z0-9.\s]*?\s+at\s+\d+/i
+const NAME_WORD = "(?:[A-Z][A-Za-z0-9.'&-]*|of|the|and|for|&|ex rel\\.)"
+const CASE_NAME_BEFORE_PATTERN = new RegExp(`(${NAME_WORD}(?:\\s+${NAME_WORD})*\\s+v\\.\\s+${NAME_WORD}(?:\\s+${NAME_WORD})*),?\\s*$`)
+export const SIGNAL_PREFIX_PATTERN = /^(?:See also|See generally|See|But see|But cf\.|Cf\.|Compare|Accord|Contra|E\.g\.)[,\s]+/
+
+// Words that do not tell two case names apart
+const NAME_STOPWORDS = new Set([
+  'v', 'the', 'of', 'and', 'in', 're', 'ex', 'rel', 'et', 'al', 'a', 'an', 'for', 'on',
+  'inc', 'co', 'corp', 'corporation', 'company', 'llc', 'ltd', 'lp', 'us', 'united', 'states',
+  'state', 'people', 'commonwealth', 'city', 'county', 'dept', 'department',
+])
+
+export function normalizeReporter(reporter: string): string {
+  return reporter.toLowerCase().replace(/[.\s]/g, '')
+}
+
+export function normalizeCaseName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\bvs?\.?(?=\s)/g, 'v')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function nameTokens(name: string): string[] {
+  return normalizeCaseName(name).split(' ').filter(token => token.length > 1 && !NAME_STOPWORDS.has(token))
+}
+
+// How far a cited case name agrees with an indexed one
+export type CaseNameMatch = 'full' | 'partial' | 'none'
+
+// Each side of a case name's "v." ("in re" and "ex parte" names have one side)
+function nameSides(name: string): Array<{ text: string; tokens: string[] }> {
+  return normalizeCaseName(name).split(' v ').map(text => ({ text: text.trim(), tokens: nameTokens(text) }))
+}
+
+// "atl" stands for "atlantic", so a cited word also matches an indexed word it abbreviates
+function wordMatches(cited: string, indexed: string): boolean {
+  return cited === indexed || (cited.length >= 3 && indexed.startsWith(cited))
+}
+
+/**
+ * Whether a cited side names the same party as an indexed side: every distinctive word agrees,
+ * or, for a side made only of stop words ("United States", "People"), the words are the same
+ */
+function sideMatches(cited: { text: string; tokens: string[] }, indexed: { text: string; tokens: string[] }): boolean {
+  if (cited.tokens.length === 0) return cited.text === indexed.text
+  return cited.tokens.every(token => indexed.tokens.some(word => wordMatches(token, word)))
+}
+
+/**
+ * Compare a cited case name with an indexed one
+ * full: each side of the cited "v." matches the indexed side in the same place, so
+ * "Bell Atl. Corp. v. Twombly" matches "Bell Atlantic Corp. v. Twombly"; a one-word short name
+ * ("Twombly") is full only when it is the one distinctive word of an indexed side
+ * partial: some words agree but not the whole name, as with "Smith v. Jones" for "Smith v. Brown",
+ * "United States v. Jones" for "Jones v. Smith" or "In re Smith" for "Smith v. Acme"
+ * none: no word is shared
+ */
+export function compareCaseNames(cited: string, indexed: string): CaseNameMatch {
+  const citedTokens = nameTokens(cited)
+  const indexedTokens = nameTokens(indexed)
+  if (citedTokens.length === 0 || indexedTokens.length === 0) {
+    return normalizeCaseName(cited) === normalizeCaseName(indexed) ? 'full' : 'none'
+  }
+  if (!citedTokens.some(token => indexedTokens.some(word => wordMatches(token, word)))) return 'none'
+
+  const citedSides = nameSides(cited)
+  const indexedSides = nameSides(indexed)
+  if (citedSides.length === 1 && normalizeCaseName(cited).split(' ').length === 1) {
+    const single = indexedSides.some(side => side.tokens.length === 1 && side.tokens[0] === citedTokens[0])
+    return single ? 'full' : 'partial'
+  }
+
+  const sidesMatch = citedSides.length === indexedSides.length &&
+    citedSides.every((side, index) => sideMatches(side, indexedSides[index]))
+  return sidesMatch ? 'full' : 'partial'
+}
+
+/**
+ * Id., ibid., supra and "550 U.S. at 555" cites point back to an earlier authority rather than naming one
+ */
+export function isShortFormCitation(text: string): boolean {
+  return SHORT_FORM_PATTERN.test(text.trim())
+}
+
+export function normalizeForSearch(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9§]/g, '')
+}
+
+/**
+ * Reduce a citation or TOA entry to a key that identifies the authority
+ * Cases key on volume/reporter/page, statutes and regulations on title/code/section
+ */
+export function parseAuthority(text: string): ParsedAuthority {
+  const codeMatch = text.match(CODE_SECTION_PATTERN)
+  if (codeMatch) {
+    const code = normalizeReporter(codeMatch[2]).replace(/a$/, '')
+    const section = codeMatch[3].replace(/\.$/, '')
+    return {
+      kind: code === 'cfr' ? 'regulation' : 'statute',
+      key: `${code}:${codeMatch[1]}:${section.toLowerCase()}`,
+      title: codeMatch[1],
+      code: codeMatch[2],
+      section,
+    }
+  }
+
+  const [stateMatch] = [...findStateRegulationCitations(text), ...findStateStatuteCitations(text)]
+  if (stateMatch) {
+    const { volume, code, section } = stateMatch.components
+    return {
+      kind: stateMatch.type as 'statute' | 'regulation',
+      key: `${normalizeReporter(code)}:${volume}:${section.toLowerCase()}`,
+      title: volume,
+      code,
+      section,
+    }
+  }
+
+  // Session laws key on the public law number when there is one, so cites with and without the Stat. page agree
+  const [sessionLawMatch] = findSessionLawCitations(text)
+  if (sessionLawMatch) {
+    const { public_law: publicLaw, volume, page } = sessionLawMatch.components
+    return {
+      kind: 'statute',
+      key: publicLaw ? `publ:${publicLaw.replace('–', '-')}` : `stat:${volume}:${page}`,
+      title: volume,
+      code: 'Stat.',
+      section: page,
+    }
+  }
+
+  // Constitutional provisions key on the article or amendment and section, not the clause
+  const [constitutionMatch] = findConstitutionCitations(text)
+  if (constitutionMatch) {
+    const { jurisdiction, article, amendment, section } = constitutionMatch.components
+    const provision = article ? `art${article}` : amendment ? `amend${amendment}` : 'pmbl'
+    return {
+      kind: 'other',
+      key: `const:${normalizeReporter(jurisdiction)}:${provision.toLowerCase()}:${section}`,
+      code: `${jurisdiction} Const.`,
+      section,
+    }
+  }
+
+  // Secondary sources key on where the work is found, not on its author or title as written
+  const [secondaryMatch] = findSecondarySourceCitations(text)
+  if (secondaryMatch) {
+    const { kind, volume, journal, series, subject, title, page, section, edition } = secondaryMatch.components
+    const location = kind === 'lawReview' ? `${volume}:${normalizeReporter(journal)}:${page}`
+      : kind === 'alr' ? `${volume}:${normalizeReporter(series)}:${page}`
+      : kind === 'restatement' ? `${series.toLowerCase()}:${normalizeForSearch(subject)}:${section.toLowerCase()}`
+      : kind === 'treatise' ? `${volume}:${normalizeForSearch(title)}:${(section || page).toLowerCase()}`
+      : `${normalizeForSearch(title)}:${edition}`
+    return {
+      kind: 'other',
+      key: `secondary:${kind}:${location}`,
+      volume: volume || undefined,
+      page: page || undefined,
+      section: section || undefined,
+    }
+  }
+
+  const ruleMatch = text.match(FEDERAL_RULE_PATTERN)
+  if (ruleMatch) {
+    return {
+      kind: 'rule',
+      key: `rule:${ruleMatch[1].slice(0, 3).toLowerCase()}:${ruleMatch[2]}`,
+      section: ruleMatch[2],
+    }
+  }
+
+  const caseMatch = text.match(CASE_CORE_PATTERN)
+  if (caseMatch) {
+    const reporter = caseMatch[2].trim()
+    const name = text.slice(0, caseMatch.index).replace(/[\s,]+$/, '').trim()
+    return {
+      kind: 'case',
+      key: `case:${caseMatch[1]}:${normalizeReporter(reporter)}:${caseMatch[3]}`,
+      name: name || undefined,
+      volume: caseMatch[1],
+      reporter,
+      page: caseMatch[3],
+    }
+  }
+
+  return { kind: 'other', key: `other:${normalizeForSearch(text)}` }
+}
+
+/**
+ * Case name written just before a citation marker, for identifiers that mark only "550 U.S. 544"
+ */
+export function findCaseNameBefore(blockText: string, citationId: string): string | undefined {
+  const markerIndex = blockText.indexOf(`[CITATION:${citationId}]`)
+  if (markerIndex === -1) return undefined
+  const before = blockText
+    .slice(Math.max(0, markerIndex - 200), markerIndex)
+    .replace(/\[\/?CITATION:[^\]]+\]/g, '')
+  const match = before.match(CASE_NAME_BEFORE_PATTERN)
+  return match ? match[1].replace(SIGNAL_PREFIX_PATTERN, '').trim() : undefined
+}
+
+/**
+ * Parse a body citation, falling back to its extracted parties, then to the text
+ * before it in its block, for the case name
+ */
+export function parseCitation(citation: Citation, blockText?: string): ParsedAuthority {
+  const parsed = parseAuthority(citation.citationText)
+  if (parsed.kind === 'case' && !parsed.name) {
+    const components = citation.extractedComponents as { parties?: string[] }
+    const parties = (components?.parties || []).filter(Boolean)
+    if (parties.length === 2) {
+      parsed.name = `${parties[0]} v. ${parties[1]}`
+    } else if (blockText) {
+      parsed.name = findCaseNameBefore(blockText, citation.id)
+    }
+  }
+  return parsed
+}
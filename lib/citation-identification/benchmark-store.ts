@@ -0,0 +1,165 @@
+/**
+ * Benchmark Storage
+ * Ground-truth labels per file and the scores of each validation run against them
+ * Uses Prisma, so it is imported by server code only; benchmark.ts holds the scoring itself
+ */
+
+import { Prisma } from '@prisma/client'
+import {
+  BenchmarkConfiguration,
+  BenchmarkLabel,
+  BenchmarkMetrics,
+  BenchmarkRunScore,
+  CitationDocument,
+  GroundTruthLabel,
+} from '@/types/citation-json'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { GROUND_TRUTH_LABELS, getRunConfiguration, scoreBenchmarkRun } from './benchmark'
+
+export function isGroundTruthLabel(value: unknown): value is GroundTruthLabel {
+  return GROUND_TRUTH_LABELS.includes(value as GroundTruthLabel)
+}
+
+export async function getBenchmarkLabels(fileUploadId: string): Promise<BenchmarkLabel[]> {
+  const labels = await prisma.benchmarkLabel.findMany({
+    where: { fileUploadId },
+    orderBy: { citationId: 'asc' },
+  })
+  return labels.map(label => ({
+    citationId: label.citationId,
+    citationText: label.citationText,
+    label: label.label as GroundTruthLabel,
+    notes: label.notes,
+  }))
+}
+
+/**
+ * Set or clear labels; a null label removes the citation's label
+ */
+export async function saveBenchmarkLabels(
+  fileUploadId: string,
+  labels: Array<Omit<BenchmarkLabel, 'label'> & { label: GroundTruthLabel | null }>
+): Promise<void> {
+  await prisma.$transaction(labels.map(label => {
+    if (!label.label) {
+      return prisma.benchmarkLabel.deleteMany({ where: { fileUploadId, citationId: label.citationId } })
+    }
+    const data = { citationText: label.citationText, label: label.label, notes: label.notes || null }
+    return prisma.benchmarkLabel.upsert({
+      where: { fileUploadId_citationId: { fileUploadId, citationId: label.citationId } },
+      create: { fileUploadId, citationId: label.citationId, ...data },
+      update: data,
+    })
+  }))
+}
+
+/**
+ * Score one validation run against its file's labels, replacing any earlier score
+ * Returns null when the file has no labels or the run has no validation results
+ */
+export async function scoreBenchmarkCheck(checkId: string): Promise<BenchmarkRunScore | null> {
+  const check = await prisma.citationCheck.findUnique({
+    where: { id: checkId },
+    select: { id: true, fileUploadId: true, version: true, jsonData: true, workflowType: true, workflowId: true, workflowMetadata: true },
+  })
+  if (!check?.jsonData) return null
+
+  const citations = (check.jsonData as unknown as CitationDocument).document?.citations || []
+  if (!citations.some(citation => citation.validation)) return null
+
+  const labels = await getBenchmarkLabels(check.fileUploadId)
+  if (labels.length === 0) return null
+
+  const isTestRun = check.workflowType === 'test_run'
+  const data = {
+    fileUploadId: check.fileUploadId,
+    testRunId: isTestRun ? check.workflowId : null,
+    runNumber: isTestRun ? (check.workflowMetadata as { testRunNumber?: number } | null)?.testRunNumber ?? null : null,
+    labelCount: labels.length,
+    configuration: getRunConfiguration(citations) as unknown as Prisma.InputJsonValue,
+    metrics: scoreBenchmarkRun(citations, labels) as unknown as Prisma.InputJsonValue,
+  }
+
+  const score = await prisma.benchmarkScore.upsert({
+    where: { checkId },
+    create: { checkId, ...data },
+    update: data,
+  })
+  logger.debug(`Scored check ${checkId} against ${labels.length} benchmark labels`, { checkId }, 'Benchmark')
+  return toSummary({ ...score, check: { version: check.version } })
+}
+
+/**
+ * Score every validation run of a file again, e.g. after its labels change
+ */
+export async function rescoreBenchmarkFile(fileUploadId: string): Promise<number> {
+  // Scores against labels that have all been removed mean nothing
+  if (await prisma.benchmarkLabel.count({ where: { fileUploadId } }) === 0) {
+    await prisma.benchmarkScore.deleteMany({ where: { fileUploadId } })
+    return 0
+  }
+
+  const checks = await prisma.citationCheck.findMany({
+    where: { fileUploadId },
+    select: { id: true },
+  })
+
+  let scored = 0
+  for (const check of checks) {
+    if (await scoreBenchmarkCheck(check.id)) scored++
+  }
+  return scored
+}
+
+/**
+ * Score a run when its validation job completes; failures are logged and never fail the job
+ */
+export async function scoreCompletedCheck(checkId: string): Promise<void> {
+  try {
+    await scoreBenchmarkCheck(checkId)
+  } catch (error) {
+    logger.warn(`Failed to score check ${checkId} against benchmark labels`, error, 'Benchmark')
+  }
+}
+
+function toSummary(score: {
+  id: string
+  checkId: string
+  testRunId: string | null
+  runNumber: number | null
+  labelCount: number
+  configuration: Prisma.JsonValue
+  metrics: Prisma.JsonValue
+  createdAt: Date
+  updatedAt: Date
+  check: { version: number }
+}): BenchmarkRunScore {
+  return {
+    id: score.id,
+    checkId: score.checkId,
+    version: score.check.version,
+    testRunId: score.testRunId,
+    runNumber: score.runNumber,
+    labelCount: score.labelCount,
+    configuration: score.configuration as unknown as BenchmarkConfiguration,
+    metrics: score.metrics as unknown as BenchmarkMetrics,
+    createdAt: score.createdAt.toISOString(),
+    updatedAt: score.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Scored runs of a file, oldest first, or of one test run
+ */
+export async function getBenchmarkHistory(
+  fileUploadId: string,
+  options: { testRunId?: string } = {}
+): Promise<BenchmarkRunScore[]> {
+  const scores = await prisma.benchmarkScore.findMany({
+    where: { fileUploadId, ...(options.testRunId ? { testRunId: options.testRunId } : {}) },
+    include: { check: { select: { version: true } } },
+    orderBy: { check: { version: 'asc' } },
+  })
+  return scores.map(toSummary)
+}
@@ -0,0 +1,314 @@
+/**
+ * Benchmark Scoring
+ * Scores a validation run against ground-truth labels. A citation counts as flagged when it is not
+ * assessed as low risk, the same line the report draws, and as positive when it is labeled fabricated
+ * or mis-cited. Calibration compares each prediction's probability of a problem with the labels
+ */
+
+import {
+  AgentVerdict,
+  BenchmarkAgentConfiguration,
+  BenchmarkBreakdown,
+  BenchmarkConfiguration,
+  BenchmarkLabel,
+  BenchmarkMetrics,
+  CalibrationBin,
+  Citation,
+  DetectionMetrics,
+  GroundTruthLabel,
+  Tier3AgentVerdict,
+  Tier3RiskLevel,
+} from '@/types/citation-json'
+import { getCitationRiskLevel } from './format-helpers'
+import { normalizeForSearch } from './authority'
+
+export const GROUND_TRUTH_LABELS: GroundTruthLabel[] = ['real', 'fabricated', 'miscited']
+
+// An agent score below this does not, on its own, clear a citation (CITATION_LIKELY_VALID needs 8)
+const TIER2_CLEAR_SCORE = 8
+const CALIBRATION_BINS = 5
+
+const RISK_PROBABILITY: Record<Tier3RiskLevel, number> = {
+  LOW_RISK: 0,
+  MODERATE_RISK: 0.5,
+  NEEDS_ADDITIONAL_REVIEW: 1,
+}
+
+const VERDICT_PROBABILITY: Record<string, number> = {
+  VALID: 0,
+  UNCERTAIN: 0.5,
+  INVALID: 1,
+}
+
+export interface BenchmarkPrediction {
+  label: GroundTruthLabel
+  flagged: boolean
+  probability: number // Predicted probability the citation is fabricated or mis-cited, 0-1
+}
+
+interface PredictionGroup {
+  tier: 'tier2' | 'tier3'
+  name: string
+  predictions: BenchmarkPrediction[]
+}
+
+/**
+ * Rate as a percentage for display, or a dash when it is undefined
+ */
+export function formatRate(value: number | null | undefined): string {
+  return value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? numerator / denominator : null
+}
+
+/**
+ * Probability a 1-10 score implies a problem: 10 maps to 0, 1 maps to 1
+ */
+function scoreProbability(score: number): number {
+  return Math.min(1, Math.max(0, (10 - score) / 9))
+}
+
+function calibrationBins(predictions: BenchmarkPrediction[]): CalibrationBin[] {
+  const bins: CalibrationBin[] = []
+  for (let i = 0; i < CALIBRATION_BINS; i++) {
+    const lower = i / CALIBRATION_BINS
+    const upper = (i + 1) / CALIBRATION_BINS
+    const inBin = predictions.filter(prediction =>
+      prediction.probability >= lower &&
+      (prediction.probability < upper || (i === CALIBRATION_BINS - 1 && prediction.probability <= upper))
+    )
+    if (inBin.length === 0) continue
+    bins.push({
+      lower,
+      upper,
+      count: inBin.length,
+      meanPredicted: inBin.reduce((sum, prediction) => sum + prediction.probability, 0) / inBin.length,
+      observedRate: inBin.filter(prediction => prediction.label !== 'real').length / inBin.length,
+    })
+  }
+  return bins
+}
+
+export function calculateDetectionMetrics(predictions: BenchmarkPrediction[]): DetectionMetrics {
+  let truePositives = 0
+  let falsePositives = 0
+  let falseNegatives = 0
+  let trueNegatives = 0
+  for (const prediction of predictions) {
+    const positive = prediction.label !== 'real'
+    if (positive && prediction.flagged) truePositives++
+    else if (positive) falseNegatives++
+    else if (prediction.flagged) falsePositives++
+    else trueNegatives++
+  }
+
+  const precision = ratio(truePositives, truePositives + falsePositives)
+  const recall = ratio(truePositives, truePositives + falseNegatives)
+  const f1 = precision !== null && recall !== null && precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : precision !== null && recall !== null ? 0 : null
+
+  const recallFor = (label: GroundTruthLabel) => {
+    const labeled = predictions.filter(prediction => prediction.label === label)
+    return ratio(labeled.filter(prediction => prediction.flagged).length, labeled.length)
+  }
+
+  const calibration = calibrationBins(predictions)
+  const brierScore = ratio(
+    predictions.reduce((sum, prediction) =>
+      sum + Math.pow(prediction.probability - (prediction.label !== 'real' ? 1 : 0), 2), 0),
+    predictions.length
+  )
+  const expectedCalibrationError = ratio(
+    calibration.reduce((sum, bin) => sum + bin.count * Math.abs(bin.meanPredicted - bin.observedRate), 0),
+    predictions.length
+  )
+
+  return {
+    evaluated: predictions.length,
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    trueNegatives,
+    precision,
+    recall,
+    f1,
+    accuracy: ratio(truePositives + trueNegatives, predictions.length),
+    recallByLabel: {
+      fabricated: recallFor('fabricated'),
+      miscited: recallFor('miscited'),
+    },
+    brierScore,
+    expectedCalibrationError,
+    calibration,
+  }
+}
+
+function meanProbability(values: Array<number | undefined>): number {
+  const known = values.filter((value): value is number => value !== undefined)
+  return known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 0.5
+}
+
+function tier2Prediction(citation: Citation, label: GroundTruthLabel): BenchmarkPrediction | null {
+  const consensus = citation.validation?.consensus
+  if (!consensus) return null
+
+  if (typeof consensus.average_score === 'number') {
+    return {
+      label,
+      flagged: consensus.average_score < TIER2_CLEAR_SCORE,
+      probability: scoreProbability(consensus.average_score),
+    }
+  }
+  // Legacy verdict-based panel
+  return {
+    label,
+    flagged: consensus.recommendation !== 'CITATION_LIKELY_VALID',
+    probability: meanProbability(citation.validation!.panel_evaluation.map(verdict => VERDICT_PROBABILITY[verdict.verdict || ''])),
+  }
+}
+
+function tier3Prediction(citation: Citation, label: GroundTruthLabel): BenchmarkPrediction | null {
+  if (!citation.tier_3) return null
+  return {
+    label,
+    flagged: getCitationRiskLevel({ validation: citation.validation, tier_3: citation.tier_3 }) !== 'LOW_RISK',
+    probability: meanProbability((citation.tier_3.panel_evaluation || []).map(verdict =>
+      verdict.risk_level ? RISK_PROBABILITY[verdict.risk_level] : VERDICT_PROBABILITY[verdict.verdict || '']
+    )),
+  }
+}
+
+function tier2AgentPrediction(verdict: AgentVerdict, label: GroundTruthLabel): BenchmarkPrediction | null {
+  if (typeof verdict.score === 'number') {
+    return { label, flagged: verdict.score < TIER2_CLEAR_SCORE, probability: scoreProbability(verdict.score) }
+  }
+  if (verdict.verdict) {
+    return { label, flagged: verdict.verdict !== 'VALID', probability: VERDICT_PROBABILITY[verdict.verdict] }
+  }
+  return null
+}
+
+function tier3AgentPrediction(verdict: Tier3AgentVerdict, label: GroundTruthLabel): BenchmarkPrediction | null {
+  if (verdict.risk_level) {
+    return { label, flagged: verdict.risk_level !== 'LOW_RISK', probability: RISK_PROBABILITY[verdict.risk_level] }
+  }
+  if (verdict.verdict) {
+    return { label, flagged: verdict.verdict !== 'VALID', probability: VERDICT_PROBABILITY[verdict.verdict] }
+  }
+  return null
+}
+
+/**
+ * Label for a run's citation: by citation id, or by citation text when the run was identified afresh
+ */
+function findLabel(
+  citation: Citation,
+  byId: Map<string, BenchmarkLabel>,
+  byText: Map<string, BenchmarkLabel>
+): BenchmarkLabel | undefined {
+  return byId.get(citation.id) || byText.get(normalizeForSearch(citation.citationText))
+}
+
+function groupMetrics(groups: Map<string, PredictionGroup>): BenchmarkBreakdown[] {
+  return Array.from(groups.values())
+    .map(group => ({ tier: group.tier, name: group.name, metrics: calculateDetectionMetrics(group.predictions) }))
+    .sort((a, b) => a.tier.localeCompare(b.tier) || a.name.localeCompare(b.name))
+}
+
+export function scoreBenchmarkRun(citations: Citation[], labels: BenchmarkLabel[]): BenchmarkMetrics {
+  const byId = new Map(labels.map(label => [label.citationId, label]))
+  const byText = new Map(labels.map(label => [normalizeForSearch(label.citationText), label]))
+
+  const tier2: BenchmarkPrediction[] = []
+  const tier3: BenchmarkPrediction[] = []
+  const final: BenchmarkPrediction[] = []
+  const agents = new Map<string, PredictionGroup>()
+  const models = new Map<string, PredictionGroup>()
+  const addTo = (
+    groups: Map<string, PredictionGroup>,
+    tier: 'tier2' | 'tier3',
+    name: string,
+    prediction: BenchmarkPrediction | null
+  ) => {
+    if (!prediction) return
+    const key = `${tier}:${name}`
+    if (!groups.has(key)) groups.set(key, { tier, name, predictions: [] })
+    groups.get(key)!.predictions.push(prediction)
+  }
+
+  const matched = new Set<BenchmarkLabel>()
+  let unvalidated = 0
+
+  for (const citation of citations) {
+    const match = findLabel(citation, byId, byText)
+    if (!match) continue
+    matched.add(match)
+    const label = match.label
+
+    if (!citation.validation) {
+      unvalidated++
+      continue
+    }
+
+    const tier2Result = tier2Prediction(citation, label)
+    const tier3Result = tier3Prediction(citation, label)
+    if (tier2Result) tier2.push(tier2Result)
+    if (tier3Result) tier3.push(tier3Result)
+    const finalResult = tier3Result || tier2Result
+    if (finalResult) final.push(finalResult)
+
+    for (const verdict of citation.validation.panel_evaluation || []) {
+      const prediction = tier2AgentPrediction(verdict, label)
+      addTo(agents, 'tier2', verdict.agent, prediction)
+      addTo(models, 'tier2', verdict.model, prediction)
+    }
+    for (const verdict of citation.tier_3?.panel_evaluation || []) {
+      const prediction = tier3AgentPrediction(verdict, label)
+      addTo(agents, 'tier3', verdict.agent, prediction)
+      addTo(models, 'tier3', verdict.model, prediction)
+    }
+  }
+
+  return {
+    tiers: {
+      tier2: calculateDetectionMetrics(tier2),
+      tier3: calculateDetectionMetrics(tier3),
+      final: calculateDetectionMetrics(final),
+    },
+    agents: groupMetrics(agents),
+    models: groupMetrics(models),
+    unmatchedLabels: labels.length - matched.size,
+    unvalidated,
+  }
+}
+
+/**
+ * Agents, definition versions and models recorded on a run's verdicts
+ */
+export function getRunConfiguration(citations: Citation[]): BenchmarkConfiguration {
+  const agents = new Map<string, BenchmarkAgentConfiguration>()
+  const record = (tier: 'tier2' | 'tier3', verdict: AgentVerdict | Tier3AgentVerdict) => {
+    const key = `${tier}:${verdict.agent}:${verdict.model}:${verdict.definition_version ?? ''}`
+    if (agents.has(key)) return
+    agents.set(key, {
+      tier,
+      agent: verdict.agent,
+      model: verdict.model,
+      definition_version: verdict.definition_version,
+    })
+  }
+
+  for (const citation of citations) {
+    for (const verdict of citation.validation?.panel_evaluation || []) record('tier2', verdict)
+    for (const verdict of citation.tier_3?.panel_evaluation || []) record('tier3', verdict)
+  }
+
+  return {
+    agents: Array.from(agents.values()).sort((a, b) =>
+      a.tier.localeCompare(b.tier) || a.agent.localeCompare(b.agent) || a.model.localeCompare(b.model)
+    ),
+  }
+}
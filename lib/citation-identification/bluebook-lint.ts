@@ -0,0 +1,233 @@
+/**
+ * Bluebook Linter
+ * Rule-based style checks over each identified citation ("F. 3d" -> "F.3d", "2nd Cir." -> "2d Cir.",
+ * a circuit case without its court), stored as recommendations with the corrected citation so a
+ * reviewer can apply them through the paragraph edit route
+ */
+
+import { BluebookRule, CaseComponents, Citation, CitationDocument, CitationRecommendation, isStructuralContent } from '@/types/citation-json'
+import { getCanonicalReporter, getCircuitForCourtId, getLookupTables } from './lookup-tables'
+import { PIN_CITE_SOURCE } from './pin-cites'
+
+interface StyleViolation {
+  rule: BluebookRule
+  reason: string
+  original: string
+  replacement?: string
+}
+
+const MARKER_TAG_PATTERN = /\[\/?CITATION:[^\]]+\]/g
+// Case name and pin cite and court/year parenthetical left outside the marker by identifiers that mark only "123 F.3d 456"
+const NAME_BEFORE_MARKER_PATTERN = /\S+\s+(?:vs?\.?)\s+[A-Z](?:(?!\sv\.?\s)[^;()[\]]){0,150},\s*$/
+const TAIL_AFTER_MARKER_PATTERN = new RegExp(`^(?:,\\s*(?:at\\s+)?${PIN_CITE_SOURCE})?\\s*\\([^()]*\\)`)
+// Volume, reporter as written, then a page or "at"
+const REPORTER_PATTERN = /\b\d+\s+([A-Z][A-Za-z0-9.'’\s]*?)\s+(?=\d+\b|at\s+\d|_{3})/g
+// Series written with "nd" or "rd": courts, editions and reporter series
+const ORDINAL_PATTERN = /\b(\d*[23])(?:nd|rd)\b(?=\s*(?:Cir\.|Dist\.|ed\.|Dep['’]t)|\s+\d)/g
+const SECTION_SYMBOL_PATTERN = /(§§?)(?=\d)/g
+const VERSUS_PATTERN = /(\S+)\s+(vs\.?|v)(?=\s+[A-Z])/
+const CODE_PATTERN = /\b(\d+)\s+(U\.?\s?S\.?\s?C\.?|C\.?\s?F\.?\s?R\.?)(\s*§*\s*)(?=\d)/
+const COURT_YEAR_PATTERN = /\(([^()]*?)\s*(\d{4})\)/
+const SUPREME_COURT_PATTERN = /^(?:U\.\s?S\.|S\.\s?Ct\.|Sup\.\s?Ct\.|Supreme Court)$/i
+
+function checkReporters(text: string): StyleViolation[] {
+  const violations: StyleViolation[] = []
+  for (const match of Array.from(text.matchAll(REPORTER_PATTERN))) {
+    const written = match[1].trim()
+    const canonical = getCanonicalReporter(written)
+    if (canonical && canonical !== written) {
+      violations.push({
+        rule: 'reporter-abbreviation',
+        reason: `The reporter is abbreviated "${canonical}"`,
+        original: written,
+        replacement: canonical,
+      })
+    }
+  }
+  return violations
+}
+
+function checkOrdinals(text: string): StyleViolation[] {
+  return Array.from(text.matchAll(ORDINAL_PATTERN), match => ({
+    rule: 'ordinal' as const,
+    reason: `Ordinals are written "2d" and "3d", not "${match[0]}"`,
+    original: match[0],
+    replacement: `${match[1]}d`,
+  }))
+}
+
+function checkSectionSymbols(text: string): StyleViolation[] {
+  return Array.from(text.matchAll(SECTION_SYMBOL_PATTERN), match => ({
+    rule: 'section-symbol' as const,
+    reason: `A space follows "${match[1]}"`,
+    original: text.slice(match.index!, match.index! + match[1].length + 1),
+    replacement: `${match[1]} ${text[match.index! + match[1].length]}`,
+  }))
+}
+
+function checkVersus(text: string): StyleViolation[] {
+  const match = text.match(VERSUS_PATTERN)
+  if (!match) return []
+  return [{
+    rule: 'versus',
+    reason: `Case names use "v.", not "${match[2]}"`,
+    original: `${match[1]} ${match[2]}`,
+    replacement: `${match[1]} v.`,
+  }]
+}
+
+function checkCodes(text: string): StyleViolation[] {
+  const match = text.match(CODE_PATTERN)
+  if (!match) return []
+  const tables = getLookupTables()
+  const key = match[2].replace(/[\s.]/g, '').toUpperCase()
+  const canonical = [...tables.federal_codes.statutes, ...tables.federal_codes.regulations]
+    .find(code => code.replace(/[\s.]/g, '') === key)
+  // Spacing after a section symbol that is there is left to checkSectionSymbols
+  const hasSectionSymbol = match[3].includes('§')
+  if (!canonical || (canonical === match[2] && hasSectionSymbol)) return []
+  const written = `${match[2]}${match[3]}`
+  const corrected = `${canonical}${hasSectionSymbol ? match[3] : ' § '}`
+  return [{
+    rule: 'code-abbreviation',
+    reason: `Cite the code as "${match[1]} ${canonical} §"`,
+    original: `${match[1]} ${written}`,
+    replacement: `${match[1]} ${corrected}`,
+  }]
+}
+
+/**
+ * Court parenthetical: a court of appeals or district court case needs its court, and a Supreme Court
+ * case, whose reporter already names the court, does not
+ */
+function checkCourtParenthetical(text: string, components: Partial<CaseComponents>): StyleViolation[] {
+  const courtYear = text.match(COURT_YEAR_PATTERN)
+  const firstReporter = text.match(REPORTER_PATTERN)?.[0]
+  if (!courtYear || !firstReporter) return []
+
+  const reporter = getCanonicalReporter(firstReporter.replace(/^\d+\s+/, '').trim())
+  const court = courtYear[1].replace(/,$/, '').trim()
+  const year = courtYear[2]
+  const { federal_reporters: reporters } = getLookupTables()
+
+  if (reporter && reporters.supreme_court.includes(reporter) && SUPREME_COURT_PATTERN.test(court)) {
+    return [{
+      rule: 'court-parenthetical',
+      reason: 'Supreme Court reporters already name the court; give only the year',
+      original: courtYear[0],
+      replacement: `(${year})`,
+    }]
+  }
+
+  if (court) return []
+  if (reporter && reporters.federal_appellate.includes(reporter)) {
+    const circuit = getCircuitForCourtId(components.court || '')
+    return [{
+      rule: 'court-parenthetical',
+      reason: 'A court of appeals case names the circuit in the parenthetical, e.g. "(2d Cir. 1999)"',
+      original: courtYear[0],
+      ...(circuit ? { replacement: `(${circuit} ${year})` } : {}),
+    }]
+  }
+  if (reporter && reporters.federal_district.includes(reporter)) {
+    return [{
+      rule: 'court-parenthetical',
+      reason: 'A district court case names the district in the parenthetical, e.g. "(S.D.N.Y. 1999)"',
+      original: courtYear[0],
+    }]
+  }
+  return []
+}
+
+/**
+ * Style violations in a citation as written, including the pin cite and parenthetical after it
+ */
+function lintCitationText(text: string, citation: Pick<Citation, 'citationType' | 'extractedComponents' | 'shortForm'>): StyleViolation[] {
+  const violations = [
+    ...checkReporters(text),
+    ...checkOrdinals(text),
+    ...checkSectionSymbols(text),
+    ...checkCodes(text),
+  ]
+  if (citation.citationType === 'case' && !citation.shortForm) {
+    violations.push(...checkVersus(text))
+    violations.push(...checkCourtParenthetical(text, citation.extractedComponents as Partial<CaseComponents>))
+  }
+  return violations
+}
+
+/**
+ * Where a citation is written in a paragraph: its marked text, with the case name before it and the pin cite
+ * and parenthetical after it when the marker leaves them out, or null when the citation is not marked there
+ */
+function findCitationSpan(paragraphText: string, citationId: string): { start: number; end: number } | null {
+  const openTag = `[CITATION:${citationId}]`
+  const closeTag = `[/CITATION:${citationId}]`
+  const openIndex = paragraphText.indexOf(openTag)
+  const closeIndex = paragraphText.indexOf(closeTag, openIndex)
+  if (openIndex === -1 || closeIndex === -1) return null
+
+  const before = paragraphText.slice(0, openIndex).replace(/^[\s\S]*\[\/CITATION:[^\]]+\]/, '')
+  const after = paragraphText.slice(closeIndex + closeTag.length).replace(/\[CITATION:[\s\S]*$/, '')
+  const name = before.match(NAME_BEFORE_MARKER_PATTERN)?.[0] || ''
+  const tail = after.match(TAIL_AFTER_MARKER_PATTERN)?.[0] || ''
+  return { start: openIndex - name.length, end: closeIndex + closeTag.length + tail.length }
+}
+
+/**
+ * Lint every citation against the Bluebook rules above and store the violations in its recommendations
+ * Recommendations that are not style corrections are kept; safe to re-run
+ */
+export function lintCitations(jsonData: CitationDocument): CitationDocument {
+  const { document } = jsonData
+  const violationsById = new Map<string, CitationRecommendation[]>()
+
+  for (const block of document.content) {
+    if (isStructuralContent(block)) continue
+
+    for (const citation of document.citations) {
+      // A citation marked more than once is linted where it is first written
+      if (violationsById.has(citation.id)) continue
+      const span = findCitationSpan(block.text, citation.id)
+      if (!span) continue
+
+      const text = block.text.slice(span.start, span.end).replace(MARKER_TAG_PATTERN, '')
+      violationsById.set(citation.id, lintCitationText(text, citation).map(violation => ({
+        citationText: violation.replacement !== undefined ? text.replace(violation.original, violation.replacement) : text,
+        ...violation,
+      })))
+    }
+  }
+
+  const citations = document.citations.map(citation => {
+    const others = (citation.recommendations || []).filter(recommendation => !recommendation.rule)
+    const recommendations = [...others, ...(violationsById.get(citation.id) || [])]
+    return { ...citation, recommendations: recommendations.length > 0 ? recommendations : null }
+  })
+
+  const violationCount = citations.reduce((count, citation) => count + (citation.recommendations || []).filter(r => r.rule).length, 0)
+  console.log('[lintCitations] Found', violationCount, 'Bluebook style violations')
+
+  return {
+    document: {
+      ...document,
+      citations,
+    },
+  }
+}
+
+/**
+ * Paragraph text with a style correction applied to a citation, or null when the correction
+ * has no replacement or its text is no longer where the citation is written
+ */
+export function applyRecommendation(paragraphText: string, citationId: string, recommendation: CitationRecommendation): string | null {
+  if (!recommendation.original || recommendation.replacement === undefined) return null
+
+  const span = findCitationSpan(paragraphText, citationId)
+  if (!span) return null
+  const index = paragraphText.slice(span.start, span.end).indexOf(recommendation.original)
+  if (index === -1) return null
+
+  const at = span.start + index
+  return paragraphText.slice(0, at) + recommendation.replacement + paragraphText.slice(at + recommendation.original.length)
+}
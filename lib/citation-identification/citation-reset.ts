@@ -0,0 +1,17 @@
+/**
+ * Citation Reset
+ * Returns a citation to its identification results, as a test run or synthetic document starts from
+ */
+
+import { Citation } from '@/types/citation-json'
+
+/**
+ * Remove a citation's validation output. Short-form links, signals, parentheticals, quotations and
+ * Bluebook recommendations all come from identification and are kept
+ */
+export function clearCitationResults(citation: Citation): void {
+  delete citation.validation
+  delete citation.heavy_analysis
+  delete citation.manualReview
+  citation.tier_3 = null
+}
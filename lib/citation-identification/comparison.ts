@@ -21,6 +21,8 @@ export interface ComparisonResult {
     statute: { custom: number; eyecite: number }
     regulation: { custom: number; eyecite: number }
     rule: { custom: number; eyecite: number }
+    constitution: { custom: number; eyecite: number }
+    sessionLaw: { custom: number; eyecite: number }
     secondary: { custom: number; eyecite: number }
   }
 }
@@ -123,6 +125,8 @@ export function compareCitationResults(
       statute: 0,
       regulation: 0,
       rule: 0,
+      constitution: 0,
+      sessionLaw: 0,
       secondary: 0,
     }
     for (const citation of citations) {
@@ -161,6 +165,14 @@ export function compareCitationResults(
         custom: customTypeCounts.rule,
         eyecite: eyeciteTypeCounts.rule,
       },
+      constitution: {
+        custom: customTypeCounts.constitution,
+        eyecite: eyeciteTypeCounts.constitution,
+      },
+      sessionLaw: {
+        custom: customTypeCounts.sessionLaw,
+        eyecite: eyeciteTypeCounts.sessionLaw,
+      },
       secondary: {
         custom: customTypeCounts.secondary,
         eyecite: eyeciteTypeCounts.secondary,
@@ -0,0 +1,109 @@
+/**
+ * Constitutional Provisions
+ * Builds components for constitution citations ("U.S. Const. art. III, § 2, cl. 1",
+ * "Cal. Const. art. I, § 7") and checks article, amendment and section numbers
+ * against the structure of the U.S. Constitution
+ */
+
+import { ConstitutionComponents } from '@/types/citation-json'
+import { getStateForCourt } from './lookup-tables'
+
+const ROMAN_NUMERAL_PATTERN = /^(?=[IVXLC])C{0,3}(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})$/
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100 }
+
+const US_CONSTITUTION_ARTICLES = 7
+const US_CONSTITUTION_AMENDMENTS = 27
+
+// Numbered sections of each article; Articles V through VII have none
+const ARTICLE_SECTIONS = [10, 4, 3, 4, 0, 0, 0]
+
+// Numbered sections of each amendment; amendments not listed have none
+const AMENDMENT_SECTIONS: Record<number, number> = {
+  13: 2, 14: 5, 15: 2, 18: 3, 20: 6, 21: 3, 22: 2, 23: 2, 24: 2, 25: 4, 26: 2,
+}
+
+/**
+ * Value of an article or amendment number written in Roman or Arabic numerals, or null if it is neither
+ */
+export function parseProvisionNumber(written: string): number | null {
+  const text = written.trim().toUpperCase()
+  if (/^\d+$/.test(text)) return parseInt(text, 10)
+  if (!ROMAN_NUMERAL_PATTERN.test(text)) return null
+
+  let value = 0
+  for (let i = 0; i < text.length; i++) {
+    const current = ROMAN_VALUES[text[i]]
+    const next = ROMAN_VALUES[text[i + 1]] || 0
+    value += current < next ? -current : current
+  }
+  return value
+}
+
+/**
+ * Constitution components from a pattern match's raw components
+ */
+export function constitutionComponents(components: Record<string, string>): ConstitutionComponents {
+  return {
+    jurisdiction: components.jurisdiction,
+    ...(components.article ? { article: components.article } : {}),
+    ...(components.amendment ? { amendment: components.amendment } : {}),
+    ...(components.section ? { section: components.section } : {}),
+    ...(components.clause ? { clause: components.clause } : {}),
+    ...(components.preamble ? { preamble: true } : {}),
+    ...(components.state ? { state: components.state } : {}),
+  }
+}
+
+/**
+ * State a constitution citation belongs to, or null for the U.S. Constitution and unknown states
+ */
+export function getStateForConstitution(jurisdiction: string): string | null {
+  if (/^U\.\s?S\.$/.test(jurisdiction.trim())) return null
+  return getStateForCourt(jurisdiction)
+}
+
+/**
+ * Local checks on a constitution citation: numerals must be well formed, and U.S. Constitution
+ * articles (I-VII), amendments (I-XXVII) and their sections must exist
+ */
+export function checkConstitutionCitation(components: ConstitutionComponents): string[] {
+  const issues: string[] = []
+  const isFederal = /^U\.\s?S\.$/.test(components.jurisdiction.trim())
+
+  if (components.article) {
+    const article = parseProvisionNumber(components.article)
+    if (article === null || article < 1) {
+      issues.push(`"${components.article}" is not a valid article number`)
+    } else if (isFederal) {
+      if (article > US_CONSTITUTION_ARTICLES) {
+        issues.push(`The U.S. Constitution has no Article ${components.article} (it has ${US_CONSTITUTION_ARTICLES} articles)`)
+      } else if (components.section) {
+        issues.push(...checkSection(`Article ${components.article}`, components.section, ARTICLE_SECTIONS[article - 1]))
+      }
+    }
+  }
+
+  if (components.amendment) {
+    const amendment = parseProvisionNumber(components.amendment)
+    if (amendment === null || amendment < 1) {
+      issues.push(`"${components.amendment}" is not a valid amendment number`)
+    } else if (isFederal) {
+      if (amendment > US_CONSTITUTION_AMENDMENTS) {
+        issues.push(`The U.S. Constitution has no Amendment ${components.amendment} (it has ${US_CONSTITUTION_AMENDMENTS} amendments)`)
+      } else if (components.section) {
+        issues.push(...checkSection(`Amendment ${components.amendment}`, components.section, AMENDMENT_SECTIONS[amendment] || 0))
+      }
+    }
+  }
+
+  return issues
+}
+
+function checkSection(provision: string, section: string, sectionCount: number): string[] {
+  const number = parseInt(section, 10)
+  if (sectionCount === 0) return [`${provision} has no numbered sections`]
+  if (isNaN(number) || number < 1 || number > sectionCount) {
+    return [`${provision} has no § ${section} (it has ${sectionCount} sections)`]
+  }
+  return []
+}
@@ -190,9 +190,15 @@ export function extractDocumentContext(
     .replace(/\s+/g, ' ')                    // Normalize whitespace
     .trim()
   
+  // Label footnote context so the reader knows the citation is not in the body text
+  if (containingParagraph.type === 'footnote' && containingParagraph.footnoteNumber) {
+    const label = containingParagraph.noteKind === 'endnote' ? 'Endnote' : 'Footnote'
+    contextText = `[${label} ${containingParagraph.footnoteNumber}] ${contextText}`
+  }
+  
   // Optionally include preceding sentences from previous paragraph
-  if (includePreceding && paragraphIndex > 0) {
-    const previousParagraph = document.content[paragraphIndex - 1]
+  if (includePreceding) {
+    const previousParagraph = findPrecedingBlock(document.content, paragraphIndex)
     if (previousParagraph && previousParagraph.text) {
       // Extract last 1-2 sentences from previous paragraph
       const sentences = previousParagraph.text
@@ -213,6 +219,26 @@ export function extractDocumentContext(
   return contextText
 }
 
+/**
+ * Find the block that precedes a block in reading order
+ * A footnote follows the paragraph holding its reference mark; body text skips over interleaved footnotes
+ */
+function findPrecedingBlock(content: ContentParagraph[], index: number): ContentParagraph | null {
+  const block = content[index]
+  if (block.type === 'footnote') {
+    if (block.anchorParagraphId) {
+      const anchor = content.find(p => p.id === block.anchorParagraphId)
+      if (anchor) return anchor
+    }
+    return index > 0 ? content[index - 1] : null
+  }
+  
+  for (let i = index - 1; i >= 0; i--) {
+    if (content[i].type !== 'footnote') return content[i]
+  }
+  return null
+}
+
 /**
  * Extract context for multiple citations efficiently
  * Returns a map of citationId -> context
@@ -3,11 +3,26 @@
  * Converts Eyecite citation extraction results to CitationDocument format
  */
 
-import { CitationDocument, Citation, ContentParagraph } from '@/types/citation-json'
+import { CitationDocument, Citation, ContentParagraph, IdentificationOptions, isStructuralContent } from '@/types/citation-json'
 import { getCitations } from '@beshkenadze/eyecite'
 import { validateCitation } from './validators'
 import { CitationMatch, findAllCitations } from './patterns'
 import { LogCollector } from './logger'
+import { resolveShortForms } from './short-forms'
+import { captureSignalsAndParentheticals } from './signals'
+import { lintCitations } from './bluebook-lint'
+import { attachQuotations } from './quotations'
+import { PIN_CITE_SOURCE, extractPinCiteAfter, pinCiteComponents } from './pin-cites'
+import { parallelCitationComponents } from './parallel-citations'
+import { constitutionComponents } from './constitutions'
+import { sessionLawComponents } from './session-laws'
+import { secondarySourceComponents } from './secondary-sources'
+import { getStateForCase, isValidJournal } from './lookup-tables'
+
+// Text between the reporters of a parallel cite: ", " or a pin cite such as ", 116, "
+const PARALLEL_SEPARATOR_PATTERN = new RegExp(`^,\\s*(?:${PIN_CITE_SOURCE},\\s*)?$`)
+
+type PositionedMatch = { match: CitationMatch; eyecite: any; startIndex: number; endIndex: number }
 
 /**
  * Strip existing citation markers from text before processing
@@ -155,6 +170,52 @@ function extractCitationText(eyeciteCitation: any, text: string): string {
   return result
 }
 
+/**
+ * Merge the case citations Eyecite reports separately for each reporter of a parallel cite
+ * ("410 U.S. 113, 93 S. Ct. 705") into one match spanning all of them
+ */
+function mergeParallelCitations(matches: PositionedMatch[], text: string, logger: LogCollector): PositionedMatch[] {
+  const merged: PositionedMatch[] = []
+  
+  for (const current of [...matches].sort((a, b) => a.startIndex - b.startIndex)) {
+    const previous = merged[merged.length - 1]
+    const isParallel = previous &&
+      previous.match.type === 'case' && current.match.type === 'case' &&
+      !/\sat\s/.test(previous.match.fullMatch) && !/\sat\s/.test(current.match.fullMatch) &&
+      PARALLEL_SEPARATOR_PATTERN.test(text.slice(previous.endIndex, current.startIndex))
+    
+    if (!isParallel) {
+      merged.push(current)
+      continue
+    }
+    
+    const fullMatch = text.slice(previous.startIndex, current.endIndex)
+    const first = previous.match.components
+    const next = current.match.components
+    merged[merged.length - 1] = {
+      ...previous,
+      endIndex: current.endIndex,
+      match: {
+        ...previous.match,
+        fullMatch,
+        endIndex: current.endIndex,
+        components: {
+          ...first,
+          party_1: first.party_1 || next.party_1,
+          party_2: first.party_2 || next.party_2,
+          // The parenthetical follows the last reporter; Eyecite can give earlier ones another year
+          court: next.court || first.court,
+          year: next.year || first.year,
+          parallel: fullMatch,
+        },
+      },
+    }
+    logger.log(`Grouped parallel citation: ${fullMatch}`)
+  }
+  
+  return merged
+}
+
 /**
  * Convert Eyecite citation to CitationMatch format for validation
  * Uses property-based detection to work in both dev (unminified) and production (minified) environments
@@ -195,6 +256,36 @@ function eyeciteToCitationMatch(eyeciteCitation: any, text: string, startIndex:
     }
   }
   
+  // Eyecite also reads journals and A.L.R. annotations as case reporters; the custom patterns
+  // supply them as secondary sources along with their author and title
+  if (isValidJournal(reporter) || /^A\.\s?L\.\s?R\./.test(reporter)) {
+    logger.log(`Leaving secondary source to custom patterns: ${citationText}`)
+    return null
+  }
+  
+  // Eyecite reads the Statutes at Large ("124 Stat. 119") as a case reporter
+  if (reporter === 'Stat.' && volume && page) {
+    const pin = extractPinCiteAfter(text.slice(endIndex)) || ''
+    const year = text.slice(endIndex).match(/^(?:,\s*[\d,\s\-–]+)?\s*\((\d{4})\)/)?.[1] || ''
+    
+    logger.log('Session law citation components (property-based):', { volume, page, pin, year })
+    
+    return {
+      fullMatch: citationText,
+      startIndex,
+      endIndex,
+      type: 'sessionLaw',
+      components: {
+        public_law: '',
+        section: '',
+        volume,
+        page,
+        pin,
+        year,
+      },
+    }
+  }
+  
   // Property-based detection: Check if this looks like a case citation
   // Case citations have volume, reporter, and page
   if (volume && reporter && page) {
@@ -202,9 +293,11 @@ function eyeciteToCitationMatch(eyeciteCitation: any, text: string, startIndex:
     const court = metadata.court || ''
     const plaintiff = metadata.plaintiff || ''
     const defendant = metadata.defendant || ''
+    // Eyecite keeps only the first of several pins and drops footnote pins, so read them from the text
+    const pin = /\sat\s/.test(citationText) ? '' : extractPinCiteAfter(text.slice(endIndex)) || ''
     
     logger.log('Case citation components (property-based):', {
-      volume, reporter, page, year, court, plaintiff, defendant,
+      volume, reporter, page, pin, year, court, plaintiff, defendant,
       groupsReporter: groups.reporter,
       metadataReporter: metadata.reporter
     })
@@ -220,8 +313,10 @@ function eyeciteToCitationMatch(eyeciteCitation: any, text: string, startIndex:
         volume,
         reporter,
         page,
+        pin,
         court,
         year,
+        state: getStateForCase(reporter, court) || '',
       },
     }
   }
@@ -354,8 +449,12 @@ function findCitationPosition(text: string, citationText: string, startFrom: num
 /**
  * Identify citations using Eyecite and convert to CitationDocument format
  * Returns both the updated document and logs for browser console
+ * Structural blocks (caption, table of authorities, signature, certificate) are skipped unless requested
  */
-export function identifyCitationsEyecite(jsonData: CitationDocument): { document: CitationDocument; logs: any[] } {
+export function identifyCitationsEyecite(
+  jsonData: CitationDocument,
+  options: IdentificationOptions = {}
+): { document: CitationDocument; logs: any[] } {
   try {
     // Validate input
     if (!jsonData || !jsonData.document) {
@@ -390,6 +489,12 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
     
     // Process content to find all citations
     document.content.forEach((paragraph: ContentParagraph) => {
+      // TOA entries and caption text would otherwise duplicate body citations
+      if (!options.includeStructuralBlocks && isStructuralContent(paragraph)) {
+        logger.log(`Skipping ${paragraph.type} block: ${paragraph.id}`)
+        return
+      }
+      
       // Strip existing citation markers before processing to prevent nested markers
       const originalText = paragraph.text
       const text = stripCitationMarkers(originalText)
@@ -637,8 +742,8 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
       
       logger.log(`Filtered ${citationMatches.length} matches to ${filteredCitationMatches.length} non-overlapping matches`)
       
-      // Add filtered matches from this paragraph to the global list
-      filteredCitationMatches.forEach(({ match, eyecite, startIndex, endIndex }) => {
+      // Add filtered matches from this paragraph to the global list, one per parallel cite
+      mergeParallelCitations(filteredCitationMatches, text, logger).forEach(({ match, eyecite, startIndex, endIndex }) => {
         allCitationMatches.push({
           match,
           eyecite,
@@ -653,7 +758,15 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
     // Now create citations from all matches
     logger.log(`Found ${allCitationMatches.length} total citation matches before deduplication`)
     
-    for (const { match, eyecite } of allCitationMatches) {
+    // Footnote numbers by paragraph, so citations found in notes keep that context
+    const footnoteNumbers = new Map<string, number>()
+    document.content.forEach((paragraph: ContentParagraph) => {
+      if (paragraph.type === 'footnote' && paragraph.footnoteNumber) {
+        footnoteNumbers.set(paragraph.id, paragraph.footnoteNumber)
+      }
+    })
+    
+    for (const { match, eyecite, paragraphId } of allCitationMatches) {
       const citationId = `cit_${String(citationCounter).padStart(3, '0')}`
       citationCounter++
       
@@ -673,6 +786,9 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
           page: match.components.page,
           court: match.components.court,
           year: match.components.year ? parseInt(match.components.year) : undefined,
+          ...pinCiteComponents(match.components.pin),
+          ...parallelCitationComponents(match.components.parallel),
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       } else if (match.type === 'statute') {
         extractedComponents = {
@@ -680,12 +796,14 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
           code: match.components.code,
           section: match.components.section,
           subdivision: null,
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       } else if (match.type === 'regulation') {
         extractedComponents = {
           title: match.components.volume,
           code: match.components.code,
           section: match.components.section,
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       } else if (match.type === 'rule') {
         extractedComponents = {
@@ -693,6 +811,12 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
           rule: match.components.rule_number,
           subdivision: null,
         }
+      } else if (match.type === 'constitution') {
+        extractedComponents = constitutionComponents(match.components)
+      } else if (match.type === 'sessionLaw') {
+        extractedComponents = sessionLawComponents(match.components)
+      } else if (match.type === 'secondary') {
+        extractedComponents = secondarySourceComponents(match.components)
       } else {
         // Fallback for unknown types
         extractedComponents = match.components
@@ -712,6 +836,7 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
         },
         tier_3: null,
         recommendations: null,
+        ...(footnoteNumbers.has(paragraphId) ? { footnoteNumber: footnoteNumbers.get(paragraphId) } : {}),
       }
       
       allCitations.push(citation)
@@ -742,7 +867,7 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
       }
       
       // Filter out unknown citation types
-      if (!citation.citationType || citation.citationType === 'secondary') {
+      if (!citation.citationType) {
         logger.warn(`Filtering out citation type: ${citation.citationType || 'unknown'} for citation ${citation.id}`)
         return false
       }
@@ -1069,8 +1194,12 @@ export function identifyCitationsEyecite(jsonData: CitationDocument): { document
       },
     }
     
+    // Step 7: Link Id., supra and short case cites to their full citations, read signals and parentheticals,
+    // check each citation's Bluebook form, then attach quotations to the citations they come from
+    const resolvedDocument = attachQuotations(lintCitations(captureSignalsAndParentheticals(resolveShortForms(updatedDocument))))
+    
     return {
-      document: updatedDocument,
+      document: resolvedDocument,
       logs: logger.getLogs(),
     }
   } catch (error) {
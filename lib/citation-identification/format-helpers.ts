@@ -3,8 +3,48 @@
  * Utilities for detecting format versions and providing display helpers
  */
 
-import { AgentVerdict, Tier3AgentVerdict, CitationValidation, Tier3Result, Tier3RiskLevel } from '@/types/citation-json'
-import { getTier3FinalStatus } from './validation'
+import { AgentVerdict, Tier3AgentVerdict, CitationValidation, Tier3FinalStatus, Tier3Result, Tier3RiskLevel } from '@/types/citation-json'
+
+/**
+ * Helper function to get Tier 3 final status from new format (risk-based) or legacy format
+ * Maps risk levels to final_status for backward compatibility
+ */
+export function getTier3FinalStatus(tier3Result: Tier3Result | null | undefined): Tier3FinalStatus | null {
+  if (!tier3Result) {
+    return null
+  }
+  
+  // New format: use consensus.final_risk_level and map to final_status
+  if (tier3Result.consensus?.final_risk_level) {
+    const riskLevel = tier3Result.consensus.final_risk_level
+    if (riskLevel === 'LOW_RISK') {
+      return 'VALID'
+    } else if (riskLevel === 'MODERATE_RISK') {
+      return 'WARN'
+    } else if (riskLevel === 'NEEDS_ADDITIONAL_REVIEW') {
+      return 'FAIL'
+    }
+  }
+  
+  // Legacy format: use consensus.final_status
+  if (tier3Result.consensus?.final_status) {
+    return tier3Result.consensus.final_status
+  }
+  
+  // Old format: map legacy verdict to new status
+  if (tier3Result.verdict) {
+    if (tier3Result.verdict === 'VERIFIED_REAL' || tier3Result.verdict === 'LIKELY_REAL') {
+      return 'VALID'
+    } else if (tier3Result.verdict === 'NEEDS_HUMAN_REVIEW') {
+      return 'WARN'
+    } else if (tier3Result.verdict === 'LIKELY_FABRICATED') {
+      return 'FAIL'
+    }
+  }
+  
+  // Default to WARN if we can't determine
+  return 'WARN'
+}
 
 /**
  * Citation with optional validation data
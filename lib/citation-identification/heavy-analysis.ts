@@ -4,13 +4,10 @@
  * Evaluates all citations at once with document context
  */
 
-import Anthropic from '@anthropic-ai/sdk'
-import retry from 'async-retry'
 import { CitationDocument, Citation, HeavyAnalysisResult, HeavyAnalysisRiskLevel } from '@/types/citation-json'
-import { extractTokens, calculateCost, TokenUsage, Provider } from './token-tracking'
+import { calculateCost, TokenUsage, Provider } from './token-tracking'
+import { chat } from '@/lib/llm'
 import { logger } from '@/lib/logger'
-// Import types only (not the implementation) to avoid webpack chunking issues
-import type OpenAI from 'openai'
 
 // Default model per provider
 export const DEFAULT_MODELS: Record<Provider, string> = {
@@ -20,63 +17,23 @@ export const DEFAULT_MODELS: Record<Provider, string> = {
   grok: 'grok-3-fast',
 }
 
-// Grok models (xAI - using OpenAI-compatible API)
-export const GROK_MODELS = ['grok-3-fast-beta', 'grok-3-fast', 'grok-3-fast-latest']
-
-// Retry configuration
-const RETRY_CONFIG = {
-  retries: 3,
-  minTimeout: 1000, // 1 second
-  maxTimeout: 10000, // 10 seconds
-  factor: 2, // Exponential backoff: 1s, 2s, 4s
-  randomize: true, // Add jitter to prevent thundering herd
-}
-
-/**
- * Determine if an error is retryable
- */
-function isRetryableError(error: any): boolean {
-  if (error?.status) {
-    const status = error.status
-    if (status === 429 || (status >= 500 && status < 600)) {
-      return true
-    }
-    if (status >= 400 && status < 500) {
-      return false
-    }
-  }
-  
-  if (error?.code) {
-    const code = error.code.toLowerCase()
-    if (code === 'econnreset' || code === 'etimedout' || code === 'econnrefused' || 
-        code === 'enotfound' || code === 'timeout' || code === 'network_error') {
-      return true
-    }
-  }
-  
-  const message = error?.message?.toLowerCase() || ''
-  if (message.includes('rate limit') || 
-      message.includes('timeout') || 
-      message.includes('network') ||
-      message.includes('server error') ||
-      message.includes('temporary')) {
-    return true
-  }
-  
-  return true
-}
-
 /**
  * Extract full document text from JSON (removing citation markers)
  */
 function extractFullDocumentText(jsonData: CitationDocument): string {
   const { document } = jsonData
   return document.content
-    .map(para => para.text
-      .replace(/\[CITATION:[^\]]+\]/g, '')
-      .replace(/\[\/CITATION:[^\]]+\]/g, '')
-      .trim()
-    )
+    .map(para => {
+      const text = para.text
+        .replace(/\[CITATION:[^\]]+\]/g, '')
+        .replace(/\[\/CITATION:[^\]]+\]/g, '')
+        .trim()
+      // Keep notes identifiable since they are interleaved with the body text
+      if (para.type === 'footnote' && text) {
+        return `[${para.noteKind === 'endnote' ? 'Endnote' : 'Footnote'} ${para.footnoteNumber ?? ''}] ${text}`
+      }
+      return text
+    })
     .filter(text => text.length > 0)
     .join('\n\n')
 }
@@ -229,185 +186,6 @@ function parseHeavyAnalysisResponse(
   return results
 }
 
-/**
- * Call Anthropic Claude API
- */
-async function callAnthropic(
-  prompt: string,
-  model: string,
-  apiKey: string,
-  maxOutputTokens: number
-): Promise<{ responseText: string; tokenUsage: TokenUsage | null }> {
-  const anthropic = new Anthropic({ apiKey })
-  
-  const message = await retry(
-    async (bail: (error: Error) => void): Promise<Anthropic.Messages.Message> => {
-      try {
-        return await anthropic.messages.create({
-          model,
-          max_tokens: maxOutputTokens,
-          temperature: 0.3,
-          messages: [{ role: 'user', content: prompt }],
-        })
-      } catch (error: any) {
-        if (!isRetryableError(error)) {
-          bail(error instanceof Error ? error : new Error(String(error)))
-          throw error
-        }
-        throw error
-      }
-    },
-    RETRY_CONFIG
-  )
-
-  const tokenUsage = extractTokens(message, model, 'anthropic')
-  const responseText = message.content
-    .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
-    .map(block => block.text)
-    .join('\n')
-
-  return { responseText, tokenUsage }
-}
-
-/**
- * Call OpenAI API (or Grok via OpenAI-compatible endpoint)
- */
-async function callOpenAI(
-  prompt: string,
-  model: string,
-  apiKey: string,
-  maxOutputTokens: number,
-  isGrok: boolean = false
-): Promise<{ responseText: string; tokenUsage: TokenUsage | null }> {
-  // Dynamic import to avoid webpack chunking issues
-  const { default: OpenAI } = await import('openai')
-  const baseURL = isGrok ? 'https://api.x.ai/v1' : undefined
-  
-  // Validate Grok model if it's Grok
-  if (isGrok && !GROK_MODELS.includes(model)) {
-    throw new Error(`Invalid Grok model: ${model}. Valid models are: ${GROK_MODELS.join(', ')}. The model 'grok-beta' has been deprecated.`)
-  }
-  
-  const openai = new OpenAI({ apiKey, baseURL })
-  
-  logger.debug(`Calling ${isGrok ? 'Grok' : 'OpenAI'} API`, { model, baseURL: baseURL || 'default' }, 'HeavyAnalysis')
-  
-  // GPT-5.1 models require 'max_completion_tokens' instead of 'max_tokens'
-  const isGPT51 = model.startsWith('gpt-5.1')
-  
-  const completion = await retry(
-    async (bail: (error: Error) => void): Promise<any> => {
-      try {
-        const requestParams: any = {
-          model,
-          temperature: 0.3,
-          messages: [{ role: 'user', content: prompt }],
-        }
-        
-        // Use the correct parameter name based on model version
-        if (isGPT51) {
-          requestParams.max_completion_tokens = maxOutputTokens
-        } else {
-          requestParams.max_tokens = maxOutputTokens
-        }
-        
-        return await openai.chat.completions.create(requestParams)
-      } catch (error: any) {
-        // Check for deprecated model errors
-        if (error?.message?.includes('deprecated') || error?.message?.includes('grok-beta')) {
-          const errorMsg = error.message || String(error)
-          logger.error('Deprecated model error', error, 'HeavyAnalysis')
-          bail(new Error(`Model ${model} is deprecated. Please use one of: ${GROK_MODELS.join(', ')}`))
-          throw error
-        }
-        if (!isRetryableError(error)) {
-          bail(error instanceof Error ? error : new Error(String(error)))
-          throw error
-        }
-        throw error
-      }
-    },
-    RETRY_CONFIG
-  )
-
-  const tokenUsage = extractTokens(completion, model, 'openai')
-  const responseText = completion.choices[0]?.message?.content || ''
-
-  return { responseText, tokenUsage }
-}
-
-/**
- * Call Google Gemini API
- */
-async function callGemini(
-  prompt: string,
-  model: string,
-  apiKey: string,
-  maxOutputTokens: number
-): Promise<{ responseText: string; tokenUsage: TokenUsage | null }> {
-  // Dynamic import to avoid webpack chunking issues
-  const { GoogleGenerativeAI } = await import('@google/generative-ai')
-  const genAI = new GoogleGenerativeAI(apiKey)
-  const genModel = genAI.getGenerativeModel({ 
-    model,
-    generationConfig: {
-      maxOutputTokens: maxOutputTokens,
-      temperature: 0.3,
-    },
-  })
-  
-  const result = await retry(
-    async (bail: (error: Error) => void) => {
-      try {
-        return await genModel.generateContent(prompt)
-      } catch (error: any) {
-        if (!isRetryableError(error)) {
-          bail(error instanceof Error ? error : new Error(String(error)))
-          throw error
-        }
-        throw error
-      }
-    },
-    RETRY_CONFIG
-  )
-
-  const response = result.response
-  const responseText = response.text()
-  
-  // Extract token usage from Gemini response
-  // Gemini returns usage in result.response.usageMetadata
-  const usageMetadata = (result.response as any).usageMetadata
-  const tokenUsage: TokenUsage | null = usageMetadata ? {
-    input_tokens: usageMetadata.promptTokenCount || 0,
-    output_tokens: usageMetadata.candidatesTokenCount || 0,
-    total_tokens: usageMetadata.totalTokenCount || 0,
-    provider: 'gemini',
-    model,
-  } : null
-
-  return { responseText, tokenUsage }
-}
-
-/**
- * Determine provider from model name
- */
-export function getProviderFromModel(model: string): Provider {
-  if (model.startsWith('claude-') || model.startsWith('claude_')) {
-    return 'anthropic'
-  }
-  if (GROK_MODELS.includes(model)) {
-    return 'grok' // Grok is now a separate provider
-  }
-  if (model.startsWith('gpt-') || model.startsWith('gpt_')) {
-    return 'openai'
-  }
-  if (model.startsWith('gemini-') || model.startsWith('gemini_')) {
-    return 'gemini'
-  }
-  // Default to anthropic for backward compatibility
-  return 'anthropic'
-}
-
 /**
  * Run heavy model analysis on entire document
  */
@@ -480,37 +258,25 @@ export async function runHeavyAnalysis(
     citationCount: citations.length,
   }, 'HeavyAnalysis')
 
-  // Call appropriate provider
+  // Call the provider
   let responseText: string
   let tokenUsage: TokenUsage | null = null
   
   try {
-    if (provider === 'anthropic') {
-      const result = await callAnthropic(prompt, model, apiKey, maxOutputTokens)
-      responseText = result.responseText
-      tokenUsage = result.tokenUsage
-    } else if (provider === 'openai') {
-      const result = await callOpenAI(prompt, model, apiKey, maxOutputTokens, false)
-      responseText = result.responseText
-      tokenUsage = result.tokenUsage
-    } else if (provider === 'grok') {
-      // Grok uses OpenAI-compatible API but with different base URL
-      // Verify model is a valid Grok model
-      if (!GROK_MODELS.includes(model)) {
-        logger.error(`Invalid Grok model: ${model}`, { model, validModels: GROK_MODELS }, 'HeavyAnalysis')
-        throw new Error(`Invalid Grok model: ${model}. Please use one of: ${GROK_MODELS.join(', ')}`)
-      }
-      logger.debug('Calling Grok API', { model }, 'HeavyAnalysis')
-      const result = await callOpenAI(prompt, model, apiKey, maxOutputTokens, true)
-      responseText = result.responseText
-      tokenUsage = result.tokenUsage
-    } else if (provider === 'gemini') {
-      const result = await callGemini(prompt, model, apiKey, maxOutputTokens)
-      responseText = result.responseText
-      tokenUsage = result.tokenUsage
-    } else {
-      throw new Error(`Unsupported provider: ${provider}`)
-    }
+    const response = await chat({
+      provider,
+      model,
+      apiKey,
+      maxTokens: maxOutputTokens,
+      temperature: 0.3,
+      messages: [{ role: 'user', content: prompt }],
+      json: true,
+      label: `${provider} heavy analysis`,
+      logContext: 'HeavyAnalysis',
+      task: 'heavy_analysis',
+    })
+    responseText = response.text
+    tokenUsage = response.tokenUsage
   } catch (error) {
     logger.error('Failed after retries', error, 'HeavyAnalysis')
     throw new Error(`Heavy analysis failed: ${error instanceof Error ? error.message : String(error)}`)
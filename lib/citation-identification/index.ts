@@ -3,14 +3,24 @@
  * Main service for identifying citations in JSON documents
  */
 
-import { CitationDocument, Citation, ContentParagraph } from '@/types/citation-json'
+import { CitationDocument, Citation, ContentParagraph, IdentificationOptions, isStructuralContent } from '@/types/citation-json'
 import { findAllCitations, CitationMatch } from './patterns'
 import { validateCitation } from './validators'
+import { pinCiteComponents } from './pin-cites'
+import { parallelCitationComponents } from './parallel-citations'
+import { constitutionComponents } from './constitutions'
+import { sessionLawComponents } from './session-laws'
+import { secondarySourceComponents } from './secondary-sources'
+import { resolveShortForms } from './short-forms'
+import { captureSignalsAndParentheticals } from './signals'
+import { lintCitations } from './bluebook-lint'
+import { attachQuotations } from './quotations'
 
 /**
  * Identify citations in a document and update JSON structure
+ * Structural blocks (caption, table of authorities, signature, certificate) are skipped unless requested
  */
-export function identifyCitations(jsonData: CitationDocument): CitationDocument {
+export function identifyCitations(jsonData: CitationDocument, options: IdentificationOptions = {}): CitationDocument {
   const { document } = jsonData
   
   // Process each content paragraph to find citations
@@ -19,6 +29,10 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
   
   // Process content and add inline markers
   const updatedContent = document.content.map((paragraph: ContentParagraph) => {
+    if (!options.includeStructuralBlocks && isStructuralContent(paragraph)) {
+      return paragraph
+    }
+    
     const text = paragraph.text
     const matches = findAllCitations(text)
     
@@ -50,6 +64,9 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
           page: match.components.page,
           court: match.components.court,
           year: parseInt(match.components.year),
+          ...pinCiteComponents(match.components.pin),
+          ...parallelCitationComponents(match.components.parallel),
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       } else if (match.type === 'statute') {
         // Handle different statute types
@@ -78,6 +95,7 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
             code: match.components.code,
             section: match.components.section,
             subdivision: null,
+            ...(match.components.state ? { state: match.components.state } : {}),
           }
         }
       } else if (match.type === 'regulation') {
@@ -85,6 +103,7 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
           title: match.components.volume,
           code: match.components.code,
           section: match.components.section,
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       } else if (match.type === 'rule') {
         // Handle both federal and local rules
@@ -101,6 +120,12 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
             subdivision: null,
           }
         }
+      } else if (match.type === 'constitution') {
+        extractedComponents = constitutionComponents(match.components)
+      } else if (match.type === 'sessionLaw') {
+        extractedComponents = sessionLawComponents(match.components)
+      } else if (match.type === 'secondary') {
+        extractedComponents = secondarySourceComponents(match.components)
       } else {
         extractedComponents = match.components
       }
@@ -119,6 +144,7 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
         },
         tier_3: null,
         recommendations: null,
+        ...(paragraph.type === 'footnote' && paragraph.footnoteNumber ? { footnoteNumber: paragraph.footnoteNumber } : {}),
       }
       
       paragraphCitations.push(citation)
@@ -152,6 +178,6 @@ export function identifyCitations(jsonData: CitationDocument): CitationDocument
     },
   }
   
-  return updatedDocument
+  return attachQuotations(lintCitations(captureSignalsAndParentheticals(resolveShortForms(updatedDocument))))
 }
 
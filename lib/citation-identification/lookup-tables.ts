@@ -4,6 +4,18 @@
  */
 
 import lookupTablesData from '@/citation-lookup-tables.json'
+import { escapeRegExp } from '@/lib/utils'
+
+/**
+ * Years a reporter series covers (end_year is null while it is still publishing), its highest
+ * volume, and for federal reporters limited to one level of court, the courts it reports
+ */
+export interface ReporterMetadata {
+  start_year: number
+  end_year: number | null
+  max_volume: number
+  courts?: FederalCourtLevel[]
+}
 
 export interface LookupTables {
   federal_reporters: {
@@ -26,8 +38,14 @@ export interface LookupTables {
   state_reporters: Record<string, string[]>
   state_court_abbreviations: Record<string, string[]>
   state_codes: Record<string, string[]>
+  state_regulations: Record<string, string[]>
+  journal_abbreviations: string[]
+  restatements: Record<string, string[]>
+  reporter_metadata: Record<string, ReporterMetadata>
 }
 
+export type FederalCourtLevel = keyof LookupTables['federal_courts']
+
 let lookupTables: LookupTables | null = null
 
 export function getLookupTables(): LookupTables {
@@ -99,3 +117,264 @@ export function isValidRule(rule: string): boolean {
   return tables.federal_rules.some(r => r.toLowerCase() === rule.toLowerCase())
 }
 
+// Reporter series suffix, e.g. the "4th" in "Cal. 4th"
+const REPORTER_SERIES_PATTERN = /(?:2d|3d|4th|5th)$/
+
+// Eyecite court ids: a state's highest court alone ("cal", "wva"), its lower courts with a suffix ("calctapp", "nyappdiv")
+const EYECITE_COURT_ID_PATTERN = /^[a-z]+$/
+const EYECITE_LOWER_COURT_SUFFIXES = [
+  'ctapp', 'appct', 'app', 'appdiv', 'civapp', 'crimapp', 'ctcrimapp', 'distctapp', 'ctspecapp',
+  'superct', 'superctappdiv', 'commwct', 'supct', 'ch',
+]
+
+// Eyecite court ids for the courts of appeals without a number
+const CIRCUIT_COURT_IDS: Record<string, string> = { cadc: 'D.C. Cir.', cafc: 'Fed. Cir.' }
+
+// A title or chapter written after the code name, e.g. "Cal. Code Regs. tit." or "Mass. Gen. Laws c."
+const CODE_TITLE_SUFFIX_PATTERN = /\s+(?:tit|c|r)\.$/
+
+// Subject words in codes like "N.Y. [Subject] Law" ("N.Y. Gen. Bus. Law") or "Tex. [Subject] Code"
+const CODE_SUBJECT_SOURCE = "(?:[A-Z&][A-Za-z.&']*\\s+){1,6}?"
+
+/**
+ * Compare abbreviations regardless of spacing ("So.2d" and "So. 2d", "W. Va." and "W.Va.")
+ */
+function abbreviationKey(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, '')
+}
+
+/**
+ * Regex source for a state code name from the lookup tables, without a trailing "tit." or "c."
+ */
+function codeEntrySource(entry: string): string {
+  const tokens = entry.replace(CODE_TITLE_SUFFIX_PATTERN, '').trim().split(/\s+/)
+  return tokens.map((token, index) => {
+    if (token === '[Subject]') return CODE_SUBJECT_SOURCE
+    const next = tokens[index + 1]
+    if (next === undefined) return escapeRegExp(token)
+    return escapeRegExp(token) + (next === '[Subject]' ? '\\s+' : '\\s*')
+  }).join('')
+}
+
+/**
+ * Get all state reporter abbreviations, without duplicates for regional reporters
+ */
+export function getAllStateReporters(): string[] {
+  const tables = getLookupTables()
+  return Array.from(new Set(Object.values(tables.state_reporters).flat()))
+}
+
+/**
+ * Regex sources for the state reporters, longest first, allowing any spacing between their parts
+ * and an optional series ("Cal. 4th"); whether the series exists is left to getStatesForReporter
+ */
+export function getStateReporterSources(): string[] {
+  return getAllStateReporters()
+    .map(reporter => reporter.trim().split(/\s+/).map(escapeRegExp).join('\\s*'))
+    .sort((a, b) => b.length - a.length)
+    .map(source => `${source}(?:\\s?(?:2d|3d|4th|5th))?`)
+}
+
+/**
+ * Regex sources for every federal and state reporter, longest first
+ */
+export function getAllReporterSources(): string[] {
+  const federal = getAllFederalReporters()
+    .map(reporter => reporter.trim().split(/\s+/).map(escapeRegExp).join('\\s*'))
+  return [...federal, ...getStateReporterSources()].sort((a, b) => b.length - a.length)
+}
+
+/**
+ * States whose decisions a reporter publishes (one for official reporters, several for regional ones)
+ * A series written after a reporter ("Cal. 4th", "Ill. App. 3d") is accepted when the table lists
+ * the reporter without series of its own, so "P.4th" is rejected because "P.2d" and "P.3d" are listed
+ */
+export function getStatesForReporter(reporter: string): string[] {
+  const tables = getLookupTables()
+  const key = abbreviationKey(reporter)
+  const base = key.replace(REPORTER_SERIES_PATTERN, '')
+  const states: string[] = []
+
+  for (const [state, reporters] of Object.entries(tables.state_reporters)) {
+    const keys = reporters.map(abbreviationKey)
+    if (keys.includes(key)) {
+      states.push(state)
+    } else if (base !== key && keys.includes(base) &&
+        !keys.some(k => REPORTER_SERIES_PATTERN.test(k) && k.replace(REPORTER_SERIES_PATTERN, '') === base)) {
+      states.push(state)
+    }
+  }
+  return states
+}
+
+/**
+ * Check if a reporter abbreviation is a valid state reporter
+ */
+export function isValidStateReporter(reporter: string): boolean {
+  return getStatesForReporter(reporter).length > 0
+}
+
+/**
+ * State of a state court abbreviation, or null for federal and unknown courts
+ * "Ct." is ignored and a district after a dash is dropped, so "Ill. App. Ct." and
+ * "Tex. App.—Houston [14th Dist.]" match the table's "Ill. App." and "Tex. App."
+ */
+export function getStateForCourt(court: string): string | null {
+  if (!court || isValidCourt(court)) return null
+  const courtKey = (value: string) => abbreviationKey(value.replace(/\s*[—–-].*$/, '').replace(/\bCt\./g, ''))
+  const key = courtKey(court)
+  if (!key) return null
+
+  const tables = getLookupTables()
+  for (const [state, courts] of Object.entries(tables.state_court_abbreviations)) {
+    if (courts.some(c => courtKey(c) === key)) return state
+  }
+  return getStateForCourtId(court)
+}
+
+/**
+ * State of an eyecite court id, whose prefix is the state's highest court without punctuation
+ * ("cal", "ill", "wva"); the longest prefix wins so "mont" is not read as "mo", and ids of
+ * federal courts ("nysd", "paed") are left alone because their suffix names no state court
+ */
+function getStateForCourtId(courtId: string): string | null {
+  if (!EYECITE_COURT_ID_PATTERN.test(courtId)) return null
+
+  const tables = getLookupTables()
+  let best: { state: string; prefix: string } | null = null
+  for (const [state, courts] of Object.entries(tables.state_court_abbreviations)) {
+    if (courts.length === 0) continue
+    const prefix = courts[0].toLowerCase().replace(/[^a-z]/g, '')
+    if (!courtId.startsWith(prefix)) continue
+    const suffix = courtId.slice(prefix.length)
+    if (suffix && !EYECITE_LOWER_COURT_SUFFIXES.includes(suffix)) continue
+    if (!best || prefix.length > best.prefix.length) best = { state, prefix }
+  }
+  return best?.state ?? null
+}
+
+/**
+ * Court of appeals an eyecite court id names, e.g. "ca2" -> "2d Cir.", or undefined for other courts
+ */
+export function getCircuitForCourtId(courtId: string): string | undefined {
+  if (CIRCUIT_COURT_IDS[courtId]) return CIRCUIT_COURT_IDS[courtId]
+  const circuit = courtId.match(/^ca(\d+)$/)?.[1]
+  if (!circuit) return undefined
+  return getLookupTables().federal_courts.circuit_courts.find(court => parseInt(court, 10) === parseInt(circuit, 10))
+}
+
+/**
+ * Check if a court abbreviation is a valid state court
+ */
+export function isValidStateCourt(court: string): boolean {
+  return getStateForCourt(court) !== null
+}
+
+/**
+ * Regex sources for state abbreviations as written before "Const." ("Cal.", "N.Y.", "W. Va."), longest first
+ * The first court listed for each state is its highest court, abbreviated as the state alone
+ */
+export function getStateAbbreviationSources(): string[] {
+  const tables = getLookupTables()
+  const sources = Object.values(tables.state_court_abbreviations)
+    .filter(courts => courts.length > 0)
+    .map(courts => courts[0].replace(/\s+/g, '').split(/(?<=\.)/).map(escapeRegExp).join('\\s?'))
+  return Array.from(new Set(sources)).sort((a, b) => b.length - a.length)
+}
+
+/**
+ * State of a case citation: the court's state when the parenthetical names one,
+ * otherwise the state of an official reporter
+ */
+export function getStateForCase(reporter: string, court: string): string | null {
+  const courtState = getStateForCourt(court)
+  if (courtState) return courtState
+  const reporterStates = getStatesForReporter(reporter)
+  return reporterStates.length === 1 ? reporterStates[0] : null
+}
+
+/**
+ * Regex sources for the state statute or regulation code names in the lookup tables, longest first
+ * "[Subject]" placeholders match the subject words, and a trailing "tit." or "c." is left for
+ * the citation pattern to read along with its number
+ */
+export function getStateCodeSources(kind: 'statute' | 'regulation'): string[] {
+  const tables = getLookupTables()
+  const entries = Object.values(kind === 'statute' ? tables.state_codes : tables.state_regulations).flat()
+  const sources = entries.map(codeEntrySource)
+  return Array.from(new Set(sources)).sort((a, b) => b.length - a.length)
+}
+
+/**
+ * State of a state statute or regulation code name, or null if the tables do not list it
+ */
+export function getStateForCode(code: string, kind: 'statute' | 'regulation'): string | null {
+  const tables = getLookupTables()
+  const codes = kind === 'statute' ? tables.state_codes : tables.state_regulations
+  for (const [state, entries] of Object.entries(codes)) {
+    for (const entry of entries) {
+      if (new RegExp(`^${codeEntrySource(entry)}(?:\\s+Ann\\.)?$`).test(code.trim())) return state
+    }
+  }
+  return null
+}
+
+/**
+ * Regex sources for the journal abbreviations in the lookup tables, longest first
+ * Spaces inside run-together abbreviations are optional, so "Yale L.J." also matches "Yale L. J."
+ */
+export function getJournalSources(): string[] {
+  const tables = getLookupTables()
+  const sources = tables.journal_abbreviations.map(journal =>
+    journal.split(/\s+/).map(token => escapeRegExp(token).replace(/\\\.(?=[A-Z])/g, '\\.\\s?')).join('\\s+')
+  )
+  return sources.sort((a, b) => b.length - a.length)
+}
+
+/**
+ * Check if a journal abbreviation is in the lookup tables
+ */
+export function isValidJournal(journal: string): boolean {
+  const tables = getLookupTables()
+  const key = abbreviationKey(journal)
+  return tables.journal_abbreviations.some(j => abbreviationKey(j) === key)
+}
+
+/**
+ * Subjects published in a Restatement series ("First" through "Fourth"), or null for an unknown series
+ */
+export function getRestatementSubjects(series: string): string[] | null {
+  const tables = getLookupTables()
+  return tables.restatements[series] || null
+}
+
+/**
+ * Reporter as the lookup tables write it, matched regardless of spacing and periods
+ * ("F. 3d" and "F3d" give "F.3d"), or null for reporters not in the tables
+ */
+export function getCanonicalReporter(written: string): string | null {
+  const key = written.toLowerCase().replace(/[\s.]/g, '')
+  const reporters = [...getAllFederalReporters(), ...getAllStateReporters()]
+  return reporters.find(reporter => reporter.toLowerCase().replace(/[\s.]/g, '') === key) || null
+}
+
+/**
+ * Series years, highest volume and courts of a reporter, matched regardless of spacing and
+ * periods, or null for reporters without metadata
+ */
+export function getReporterMetadata(reporter: string): ReporterMetadata | null {
+  const tables = getLookupTables()
+  const key = reporter.toLowerCase().replace(/[\s.]/g, '')
+  const entry = Object.entries(tables.reporter_metadata).find(([name]) => name.toLowerCase().replace(/[\s.]/g, '') === key)
+  return entry ? entry[1] : null
+}
+
+/**
+ * Level of a federal court abbreviation ("2d Cir." is a circuit court), or null for other courts
+ */
+export function getFederalCourtLevel(court: string): FederalCourtLevel | null {
+  const tables = getLookupTables()
+  const key = court.toLowerCase().replace(/[\s.]/g, '')
+  const levels = Object.keys(tables.federal_courts) as FederalCourtLevel[]
+  return levels.find(level => tables.federal_courts[level].some(entry => entry.toLowerCase().replace(/[\s.]/g, '') === key)) || null
+}
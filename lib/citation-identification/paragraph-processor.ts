@@ -6,9 +6,16 @@
 import { CitationDocument, Citation, ContentParagraph } from '@/types/citation-json'
 import { findAllCitations, CitationMatch } from './patterns'
 import { validateCitation } from './validators'
+import { pinCiteComponents } from './pin-cites'
+import { parallelCitationComponents } from './parallel-citations'
+import { constitutionComponents } from './constitutions'
+import { sessionLawComponents } from './session-laws'
+import { secondarySourceComponents } from './secondary-sources'
 import { extractDocumentContext } from './context-extractor'
-import { validateCitationWithPanel, validateCitationTier3 } from './validation'
-import { ANTHROPIC_API_KEY } from '@/lib/env'
+import { validateCitationTier3 } from './validation'
+import { validateCitationWithIndex } from './authority-index'
+import { getAgentDefinitions } from './agent-definitions'
+import { ANTHROPIC_API_KEY, PROVIDER_API_KEYS } from '@/lib/env'
 
 /**
  * Re-identify citations in a single paragraph
@@ -79,6 +86,9 @@ export function reidentifyCitationsInParagraph(
         page: match.components.page,
         court: match.components.court,
         year: parseInt(match.components.year),
+        ...pinCiteComponents(match.components.pin),
+        ...parallelCitationComponents(match.components.parallel),
+        ...(match.components.state ? { state: match.components.state } : {}),
       }
     } else if (match.type === 'statute') {
       if (match.components.code === 'Act') {
@@ -103,6 +113,7 @@ export function reidentifyCitationsInParagraph(
           code: match.components.code,
           section: match.components.section,
           subdivision: null,
+          ...(match.components.state ? { state: match.components.state } : {}),
         }
       }
     } else if (match.type === 'regulation') {
@@ -110,6 +121,7 @@ export function reidentifyCitationsInParagraph(
         title: match.components.volume,
         code: match.components.code,
         section: match.components.section,
+        ...(match.components.state ? { state: match.components.state } : {}),
       }
     } else if (match.type === 'rule') {
       if (match.components.code === 'Local Rule') {
@@ -125,6 +137,12 @@ export function reidentifyCitationsInParagraph(
           subdivision: null,
         }
       }
+    } else if (match.type === 'constitution') {
+      extractedComponents = constitutionComponents(match.components)
+    } else if (match.type === 'sessionLaw') {
+      extractedComponents = sessionLawComponents(match.components)
+    } else if (match.type === 'secondary') {
+      extractedComponents = secondarySourceComponents(match.components)
     } else {
       extractedComponents = match.components
     }
@@ -143,6 +161,7 @@ export function reidentifyCitationsInParagraph(
       },
       tier_3: null,
       recommendations: null,
+      ...(paragraph.type === 'footnote' && paragraph.footnoteNumber ? { footnoteNumber: paragraph.footnoteNumber } : {}),
     }
     
     newCitations.push(citation)
@@ -176,7 +195,7 @@ export async function validateParagraphCitations(
   citationIds: string[]
 ): Promise<Citation[]> {
   if (!ANTHROPIC_API_KEY) {
-    throw new Error("Anthropic API key not configured")
+    throw new Error("Anthropic API key not configured (set LLM_MOCK=true to run without one)")
   }
   
   const validatedCitations: Citation[] = []
@@ -189,10 +208,10 @@ export async function validateParagraphCitations(
     const context = extractDocumentContext(citationId, jsonData, true)
     
     // Run Tier 2 validation
-    const validation = await validateCitationWithPanel(
+    const validation = await validateCitationWithIndex(
       citation,
       context,
-      ANTHROPIC_API_KEY
+      PROVIDER_API_KEYS
     )
     
     // Check if Tier 3 is needed
@@ -202,7 +221,8 @@ export async function validateParagraphCitations(
         citation,
         context,
         validation,
-        ANTHROPIC_API_KEY
+        PROVIDER_API_KEYS,
+        await getAgentDefinitions('tier3')
       )
     }
     
@@ -0,0 +1,96 @@
+/**
+ * Parallel Citations
+ * Groups the reporters a case is cited in ("410 U.S. 113, 93 S. Ct. 705, 35 L. Ed. 2d 147")
+ * into one citation and checks that they agree with each other
+ */
+
+import { CaseComponents, ReporterReference } from '@/types/citation-json'
+import { getAllReporterSources } from './lookup-tables'
+import { PIN_CITE_SOURCE, checkPinCite, pinCiteComponents } from './pin-cites'
+
+// A pin cite ends where the next reporter reference or the parenthetical begins
+const PIN_END = '(?=,\\s+\\d+\\s+[A-Z]|\\s*\\(|\\s*$)'
+
+// One reporter reference with an optional pin cite: "410 U.S. 113, 116"
+export const REPORTER_REFERENCE_SOURCE =
+  `\\d+\\s+(?:${getAllReporterSources().join('|')})\\s+(?:\\d+|_{3})(?:,\\s+${PIN_CITE_SOURCE}${PIN_END})?`
+
+const REPORTER_REFERENCE_PATTERN = new RegExp(
+  `(\\d+)\\s+(${getAllReporterSources().join('|')})\\s+(\\d+|_{3})(?:,\\s+(${PIN_CITE_SOURCE})${PIN_END})?`,
+  'g'
+)
+
+// The Supreme Court Reporter has published one volume a year since the 1880s
+const SUPREME_COURT_REPORTER_FIRST_YEAR = 1880
+
+/**
+ * Split the reporter references of a parallel cite, in the order written
+ */
+export function parseParallelCitations(text: string): ReporterReference[] {
+  return Array.from(text.matchAll(REPORTER_REFERENCE_PATTERN), match => ({
+    volume: match[1],
+    reporter: match[2].replace(/\s+/g, ' ').trim(),
+    page: match[3],
+    ...pinCiteComponents(match[4]),
+  }))
+}
+
+/**
+ * Parallel citation fields for a case's extracted components; empty unless the
+ * case is cited in more than one reporter
+ */
+export function parallelCitationComponents(parallel: string | undefined): Pick<CaseComponents, 'parallelCitations'> {
+  if (!parallel) return {}
+  const references = parseParallelCitations(parallel)
+  return references.length > 1 ? { parallelCitations: references } : {}
+}
+
+function reporterKey(reporter: string): string {
+  return reporter.toLowerCase().replace(/[.\s]/g, '')
+}
+
+function formatReference(reference: ReporterReference): string {
+  return `${reference.volume} ${reference.reporter} ${reference.page}`
+}
+
+/**
+ * Local consistency checks on a parallel cite: each reporter once, no two reporters at the
+ * same volume and page, a Supreme Court Reporter volume that fits the year, and pin cites
+ * that fall within each reporter's pages
+ */
+export function checkParallelCitations(references: ReporterReference[], year: number | undefined): string[] {
+  const issues: string[] = []
+  const seenReporters = new Set<string>()
+  const seenVolumePages = new Map<string, ReporterReference>()
+
+  for (const reference of references) {
+    const key = reporterKey(reference.reporter)
+    if (seenReporters.has(key)) {
+      issues.push(`Reporter ${reference.reporter} is cited twice in the parallel citation`)
+    }
+    seenReporters.add(key)
+
+    const volumePage = `${reference.volume}:${reference.page}`
+    const sameVolumePage = seenVolumePages.get(volumePage)
+    if (sameVolumePage && reporterKey(sameVolumePage.reporter) !== key) {
+      issues.push(`${formatReference(sameVolumePage)} and ${formatReference(reference)} repeat the same volume and page`)
+    }
+    seenVolumePages.set(volumePage, reference)
+  }
+
+  // The first reference's pin cite is checked with the citation itself
+  for (const reference of references.slice(1)) {
+    if (reference.pinPages) issues.push(...checkPinCite(reference.page, reference.pinPages))
+  }
+
+  // Every reporter must be from the year in the parenthetical
+  const supremeCourtReporter = references.find(reference => reporterKey(reference.reporter) === 'sct')
+  if (supremeCourtReporter && year && year >= 1900) {
+    const volumeYear = SUPREME_COURT_REPORTER_FIRST_YEAR + parseInt(supremeCourtReporter.volume, 10)
+    if (Math.abs(volumeYear - year) > 1) {
+      issues.push(`${supremeCourtReporter.volume} S. Ct. covers about ${volumeYear}, not ${year}`)
+    }
+  }
+
+  return issues
+}
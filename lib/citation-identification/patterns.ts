@@ -3,20 +3,57 @@
  * Regex patterns for identifying citations in text
  */
 
+import { PIN_CITE_SOURCE } from './pin-cites'
+import { REPORTER_REFERENCE_SOURCE, parseParallelCitations } from './parallel-citations'
+import {
+  getStateReporterSources,
+  getStateCodeSources,
+  getStateAbbreviationSources,
+  getJournalSources,
+  getStateForCase,
+  getStateForCode,
+  isValidStateReporter,
+} from './lookup-tables'
+import { getStateForConstitution } from './constitutions'
+
 export interface CitationMatch {
   fullMatch: string
   startIndex: number
   endIndex: number
-  type: 'case' | 'statute' | 'regulation' | 'rule'
+  type: 'case' | 'statute' | 'regulation' | 'rule' | 'constitution' | 'sessionLaw' | 'secondary'
   components: Record<string, string>
 }
 
+// Party names in a case name
+const PARTY_SOURCE = "[A-Z][A-Za-z0-9\\s&.,'\\-]+"
+
+// Section numbers in state codes: "1542", "768.28", "2-619", "7:26-1.1", "17200(a)(1)"
+const STATE_SECTION_SOURCE = '\\d+(?:[A-Za-z0-9.:\\-]*[A-Za-z0-9])?(?:\\([A-Za-z0-9]+\\))*'
+
 /**
  * Federal Case Citation Pattern
- * Format: Party v. Party, Volume Reporter Page (Court Year)
- * Example: Smith v. Jones, 123 F.3d 456 (D.C. Cir. 2020)
+ * Format: Party v. Party, Volume Reporter Page[, Pin] (Court Year)
+ * Example: Smith v. Jones, 123 F.3d 456, 462-63 (D.C. Cir. 2020)
+ */
+const FEDERAL_CASE_PATTERN = new RegExp(`(${PARTY_SOURCE})\\s+v\\.?\\s+(${PARTY_SOURCE}),\\s+(\\d+)\\s+([A-Z][A-Za-z0-9.\\s]+)\\s+(\\d+)(?:,\\s+(${PIN_CITE_SOURCE}))?\\s+\\(([^)]+)\\s+(\\d{4})\\)`, 'g')
+
+/**
+ * State Case Citation Pattern
+ * Format: Party v. Party, Volume Reporter Page[, Pin] ([Court] Year)
+ * Example: People v. Smith, 34 Cal. 4th 123, 130 (2004)
+ * Example: Doe v. Roe, 123 N.E.2d 456 (Ill. App. Ct. 1990)
+ * Reporters come from the state_reporters lookup table; the court is optional because
+ * an official state reporter already names it
+ */
+const STATE_CASE_PATTERN = new RegExp(`(${PARTY_SOURCE})\\s+v\\.?\\s+(${PARTY_SOURCE}),\\s+(\\d+)\\s+(${getStateReporterSources().join('|')})\\s+(\\d+)(?:,\\s+(${PIN_CITE_SOURCE}))?\\s+\\((?:([^)]*?)\\s+)?(\\d{4})\\)`, 'g')
+
+/**
+ * Parallel Case Citation Pattern
+ * Format: Party v. Party, Volume Reporter Page[, Pin], Volume Reporter Page[, Pin]... ([Court] Year)
+ * Example: Roe v. Wade, 410 U.S. 113, 93 S. Ct. 705, 35 L. Ed. 2d 147 (1973)
+ * The second party is matched lazily so the first reporter reference is not read as part of the name
  */
-const FEDERAL_CASE_PATTERN = /([A-Z][A-Za-z0-9\s&.,'\-]+)\s+v\.?\s+([A-Z][A-Za-z0-9\s&.,'\-]+),\s+(\d+)\s+([A-Z][A-Za-z0-9.\s]+)\s+(\d+)\s+\(([^)]+)\s+(\d{4})\)/g
+const PARALLEL_CASE_PATTERN = new RegExp(`(${PARTY_SOURCE})\\s+v\\.?\\s+(${PARTY_SOURCE}?),\\s+(${REPORTER_REFERENCE_SOURCE}(?:,\\s+${REPORTER_REFERENCE_SOURCE})+)\\s+\\((?:([^)]*?)\\s+)?(\\d{4})\\)`, 'g')
 
 /**
  * Federal Statute Pattern
@@ -32,6 +69,25 @@ const FEDERAL_STATUTE_PATTERN = /(\d+)\s+(U\.S\.C\.(?:\s+Supp\.)?)\s+§\s+(\d+[a
  */
 const FEDERAL_REGULATION_PATTERN = /(\d+)\s+C\.F\.R\.\s+§\s+(\d+\.\d+)/gi
 
+/**
+ * State Statute Pattern
+ * Format: [Volume] Code [tit./ch. Title,] § Section
+ * Example: Cal. Civ. Code § 1542
+ * Example: Mass. Gen. Laws ch. 93A, § 2
+ * Example: 735 Ill. Comp. Stat. 5/2-619
+ * Code names come from the state_codes lookup table
+ */
+const STATE_STATUTE_PATTERN = new RegExp(`(?:\\b(\\d+)\\s+)?\\b(${getStateCodeSources('statute').join('|')})(?:\\s+Ann\\.)?(?:\\s+(?:tit|ch|c)\\.\\s*(\\d+[A-Za-z]?),)?\\s*(?:§§?\\s*(${STATE_SECTION_SOURCE})|(\\d+\\/${STATE_SECTION_SOURCE}))`, 'g')
+
+/**
+ * State Regulation Pattern
+ * Format: [Volume] Code [tit. Title,] [§ | r.] Section
+ * Example: Cal. Code Regs. tit. 8, § 3203
+ * Example: 16 Tex. Admin. Code § 3.1
+ * Code names come from the state_regulations lookup table
+ */
+const STATE_REGULATION_PATTERN = new RegExp(`(?:\\b(\\d+)\\s+)?\\b(${getStateCodeSources('regulation').join('|')})(?:\\s+tit\\.\\s*(\\d+[A-Za-z]?),)?\\s*(?:§§?\\s*|r\\.\\s*)?(${STATE_SECTION_SOURCE})`, 'g')
+
 /**
  * Federal Rule Pattern (abbreviated)
  * Format: Fed. R. [Category] P. Rule
@@ -74,6 +130,80 @@ const ACT_NAME_PATTERN = /\b([A-Z][A-Za-z\s&,'\-]{3,}(?:Act|Law|Statute)(?:\s+of
  */
 const REVISED_STATUTES_PATTERN = /Revised\s+Statutes\s+§\s+(\d+[a-z]*(?:\([^)]+\))?)/gi
 
+/**
+ * Constitution Pattern
+ * Format: Jurisdiction Const. art./amend./pmbl. [, § Section] [, cl. Clause]
+ * Example: U.S. Const. art. III, § 2, cl. 1
+ * Example: U.S. Const. amend. XIV, § 1
+ * Example: Cal. Const. art. I, § 7
+ * Numerals are matched loosely so malformed ones reach Tier 1 validation
+ */
+const CONSTITUTION_PATTERN = new RegExp(`\\b(U\\.\\s?S\\.|${getStateAbbreviationSources().join('|')})\\s+(?:Const|CONST)\\.\\s+(?:(pmbl)\\.|art\\.\\s*([IVXLC]+|\\d+)\\b|amend\\.\\s*([IVXLC]+|\\d+)\\b)(?:,\\s*§\\s*(\\d+[A-Za-z]?))?(?:,\\s*cl\\.\\s*(\\d+))?`, 'g')
+
+/**
+ * Session Law Pattern
+ * Format: Pub. L. No. Congress-Law [, § Section] [, Volume Stat. Page [, Pin]] [(Year)]
+ * Example: Pub. L. No. 111-148, § 1501, 124 Stat. 119, 242 (2010)
+ */
+const SESSION_SECTION_SOURCE = '\\d+[A-Za-z]?(?:\\([A-Za-z0-9]+\\))*'
+const SESSION_LAW_PATTERN = new RegExp(`\\bPub\\.\\s*L\\.\\s*(?:No\\.\\s*)?(\\d{1,3}[-–]\\d{1,4})(?:,\\s*§§?\\s*(${SESSION_SECTION_SOURCE}))?(?:,\\s*(\\d+)\\s+Stat\\.\\s+(\\d+)(?:,\\s*(${PIN_CITE_SOURCE}))?)?(?:\\s+\\((\\d{4})\\))?`, 'g')
+
+/**
+ * Statutes at Large Pattern
+ * Format: Volume Stat. Page [, Pin] [(Year)]
+ * Example: 60 Stat. 237 (1946)
+ */
+const STATUTES_AT_LARGE_PATTERN = new RegExp(`\\b(\\d+)\\s+Stat\\.\\s+(\\d+)(?:,\\s*(${PIN_CITE_SOURCE}))?(?:\\s+\\((\\d{4})\\))?`, 'g')
+
+// Secondary source authors: "Richard A. Posner", "Charles Alan Wright & Arthur R. Miller"
+const AUTHOR_NAME_SOURCE = "[A-Z][A-Za-z.'’\\-]*(?:\\s+(?:[A-Z][A-Za-z.'’\\-]*|de|van|von)){1,4}"
+const AUTHOR_SOURCE = `${AUTHOR_NAME_SOURCE}(?:,?\\s+&\\s+${AUTHOR_NAME_SOURCE}|\\s+et\\s+al\\.)?`
+// Article and annotation titles run up to the comma before the volume
+const SECONDARY_TITLE_SOURCE = '[^;()]{3,200}?'
+// Journals not in the lookup tables, recognized by their shape ("Xyz L. Rev.", "Xyz L.J.")
+const JOURNAL_SHAPE_SOURCE = "(?:(?:[A-Z][A-Za-z.&'’\\-]*|&|of|on)\\s+){0,5}?(?:L\\.\\s?Rev\\.|L\\.\\s?J\\.|L\\.\\s?Q\\.)"
+// A signal the party and author patterns can pick up in front of a name ("See Roe", "See Richard A. Posner")
+const LEADING_SIGNAL_PATTERN = /^(?:See also|See generally|See|But see|But cf\.|Cf\.|Compare|Accord|Contra|E\.g\.)(?:,\s*e\.g\.,)?\s+/
+
+/**
+ * Law Review Pattern
+ * Format: [Author, Title,] Volume Journal Page [, Pin] (Year)
+ * Example: Richard A. Posner, The Economics of Justice, 95 Harv. L. Rev. 1, 5 (1981)
+ * Journals come from the journal_abbreviations lookup table, or have the shape of one
+ */
+const LAW_REVIEW_PATTERN = new RegExp(`(?:(${AUTHOR_SOURCE}),\\s+(${SECONDARY_TITLE_SOURCE}),\\s+)?\\b(\\d+)\\s+(${getJournalSources().join('|')}|${JOURNAL_SHAPE_SOURCE})\\s+(\\d+)(?:,\\s*(${PIN_CITE_SOURCE}))?\\s+\\((\\d{4})\\)`, 'g')
+
+/**
+ * Treatise Pattern
+ * Format: [Volume] Author, Title Section|Page [, Pin] ([Editor,] Edition ed. Year)
+ * Example: 5 Charles Alan Wright & Arthur R. Miller, Federal Practice and Procedure § 1357 (3d ed. 2004)
+ * The edition is required; without it a treatise cannot be told apart from other prose
+ */
+const TREATISE_PATTERN = new RegExp(`(?:\\b(\\d+)\\s+)?(${AUTHOR_SOURCE}),\\s+([A-Z][^,;()§¶]{2,150}?)\\s+(§§?\\s*\\d+[A-Za-z]*(?:[.:\\-]\\d+[A-Za-z]*)*|¶¶?\\s*[\\d.]+|\\d+)(?:,\\s*(${PIN_CITE_SOURCE}))?\\s+\\((?:[^()]*?\\s+)?(\\d+(?:st|nd|rd|th|d))\\s+ed\\.(?:\\s+(\\d{4}))?\\)`, 'g')
+
+/**
+ * Restatement Pattern
+ * Format: Restatement [(Series)] of Subject § Section [cmt./illus.] [(Am. L. Inst. Year)]
+ * Example: Restatement (Second) of Torts § 402A cmt. c (Am. L. Inst. 1965)
+ * Example: Restatement of Contracts § 90 (1932)
+ */
+const RESTATEMENT_PATTERN = /\bRestatement\s+(?:\(([A-Z][a-z]+)\)\s+)?of\s+(?:the\s+)?([A-Z][A-Za-z:'’\s]{2,80}?)\s+§§?\s*(\d+[A-Za-z]*(?:[.\-]\d+[A-Za-z]*)*)((?:,?\s+(?:cmt\.\s*[a-z]+|illus\.\s*\d+|reporter['’]?s\s+note))*)(?:\s+\((?:Am\.\s+L(?:aw)?\.?\s+Inst\.,?\s*)?(?:Tentative\s+Draft\s+No\.\s*\d+,?\s*)?(\d{4})\))?/g
+
+/**
+ * A.L.R. Annotation Pattern
+ * Format: [[Author,] Annotation, Title,] Volume Series Page [, Pin] [(Year)]
+ * Example: Annotation, Liability of Landlord for Injuries, 12 A.L.R.5th 345 (1993)
+ */
+const ALR_PATTERN = new RegExp(`(?:(?:(${AUTHOR_SOURCE}),\\s+)?Annotation,\\s+(${SECONDARY_TITLE_SOURCE}),\\s+)?\\b(\\d+)\\s+(A\\.\\s?L\\.\\s?R\\.(?:\\s?Fed\\.)?(?:\\s?\\d+(?:st|nd|rd|th|d))?)\\s+(\\d+)(?:,\\s*(${PIN_CITE_SOURCE}))?(?:\\s+\\((\\d{4})\\))?`, 'g')
+
+/**
+ * Dictionary Pattern
+ * Format: Dictionary [Page] ([Edition ed.] Year)
+ * Example: Black's Law Dictionary 1245 (11th ed. 2019)
+ * Example: Webster's Third New International Dictionary 1432 (1961)
+ */
+const DICTIONARY_PATTERN = /\b((?:Black|Ballentine|Bouvier)['’]s\s+Law\s+Dictionary|(?:Merriam-)?Webster['’]s(?:\s+[A-Z][A-Za-z]*){0,4}\s+Dictionary|(?:The\s+)?(?:Oxford\s+English|American\s+Heritage|Random\s+House)(?:\s+[A-Z][A-Za-z]*){0,3}\s+Dictionary)(?:\s+(\d+))?\s+\((?:(\d+(?:st|nd|rd|th|d))\s+ed\.\s*)?(\d{4})\)/g
+
 /**
  * Find all federal case citations in text
  */
@@ -85,7 +215,12 @@ export function findFederalCaseCitations(text: string): CitationMatch[] {
   FEDERAL_CASE_PATTERN.lastIndex = 0
   
   while ((match = FEDERAL_CASE_PATTERN.exec(text)) !== null) {
-    matches.push({
+    // State reporters are left to findStateCaseCitations
+    if (isValidStateReporter(match[4].trim())) {
+      continue
+    }
+    
+    matches.push(withoutLeadingSignal({
       fullMatch: match[0],
       startIndex: match.index,
       endIndex: match.index + match[0].length,
@@ -96,10 +231,81 @@ export function findFederalCaseCitations(text: string): CitationMatch[] {
         volume: match[3],
         reporter: match[4].trim(),
         page: match[5],
-        court: match[6].trim(),
-        year: match[7],
+        pin: match[6] || '',
+        court: match[7].trim(),
+        year: match[8],
       },
-    })
+    }))
+  }
+  
+  return matches
+}
+
+/**
+ * Find all state case citations in text
+ */
+export function findStateCaseCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  STATE_CASE_PATTERN.lastIndex = 0
+  
+  while ((match = STATE_CASE_PATTERN.exec(text)) !== null) {
+    const reporter = match[4].trim()
+    const court = (match[7] || '').trim()
+    matches.push(withoutLeadingSignal({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'case',
+      components: {
+        party_1: match[1].trim(),
+        party_2: match[2].trim(),
+        volume: match[3],
+        reporter,
+        page: match[5],
+        pin: match[6] || '',
+        court,
+        year: match[8],
+        state: getStateForCase(reporter, court) || '',
+      },
+    }))
+  }
+  
+  return matches
+}
+
+/**
+ * Find all parallel case citations in text, one match per case with the first reporter
+ * as its volume/reporter/page and every reference in "parallel"
+ */
+export function findParallelCaseCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  PARALLEL_CASE_PATTERN.lastIndex = 0
+  
+  while ((match = PARALLEL_CASE_PATTERN.exec(text)) !== null) {
+    const [primary] = parseParallelCitations(match[3])
+    const court = (match[4] || '').trim()
+    matches.push(withoutLeadingSignal({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'case',
+      components: {
+        party_1: match[1].trim(),
+        party_2: match[2].trim(),
+        volume: primary.volume,
+        reporter: primary.reporter,
+        page: primary.page,
+        pin: primary.pinCite || '',
+        court,
+        year: match[5],
+        state: getStateForCase(primary.reporter, court) || '',
+        parallel: match[3],
+      },
+    }))
   }
   
   return matches
@@ -205,6 +411,67 @@ export function findFederalRegulationCitations(text: string): CitationMatch[] {
   return matches
 }
 
+/**
+ * Find all state statute citations in text
+ */
+export function findStateStatuteCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  STATE_STATUTE_PATTERN.lastIndex = 0
+  
+  while ((match = STATE_STATUTE_PATTERN.exec(text)) !== null) {
+    const code = match[2].replace(/\s+/g, ' ').trim()
+    // "Tex. [Subject] Code" also reads "Tex. Admin. Code", which findStateRegulationCitations handles
+    if (getStateForCode(code, 'regulation')) {
+      continue
+    }
+    
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'statute',
+      components: {
+        volume: match[1] || match[3] || '',
+        code,
+        section: match[4] || match[5],
+        state: getStateForCode(code, 'statute') || '',
+      },
+    })
+  }
+  
+  return matches
+}
+
+/**
+ * Find all state regulation citations in text
+ */
+export function findStateRegulationCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  STATE_REGULATION_PATTERN.lastIndex = 0
+  
+  while ((match = STATE_REGULATION_PATTERN.exec(text)) !== null) {
+    const code = match[2].replace(/\s+/g, ' ').trim()
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'regulation',
+      components: {
+        volume: match[1] || match[3] || '',
+        code,
+        section: match[4],
+        state: getStateForCode(code, 'regulation') || '',
+      },
+    })
+  }
+  
+  return matches
+}
+
 /**
  * Find all federal rule citations in text (both abbreviated and full name formats)
  */
@@ -374,6 +641,275 @@ export function findRevisedStatutesCitations(text: string): CitationMatch[] {
   return matches
 }
 
+/**
+ * Find all constitution citations in text
+ */
+export function findConstitutionCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  CONSTITUTION_PATTERN.lastIndex = 0
+  
+  while ((match = CONSTITUTION_PATTERN.exec(text)) !== null) {
+    const jurisdiction = match[1]
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'constitution',
+      components: {
+        jurisdiction,
+        preamble: match[2] ? 'true' : '',
+        article: match[3] || '',
+        amendment: match[4] || '',
+        section: match[5] || '',
+        clause: match[6] || '',
+        state: getStateForConstitution(jurisdiction) || '',
+      },
+    })
+  }
+  
+  return matches
+}
+
+/**
+ * Find all session law citations in text: public laws, with or without their
+ * Statutes at Large cite, and Statutes at Large cites on their own
+ */
+export function findSessionLawCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  SESSION_LAW_PATTERN.lastIndex = 0
+  
+  while ((match = SESSION_LAW_PATTERN.exec(text)) !== null) {
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'sessionLaw',
+      components: {
+        public_law: match[1],
+        section: match[2] || '',
+        volume: match[3] || '',
+        page: match[4] || '',
+        pin: match[5] || '',
+        year: match[6] || '',
+      },
+    })
+  }
+  
+  STATUTES_AT_LARGE_PATTERN.lastIndex = 0
+  
+  while ((match = STATUTES_AT_LARGE_PATTERN.exec(text)) !== null) {
+    const start = match.index
+    // Already part of a public law citation
+    if (matches.some(existing => start >= existing.startIndex && start < existing.endIndex)) continue
+    matches.push({
+      fullMatch: match[0],
+      startIndex: start,
+      endIndex: start + match[0].length,
+      type: 'sessionLaw',
+      components: {
+        public_law: '',
+        section: '',
+        volume: match[1],
+        page: match[2],
+        pin: match[3] || '',
+        year: match[4] || '',
+      },
+    })
+  }
+  
+  return matches
+}
+
+/**
+ * Drop a signal picked up in front of a case's first party or a secondary source's author,
+ * so the citation starts at the name as it does on the eyecite path
+ */
+function withoutLeadingSignal(citation: CitationMatch): CitationMatch {
+  const signal = citation.fullMatch.match(LEADING_SIGNAL_PATTERN)
+  const field = citation.type === 'case' ? 'party_1' : 'author'
+  if (!signal || !citation.components[field]) return citation
+  return {
+    ...citation,
+    fullMatch: citation.fullMatch.slice(signal[0].length),
+    startIndex: citation.startIndex + signal[0].length,
+    components: { ...citation.components, [field]: citation.components[field].replace(LEADING_SIGNAL_PATTERN, '') },
+  }
+}
+
+/**
+ * Find all law review citations in text
+ */
+export function findLawReviewCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  LAW_REVIEW_PATTERN.lastIndex = 0
+  
+  while ((match = LAW_REVIEW_PATTERN.exec(text)) !== null) {
+    // A journal-shaped reporter ("N.J.") is a case reporter, not a journal
+    if (isValidStateReporter(match[4])) continue
+    matches.push(withoutLeadingSignal({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'secondary',
+      components: {
+        kind: 'lawReview',
+        author: match[1] || '',
+        title: match[2] ? match[2].trim() : '',
+        volume: match[3],
+        journal: match[4],
+        page: match[5],
+        pin: match[6] || '',
+        year: match[7],
+      },
+    }))
+  }
+  
+  return matches
+}
+
+/**
+ * Find all treatise citations in text
+ */
+export function findTreatiseCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  TREATISE_PATTERN.lastIndex = 0
+  
+  while ((match = TREATISE_PATTERN.exec(text)) !== null) {
+    const location = match[4].trim()
+    const isPage = /^\d+$/.test(location)
+    matches.push(withoutLeadingSignal({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'secondary',
+      components: {
+        kind: 'treatise',
+        volume: match[1] || '',
+        author: match[2],
+        title: match[3].trim(),
+        page: isPage ? location : '',
+        section: isPage ? '' : location.replace(/^[§¶]+\s*/, ''),
+        pin: match[5] || '',
+        edition: match[6],
+        year: match[7] || '',
+      },
+    }))
+  }
+  
+  return matches
+}
+
+/**
+ * Find all Restatement citations in text
+ * A Restatement cited without a series is the first one ("Restatement of Contracts")
+ */
+export function findRestatementCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  RESTATEMENT_PATTERN.lastIndex = 0
+  
+  while ((match = RESTATEMENT_PATTERN.exec(text)) !== null) {
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'secondary',
+      components: {
+        kind: 'restatement',
+        series: match[1] || 'First',
+        subject: match[2].replace(/\s+/g, ' ').trim(),
+        section: match[3],
+        pin: match[4] ? match[4].replace(/^,?\s+/, '') : '',
+        year: match[5] || '',
+      },
+    })
+  }
+  
+  return matches
+}
+
+/**
+ * Find all A.L.R. annotation citations in text
+ */
+export function findAlrCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  ALR_PATTERN.lastIndex = 0
+  
+  while ((match = ALR_PATTERN.exec(text)) !== null) {
+    matches.push(withoutLeadingSignal({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'secondary',
+      components: {
+        kind: 'alr',
+        author: match[1] || '',
+        title: match[2] ? match[2].trim() : '',
+        volume: match[3],
+        series: match[4],
+        page: match[5],
+        pin: match[6] || '',
+        year: match[7] || '',
+      },
+    }))
+  }
+  
+  return matches
+}
+
+/**
+ * Find all dictionary citations in text
+ */
+export function findDictionaryCitations(text: string): CitationMatch[] {
+  const matches: CitationMatch[] = []
+  let match
+  
+  DICTIONARY_PATTERN.lastIndex = 0
+  
+  while ((match = DICTIONARY_PATTERN.exec(text)) !== null) {
+    matches.push({
+      fullMatch: match[0],
+      startIndex: match.index,
+      endIndex: match.index + match[0].length,
+      type: 'secondary',
+      components: {
+        kind: 'dictionary',
+        title: match[1].replace(/\s+/g, ' '),
+        page: match[2] || '',
+        edition: match[3] || '',
+        year: match[4],
+      },
+    })
+  }
+  
+  return matches
+}
+
+/**
+ * Find all secondary source citations in text: law reviews, treatises, Restatements,
+ * A.L.R. annotations and dictionaries
+ */
+export function findSecondarySourceCitations(text: string): CitationMatch[] {
+  return [
+    ...findLawReviewCitations(text),
+    ...findTreatiseCitations(text),
+    ...findRestatementCitations(text),
+    ...findAlrCitations(text),
+    ...findDictionaryCitations(text),
+  ].sort((a, b) => a.startIndex - b.startIndex)
+}
+
 /**
  * Find all citations in text (all types)
  */
@@ -381,11 +917,19 @@ export function findAllCitations(text: string): CitationMatch[] {
   const allMatches: CitationMatch[] = []
   
   // Find all citation types
+  // Parallel citations go first so they win ties with a single-reporter match over the same text
+  allMatches.push(...findParallelCaseCitations(text))
   allMatches.push(...findFederalCaseCitations(text))
+  allMatches.push(...findStateCaseCitations(text))
   allMatches.push(...findFederalStatuteCitations(text))
+  allMatches.push(...findStateStatuteCitations(text))
   allMatches.push(...findFederalRegulationCitations(text))
+  allMatches.push(...findStateRegulationCitations(text))
   allMatches.push(...findFederalRuleCitations(text))
   allMatches.push(...findLocalRuleCitations(text))
+  allMatches.push(...findConstitutionCitations(text))
+  allMatches.push(...findSessionLawCitations(text))
+  allMatches.push(...findSecondarySourceCitations(text))
   // Disabled act name matching - too many false positives (dictionary references, casual mentions)
   // allMatches.push(...findActNameCitations(text))
   allMatches.push(...findRevisedStatutesCitations(text))
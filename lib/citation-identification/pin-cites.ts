@@ -0,0 +1,95 @@
+/**
+ * Pin Cites
+ * Parses pin cites and pin ranges ("462", "462-63", "462 n.3", "462, 465") and checks
+ * them against the first page of the case they point into
+ */
+
+import { Citation, CaseComponents, PinPageRange } from '@/types/citation-json'
+
+const PIN = '\\d+(?:\\s*[-–—]\\s*\\d+)?(?:\\s*(?:&\\s*)?nn?\\.\\s*\\d+(?:\\s*[-–—]\\s*\\d+)?)?'
+
+// Pin cites as written after the first page: ", 462-63" or ", 462, 465 n.3"
+export const PIN_CITE_SOURCE = `${PIN}(?:,\\s*${PIN})*`
+
+// A pin cite list ends at a parenthetical, a clause boundary, or a parallel citation
+const PIN_CITE_AFTER_PAGE_PATTERN = new RegExp(
+  `^,\\s*(${PIN_CITE_SOURCE})(?=\\s*(?:\\(|;|\\.(?:\\s|$)|,\\s*(?!\\d)|,\\s*\\d+\\s+[A-Z]|$))`
+)
+const PIN_PART_PATTERN = /^(\d+)(?:\s*[-–—]\s*(\d+))?(?:\s*(?:&\s*)?nn?\.\s*(\d+(?:\s*[-–—]\s*\d+)?))?$/
+
+/**
+ * Pin cite written directly after a citation's first page, e.g. ", 678-79" in "556 U.S. 662, 678-79 (2009)"
+ */
+export function extractPinCiteAfter(textAfterPage: string): string | undefined {
+  const match = textAfterPage.match(PIN_CITE_AFTER_PAGE_PATTERN)
+  return match ? match[1].trim() : undefined
+}
+
+/**
+ * Expand a pin cite into page ranges; Bluebook-style abbreviated ends are
+ * filled in from the start page, so "1462-63" covers 1462 through 1463
+ */
+export function parsePinCite(pinCite: string): PinPageRange[] {
+  const ranges: PinPageRange[] = []
+  for (const part of pinCite.split(/,\s*/)) {
+    const match = part.trim().match(PIN_PART_PATTERN)
+    if (!match) continue
+    const [, startText, endText, footnote] = match
+    const start = parseInt(startText, 10)
+    let end = start
+    if (endText) {
+      const fullEnd = endText.length < startText.length
+        ? startText.slice(0, startText.length - endText.length) + endText
+        : endText
+      end = parseInt(fullEnd, 10)
+    }
+    ranges.push({
+      text: part.trim(),
+      start,
+      end,
+      ...(footnote ? { footnote: footnote.replace(/\s+/g, '') } : {}),
+    })
+  }
+  return ranges
+}
+
+/**
+ * Pin cite fields for a case's extracted components; empty when the citation has no pin
+ */
+export function pinCiteComponents(pinCite: string | undefined): Pick<CaseComponents, 'pinCite' | 'pinPages'> {
+  if (!pinCite) return {}
+  return { pinCite, pinPages: parsePinCite(pinCite) }
+}
+
+/**
+ * Local sanity checks on a pin cite: every page must fall on or after the first page
+ * of the case, and ranges must run forward
+ */
+export function checkPinCite(firstPage: string | undefined, ranges: PinPageRange[]): string[] {
+  const issues: string[] = []
+  const first = firstPage && /^\d+$/.test(firstPage.trim()) ? parseInt(firstPage, 10) : null
+
+  for (const range of ranges) {
+    if (first !== null && range.start < first) {
+      issues.push(`Pin cite ${range.text} is before the first page of the case (${first})`)
+    }
+    if (range.text.match(/^\d+\s*[-–—]/) && range.end <= range.start) {
+      issues.push(`Pin range ${range.text} does not run forward`)
+    }
+  }
+  return issues
+}
+
+/**
+ * Pin cite line for validation prompts, or an empty string when the citation has none
+ */
+export function formatPinCiteForPrompt(citation: Citation): string {
+  if (citation.citationType !== 'case') return ''
+  const components = citation.extractedComponents as CaseComponents
+  if (!components.pinCite) return ''
+
+  const pages = (components.pinPages || parsePinCite(components.pinCite))
+    .map(range => (range.end > range.start ? `${range.start}-${range.end}` : `${range.start}`) + (range.footnote ? ` (note ${range.footnote})` : ''))
+    .join(', ')
+  return `Pin Cite: ${components.pinCite} (page${pages.includes(',') || pages.includes('-') ? 's' : ''} ${pages} of the opinion starting at page ${components.page || 'N/A'})`
+}
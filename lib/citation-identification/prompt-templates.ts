@@ -0,0 +1,56 @@
+/**
+ * Prompt Templates
+ * Fills the {{variable}} placeholders of an admin-edited agent prompt with a citation and its context
+ */
+
+import { Citation } from '@/types/citation-json'
+import { formatPinCiteForPrompt } from './pin-cites'
+import { formatSignalForPrompt } from './signals'
+
+export const PROMPT_TEMPLATE_VARIABLES: Array<{ name: string; description: string }> = [
+  { name: 'citation', description: 'Citation text as it appears in the document' },
+  { name: 'citation_type', description: 'case, statute, regulation, rule, constitution, sessionLaw or secondary' },
+  { name: 'components', description: 'Extracted components, one "- Name: value" line each' },
+  { name: 'pin_cite', description: 'Pin cite and the pages it points to (cases only, else empty)' },
+  { name: 'signal', description: 'Introductory signal and explanatory parenthetical, if any' },
+  { name: 'context', description: 'Surrounding document text' },
+]
+
+// "parallelCitations" -> "Parallel Citations"
+function componentLabel(key: string): string {
+  const words = key.replace(/([a-z])([A-Z])/g, '$1 $2')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Components as a bulleted list; parties are joined with "v." and nested values are skipped
+ */
+export function formatComponentsForPrompt(citation: Citation): string {
+  const lines: string[] = []
+  for (const [key, value] of Object.entries(citation.extractedComponents || {})) {
+    if (value === undefined || value === null || value === '') continue
+    if (key === 'parties' && Array.isArray(value)) {
+      lines.push(`- Parties: ${value.join(' v. ')}`)
+    } else if (typeof value === 'string' || typeof value === 'number') {
+      lines.push(`- ${componentLabel(key)}: ${value}`)
+    }
+  }
+  return lines.length > 0 ? lines.join('\n') : 'See citation text for components'
+}
+
+/**
+ * Replace each {{variable}} in the template; unknown variables are left as written
+ */
+export function renderPromptTemplate(template: string, citation: Citation, context: string): string {
+  const values: Record<string, string> = {
+    citation: citation.citationText,
+    citation_type: citation.citationType,
+    components: formatComponentsForPrompt(citation),
+    pin_cite: formatPinCiteForPrompt(citation),
+    signal: formatSignalForPrompt(citation).trim(),
+    context,
+  }
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder
+  )
+}
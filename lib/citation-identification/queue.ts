@@ -1,9 +1,12 @@
 import { prisma } from "@/lib/prisma"
 import { CitationDocument } from "@/types/citation-json"
 import { logger } from "@/lib/logger"
+import { applyAntecedentVerdicts, needsOwnValidation } from "./short-forms"
+import { scoreCompletedCheck } from "./benchmark-store"
 
 /**
  * Create a validation job and queue items for all citations
+ * Resolved short forms are not queued; they inherit their antecedent's verdict
  */
 export async function createValidationJob(
   checkId: string,
@@ -47,7 +50,7 @@ export async function createValidationJob(
       data: {
         checkId,
         status: 'pending',
-        tier2Total: citations.length,
+        tier2Total: citations.filter(needsOwnValidation).length,
         tier2Completed: 0,
         tier3Total: 0,
         tier3Completed: 0,
@@ -67,14 +70,16 @@ export async function createValidationJob(
     throw error
   }
   
-  // Create queue items for Tier 2 validation
-  const queueItems = citations.map((citation, index) => ({
-    jobId: job.id,
-    citationId: citation.id,
-    citationIndex: index,
-    tier: 'tier2',
-    status: 'pending' as const,
-  }))
+  // Create queue items for Tier 2 validation, keeping each citation's index in the full array
+  const queueItems = citations
+    .map((citation, index) => ({
+      jobId: job.id,
+      citationId: citation.id,
+      citationIndex: index,
+      tier: 'tier2',
+      status: 'pending' as const,
+    }))
+    .filter((item, index) => needsOwnValidation(citations[index]))
   
   try {
     await prisma.validationQueueItem.createMany({
@@ -366,6 +371,9 @@ async function updateCitationInCheck(
       } else if (tier === 'tier3') {
         citations[citationIndex].tier_3 = result
       }
+
+      // Short forms citing this one share its verdict
+      applyAntecedentVerdicts(citations)
       
       // Update with transaction to ensure atomicity
       await tx.citationCheck.update({
@@ -442,6 +450,7 @@ export async function retryUnvalidatedCitations(jobId: string): Promise<number>
   for (let i = 0; i < citations.length; i++) {
     const citation = citations[i]
     const citationId = citation.id
+    if (!needsOwnValidation(citation)) continue
     
     // ===== TIER 2 VALIDATION CHECKS =====
     const tier2Item = job.queueItems.find(
@@ -646,7 +655,7 @@ export async function checkJobCompletion(jobId: string): Promise<boolean> {
     // Verify all citations are actually validated
     if (job.check?.jsonData) {
       const jsonData = job.check.jsonData as any
-      const citations = jsonData.document?.citations || []
+      const citations = (jsonData.document?.citations || []).filter(needsOwnValidation)
       
       // Check for missing Tier 2 validation
       const unvalidatedTier2 = citations.filter((c: any) => !c.validation).length
@@ -700,6 +709,9 @@ export async function checkJobCompletion(jobId: string): Promise<boolean> {
     })
     
     logger.debug(`Job ${jobId} marked as completed`, { jobId }, 'Queue')
+
+    // Runs of a labeled file are scored against the ground truth as they finish
+    await scoreCompletedCheck(job.checkId)
     return true
   }
   
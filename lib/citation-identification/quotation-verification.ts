@@ -0,0 +1,121 @@
+/**
+ * Quotation Verification
+ * Checks each citation's quotations against source text pasted by the user or an opinion in the
+ * local corpus: a directory (OPINION_CORPUS_PATH) of plain-text opinions named by citation,
+ * e.g. "550 U.S. 544.txt"
+ * Reads the corpus from disk, so it is imported by server code only
+ */
+
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import { CaseComponents, Citation, CitationDocument } from '@/types/citation-json'
+import { parseCitation } from './authority'
+import { verifyQuotation } from './quotations'
+import { OPINION_CORPUS_PATH } from '@/lib/env'
+import { logger } from '@/lib/logger'
+
+export interface QuotationVerificationSummary {
+  verified: number // Quotations compared with a source
+  unchecked: number // Quotations whose citation had no source text
+}
+
+let corpusFiles: Map<string, string> | null = null
+
+// "550 U.S. 544", "550_US_544" and "550us544" name the same opinion
+function corpusKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Opinion files in the corpus directory by citation key, read once
+ */
+async function getCorpusFiles(): Promise<Map<string, string>> {
+  if (corpusFiles) return corpusFiles
+  corpusFiles = new Map()
+  if (!OPINION_CORPUS_PATH) return corpusFiles
+
+  try {
+    for (const file of await readdir(OPINION_CORPUS_PATH)) {
+      if (!/\.txt$/i.test(file)) continue
+      corpusFiles.set(corpusKey(path.basename(file, path.extname(file))), path.join(OPINION_CORPUS_PATH, file))
+    }
+    logger.info(`Loaded opinion corpus`, { path: OPINION_CORPUS_PATH, opinions: corpusFiles.size }, 'QuotationVerification')
+  } catch (error) {
+    logger.error(`Failed to read opinion corpus at ${OPINION_CORPUS_PATH}`, error, 'QuotationVerification')
+  }
+  return corpusFiles
+}
+
+/**
+ * Text of a case's opinion from the corpus, trying each reporter of a parallel cite, or null when it is not there
+ */
+export async function findOpinionText(citation: Citation): Promise<{ text: string; source: string } | null> {
+  if (citation.citationType !== 'case') return null
+  const files = await getCorpusFiles()
+  if (files.size === 0) return null
+
+  const parsed = parseCitation(citation)
+  const components = citation.extractedComponents as Partial<CaseComponents>
+  const locations = [
+    ...(parsed.kind === 'case' ? [{ volume: parsed.volume!, reporter: parsed.reporter!, page: parsed.page! }] : []),
+    ...(components.parallelCitations || []),
+  ]
+
+  for (const location of locations) {
+    const filePath = files.get(corpusKey(`${location.volume}${location.reporter}${location.page}`))
+    if (filePath) return { text: await readFile(filePath, 'utf8'), source: path.basename(filePath) }
+  }
+  return null
+}
+
+/**
+ * Verify the quotations of every citation that has source text: text pasted for the citation (or, for a
+ * resolved short form, for its full citation) in sources, otherwise the corpus opinion of the cited case
+ * Quotations without a source keep any earlier result
+ */
+export async function verifyQuotations(
+  jsonData: CitationDocument,
+  sources: Record<string, string> = {}
+): Promise<{ document: CitationDocument; summary: QuotationVerificationSummary }> {
+  const { document } = jsonData
+  const citationsById = new Map(document.citations.map(citation => [citation.id, citation]))
+  const summary: QuotationVerificationSummary = { verified: 0, unchecked: 0 }
+
+  const citations: Citation[] = []
+  for (const citation of document.citations) {
+    if (!citation.quotations || citation.quotations.length === 0) {
+      citations.push(citation)
+      continue
+    }
+
+    // A short form quotes the case its full citation names
+    const cited = (citation.antecedentId && citationsById.get(citation.antecedentId)) || citation
+    const pasted = sources[citation.id] || sources[cited.id]
+    const opinion = pasted ? { text: pasted, source: 'user' } : await findOpinionText(cited)
+    if (!opinion) {
+      summary.unchecked += citation.quotations.length
+      citations.push(citation)
+      continue
+    }
+
+    summary.verified += citation.quotations.length
+    citations.push({
+      ...citation,
+      quotations: citation.quotations.map(quotation => ({
+        ...quotation,
+        verification: verifyQuotation(quotation.text, opinion.text, opinion.source),
+      })),
+    })
+  }
+
+  logger.info(`Verified quotations`, summary, 'QuotationVerification')
+  return {
+    document: {
+      document: {
+        ...document,
+        citations,
+      },
+    },
+    summary,
+  }
+}
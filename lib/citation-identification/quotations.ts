@@ -0,0 +1,309 @@
+/**
+ * Quotations
+ * Attaches quoted passages and block quotes to the citation given as their source, and compares
+ * a quotation with the source's text: found word for word, nearly (with a word diff), or not at all
+ */
+
+import { Citation, CitationDocument, ContentParagraph, Quotation, QuotationDiffSegment, QuotationVerification, isStructuralContent } from '@/types/citation-json'
+
+const MARKER_PATTERN = /\[CITATION:([^\]]+)\]([\s\S]*?)\[\/CITATION:\1\]/g
+// Double-quoted passages, curly or straight; single quotes nest inside them
+const QUOTATION_PATTERN = /“([^“”]+)”|"([^"]+)"/g
+// Omissions split a quotation into passages that are matched separately
+const ELLIPSIS_PATTERN = /\s*(?:\.\s?\.\s?\.|…)\s*/
+// Quoted words and phrases shorter than this are terms, not quotations worth checking
+const MIN_QUOTATION_WORDS = 4
+// A citation this far after a quotation is still the quotation's source, e.g. "quoted." Smith, 123 F.3d at 460
+const MAX_CITATION_DISTANCE = 120
+// Share of quoted words that must appear in order for a near match
+const NEAR_MATCH_SIMILARITY = 0.8
+// Candidate passages of the source compared word by word with each part of a quotation
+const CANDIDATE_PASSAGES = 5
+
+interface Marker {
+  id: string
+  start: number
+  end: number
+}
+
+interface Word {
+  raw: string
+  key: string
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(/\[\/?CITATION:[^\]]+\]/g, '')
+}
+
+function normalizeQuotation(text: string): string {
+  return stripMarkers(text).replace(/\s+/g, ' ').trim()
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+function findMarkers(text: string): Marker[] {
+  return Array.from(text.matchAll(MARKER_PATTERN), match => ({
+    id: match[1],
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+}
+
+/**
+ * Citation a quotation in running text is attributed to: the citation it sits in (custom identification
+ * marks parentheticals with the citation) or in a parenthetical of, then a citation shortly after it,
+ * then the citation before it in the paragraph
+ */
+function attributeQuotation(text: string, markers: Marker[], start: number, end: number): string | undefined {
+  const enclosing = markers.find(marker => marker.start <= start && end <= marker.end)
+  if (enclosing) return enclosing.id
+
+  const previous = markers.filter(marker => marker.end <= start).pop()
+  if (previous) {
+    const gap = stripMarkers(text.slice(previous.end, start))
+    const opened = (gap.match(/\(/g) || []).length - (gap.match(/\)/g) || []).length
+    if (opened > 0) return previous.id
+  }
+
+  const next = markers.find(marker => marker.start >= end)
+  if (next && stripMarkers(text.slice(end, next.start)).length <= MAX_CITATION_DISTANCE) return next.id
+  return previous?.id || next?.id
+}
+
+/**
+ * Citation a block quote is attributed to: the citation that opens the paragraph after it (past any
+ * further block quote paragraphs), or else the last citation in the paragraph that introduces it
+ */
+function attributeBlockQuote(blocks: ContentParagraph[], index: number): string | undefined {
+  let after = index + 1
+  while (after < blocks.length && blocks[after].style === 'blockQuote') after++
+  const following = blocks[after]
+  if (following && !isStructuralContent(following)) {
+    const first = findMarkers(following.text)[0]
+    if (first && stripMarkers(following.text.slice(0, first.start)).length <= MAX_CITATION_DISTANCE) return first.id
+  }
+
+  let before = index - 1
+  while (before >= 0 && blocks[before].style === 'blockQuote') before--
+  const introducing = blocks[before]
+  if (introducing && !isStructuralContent(introducing)) return findMarkers(introducing.text).pop()?.id
+  return undefined
+}
+
+/**
+ * Attach the quotations in the document to the citations they are attributed to
+ * Footnotes are read like body text; captions, tables of authorities and signature blocks are skipped
+ * Verification results are kept for quotations whose text is unchanged; safe to re-run
+ */
+export function attachQuotations(jsonData: CitationDocument): CitationDocument {
+  const { document } = jsonData
+  const previousVerifications = new Map<string, Quotation['verification']>()
+  for (const citation of document.citations) {
+    for (const quotation of citation.quotations || []) {
+      if (quotation.verification) previousVerifications.set(`${citation.id}|${quotation.paragraphId}|${quotation.text}`, quotation.verification)
+    }
+  }
+
+  const quotationsById = new Map<string, Quotation[]>()
+  const attach = (citationId: string | undefined, quotation: Quotation) => {
+    if (!citationId) return
+    const verification = previousVerifications.get(`${citationId}|${quotation.paragraphId}|${quotation.text}`)
+    const list = quotationsById.get(citationId) || []
+    list.push(verification ? { ...quotation, verification } : quotation)
+    quotationsById.set(citationId, list)
+  }
+
+  document.content.forEach((block, index) => {
+    if (isStructuralContent(block)) return
+
+    if (block.style === 'blockQuote') {
+      const text = normalizeQuotation(block.text)
+      if (countWords(text) >= MIN_QUOTATION_WORDS) {
+        attach(attributeBlockQuote(document.content, index), { text, paragraphId: block.id, blockQuote: true })
+      }
+      return
+    }
+
+    const markers = findMarkers(block.text)
+    if (markers.length === 0) return
+    for (const match of Array.from(block.text.matchAll(QUOTATION_PATTERN))) {
+      const text = normalizeQuotation(match[1] ?? match[2])
+      if (countWords(text) < MIN_QUOTATION_WORDS) continue
+      attach(attributeQuotation(block.text, markers, match.index!, match.index! + match[0].length), { text, paragraphId: block.id })
+    }
+  })
+
+  const citations = document.citations.map(citation => {
+    const { quotations: _quotations, ...rest } = citation
+    const quotations = quotationsById.get(citation.id)
+    return (quotations ? { ...rest, quotations } : rest) as Citation
+  })
+
+  const quotationCount = Array.from(quotationsById.values()).reduce((count, list) => count + list.length, 0)
+  console.log('[attachQuotations] Attached', quotationCount, 'quotations to', quotationsById.size, 'citations')
+
+  return {
+    document: {
+      ...document,
+      citations,
+    },
+  }
+}
+
+/**
+ * Words compared case-insensitively without punctuation; bracketed alterations ("[t]he") count as written
+ */
+function toWords(text: string): Word[] {
+  return text
+    .replace(/[‘’]/g, "'")
+    .split(/\s+/)
+    .map(raw => ({ raw, key: raw.toLowerCase().replace(/[^a-z0-9'§]/g, '').replace(/^'+|'+$/g, '') }))
+    .filter(word => word.key.length > 0)
+}
+
+function containsSequence(source: Word[], words: Word[], from: number): number {
+  for (let start = from; start + words.length <= source.length; start++) {
+    if (words.every((word, offset) => source[start + offset].key === word.key)) return start
+  }
+  return -1
+}
+
+/**
+ * Start positions of the source passages sharing the most words with a part of a quotation
+ */
+function findCandidatePassages(source: Word[], words: Word[]): number[] {
+  const length = Math.min(words.length, source.length)
+  const wanted = new Map<string, number>()
+  for (const word of words) wanted.set(word.key, (wanted.get(word.key) || 0) + 1)
+
+  const window = new Map<string, number>()
+  let shared = 0
+  const add = (key: string, delta: number) => {
+    const count = (window.get(key) || 0) + delta
+    const before = Math.min(count - delta, wanted.get(key) || 0)
+    const after = Math.min(count, wanted.get(key) || 0)
+    window.set(key, count)
+    shared += after - before
+  }
+
+  const scores: Array<{ start: number; shared: number }> = []
+  for (let index = 0; index < source.length; index++) {
+    add(source[index].key, 1)
+    if (index >= length) add(source[index - length].key, -1)
+    if (index >= length - 1) scores.push({ start: index - length + 1, shared })
+  }
+
+  // Best passages first, skipping ones that overlap a better passage by more than half
+  const candidates: number[] = []
+  for (const score of scores.sort((a, b) => b.shared - a.shared)) {
+    if (candidates.length >= CANDIDATE_PASSAGES || score.shared === 0) break
+    if (candidates.every(start => Math.abs(start - score.start) > length / 2)) candidates.push(score.start)
+  }
+  return candidates
+}
+
+/**
+ * Word diff of a part of a quotation against a source passage, with the number of quoted words found in order
+ */
+function diffWords(quoted: Word[], passage: Word[]): { matched: number; segments: QuotationDiffSegment[]; first: number; last: number } {
+  const lengths = Array.from({ length: quoted.length + 1 }, () => new Array<number>(passage.length + 1).fill(0))
+  for (let i = quoted.length - 1; i >= 0; i--) {
+    for (let j = passage.length - 1; j >= 0; j--) {
+      lengths[i][j] = quoted[i].key === passage[j].key
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const operations: Array<{ type: QuotationDiffSegment['type']; raw: string; at?: number }> = []
+  let i = 0
+  let j = 0
+  while (i < quoted.length || j < passage.length) {
+    if (i < quoted.length && j < passage.length && quoted[i].key === passage[j].key) {
+      operations.push({ type: 'same', raw: quoted[i].raw, at: j })
+      i++
+      j++
+    } else if (j < passage.length && (i === quoted.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+      operations.push({ type: 'omitted', raw: passage[j].raw, at: j })
+      j++
+    } else {
+      operations.push({ type: 'added', raw: quoted[i].raw })
+      i++
+    }
+  }
+
+  // Source words before the first and after the last shared word are context, not omissions
+  const matchedAt = operations.filter(operation => operation.type === 'same').map(operation => operation.at!)
+  if (matchedAt.length === 0) {
+    return { matched: 0, segments: [{ type: 'added', text: quoted.map(word => word.raw).join(' ') }], first: 0, last: -1 }
+  }
+  const first = matchedAt[0]
+  const last = matchedAt[matchedAt.length - 1]
+  const trimmed = operations.filter(operation => operation.type !== 'omitted' || (operation.at! > first && operation.at! < last))
+
+  const segments: QuotationDiffSegment[] = []
+  for (const operation of trimmed) {
+    const previous = segments[segments.length - 1]
+    if (previous && previous.type === operation.type) previous.text += ` ${operation.raw}`
+    else segments.push({ type: operation.type, text: operation.raw })
+  }
+  return { matched: lengths[0][0], segments, first, last }
+}
+
+/**
+ * Compare a quotation with the text of its source
+ * "exact" when every passage between omissions appears word for word and in order, "near" when at least
+ * 80% of the quoted words appear in order in the closest passages (the diff shows what differs), else "not_found"
+ */
+export function verifyQuotation(quotation: string, sourceText: string, source: string): QuotationVerification {
+  const verifiedAt = new Date().toISOString()
+  const sourceWords = toWords(sourceText)
+  const parts = quotation.split(ELLIPSIS_PATTERN).map(toWords).filter(words => words.length > 0)
+  const quotedCount = parts.reduce((count, words) => count + words.length, 0)
+  if (quotedCount === 0 || sourceWords.length === 0) {
+    return { status: 'not_found', similarity: 0, source, verifiedAt }
+  }
+
+  let position = 0
+  const exact = parts.every(words => {
+    const found = containsSequence(sourceWords, words, position)
+    if (found === -1) return false
+    position = found + words.length
+    return true
+  })
+  if (exact) return { status: 'exact', similarity: 1, source, verifiedAt }
+
+  // Each part is matched against its closest passage, widened a little so added or dropped words still fit
+  let matched = 0
+  const diff: QuotationDiffSegment[] = []
+  const passages: string[] = []
+  parts.forEach((words, index) => {
+    const margin = Math.ceil(words.length / 4)
+    let best: ReturnType<typeof diffWords> | null = null
+    let bestStart = 0
+    for (const start of findCandidatePassages(sourceWords, words)) {
+      const from = Math.max(0, start - margin)
+      const result = diffWords(words, sourceWords.slice(from, start + words.length + margin))
+      if (!best || result.matched > best.matched) {
+        best = result
+        bestStart = from
+      }
+    }
+    if (index > 0) diff.push({ type: 'same', text: '…' })
+    if (!best) {
+      diff.push({ type: 'added', text: words.map(word => word.raw).join(' ') })
+      return
+    }
+    matched += best.matched
+    diff.push(...best.segments)
+    if (best.last >= best.first) {
+      passages.push(sourceWords.slice(bestStart + best.first, bestStart + best.last + 1).map(word => word.raw).join(' '))
+    }
+  })
+
+  const similarity = Math.round((matched / quotedCount) * 100) / 100
+  if (similarity < NEAR_MATCH_SIMILARITY) return { status: 'not_found', similarity, source, verifiedAt }
+  return { status: 'near', similarity, source, matchedText: passages.join(' … '), diff, verifiedAt }
+}
@@ -0,0 +1,56 @@
+/**
+ * Reporter Ranges
+ * Checks a case's volume, year and court against what its reporter actually published:
+ * F.4th began in 2021, F.3d ended at volume 999, and F. Supp. reports only district courts
+ */
+
+import { FederalCourtLevel, getFederalCourtLevel, getReporterMetadata } from './lookup-tables'
+
+const COURT_LEVEL_NAMES: Record<FederalCourtLevel, string> = {
+  supreme_court: 'Supreme Court',
+  circuit_courts: 'court of appeals',
+  district_courts: 'district court',
+}
+
+/**
+ * Level of the court in a case's parenthetical, also accepting eyecite court ids ("scotus", "ca2")
+ */
+function courtLevel(court: string): FederalCourtLevel | null {
+  if (court === 'scotus') return 'supreme_court'
+  if (/^ca(?:\d+|dc|fc)$/.test(court)) return 'circuit_courts'
+  return getFederalCourtLevel(court)
+}
+
+/**
+ * Problems that make a reporter reference impossible: a volume past the last one published,
+ * a year outside the series, or a court the reporter does not report
+ * Reporters without metadata in the lookup tables are not checked
+ */
+export function checkReporterRange(volume: string, reporter: string, year?: number, court?: string): string[] {
+  const metadata = getReporterMetadata(reporter)
+  if (!metadata) return []
+  const issues: string[] = []
+
+  const volumeNumber = parseInt(volume, 10)
+  if (!isNaN(volumeNumber) && volumeNumber > metadata.max_volume) {
+    issues.push(metadata.end_year
+      ? `${reporter} ended at volume ${metadata.max_volume}; there is no volume ${volumeNumber}`
+      : `${reporter} has not reached volume ${volumeNumber} (about ${metadata.max_volume} volumes are published)`)
+  }
+
+  if (year !== undefined && !isNaN(year)) {
+    if (year < metadata.start_year) {
+      issues.push(`${reporter} began in ${metadata.start_year}, so it cannot report a ${year} decision`)
+    } else if (metadata.end_year && year > metadata.end_year) {
+      issues.push(`${reporter} ended in ${metadata.end_year}, so it cannot report a ${year} decision`)
+    }
+  }
+
+  const level = court ? courtLevel(court) : null
+  if (level && metadata.courts && !metadata.courts.includes(level)) {
+    const reported = metadata.courts.map(reportedLevel => COURT_LEVEL_NAMES[reportedLevel]).join(' and ')
+    issues.push(`${reporter} reports ${reported} decisions, not ${COURT_LEVEL_NAMES[level]} decisions (${court})`)
+  }
+
+  return issues
+}
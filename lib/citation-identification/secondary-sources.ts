@@ -0,0 +1,89 @@
+/**
+ * Secondary Sources
+ * Builds components for law review articles, treatises, Restatements, A.L.R. annotations and
+ * dictionaries, and checks journals, Restatement subjects and A.L.R. series against the lookup tables
+ */
+
+import { SecondaryComponents, SecondarySourceKind } from '@/types/citation-json'
+import { getRestatementSubjects, isValidJournal } from './lookup-tables'
+
+const ALR_SERIES = [
+  'A.L.R.', 'A.L.R.2d', 'A.L.R.3d', 'A.L.R.4th', 'A.L.R.5th', 'A.L.R.6th', 'A.L.R.7th',
+  'A.L.R. Fed.', 'A.L.R. Fed. 2d', 'A.L.R. Fed. 3d',
+]
+
+function seriesKey(series: string): string {
+  return series.toLowerCase().replace(/\s+/g, '')
+}
+
+function subjectKey(subject: string): string {
+  return subject.toLowerCase().replace(/^the\s+/, '').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Secondary source components from a pattern match's raw components
+ */
+export function secondarySourceComponents(components: Record<string, string>): SecondaryComponents {
+  const year = components.year ? parseInt(components.year, 10) : NaN
+  return {
+    kind: components.kind as SecondarySourceKind,
+    ...(components.author ? { author: components.author } : {}),
+    ...(components.title ? { title: components.title } : {}),
+    ...(components.volume ? { volume: components.volume } : {}),
+    ...(components.journal ? { journal: components.journal } : {}),
+    ...(components.page ? { page: components.page } : {}),
+    ...(components.pin ? { pinCite: components.pin } : {}),
+    ...(components.section ? { section: components.section } : {}),
+    ...(components.edition ? { edition: components.edition } : {}),
+    ...(components.series ? { series: components.series } : {}),
+    ...(components.subject ? { subject: components.subject } : {}),
+    ...(!isNaN(year) ? { year } : {}),
+  }
+}
+
+/**
+ * Problems that make a secondary source citation wrong on its face: an A.L.R. series or
+ * Restatement series that does not exist, or a publication year in the future
+ */
+export function checkSecondarySource(components: SecondaryComponents, currentYear: number = new Date().getFullYear()): string[] {
+  const issues: string[] = []
+
+  if (components.kind === 'alr' && components.series &&
+      !ALR_SERIES.some(series => seriesKey(series) === seriesKey(components.series!))) {
+    issues.push(`${components.series} is not an A.L.R. series`)
+  }
+
+  if (components.kind === 'restatement' && components.series && getRestatementSubjects(components.series) === null) {
+    issues.push(`There is no Restatement (${components.series})`)
+  }
+
+  if (components.year !== undefined && components.year > currentYear) {
+    issues.push(`Publication year ${components.year} is in the future`)
+  }
+
+  return issues
+}
+
+/**
+ * Why a secondary source could not be confirmed against the lookup tables, or null when it was
+ * The tables are not exhaustive, so an unlisted journal or Restatement subject is doubtful rather than wrong
+ */
+export function findUnlistedSecondarySource(components: SecondaryComponents): string | null {
+  if (components.kind === 'lawReview' && components.journal && !isValidJournal(components.journal)) {
+    return `${components.journal} is not in the journal abbreviation table`
+  }
+
+  if (components.kind === 'restatement' && components.subject) {
+    const subjects = getRestatementSubjects(components.series || 'First')
+    const subject = subjectKey(components.subject)
+    const listed = subjects?.some(entry => {
+      const key = subjectKey(entry)
+      return key === subject || key.startsWith(`${subject}:`) || subject.startsWith(`${key}:`)
+    })
+    if (subjects && !listed) {
+      return `No Restatement (${components.series || 'First'}) of ${components.subject} is listed`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,79 @@
+/**
+ * Session Laws
+ * Builds components for public law and Statutes at Large citations
+ * ("Pub. L. No. 111-148, § 1501, 124 Stat. 119, 242 (2010)") and checks the public law
+ * number against the Congress that could have enacted it
+ */
+
+import { SessionLawComponents } from '@/types/citation-json'
+
+const FIRST_CONGRESS_YEAR = 1789
+
+/**
+ * Congress sitting in a given year; each Congress spans two years starting in an odd year
+ */
+export function getCongressForYear(year: number): number {
+  return Math.floor((year - FIRST_CONGRESS_YEAR) / 2) + 1
+}
+
+/**
+ * First calendar year of a Congress, e.g. 2009 for the 111th
+ */
+export function getCongressStartYear(congress: number): number {
+  return FIRST_CONGRESS_YEAR + (congress - 1) * 2
+}
+
+function ordinal(value: number): string {
+  const lastTwo = value % 100
+  if (lastTwo >= 11 && lastTwo <= 13) return `${value}th`
+  return `${value}${['th', 'st', 'nd', 'rd'][value % 10] || 'th'}`
+}
+
+/**
+ * Session law components from a pattern match's raw components
+ */
+export function sessionLawComponents(components: Record<string, string>): SessionLawComponents {
+  const congress = components.public_law ? parseInt(components.public_law, 10) : NaN
+  const year = components.year ? parseInt(components.year, 10) : NaN
+  return {
+    ...(components.public_law ? { publicLaw: components.public_law } : {}),
+    ...(!isNaN(congress) ? { congress } : {}),
+    ...(components.section ? { section: components.section } : {}),
+    ...(components.volume ? { volume: components.volume } : {}),
+    ...(components.page ? { page: components.page } : {}),
+    ...(components.pin ? { pinCite: components.pin } : {}),
+    ...(!isNaN(year) ? { year } : {}),
+  }
+}
+
+/**
+ * Local checks on a session law citation: the Congress in the public law number must have sat,
+ * and must have been sitting in the year given
+ * Laws are signed up to a few days after a Congress ends, so the year after its second year is accepted
+ */
+export function checkSessionLawCitation(components: SessionLawComponents, currentYear: number = new Date().getFullYear()): string[] {
+  const issues: string[] = []
+  const { publicLaw, congress, year } = components
+
+  if (publicLaw && congress !== undefined) {
+    const lawNumber = parseInt(publicLaw.split(/[-–]/)[1], 10)
+    const currentCongress = getCongressForYear(currentYear)
+    if (congress < 1 || congress > currentCongress) {
+      issues.push(`Pub. L. No. ${publicLaw} names the ${ordinal(congress)} Congress, but the current Congress is the ${ordinal(currentCongress)}`)
+    } else if (year !== undefined) {
+      const startYear = getCongressStartYear(congress)
+      if (year < startYear || year > startYear + 2) {
+        issues.push(`Pub. L. No. ${publicLaw} is a law of the ${ordinal(congress)} Congress (${startYear}-${startYear + 1}), not ${year}`)
+      }
+    }
+    if (isNaN(lawNumber) || lawNumber < 1) {
+      issues.push(`Pub. L. No. ${publicLaw} has no law number`)
+    }
+  }
+
+  if (components.volume && parseInt(components.volume, 10) < 1) {
+    issues.push(`${components.volume} Stat. is not a Statutes at Large volume`)
+  }
+
+  return issues
+}
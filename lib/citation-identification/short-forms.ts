@@ -0,0 +1,464 @@
+/**
+ * Short-Form Citation Resolution
+ * Links Id., supra and short case citations ("Smith, 123 F.3d at 460") to the full
+ * citation they refer to, so they inherit its verdict instead of being validated on their own
+ */
+
+import {
+  CitationDocument,
+  Citation,
+  CaseComponents,
+  ContentParagraph,
+  ExtractedComponents,
+  ReporterReference,
+  ShortFormKind,
+  ShortFormResolution,
+  ShortFormStatus,
+  Tier1Result,
+  isStructuralContent,
+} from '@/types/citation-json'
+import { ParsedAuthority, SIGNAL_PREFIX_PATTERN, normalizeCaseName, normalizeReporter, parseCitation } from './authority'
+import { checkPinCite, parsePinCite, pinCiteComponents } from './pin-cites'
+
+const NAME = "[A-Z][A-Za-z0-9'’&.\\-]*(?:\\s+(?:of|the|and|for|&|[A-Z][A-Za-z0-9'’&.\\-]*)){0,5}"
+const PIN = '\\d+(?:\\s*[-–]\\s*\\d+)?'
+const REPORTER = '[A-Z][A-Za-z0-9.]*(?:\\s+[A-Z0-9][A-Za-z0-9.]*){0,3}'
+
+const ID_SOURCE = `\\b(?:[Ii]d|[Ii]bid)\\.(?:,?\\s+at\\s+(${PIN}))?`
+const SUPRA_SOURCE = `\\b(${NAME}),\\s+supra(?:\\s+note\\s+\\d+)?(?:,\\s+at\\s+(${PIN}))?`
+const SHORT_CASE_SOURCE = `(?:\\b(${NAME}),\\s+)?\\b(\\d+)\\s+(${REPORTER})\\s+at\\s+(${PIN})`
+
+const SHORT_FORM_SOURCES: Array<{ kind: ShortFormKind; source: string }> = [
+  { kind: 'id', source: ID_SOURCE },
+  { kind: 'supra', source: SUPRA_SOURCE },
+  { kind: 'shortCase', source: SHORT_CASE_SOURCE },
+]
+
+const NAME_BEFORE_PATTERN = new RegExp(`(${NAME}),\\s*$`)
+// Sentence words the name pattern can pick up before a case name, e.g. "In Twombly, supra"
+const LEADING_WORD_PATTERN = /^(?:In|Under|As|Like|Unlike|Per|Following|Applying|Citing|Thus|Here|And|But)\s+/
+const MARKER_PATTERN = /\[CITATION:([^\]]+)\]([\s\S]*?)\[\/CITATION:\1\]/g
+
+// Citations closer than this and separated by a semicolon are read as one string cite
+const STRING_CITE_GAP = 300
+
+interface ParsedShortForm {
+  kind: ShortFormKind
+  name?: string
+  volume?: string
+  reporter?: string
+  pinCite?: string
+}
+
+interface CitationEvent {
+  block: ContentParagraph
+  start: number
+  end: number
+  text: string
+  citationId?: string // Set for citations already marked in the text
+  shortForm?: ParsedShortForm
+}
+
+interface FullCitationEntry {
+  citation: Citation
+  parsed: ParsedAuthority
+}
+
+interface Resolution {
+  status: ShortFormStatus
+  antecedentId?: string
+  candidateIds?: string[]
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(/\[\/?CITATION:[^\]]+\]/g, '')
+}
+
+/**
+ * Length of the signal and sentence words at the start of a short form match
+ */
+function leadingWordsLength(text: string): number {
+  let rest = text
+  let match: RegExpMatchArray | null
+  while ((match = rest.match(SIGNAL_PREFIX_PATTERN) || rest.match(LEADING_WORD_PATTERN))) {
+    rest = rest.slice(match[0].length)
+  }
+  return text.length - rest.length
+}
+
+function cleanName(name: string | undefined): string | undefined {
+  const cleaned = name?.slice(leadingWordsLength(name)).trim()
+  return cleaned || undefined
+}
+
+function toShortForm(kind: ShortFormKind, match: RegExpMatchArray): ParsedShortForm | null {
+  if (kind === 'id') {
+    return { kind, pinCite: match[1] }
+  }
+  if (kind === 'supra') {
+    return { kind, name: cleanName(match[1]), pinCite: match[2] }
+  }
+  // Reporters are abbreviated; this keeps "3 Defendants at 5" from reading as a cite
+  if (!match[3].includes('.')) return null
+  return { kind, name: cleanName(match[1]), volume: match[2], reporter: match[3], pinCite: match[4] }
+}
+
+/**
+ * Read an already marked citation as a short form, taking a short case cite's name
+ * from the text before the marker when the identifier marked only "550 U.S. at 555"
+ */
+function parseMarkedShortForm(citation: Citation, textBefore: string): ParsedShortForm | null {
+  const text = citation.citationText.trim()
+  const kinds = citation.shortForm ? SHORT_FORM_SOURCES.filter(({ kind }) => kind === citation.shortForm!.kind) : SHORT_FORM_SOURCES
+  for (const { kind, source } of kinds) {
+    const match = text.match(new RegExp(`^${source}[.,;:]?$`))
+    if (!match) continue
+    const shortForm = toShortForm(kind, match)
+    if (!shortForm) continue
+    if (kind === 'shortCase' && !shortForm.name) {
+      shortForm.name = cleanName(stripMarkers(textBefore).match(NAME_BEFORE_PATTERN)?.[1])
+    }
+    return shortForm
+  }
+  return citation.shortForm ? { kind: citation.shortForm.kind, pinCite: citation.shortForm.pinCite } : null
+}
+
+/**
+ * Marked citations and unmarked short forms in a block, in reading order
+ */
+function collectEvents(block: ContentParagraph, citationsById: Map<string, Citation>): CitationEvent[] {
+  const events: CitationEvent[] = []
+
+  for (const match of Array.from(block.text.matchAll(MARKER_PATTERN))) {
+    const citation = citationsById.get(match[1])
+    if (!citation) continue
+    const start = match.index!
+    events.push({
+      block,
+      start,
+      end: start + match[0].length,
+      text: match[2],
+      citationId: citation.id,
+      shortForm: parseMarkedShortForm(citation, block.text.slice(0, start)) || undefined,
+    })
+  }
+
+  const overlaps = (start: number, end: number) => events.some(event => start < event.end && end > event.start)
+  for (const { kind, source } of SHORT_FORM_SOURCES) {
+    for (const match of Array.from(block.text.matchAll(new RegExp(source, 'g')))) {
+      const start = match.index!
+      const end = start + match[0].length
+      if (overlaps(start, end)) continue
+      const shortForm = toShortForm(kind, match)
+      if (!shortForm) continue
+      // Mark the citation itself, leaving any signal or sentence words outside the marker
+      const leading = leadingWordsLength(match[0])
+      events.push({ block, start: start + leading, end, text: match[0].slice(leading), shortForm })
+    }
+  }
+
+  return events.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Whether a full citation's case name contains the name used in a short form,
+ * e.g. "Twombly" in "Bell Atl. Corp. v. Twombly"
+ */
+function nameMatches(name: string, full: FullCitationEntry): boolean {
+  const target = normalizeCaseName(name)
+  if (!target) return false
+  const fullName = full.parsed.name ? normalizeCaseName(full.parsed.name) : normalizeCaseName(full.citation.citationText)
+  return fullName.split(/\s+v\s+/).some(party => ` ${party} `.includes(` ${target} `))
+}
+
+/**
+ * Full citations matching a short form's name; leading words are dropped until one matches,
+ * since the name pattern can pick up words like "In" before the case name
+ */
+function findByName(name: string, fulls: FullCitationEntry[]): FullCitationEntry[] {
+  const words = name.split(/\s+/)
+  for (let i = 0; i < words.length; i++) {
+    const matches = fulls.filter(full => nameMatches(words.slice(i).join(' '), full))
+    if (matches.length > 0) return matches
+  }
+  return []
+}
+
+/**
+ * Resolve to the first citation of each distinct authority among the candidates
+ */
+function toResolution(candidates: FullCitationEntry[]): Resolution {
+  const byAuthority = new Map<string, string>()
+  for (const candidate of candidates) {
+    if (!byAuthority.has(candidate.parsed.key)) byAuthority.set(candidate.parsed.key, candidate.citation.id)
+  }
+  const ids = Array.from(byAuthority.values())
+  if (ids.length === 0) return { status: 'orphaned' }
+  if (ids.length === 1) return { status: 'resolved', antecedentId: ids[0] }
+  return { status: 'ambiguous', candidateIds: ids }
+}
+
+function resolveSupra(shortForm: ParsedShortForm, fulls: FullCitationEntry[]): Resolution {
+  if (!shortForm.name) return { status: 'orphaned' }
+  return toResolution(findByName(shortForm.name, fulls))
+}
+
+/**
+ * The reporter reference of a full case citation that a short case cite points into;
+ * any reporter of a parallel cite counts ("93 S. Ct. at 710" for "410 U.S. 113, 93 S. Ct. 705")
+ */
+function findReporterReference(shortForm: ParsedShortForm, full: FullCitationEntry): ReporterReference | undefined {
+  const { parallelCitations } = (full.citation.extractedComponents || {}) as Partial<CaseComponents>
+  const references: ReporterReference[] = parallelCitations && parallelCitations.length > 0
+    ? parallelCitations
+    : [{ volume: full.parsed.volume || '', reporter: full.parsed.reporter || '', page: full.parsed.page || '' }]
+  const reporter = normalizeReporter(shortForm.reporter || '')
+  return references.find(reference =>
+    reference.volume === shortForm.volume && normalizeReporter(reference.reporter) === reporter
+  )
+}
+
+function resolveShortCase(shortForm: ParsedShortForm, fulls: FullCitationEntry[]): Resolution {
+  const cases = fulls.filter(full => full.parsed.kind === 'case')
+  const sameVolume = cases.filter(full => findReporterReference(shortForm, full) !== undefined)
+  if (!shortForm.name) return toResolution(sameVolume)
+
+  // A named short cite into another volume or reporter still refers to that case,
+  // but the mismatch is flagged when its pin cite is checked
+  const named = findByName(shortForm.name, sameVolume)
+  return toResolution(named.length > 0 ? named : findByName(shortForm.name, cases))
+}
+
+/**
+ * Check a resolved short form's pin cite against its antecedent: the pin must fall on or
+ * after the case's first page in the reporter cited, and a short case cite must use one of
+ * the antecedent's volumes and reporters
+ */
+function checkAgainstAntecedent(shortForm: ParsedShortForm, antecedent: FullCitationEntry | undefined): string[] {
+  if (!antecedent || antecedent.parsed.kind !== 'case') return []
+  const reference = shortForm.kind === 'shortCase' ? findReporterReference(shortForm, antecedent) : undefined
+  const firstPage = reference ? reference.page : antecedent.parsed.page
+  const issues = shortForm.pinCite ? checkPinCite(firstPage, parsePinCite(shortForm.pinCite)) : []
+  if (shortForm.kind === 'shortCase' && !reference) {
+    issues.push(
+      `Short cite ${shortForm.volume} ${shortForm.reporter} does not match the full citation ` +
+      `${antecedent.parsed.volume} ${antecedent.parsed.reporter} ${antecedent.parsed.page}`
+    )
+  }
+  return issues
+}
+
+/**
+ * A short form names the same authority as its antecedent but pinpoints its own page
+ */
+function componentsFromAntecedent(antecedent: Citation, pinCite: string | undefined): ExtractedComponents {
+  if (antecedent.citationType !== 'case') return antecedent.extractedComponents
+  const components = { ...(antecedent.extractedComponents as CaseComponents) }
+  delete components.pinCite
+  delete components.pinPages
+  return { ...components, ...pinCiteComponents(pinCite) }
+}
+
+function nextCitationNumber(citations: Citation[]): number {
+  const numbers = citations
+    .map(citation => citation.id.match(/^cit_(\d+)$/))
+    .map(match => (match ? parseInt(match[1], 10) : 0))
+  return Math.max(0, ...numbers) + 1
+}
+
+/**
+ * Link every short form in a document to its antecedent full citation
+ *
+ * Unmarked Id., supra and short case cites are marked and added as citations; ones the
+ * identifier already marked are re-resolved, so running this again after an edit is safe.
+ * Id. refers to the previous citation in the same stream (body text or notes) and is
+ * ambiguous after a string cite; supra and short case cites are matched by name and by
+ * volume and reporter against every earlier full citation. Pin cites that fall before the
+ * antecedent's first page mark the short form INVALID_FORMAT.
+ */
+export function resolveShortForms(jsonData: CitationDocument): CitationDocument {
+  const { document } = jsonData
+  const citations = document.citations.map(citation => ({ ...citation }))
+  const citationsById = new Map(citations.map(citation => [citation.id, citation]))
+
+  const fulls: FullCitationEntry[] = []
+  const fullsById = new Map<string, FullCitationEntry>()
+  const fullIdByCitation = new Map<string, string>() // Citation id -> full citation it stands for
+  const previousEvents: Record<'body' | 'notes', CitationEvent[]> = { body: [], notes: [] }
+  const insertions = new Map<string, Array<{ start: number; end: number; id: string }>>()
+  const resolvedIds = new Set<string>()
+  let citationCounter = nextCitationNumber(citations)
+  let createdCount = 0
+
+  const resolveId = (stream: CitationEvent[]): Resolution => {
+    const previous = stream[stream.length - 1]
+    if (!previous) return { status: 'orphaned' }
+    const antecedentId = fullIdByCitation.get(previous.citationId!)
+    if (!antecedentId) return { status: 'orphaned' }
+
+    const beforePrevious = stream[stream.length - 2]
+    const otherId = beforePrevious && fullIdByCitation.get(beforePrevious.citationId!)
+    if (
+      otherId && otherId !== antecedentId &&
+      beforePrevious.block === previous.block &&
+      previous.start - beforePrevious.end < STRING_CITE_GAP &&
+      stripMarkers(previous.block.text.slice(beforePrevious.end, previous.start)).includes(';')
+    ) {
+      return { status: 'ambiguous', candidateIds: [otherId, antecedentId] }
+    }
+    return { status: 'resolved', antecedentId }
+  }
+
+  for (const block of document.content) {
+    if (isStructuralContent(block)) continue
+    const stream = previousEvents[block.type === 'footnote' ? 'notes' : 'body']
+
+    for (const event of collectEvents(block, citationsById)) {
+      if (!event.shortForm) {
+        const citation = citationsById.get(event.citationId!)!
+        if (!fullIdByCitation.has(citation.id)) {
+          const full = { citation, parsed: parseCitation(citation, block.text) }
+          fulls.push(full)
+          fullsById.set(citation.id, full)
+          fullIdByCitation.set(citation.id, citation.id)
+        }
+        stream.push(event)
+        continue
+      }
+
+      const { shortForm } = event
+      const resolution =
+        shortForm.kind === 'id' ? resolveId(stream)
+          : shortForm.kind === 'supra' ? resolveSupra(shortForm, fulls)
+            : resolveShortCase(shortForm, fulls)
+      const antecedent = resolution.antecedentId ? citationsById.get(resolution.antecedentId) : undefined
+      const shortFormResult: ShortFormResolution = {
+        kind: shortForm.kind,
+        status: resolution.status,
+        ...(shortForm.pinCite ? { pinCite: shortForm.pinCite } : {}),
+        ...(resolution.candidateIds ? { candidateIds: resolution.candidateIds } : {}),
+      }
+      const issues = checkAgainstAntecedent(shortForm, resolution.antecedentId ? fullsById.get(resolution.antecedentId) : undefined)
+      const tier1Result: Tier1Result = resolution.status !== 'resolved'
+        ? { status: 'AMBIGUOUS_FORMAT', confidence: 0.5 }
+        : issues.length > 0
+          ? { status: 'INVALID_FORMAT', confidence: 0.9, issues }
+          : { status: 'VALID_FORMAT', confidence: 0.9 }
+
+      let citation = event.citationId ? citationsById.get(event.citationId)! : undefined
+      if (citation) {
+        if (resolvedIds.has(citation.id)) {
+          stream.push(event)
+          continue
+        }
+        // Drop a verdict inherited from an antecedent the short form no longer points to
+        if (citation.antecedentId && citation.antecedentId !== resolution.antecedentId) {
+          delete citation.validation
+          citation.tier_3 = null
+        }
+        citation.shortForm = shortFormResult
+        citation.tier_1 = tier1Result
+        // Eyecite marks "550 U.S. at 555" with only its volume and reporter; take the rest from the full cite
+        if (antecedent) {
+          citation.extractedComponents = componentsFromAntecedent(antecedent, shortForm.pinCite)
+        }
+      } else {
+        const id = `cit_${String(citationCounter++).padStart(3, '0')}`
+        citation = {
+          id,
+          citationText: event.text,
+          citationType: antecedent?.citationType || 'case',
+          extractedComponents: antecedent
+            ? componentsFromAntecedent(antecedent, shortForm.pinCite)
+            : {
+                parties: shortForm.name ? [shortForm.name] : [],
+                reporter: shortForm.reporter || '',
+                page: shortForm.pinCite || '',
+                court: '',
+                year: 0,
+              },
+          tier_1: tier1Result,
+          tier_2: {
+            evaluations: [],
+            consensus: 'VALID',
+            consensusConfidence: 0,
+            escalated: false,
+          },
+          tier_3: null,
+          recommendations: null,
+          ...(block.type === 'footnote' && block.footnoteNumber ? { footnoteNumber: block.footnoteNumber } : {}),
+          shortForm: shortFormResult,
+        }
+        citations.push(citation)
+        citationsById.set(id, citation)
+        const blockInsertions = insertions.get(block.id) || []
+        blockInsertions.push({ start: event.start, end: event.end, id })
+        insertions.set(block.id, blockInsertions)
+        event.citationId = id
+        createdCount++
+      }
+
+      if (resolution.antecedentId) {
+        citation.antecedentId = resolution.antecedentId
+        fullIdByCitation.set(citation.id, resolution.antecedentId)
+      } else {
+        delete citation.antecedentId
+      }
+      resolvedIds.add(citation.id)
+      stream.push(event)
+    }
+  }
+
+  const content = document.content.map(block => {
+    const blockInsertions = insertions.get(block.id)
+    if (!blockInsertions) return block
+    let text = block.text
+    for (const { start, end, id } of [...blockInsertions].sort((a, b) => b.start - a.start)) {
+      text = `${text.slice(0, start)}[CITATION:${id}]${text.slice(start, end)}[/CITATION:${id}]${text.slice(end)}`
+    }
+    return { ...block, text }
+  })
+
+  const unresolved = citations.filter(citation => citation.shortForm && citation.shortForm.status !== 'resolved').length
+  console.log('[resolveShortForms] Resolved', resolvedIds.size - unresolved, 'short forms,', unresolved, 'orphaned or ambiguous,', createdCount, 'newly marked')
+
+  return {
+    document: {
+      ...document,
+      content,
+      citations,
+      metadata: {
+        ...document.metadata,
+        totalCitations: citations.length,
+      },
+    },
+  }
+}
+
+/**
+ * Whether a citation goes through the validation panel itself
+ * Resolved short forms inherit their antecedent's verdict; unresolved Id. and supra cites
+ * carry nothing to validate, but unresolved short case cites still name a volume and reporter
+ */
+export function needsOwnValidation(citation: Citation): boolean {
+  if (citation.antecedentId) return false
+  return !citation.shortForm || citation.shortForm.kind === 'shortCase'
+}
+
+/**
+ * Copy Tier 2 and Tier 3 results from each antecedent onto its short forms
+ * Updates the citations in place and returns how many were updated
+ */
+export function applyAntecedentVerdicts(citations: Citation[]): number {
+  const citationsById = new Map(citations.map(citation => [citation.id, citation]))
+  let updatedCount = 0
+  for (const citation of citations) {
+    if (!citation.antecedentId) continue
+    const antecedent = citationsById.get(citation.antecedentId)
+    if (!antecedent?.validation) continue
+    citation.validation = antecedent.validation
+    citation.tier_3 = antecedent.tier_3
+    updatedCount++
+  }
+  return updatedCount
+}
@@ -0,0 +1,180 @@
+/**
+ * Citation Signals and Parentheticals
+ * Captures the introductory signal ("See also", "But cf.") in front of each citation and the
+ * explanatory parenthetical ("holding that ...") after it, which together say what the
+ * citation is offered to support
+ */
+
+import { Citation, CitationDocument, CitationSignal, isStructuralContent } from '@/types/citation-json'
+import { PIN_CITE_SOURCE } from './pin-cites'
+
+// Longest first so "See also" is not read as "See"
+const SIGNALS: CitationSignal[] = [
+  'See generally', 'See also', 'But see', 'But cf.', 'Compare', 'Accord', 'Contra', 'See', 'Cf.', 'E.g.',
+]
+
+// Signals are capitalized at the start of a citation sentence and lowercase inside a clause
+const SIGNAL_SOURCE = SIGNALS
+  .map(signal => `[${signal[0]}${signal[0].toLowerCase()}]${signal.slice(1).replace(/\./g, '\\.').replace(/ /g, '\\s+')}`)
+  .join('|')
+// "See, e.g.," combines a signal with e.g.
+const SIGNAL_WITH_EXAMPLE = `(${SIGNAL_SOURCE})(,\\s*e\\.g\\.)?,?`
+
+// Case name words an identifier may leave outside the marked citation
+const NAME_WORD = "(?:[A-Z0-9][A-Za-z0-9'’&.\\-]*|of|the|and|for|in|on|to|ex|rel\\.|re|v\\.|&)"
+const NAME_BEFORE_MARKER = `(?:${NAME_WORD},?\\s+)*`
+
+const SIGNAL_AT_START_PATTERN = new RegExp(`^${SIGNAL_WITH_EXAMPLE}\\s+`)
+const SIGNAL_BEFORE_PATTERN = new RegExp(`(?:^|[.;:!?,)\\]]\\s+|\\()${SIGNAL_WITH_EXAMPLE}\\s+${NAME_BEFORE_MARKER}$`)
+// The next citation in a string cite: only pins and punctuation, then a semicolon
+const STRING_CITE_PATTERN = new RegExp(`^(?:[\\s\\d,&\\-–—]|nn?\\.)*;\\s+${NAME_BEFORE_MARKER}$`)
+// "Compare X with Y": the second half carries the same signal
+const COMPARE_WITH_PATTERN = new RegExp(`^(?:[\\s\\d,&\\-–—]|nn?\\.)*,?\\s*with\\s+${NAME_BEFORE_MARKER}$`)
+
+const MARKER_PATTERN = /\[CITATION:([^\]]+)\]([\s\S]*?)\[\/CITATION:\1\]/g
+const PIN_AFTER_PATTERN = new RegExp(`^,\\s*(?:at\\s+)?${PIN_CITE_SOURCE}`)
+// Court and date parentheticals, e.g. "(2d Cir. 1997)" or "(2018)"
+const COURT_YEAR_PATTERN = /^[^()]{0,60}\b\d{4}$/
+// Parentheticals that describe the citation rather than the holding
+const NON_EXPLANATORY_PATTERN = /^(?:quoting|citing|cited in|internal|alteration|alterations|emphasis|footnote|footnotes|citations? omitted|cleaned up|brackets|en banc|per curiam|plurality opinion|mem\.|unpublished|table)\b/i
+// Text this far from a citation is too far to belong to it
+const MAX_SIGNAL_DISTANCE = 250
+
+/**
+ * Canonical form of a signal as written, e.g. "see also" -> "See also"
+ */
+function normalizeSignal(written: string): CitationSignal | undefined {
+  const normalized = written.replace(/\s+/g, ' ').toLowerCase()
+  return SIGNALS.find(signal => signal.toLowerCase() === normalized)
+}
+
+function stripMarkers(text: string): string {
+  return text.replace(/\[\/?CITATION:[^\]]+\]/g, '')
+}
+
+function removeParentheticals(text: string): string {
+  let previous
+  do {
+    previous = text
+    text = text.replace(/\([^()]*\)/g, '')
+  } while (text !== previous)
+  return text
+}
+
+/**
+ * Read the parentheticals directly after a citation, past its pin cite
+ */
+function readParentheticals(textAfter: string): string[] {
+  let rest = textAfter.replace(PIN_AFTER_PATTERN, '')
+  const parentheticals: string[] = []
+
+  while (true) {
+    const open = rest.match(/^\s*\(/)
+    if (!open) break
+    let depth = 0
+    let close = -1
+    for (let i = open[0].length - 1; i < rest.length; i++) {
+      if (rest[i] === '(') depth++
+      else if (rest[i] === ')' && --depth === 0) {
+        close = i
+        break
+      }
+    }
+    if (close === -1) break
+    parentheticals.push(rest.slice(open[0].length, close).replace(/\s+/g, ' ').trim())
+    rest = rest.slice(close + 1)
+  }
+
+  return parentheticals
+}
+
+/**
+ * First parenthetical that explains the authority, e.g. "holding that ..." or "finding ..."
+ */
+function findExplanatoryParenthetical(textAfter: string): string | undefined {
+  return readParentheticals(textAfter).find(text =>
+    text.length > 0 &&
+    !COURT_YEAR_PATTERN.test(text) &&
+    !NON_EXPLANATORY_PATTERN.test(text) &&
+    /^["'“‘a-z]/.test(text)
+  )
+}
+
+/**
+ * Capture each citation's signal and explanatory parenthetical from the marked document text
+ * A citation without its own signal inherits the previous one within a string cite ("See A; B")
+ * Runs after short-form resolution so newly marked short forms are covered; safe to re-run
+ */
+export function captureSignalsAndParentheticals(jsonData: CitationDocument): CitationDocument {
+  const { document } = jsonData
+  const citations = document.citations.map(citation => {
+    const { signal: _signal, parenthetical: _parenthetical, ...rest } = citation
+    return rest as Citation
+  })
+  const citationsById = new Map(citations.map(citation => [citation.id, citation]))
+  const seen = new Set<string>()
+
+  for (const block of document.content) {
+    if (isStructuralContent(block)) continue
+
+    const markers = Array.from(block.text.matchAll(MARKER_PATTERN), match => ({
+      id: match[1],
+      text: match[2],
+      start: match.index!,
+      end: match.index! + match[0].length,
+    }))
+    let previousSignal: CitationSignal | undefined
+
+    markers.forEach((marker, index) => {
+      const previousEnd = index > 0 ? markers[index - 1].end : 0
+      const nextStart = index < markers.length - 1 ? markers[index + 1].start : block.text.length
+      const before = stripMarkers(block.text.slice(Math.max(previousEnd, marker.start - MAX_SIGNAL_DISTANCE), marker.start))
+      const markedText = stripMarkers(marker.text)
+
+      // Custom identification can mark the signal and case name along with the citation
+      const leadingName = markedText.slice(0, Math.max(0, markedText.search(/\b\d+\s+[A-Z]/)))
+      const ownSignal = markedText.match(SIGNAL_AT_START_PATTERN) || (before + leadingName).match(SIGNAL_BEFORE_PATTERN)
+      let signal = ownSignal ? normalizeSignal(ownSignal[1]) : undefined
+      if (signal === 'See' && ownSignal?.[2]) signal = 'See, e.g.'
+      if (!signal && index > 0 && previousSignal) {
+        const gap = removeParentheticals(stripMarkers(block.text.slice(previousEnd, marker.start)))
+        if (STRING_CITE_PATTERN.test(gap) || (previousSignal === 'Compare' && COMPARE_WITH_PATTERN.test(gap))) {
+          signal = previousSignal
+        }
+      }
+      previousSignal = signal
+
+      // A citation marked more than once keeps what its first occurrence says
+      const citation = citationsById.get(marker.id)
+      if (!citation || seen.has(marker.id)) return
+      seen.add(marker.id)
+
+      const parenthetical = findExplanatoryParenthetical(stripMarkers(block.text.slice(marker.end, nextStart)))
+        // Custom identification marks the parentheticals as part of the citation
+        || findExplanatoryParenthetical(markedText.slice(markedText.search(/\s\(/) + 1 || markedText.length))
+      if (signal) citation.signal = signal
+      if (parenthetical) citation.parenthetical = parenthetical
+    })
+  }
+
+  const withSignal = citations.filter(citation => citation.signal).length
+  const withParenthetical = citations.filter(citation => citation.parenthetical).length
+  console.log('[captureSignalsAndParentheticals] Captured', withSignal, 'signals and', withParenthetical, 'explanatory parentheticals')
+
+  return {
+    document: {
+      ...document,
+      citations,
+    },
+  }
+}
+
+/**
+ * Signal and parenthetical lines for validation prompts, or an empty string when the citation has neither
+ */
+export function formatSignalForPrompt(citation: Citation): string {
+  const lines: string[] = []
+  if (citation.signal) lines.push(`Signal: ${citation.signal}`)
+  if (citation.parenthetical) lines.push(`Parenthetical: (${citation.parenthetical})`)
+  return lines.length > 0 ? `${lines.join('\n')}\n` : ''
+}
@@ -0,0 +1,516 @@
+/**
+ * Synthetic Benchmark Documents
+ * Injects known faults into the citations of an identified document: a wrong volume, a swapped
+ * page, invented party names, a year or court the reporter never covered, the wrong reporter
+ * series or a fabricated quotation. Every citation is recorded with its ground truth, so the
+ * document can be labeled and run like any other benchmark file. The source is taken to be clean:
+ * citations left alone are labeled real
+ *
+ * Choices are drawn from a hash of the seed, so the same document and seed give the same faults
+ */
+
+import {
+  BenchmarkLabel,
+  CaseComponents,
+  Citation,
+  CitationDocument,
+  ContentParagraph,
+  GroundTruthLabel,
+  SyntheticPerturbation,
+  SyntheticPerturbationType,
+} from '@/types/citation-json'
+import { deepClone, escapeRegExp, seededHash, seededPick } from '@/lib/utils'
+import { clearCitationResults } from './citation-reset'
+import { FederalCourtLevel, getCanonicalReporter, getReporterMetadata } from './lookup-tables'
+import { validateCaseCitation } from './validators'
+
+export const SYNTHETIC_PERTURBATION_TYPES: SyntheticPerturbationType[] = [
+  'wrong_volume',
+  'swapped_page',
+  'invented_parties',
+  'impossible_court_year',
+  'wrong_reporter_series',
+  'fabricated_quotation',
+]
+
+// Faults in the passage a citation is given for rather than in the citation itself; short forms
+// of the same authority do not carry them, and they leave Tier 1 unchanged
+const PASSAGE_FAULTS: SyntheticPerturbationType[] = ['fabricated_quotation']
+
+const DEFAULT_SEED = 'benchmark'
+const DEFAULT_RATE = 0.3
+
+// A real authority with a wrong volume, page, court, year or series is mis-cited; a case under
+// invented names or words it never said is fabricated
+const PERTURBATION_LABELS: Record<SyntheticPerturbationType, GroundTruthLabel> = {
+  wrong_volume: 'miscited',
+  swapped_page: 'miscited',
+  invented_parties: 'fabricated',
+  impossible_court_year: 'miscited',
+  wrong_reporter_series: 'miscited',
+  fabricated_quotation: 'fabricated',
+}
+
+// Successive series of a reporter, oldest first
+const REPORTER_SERIES: string[][] = [
+  ['F.', 'F.2d', 'F.3d', 'F.4th'],
+  ['F. Supp.', 'F. Supp. 2d', 'F. Supp. 3d'],
+  ['L. Ed.', 'L. Ed. 2d'],
+  ['A.', 'A.2d', 'A.3d'],
+  ['N.E.', 'N.E.2d', 'N.E.3d'],
+  ['N.W.', 'N.W.2d'],
+  ['P.', 'P.2d', 'P.3d'],
+  ['S.E.', 'S.E.2d'],
+  ['S.W.', 'S.W.2d', 'S.W.3d'],
+  ['So.', 'So. 2d', 'So. 3d'],
+]
+
+// A court of another level, for reporters that publish only one level's decisions
+const WRONG_LEVEL_COURTS: Record<FederalCourtLevel, string> = {
+  supreme_court: '9th Cir.',
+  circuit_courts: 'S.D.N.Y.',
+  district_courts: '2d Cir.',
+}
+
+const INVENTED_SURNAMES = [
+  'Hartwell', 'Delacroix', 'Pemberton', 'Vantreese', 'Okonkwo',
+  'Lindqvist', 'Castellanos', 'Brightwater', 'Marchetti', 'Thornbury',
+]
+
+const INVENTED_COMPANIES = [
+  'Meridian Holdings, LLC', 'Crestline Logistics Corp.', 'Northfield Mutual Ins. Co.',
+  'Blue Harbor Partners, Inc.', 'Sterling Oak Capital, Inc.', 'Redwater Energy Co.',
+]
+
+const COMPANY_PATTERN = /\b(?:Inc|Corp|Co|LLC|L\.L\.C|Ltd|LLP|Bank|Ass'n|Auth|Dep't|Ins|Partners|Holdings)\b\.?/
+
+const FABRICATED_QUOTATIONS = [
+  'a party who delays in seeking arbitration waives any right to compel it as a matter of law',
+  'every doubt concerning the scope of the agreement must be resolved against the drafting party',
+  'no presumption of validity attaches to a contract formed by electronic means',
+  'the moving party bears the burden of disproving each element of the opposing claim',
+  'a court may disregard the parties\' choice of law whenever fairness so requires',
+  'allegations that make liability merely conceivable are sufficient at the pleading stage',
+]
+
+export interface SyntheticOptions {
+  seed?: string
+  rate?: number // Share of eligible citations to perturb, 0-1; at least one is perturbed
+  types?: SyntheticPerturbationType[] // Faults to choose from; all by default
+  source?: { fileId?: string; checkId?: string }
+}
+
+export interface SyntheticDocument {
+  document: CitationDocument
+  perturbations: SyntheticPerturbation[]
+  labels: BenchmarkLabel[] // Every citation's ground truth, keyed by Citation.id
+}
+
+// A marked citation's block, split around its markers
+interface CitationLocation {
+  block: ContentParagraph
+  citationId: string
+  head: string
+  before: string // Text since the previous citation, where a case name outside the marker sits
+  span: string // Marked citation text
+  after: string // Text up to the next citation, where the pin cite and parenthetical follow
+  tail: string
+}
+
+interface PerturbationContext {
+  document: CitationDocument
+  citation: Citation
+  location: CitationLocation | null
+  seed: string // Seed for this citation
+}
+
+// A fault that applies to a citation, ready to be made
+interface PerturbationPlan {
+  original: string
+  perturbed: string
+  description: string
+  apply: () => void
+}
+
+function locateCitation(document: CitationDocument, citationId: string): CitationLocation | null {
+  const open = `[CITATION:${citationId}]`
+  const close = `[/CITATION:${citationId}]`
+  const block = document.document.content.find(paragraph => paragraph.text.includes(open))
+  if (!block) return null
+
+  const text = block.text
+  const openIndex = text.indexOf(open)
+  const closeIndex = text.indexOf(close, openIndex)
+  if (closeIndex === -1) return null
+  const span = text.slice(openIndex + open.length, closeIndex)
+  // Nested or malformed markers cannot be edited safely
+  if (span.includes('CITATION:')) return null
+
+  const previousClose = text.lastIndexOf('[/CITATION:', openIndex)
+  const beforeStart = previousClose === -1 ? 0 : text.indexOf(']', previousClose) + 1
+  const afterStart = closeIndex + close.length
+  const nextOpen = text.indexOf('[CITATION:', afterStart)
+  const afterEnd = nextOpen === -1 ? text.length : nextOpen
+
+  return {
+    block,
+    citationId,
+    head: text.slice(0, beforeStart),
+    before: text.slice(beforeStart, openIndex),
+    span,
+    after: text.slice(afterStart, afterEnd),
+    tail: text.slice(afterEnd),
+  }
+}
+
+/**
+ * Write edited parts of a citation's block back, keeping the citation text in step with its marker
+ */
+function rewriteCitation(
+  context: PerturbationContext,
+  changes: Partial<Pick<CitationLocation, 'before' | 'span' | 'after'>>
+): void {
+  const location = { ...context.location!, ...changes }
+  const { citationId } = location
+  location.block.text = `${location.head}${location.before}[CITATION:${citationId}]${location.span}[/CITATION:${citationId}]${location.after}${location.tail}`
+  context.citation.citationText = location.span
+  context.location = location
+}
+
+function caseComponents(context: PerturbationContext): CaseComponents | null {
+  if (context.citation.citationType !== 'case' || !context.location) return null
+  const components = context.citation.extractedComponents as CaseComponents
+  return components.reporter && components.page ? components : null
+}
+
+/**
+ * Volume, reporter and first page as the marked text gives them
+ */
+function reporterReference(context: PerturbationContext, components: CaseComponents): RegExpMatchArray | null {
+  const pattern = new RegExp(`(\\d+)(\\s+)(${escapeRegExp(components.reporter)})(\\s+)(${escapeRegExp(components.page)})(?!\\d)`)
+  return context.location!.span.match(pattern)
+}
+
+function planWrongVolume(context: PerturbationContext): PerturbationPlan | null {
+  const components = caseComponents(context)
+  const reference = components && reporterReference(context, components)
+  if (!reference) return null
+
+  const volume = parseInt(reference[1], 10)
+  const offset = 1 + seededHash(`${context.seed}:volume`) % 40
+  const wrong = volume > offset && seededHash(`${context.seed}:direction`) % 2 === 0 ? volume - offset : volume + offset
+  const [, , space, reporter, pageSpace, page] = reference
+
+  return {
+    original: String(volume),
+    perturbed: String(wrong),
+    description: `Volume ${volume} changed to ${wrong}`,
+    apply: () => rewriteCitation(context, {
+      span: context.location!.span.replace(reference[0], `${wrong}${space}${reporter}${pageSpace}${page}`),
+    }),
+  }
+}
+
+/**
+ * A page with two adjacent digits transposed, the usual slip, or one further on when no swap
+ * gives a different page
+ */
+function swappedPage(page: string, seed: string): string {
+  const swaps: string[] = []
+  for (let i = 0; i < page.length - 1; i++) {
+    const swapped = page.slice(0, i) + page[i + 1] + page[i] + page.slice(i + 2)
+    if (swapped !== page && !swapped.startsWith('0')) swaps.push(swapped)
+  }
+  return swaps.length > 0 ? seededPick(swaps, seed) : String(parseInt(page, 10) + 10 + seededHash(seed) % 90)
+}
+
+function planSwappedPage(context: PerturbationContext): PerturbationPlan | null {
+  const components = caseComponents(context)
+  const reference = components && reporterReference(context, components)
+  if (!components || !reference || !/^\d+$/.test(components.page)) return null
+
+  const page = components.page
+  const wrong = swappedPage(page, `${context.seed}:page`)
+  const shift = parseInt(wrong, 10) - parseInt(page, 10)
+  const [, volume, space, reporter, pageSpace] = reference
+  // A single pin page moves with the first page, so the citation stays internally consistent
+  const pin = components.pinCite && /^\d+$/.test(components.pinCite) ? components.pinCite : null
+  const wrongPin = pin ? String(parseInt(pin, 10) + shift) : null
+
+  return {
+    original: page,
+    perturbed: wrong,
+    description: `First page ${page} changed to ${wrong}${pin ? ` and pin cite ${pin} to ${wrongPin}` : ''}`,
+    apply: () => {
+      const moved = `${volume}${space}${reporter}${pageSpace}${wrong}`
+      let span = context.location!.span.replace(reference[0], moved)
+      let after = context.location!.after
+      if (pin && wrongPin) {
+        const pinInSpan = new RegExp(`(${escapeRegExp(moved)},\\s*)${pin}(?!\\d)`)
+        if (pinInSpan.test(span)) span = span.replace(pinInSpan, `$1${wrongPin}`)
+        else after = after.replace(new RegExp(`^(,\\s*)${pin}(?!\\d)`), `$1${wrongPin}`)
+        const pinPage = parseInt(wrongPin, 10)
+        components.pinCite = wrongPin
+        components.pinPages = [{ text: wrongPin, start: pinPage, end: pinPage }]
+      }
+      components.page = wrong
+      rewriteCitation(context, { span, after })
+    },
+  }
+}
+
+function planInventedParties(context: PerturbationContext): PerturbationPlan | null {
+  const components = caseComponents(context)
+  if (!components?.parties?.length) return null
+  const { span, before } = context.location!
+
+  const parties = components.parties.filter(party => party && (span.includes(party) || before.includes(party)))
+  if (parties.length === 0) return null
+
+  const used = new Set(components.parties)
+  const invented = parties.map((party, i) => {
+    const options = (COMPANY_PATTERN.test(party) ? INVENTED_COMPANIES : INVENTED_SURNAMES).filter(name => !used.has(name))
+    const name = seededPick(options, `${context.seed}:party:${i}`)
+    used.add(name)
+    return name
+  })
+
+  return {
+    original: parties.join(' v. '),
+    perturbed: invented.join(' v. '),
+    description: `Parties ${parties.join(' v. ')} changed to invented ${invented.join(' v. ')}`,
+    apply: () => {
+      let newSpan = span
+      let newBefore = before
+      parties.forEach((party, i) => {
+        if (newSpan.includes(party)) {
+          newSpan = newSpan.replace(party, invented[i])
+        } else {
+          const index = newBefore.lastIndexOf(party)
+          newBefore = newBefore.slice(0, index) + invented[i] + newBefore.slice(index + party.length)
+        }
+      })
+      components.parties = components.parties.map(party => {
+        const index = parties.indexOf(party)
+        return index === -1 ? party : invented[index]
+      })
+      rewriteCitation(context, { span: newSpan, before: newBefore })
+    },
+  }
+}
+
+function planImpossibleCourtYear(context: PerturbationContext): PerturbationPlan | null {
+  const components = caseComponents(context)
+  if (!components?.year) return null
+  const metadata = getReporterMetadata(components.reporter)
+  if (!metadata) return null
+
+  const parenthetical = new RegExp(`\\(([^()]*?)\\s*\\b${components.year}\\)`)
+  const region = parenthetical.test(context.location!.span) ? 'span' : parenthetical.test(context.location!.after) ? 'after' : null
+  if (!region) return null
+  const match = context.location![region].match(parenthetical)!
+  const court = match[1].trim()
+
+  const variants: Array<{ court: string; year: number; description: string }> = []
+  const yearSeed = seededHash(`${context.seed}:year`)
+  const year = metadata.end_year ? metadata.end_year + 1 + yearSeed % 5 : metadata.start_year - 1 - yearSeed % 10
+  variants.push({
+    court,
+    year,
+    description: metadata.end_year
+      ? `Year ${components.year} changed to ${year}, after ${components.reporter} ended in ${metadata.end_year}`
+      : `Year ${components.year} changed to ${year}, before ${components.reporter} began in ${metadata.start_year}`,
+  })
+  if (metadata.courts?.length === 1) {
+    const wrongCourt = WRONG_LEVEL_COURTS[metadata.courts[0]]
+    variants.push({
+      court: wrongCourt,
+      year: components.year,
+      description: `Court ${court || 'omitted'} changed to ${wrongCourt}, which ${components.reporter} does not report`,
+    })
+  }
+
+  const variant = seededPick(variants, `${context.seed}:variant`)
+  const replacement = `(${variant.court ? `${variant.court} ` : ''}${variant.year})`
+  return {
+    original: match[0],
+    perturbed: replacement,
+    description: variant.description,
+    apply: () => {
+      components.year = variant.year
+      if (variant.court !== court) components.court = variant.court
+      rewriteCitation(context, { [region]: context.location![region].replace(match[0], replacement) })
+    },
+  }
+}
+
+function planWrongReporterSeries(context: PerturbationContext): PerturbationPlan | null {
+  const components = caseComponents(context)
+  const reference = components && reporterReference(context, components)
+  if (!components || !reference) return null
+
+  const canonical = getCanonicalReporter(components.reporter) || components.reporter
+  const series = REPORTER_SERIES.find(candidates => candidates.includes(canonical))
+  if (!series) return null
+  const index = series.indexOf(canonical)
+  const neighbours = [series[index - 1], series[index + 1]].filter((reporter): reporter is string => !!reporter)
+  const wrong = seededPick(neighbours, `${context.seed}:series`)
+  const [, volume, space, , pageSpace, page] = reference
+
+  return {
+    original: components.reporter,
+    perturbed: wrong,
+    description: `Reporter ${components.reporter} changed to ${wrong}`,
+    apply: () => {
+      components.reporter = wrong
+      rewriteCitation(context, {
+        span: context.location!.span.replace(reference[0], `${volume}${space}${wrong}${pageSpace}${page}`),
+      })
+    },
+  }
+}
+
+function planFabricatedQuotation(context: PerturbationContext): PerturbationPlan | null {
+  const blocks = context.document.document.content
+  const quotation = (context.citation.quotations || []).find(candidate =>
+    candidate.text.length > 0 && blocks.some(block => block.id === candidate.paragraphId && block.text.includes(candidate.text))
+  )
+  if (!quotation) return null
+
+  const original = quotation.text
+  const fabricated = seededPick(FABRICATED_QUOTATIONS.filter(text => text !== original), `${context.seed}:quotation`)
+
+  return {
+    original,
+    perturbed: fabricated,
+    description: 'Quotation replaced with words the authority does not contain',
+    apply: () => {
+      const block = blocks.find(candidate => candidate.id === quotation.paragraphId)!
+      block.text = block.text.replace(original, fabricated)
+      // Other citations given as the source of the same passage quote the new words too
+      for (const citation of context.document.document.citations) {
+        for (const other of citation.quotations || []) {
+          if (other.paragraphId === quotation.paragraphId && other.text === original) {
+            other.text = fabricated
+            delete other.verification
+          }
+        }
+      }
+    },
+  }
+}
+
+const PLANNERS: Record<SyntheticPerturbationType, (context: PerturbationContext) => PerturbationPlan | null> = {
+  wrong_volume: planWrongVolume,
+  swapped_page: planSwappedPage,
+  invented_parties: planInventedParties,
+  impossible_court_year: planImpossibleCourtYear,
+  wrong_reporter_series: planWrongReporterSeries,
+  fabricated_quotation: planFabricatedQuotation,
+}
+
+/**
+ * Run Tier 1 again on a perturbed case, as identification would have on the faulty text
+ */
+function revalidateCase(citation: Citation): void {
+  const components = citation.extractedComponents as CaseComponents
+  const volume = citation.citationText.match(new RegExp(`(\\d+)\\s+${escapeRegExp(components.reporter)}`))?.[1] || ''
+  citation.tier_1 = validateCaseCitation({
+    fullMatch: citation.citationText,
+    startIndex: 0,
+    endIndex: citation.citationText.length,
+    type: 'case',
+    components: {
+      reporter: components.reporter,
+      volume,
+      page: components.page,
+      court: components.court || '',
+      year: components.year ? String(components.year) : '',
+      pin: components.pinCite || '',
+    },
+  })
+}
+
+/**
+ * Copy of an identified document with faults injected into some of its citations
+ * Short forms are never perturbed themselves; they inherit their antecedent's citation faults,
+ * but not a fabricated quotation, which is wrong only where it is quoted
+ */
+export function generateSyntheticDocument(source: CitationDocument, options: SyntheticOptions = {}): SyntheticDocument {
+  const seed = options.seed || DEFAULT_SEED
+  const rate = Math.min(1, Math.max(0, options.rate ?? DEFAULT_RATE))
+  const types = options.types?.length ? options.types : SYNTHETIC_PERTURBATION_TYPES
+
+  const document = deepClone(source)
+  const { metadata, citations } = document.document
+  delete metadata.testRunId
+  delete metadata.testRunNumber
+  delete metadata.testRunTotal
+  delete metadata.heavyAnalysisRunId
+  delete metadata.heavyAnalysisRunNumber
+  delete metadata.heavyAnalysisRunTotal
+  citations.forEach(clearCitationResults)
+
+  const contextFor = (citation: Citation): PerturbationContext => ({
+    document,
+    citation,
+    location: locateCitation(document, citation.id),
+    seed: `${seed}:${citation.id}`,
+  })
+  const eligible = citations
+    .filter(citation => !citation.shortForm && !citation.antecedentId)
+    .filter(citation => types.some(type => PLANNERS[type](contextFor(citation))))
+    .sort((a, b) => seededHash(`${seed}:${a.id}`) - seededHash(`${seed}:${b.id}`) || a.id.localeCompare(b.id))
+  const count = eligible.length > 0 ? Math.max(1, Math.round(rate * eligible.length)) : 0
+
+  const perturbations: SyntheticPerturbation[] = []
+  for (const citation of eligible.slice(0, count)) {
+    // Plan against the text as earlier perturbations left it
+    const context = contextFor(citation)
+    const plans = types
+      .map(type => ({ type, plan: PLANNERS[type](context) }))
+      .filter((entry): entry is { type: SyntheticPerturbationType; plan: PerturbationPlan } => entry.plan !== null)
+    if (plans.length === 0) continue
+
+    const { type, plan } = seededPick(plans, `${context.seed}:type`)
+    plan.apply()
+    if (!PASSAGE_FAULTS.includes(type)) revalidateCase(citation)
+
+    perturbations.push({
+      citationId: citation.id,
+      type,
+      label: PERTURBATION_LABELS[type],
+      original: plan.original,
+      perturbed: plan.perturbed,
+      description: plan.description,
+    })
+  }
+  perturbations.sort((a, b) => a.citationId.localeCompare(b.citationId))
+
+  const byCitation = new Map(perturbations.map(perturbation => [perturbation.citationId, perturbation]))
+  const labels: BenchmarkLabel[] = citations.map(citation => {
+    const own = byCitation.get(citation.id)
+    const antecedentFault = citation.antecedentId ? byCitation.get(citation.antecedentId) : undefined
+    const inherited = antecedentFault && !PASSAGE_FAULTS.includes(antecedentFault.type) ? antecedentFault : undefined
+    const perturbation = own || inherited
+    return {
+      citationId: citation.id,
+      citationText: citation.citationText,
+      label: perturbation ? perturbation.label : 'real',
+      notes: own
+        ? `Synthetic ${own.type}: ${own.description}`
+        : inherited ? `Short form of ${inherited.citationId}, synthetic ${inherited.type}` : null,
+    }
+  })
+
+  metadata.synthetic = {
+    seed,
+    rate,
+    sourceFileId: options.source?.fileId,
+    sourceCheckId: options.source?.checkId,
+    generatedAt: new Date().toISOString(),
+    perturbations,
+  }
+
+  return { document, perturbations, labels }
+}
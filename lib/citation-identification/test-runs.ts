@@ -0,0 +1,125 @@
+/**
+ * Test Runs
+ * Creates the checks of a multi-run test, each a fresh copy of a citation check's identified
+ * citations, and queues a validation job for every one
+ * Uses Prisma, so it is imported by server code only
+ */
+
+import { randomUUID } from 'crypto'
+import { CitationDocument } from '@/types/citation-json'
+import { prisma } from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { deepClone } from '@/lib/utils'
+import { createValidationJob } from './queue'
+import { clearCitationResults } from './citation-reset'
+
+export interface CreatedTestRun {
+  testRunId: string
+  checkIds: string[]
+}
+
+/**
+ * Create numberOfRuns checks after sourceCheck's version and start validating them
+ * A run whose job cannot be queued is logged and skipped; its check is still returned
+ */
+export async function createTestRun(
+  fileUploadId: string,
+  userId: string,
+  sourceCheck: { version: number; jsonData: unknown },
+  numberOfRuns: number
+): Promise<CreatedTestRun> {
+  // Generate test run ID
+  const testRunId = randomUUID()
+
+  // Get the latest version number to start from
+  const latestVersion = sourceCheck.version
+
+  // Cast jsonData
+  const sourceJsonData = sourceCheck.jsonData as unknown as CitationDocument
+
+  // Create N CitationCheck versions, each with test run metadata
+  const checkIds: string[] = []
+  
+  for (let i = 1; i <= numberOfRuns; i++) {
+    // Deep copy the JSON data
+    const freshJsonData = deepClone(sourceJsonData)
+    
+    // Clear ALL validation results - start from the citations as identification left them
+    freshJsonData.document?.citations?.forEach(clearCitationResults)
+
+    // Add test run metadata to jsonData (for backward compatibility)
+    if (freshJsonData.document?.metadata) {
+      freshJsonData.document.metadata.testRunId = testRunId
+      freshJsonData.document.metadata.testRunNumber = i
+      freshJsonData.document.metadata.testRunTotal = numberOfRuns
+    }
+
+    // Create new CitationCheck version with workflow tracking
+    const newCheck = await prisma.citationCheck.create({
+      data: {
+        fileUploadId,
+        userId,
+        version: latestVersion + i,
+        status: 'citations_validated',
+        jsonData: freshJsonData as any,
+        // Populate workflow fields
+        workflowType: 'test_run',
+        workflowId: testRunId,
+        workflowMetadata: {
+          testRunNumber: i,
+          testRunTotal: numberOfRuns,
+        } as any,
+        documentMetadata: freshJsonData.document?.metadata as any,
+        citationCount: freshJsonData.document?.citations?.length || null,
+        identificationMethod: freshJsonData.document?.metadata?.identificationMethod || null,
+        completedSteps: ['upload', 'generate-json', 'identify-citations'],
+        currentStep: 'validate-citations',
+      },
+    })
+
+    checkIds.push(newCheck.id)
+
+    // Create validation job for this check (uses existing queue system)
+    try {
+      const jobId = await createValidationJob(newCheck.id, freshJsonData)
+      logger.debug(`Created validation job`, { jobId, checkId: newCheck.id, runNumber: i, totalRuns: numberOfRuns }, 'TestRuns')
+      
+      // Trigger worker to start processing (similar to validate-citations route)
+      try {
+        const { processQueueItems } = await import('./worker')
+        logger.debug(`Starting worker processing`, { runNumber: i }, 'TestRuns')
+        
+        // Process first batch asynchronously (don't await to avoid blocking)
+        processQueueItems(5)
+          .then((result) => {
+            logger.debug(`Worker processed items`, { processed: result.processed, runNumber: i }, 'TestRuns')
+            // Continue processing more items asynchronously if needed
+            if (result.processed > 0 && result.hasMore) {
+              const baseUrl = process.env.NEXTAUTH_URL || 'http://localhost:3000'
+              fetch(`${baseUrl}/api/citation-checker/worker/process-queue?maxItems=5`, {
+                method: 'POST',
+              })
+                .then((res) => {
+                  logger.debug(`Continuation batch triggered`, { status: res.status, runNumber: i }, 'TestRuns')
+                })
+                .catch((err) => {
+                  logger.error(`Error triggering continuation`, err, 'TestRuns')
+                })
+            }
+          })
+          .catch((err) => {
+            logger.error(`Error in worker processing`, err, 'TestRuns')
+          })
+      } catch (workerError) {
+        logger.error(`Failed to trigger worker`, workerError, 'TestRuns')
+        // Don't fail the request if worker trigger fails - jobs are still queued
+      }
+    } catch (error) {
+      logger.error(`Failed to create validation job`, error, 'TestRuns')
+      // Continue with other runs even if one fails
+    }
+  }
+
+
+  return { testRunId, checkIds }
+}
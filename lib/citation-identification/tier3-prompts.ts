@@ -4,6 +4,7 @@
  */
 
 import { Citation, CitationValidation, Tier3Verdict, Tier3Confidence, Tier3AgentVerdictType, Tier3RiskLevel } from '@/types/citation-json'
+import { formatPinCiteForPrompt } from './pin-cites'
 
 export interface ParsedTier3Response {
   verdict: Tier3Verdict
@@ -305,6 +306,17 @@ export function parseTier3AgentResponse(responseText: string, agentName: string)
   }
 }
 
+/**
+ * Pin cite line for Tier 3 prompts, or an empty string when the citation has none
+ */
+function getPinCiteSection(citation: Citation): string {
+  const pinCiteText = formatPinCiteForPrompt(citation)
+  if (!pinCiteText) return ''
+  return `${pinCiteText}
+Consider whether the proposition the document cites it for plausibly sits on the pinpointed pages.
+`
+}
+
 /**
  * Agent 1: Senior Litigator Reviewer (20+ Years)
  * Analytical Style: Litigator with over 20 years of experience reviewing a colleague's draft filing
@@ -317,6 +329,7 @@ export function getRigorousLegalInvestigatorPrompt(
 ): string {
   const citationText = citation.citationText || ''
   const citationType = citation.citationType || 'unknown'
+  const pinCiteSection = getPinCiteSection(citation)
   
   return `You are a litigator with over 20 years of experience in complex litigation.
 You are reviewing a colleague's draft filing and want to make sure every citation is reliable
@@ -324,7 +337,7 @@ and would hold up in court.
 
 Citation: ${citationText}
 Citation Type: ${citationType}
-Document Context: ${context}
+${pinCiteSection}Document Context: ${context}
 
 Your task is to assess the RISK LEVEL that this citation may be fabricated or incorrect.
 
@@ -401,6 +414,7 @@ export function getHolisticLegalAnalystPrompt(
 ): string {
   const citationText = citation.citationText || ''
   const citationType = citation.citationType || 'unknown'
+  const pinCiteSection = getPinCiteSection(citation)
   
   return `You are a highly skilled legal researcher whose job is to make sure every citation in a filing
 is correct and appropriate. You are meticulous, systematic, and focused on making sure nothing
@@ -408,7 +422,7 @@ slips through that would embarrass the firm or the client.
 
 Citation: ${citationText}
 Citation Type: ${citationType}
-Document Context: ${context}
+${pinCiteSection}Document Context: ${context}
 
 Your task is to assess the RISK LEVEL that this citation may be fabricated or incorrect.
 
@@ -485,6 +499,7 @@ export function getPatternRecognitionExpertPrompt(
 ): string {
   const citationText = citation.citationText || ''
   const citationType = citation.citationType || 'unknown'
+  const pinCiteSection = getPinCiteSection(citation)
   
   return `You are serving as an appellate court law clerk reviewing a party's brief.
 You are evaluating whether this citation is a real authority used in a way that a court
@@ -492,7 +507,7 @@ could safely rely on, or whether there are signs of fabrication or error.
 
 Citation: ${citationText}
 Citation Type: ${citationType}
-Document Context: ${context}
+${pinCiteSection}Document Context: ${context}
 
 Your task is to assess the RISK LEVEL that this citation may be fabricated or incorrect.
 
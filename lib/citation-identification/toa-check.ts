@@ -0,0 +1,240 @@
+/**
+ * Table of Authorities Cross-Check
+ * Compares the authorities listed in a brief's table of authorities with the citations
+ * identified in its body: authorities missing from the table, table entries never cited,
+ * and entries whose case name, reporter, volume or page disagree with the body
+ */
+
+import { CitationDocument, CitationType, isStructuralContent } from '@/types/citation-json'
+import { extractTableOfAuthoritiesEntries, TableOfAuthoritiesEntry } from '@/lib/document-parser/structure'
+import {
+  ParsedAuthority,
+  isShortFormCitation,
+  normalizeCaseName,
+  normalizeForSearch,
+  normalizeReporter,
+  parseAuthority,
+  parseCitation,
+} from './authority'
+
+export type ToaField = 'caseName' | 'volume' | 'reporter' | 'page' | 'title' | 'section'
+
+export interface ToaFieldDifference {
+  field: ToaField
+  toa: string
+  body: string
+}
+
+export interface ToaCitationRef {
+  citationIds: string[] // Every body citation of this authority
+  citationText: string // First body citation as written
+  citationType: CitationType
+}
+
+export interface ToaMismatch extends ToaCitationRef {
+  entry: TableOfAuthoritiesEntry
+  differences: ToaFieldDifference[]
+}
+
+export interface TableOfAuthoritiesCheck {
+  hasTableOfAuthorities: boolean
+  entryCount: number
+  matchedCount: number // Entries that match a body citation exactly
+  missingFromToa: ToaCitationRef[]
+  neverCited: TableOfAuthoritiesEntry[]
+  mismatches: ToaMismatch[]
+}
+
+// Names this similar (0-1) are treated as the same case spelled differently
+const CASE_NAME_SIMILARITY_THRESHOLD = 0.8
+
+/**
+ * Dice coefficient over character bigrams
+ */
+function nameSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length < 2 || b.length < 2) return 0
+  const bigrams = new Map<string, number>()
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2)
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1)
+  }
+  let overlap = 0
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2)
+    const count = bigrams.get(bigram) || 0
+    if (count > 0) {
+      bigrams.set(bigram, count - 1)
+      overlap++
+    }
+  }
+  return (2 * overlap) / (a.length + b.length - 2)
+}
+
+/**
+ * List the fields that differ between a TOA entry and a body citation of the same authority
+ */
+function compareAuthorities(toa: ParsedAuthority, body: ParsedAuthority): ToaFieldDifference[] {
+  const differences: ToaFieldDifference[] = []
+
+  if (toa.kind === 'case' && body.kind === 'case') {
+    if (toa.name && body.name && normalizeCaseName(toa.name) !== normalizeCaseName(body.name)) {
+      differences.push({ field: 'caseName', toa: toa.name, body: body.name })
+    }
+    if (toa.volume !== body.volume) {
+      differences.push({ field: 'volume', toa: toa.volume || '', body: body.volume || '' })
+    }
+    if (normalizeReporter(toa.reporter || '') !== normalizeReporter(body.reporter || '')) {
+      differences.push({ field: 'reporter', toa: toa.reporter || '', body: body.reporter || '' })
+    }
+    if (toa.page !== body.page) {
+      differences.push({ field: 'page', toa: toa.page || '', body: body.page || '' })
+    }
+  } else if (toa.kind === body.kind && (toa.kind === 'statute' || toa.kind === 'regulation')) {
+    if (toa.title !== body.title) {
+      differences.push({ field: 'title', toa: toa.title || '', body: body.title || '' })
+    }
+    if ((toa.section || '').toLowerCase() !== (body.section || '').toLowerCase()) {
+      differences.push({ field: 'section', toa: toa.section || '', body: body.section || '' })
+    }
+  }
+
+  return differences
+}
+
+/**
+ * Whether an unmatched TOA entry and body citation are the same authority cited inconsistently
+ * Cases pair on a similar name or on two of volume/reporter/page; statutes on code and section
+ */
+function isSameAuthority(toa: ParsedAuthority, body: ParsedAuthority): boolean {
+  if (toa.kind !== body.kind) return false
+
+  if (toa.kind === 'case') {
+    if (toa.name && body.name &&
+        nameSimilarity(normalizeCaseName(toa.name), normalizeCaseName(body.name)) >= CASE_NAME_SIMILARITY_THRESHOLD) {
+      return true
+    }
+    const sharedFields = [
+      toa.volume === body.volume,
+      normalizeReporter(toa.reporter || '') === normalizeReporter(body.reporter || ''),
+      toa.page === body.page,
+    ].filter(Boolean).length
+    return sharedFields >= 2
+  }
+
+  if (toa.kind === 'statute' || toa.kind === 'regulation') {
+    return normalizeReporter(toa.code || '') === normalizeReporter(body.code || '') &&
+      (toa.section || '').toLowerCase() === (body.section || '').toLowerCase()
+  }
+
+  return false
+}
+
+/**
+ * Cross-check the table of authorities against the citations identified in the body
+ * Citations found only inside structural blocks (the TOA itself, the caption, etc.) are not body citations
+ */
+export function checkTableOfAuthorities(jsonData: CitationDocument): TableOfAuthoritiesCheck {
+  const content = jsonData.document.content || []
+  const citations = jsonData.document.citations || []
+  const entries = extractTableOfAuthoritiesEntries(content)
+
+  const result: TableOfAuthoritiesCheck = {
+    hasTableOfAuthorities: content.some(block => block.type === 'tableOfAuthorities'),
+    entryCount: entries.length,
+    matchedCount: 0,
+    missingFromToa: [],
+    neverCited: [],
+    mismatches: [],
+  }
+  if (!result.hasTableOfAuthorities) {
+    return result
+  }
+
+  // Which citations appear in body blocks and which only in structural blocks
+  const bodyCitationIds = new Set<string>()
+  const structuralCitationIds = new Set<string>()
+  const blockTextByCitation = new Map<string, string>()
+  const bodyTextParts: string[] = []
+  for (const block of content) {
+    const ids = Array.from(block.text.matchAll(/\[CITATION:([^\]]+)\]/g), match => match[1])
+    const target = isStructuralContent(block) ? structuralCitationIds : bodyCitationIds
+    ids.forEach(id => target.add(id))
+    if (!isStructuralContent(block)) {
+      ids.forEach(id => { if (!blockTextByCitation.has(id)) blockTextByCitation.set(id, block.text) })
+      bodyTextParts.push(block.text.replace(/\[\/?CITATION:[^\]]+\]/g, ''))
+    }
+  }
+  const normalizedBodyText = normalizeForSearch(bodyTextParts.join(' '))
+
+  // Group body citations by authority so repeated cites are reported once
+  const bodyGroups = new Map<string, { parsed: ParsedAuthority; ref: ToaCitationRef }>()
+  for (const citation of citations) {
+    const inBody = bodyCitationIds.has(citation.id) || !structuralCitationIds.has(citation.id)
+    if (!inBody || citation.shortForm || isShortFormCitation(citation.citationText)) continue
+    const parsed = parseCitation(citation, blockTextByCitation.get(citation.id))
+    const group = bodyGroups.get(parsed.key)
+    if (group) {
+      group.ref.citationIds.push(citation.id)
+      if (!group.parsed.name && parsed.name) group.parsed.name = parsed.name
+    } else {
+      bodyGroups.set(parsed.key, {
+        parsed,
+        ref: { citationIds: [citation.id], citationText: citation.citationText, citationType: citation.citationType },
+      })
+    }
+  }
+
+  // Pass 1: exact authority matches, noting case name spelling differences
+  const unmatchedEntries: Array<{ entry: TableOfAuthoritiesEntry; parsed: ParsedAuthority }> = []
+  const matchedKeys = new Set<string>()
+  for (const entry of entries) {
+    const parsed = parseAuthority(entry.text)
+    const group = bodyGroups.get(parsed.key)
+    if (!group) {
+      unmatchedEntries.push({ entry, parsed })
+      continue
+    }
+    matchedKeys.add(parsed.key)
+    const differences = compareAuthorities(parsed, group.parsed)
+    if (differences.length > 0) {
+      result.mismatches.push({ ...group.ref, entry, differences })
+    } else {
+      result.matchedCount++
+    }
+  }
+
+  // Pass 2: pair what is left when it is the same authority cited inconsistently
+  const unmatchedGroups = Array.from(bodyGroups.entries())
+    .filter(([key]) => !matchedKeys.has(key))
+    .map(([, group]) => group)
+  for (const { entry, parsed } of unmatchedEntries) {
+    const pairIndex = unmatchedGroups.findIndex(group => isSameAuthority(parsed, group.parsed))
+    if (pairIndex !== -1) {
+      const [group] = unmatchedGroups.splice(pairIndex, 1)
+      result.mismatches.push({ ...group.ref, entry, differences: compareAuthorities(parsed, group.parsed) })
+      continue
+    }
+
+    // The body may cite the authority in a form the identifier did not pick up
+    const searchKey = parsed.kind === 'case'
+      ? normalizeForSearch(`${parsed.volume} ${parsed.reporter} ${parsed.page}`)
+      : parsed.kind === 'statute' || parsed.kind === 'regulation'
+        ? normalizeForSearch(`${parsed.title} ${parsed.code} ${parsed.section}`)
+        : normalizeForSearch(entry.text)
+    if (!searchKey || !normalizedBodyText.includes(searchKey)) {
+      result.neverCited.push(entry)
+    }
+  }
+
+  result.missingFromToa = unmatchedGroups.map(group => group.ref)
+
+  console.log('[checkTableOfAuthorities] Cross-checked', entries.length, 'TOA entries against', bodyGroups.size, 'authorities', {
+    matched: result.matchedCount,
+    missingFromToa: result.missingFromToa.length,
+    neverCited: result.neverCited.length,
+    mismatches: result.mismatches.length,
+  })
+
+  return result
+}
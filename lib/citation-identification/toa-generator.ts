@@ -0,0 +1,353 @@
+/**
+ * Table of Authorities Generator
+ * Builds a Bluebook-ordered table of authorities from identified citations and
+ * inserts it into (or replaces it in) a drafted plain-text document
+ */
+
+import { CitationDocument, Citation, ContentParagraph, CaseComponents, isStructuralContent } from '@/types/citation-json'
+import { getOutlineMarkerLevel } from '@/lib/document-parser/outline'
+import { parseCitation, isShortFormCitation, ParsedAuthority } from './authority'
+import { PIN_CITE_SOURCE } from './pin-cites'
+import { findConstitutionCitations } from './patterns'
+import { parseProvisionNumber } from './constitutions'
+import { getCircuitForCourtId } from './lookup-tables'
+
+export type ToaCategory =
+  | 'cases'
+  | 'constitutionalProvisions'
+  | 'statutes'
+  | 'regulations'
+  | 'rules'
+  | 'secondarySources'
+
+// Bluebook order of the table's sections
+export const TOA_CATEGORY_HEADINGS: Array<{ category: ToaCategory; heading: string }> = [
+  { category: 'cases', heading: 'Cases' },
+  { category: 'constitutionalProvisions', heading: 'Constitutional Provisions' },
+  { category: 'statutes', heading: 'Statutes' },
+  { category: 'regulations', heading: 'Regulations' },
+  { category: 'rules', heading: 'Rules' },
+  { category: 'secondarySources', heading: 'Secondary Sources' },
+]
+
+export interface GeneratedToaEntry {
+  authority: string // Authority as listed in the table
+  citationIds: string[]
+  paragraphIds: string[] // Blocks that cite the authority, in document order
+  pages: number[] // Pages that cite the authority, when the source has page numbers
+  references: string // Formatted references, e.g. "3, 5", "¶¶ 2, 7" or "passim"
+}
+
+export interface GeneratedToaSection {
+  category: ToaCategory
+  heading: string
+  entries: GeneratedToaEntry[]
+}
+
+export interface GeneratedTableOfAuthorities {
+  sections: GeneratedToaSection[] // Only sections with entries, in Bluebook order
+  entryCount: number
+  text: string // Plain-text table ready to insert into a document
+}
+
+// Authorities cited in at least this many places are listed as "passim"
+const PASSIM_THRESHOLD = 5
+
+// Target width of a plain-text entry line, dot leaders included
+const TOA_LINE_WIDTH = 72
+
+const CONSTITUTION_PATTERN = /\bConst\.|\bConstitution\b/
+// A pin cite ends at the parenthetical or at the next reporter of a parallel cite
+const PIN_CITE_AFTER_REFERENCE_PATTERN = new RegExp(`,\\s*${PIN_CITE_SOURCE}(?=\\s*\\(|,\\s*\\d+\\s+[A-Z])`, 'g')
+
+interface AuthorityGroup {
+  category: ToaCategory
+  parsed: ParsedAuthority
+  citations: Citation[]
+  blocks: ContentParagraph[]
+}
+
+function categorize(citation: Citation, parsed: ParsedAuthority): ToaCategory {
+  if (CONSTITUTION_PATTERN.test(citation.citationText)) return 'constitutionalProvisions'
+  if (parsed.kind === 'case') return 'cases'
+  if (parsed.kind === 'statute') return 'statutes'
+  if (parsed.kind === 'regulation') return 'regulations'
+  if (parsed.kind === 'rule') return 'rules'
+
+  switch (citation.citationType) {
+    case 'case': return 'cases'
+    case 'statute': return 'statutes'
+    case 'regulation': return 'regulations'
+    case 'rule': return 'rules'
+    case 'constitution': return 'constitutionalProvisions'
+    case 'sessionLaw': return 'statutes'
+    default: return 'secondarySources'
+  }
+}
+
+function isFederalCode(code: string | undefined): boolean {
+  return /^(?:U\.\s?S\.\s?C|C\.\s?F\.\s?R)/.test(code || '')
+}
+
+/**
+ * Eyecite reports courts as ids (e.g. "scotus", "ca2"); circuit ids become "2d Cir." and other
+ * ids are dropped, while courts written as abbreviations are kept
+ */
+function formatCourtAndYear(components: Partial<CaseComponents>): string {
+  const written = components.court || ''
+  const court = /[A-Z.]/.test(written) ? written : getCircuitForCourtId(written) || ''
+  const parts = [court, components.year ? String(components.year) : ''].filter(Boolean)
+  return parts.length > 0 ? ` (${parts.join(' ')})` : ''
+}
+
+/**
+ * Text to list for an authority: the fullest form it is cited in
+ */
+function formatAuthority(group: AuthorityGroup): string {
+  const { parsed, citations } = group
+  const texts = citations.map(citation => citation.citationText.trim().replace(/[.,;]+$/, ''))
+
+  if (parsed.kind === 'case') {
+    const core = `${parsed.volume} ${parsed.reporter} ${parsed.page}`
+    const named = texts.find(text => text.indexOf(core) > 0)
+    if (named) {
+      // The table lists the case, not the page cited in any one place
+      const coreIndex = named.indexOf(core) + core.length
+      return named.slice(0, coreIndex) + named.slice(coreIndex).replace(PIN_CITE_AFTER_REFERENCE_PATTERN, '')
+    }
+    const components = citations[0].extractedComponents as Partial<CaseComponents>
+    const references = components.parallelCitations && components.parallelCitations.length > 0
+      ? components.parallelCitations.map(reference => `${reference.volume} ${reference.reporter} ${reference.page}`).join(', ')
+      : core
+    return `${parsed.name ? `${parsed.name}, ` : ''}${references}${formatCourtAndYear(components)}`
+  }
+
+  if (parsed.code === 'Stat.') {
+    // List the session law in its fullest form, without the page cited in any one place
+    const fullest = texts.reduce((longest, text) => (text.length > longest.length ? text : longest), texts[0])
+    return fullest.replace(PIN_CITE_AFTER_REFERENCE_PATTERN, '')
+  }
+
+  if (parsed.kind === 'statute' || parsed.kind === 'regulation') {
+    // State codes place titles and chapters differently, so list them as cited
+    if (!isFederalCode(parsed.code)) return texts[0]
+    return `${parsed.title} ${parsed.code} § ${parsed.section}`
+  }
+
+  if (group.category === 'secondarySources') {
+    // Secondary sources are listed like session laws: the fullest form, without the page cited
+    const fullest = texts.reduce((longest, text) => (text.length > longest.length ? text : longest), texts[0])
+    return fullest.replace(PIN_CITE_AFTER_REFERENCE_PATTERN, '')
+  }
+
+  if (parsed.kind === 'rule') {
+    // List the rule itself rather than each subdivision cited
+    return texts[0].replace(/(\d+)(\([^)]*\))+$/, '$1')
+  }
+
+  return texts.reduce((longest, text) => (text.length > longest.length ? text : longest), texts[0])
+}
+
+/**
+ * Number body paragraphs for references when the document has no page numbers
+ * Structural blocks are not counted, so inserting a table does not shift the numbers;
+ * notes take the number of the paragraph that carries their reference mark
+ */
+function numberBodyParagraphs(content: ContentParagraph[]): Map<string, number> {
+  const numbers = new Map<string, number>()
+  let counter = 0
+  for (const block of content) {
+    if (block.type === 'paragraph') numbers.set(block.id, ++counter)
+  }
+  for (const block of content) {
+    if (block.type === 'footnote' && block.anchorParagraphId && numbers.has(block.anchorParagraphId)) {
+      numbers.set(block.id, numbers.get(block.anchorParagraphId)!)
+    }
+  }
+  return numbers
+}
+
+function formatReferences(blocks: ContentParagraph[], paragraphNumbers: Map<string, number>): { pages: number[]; references: string } {
+  const pages = Array.from(new Set(
+    blocks.map(block => block.page).filter((page): page is number => typeof page === 'number')
+  )).sort((a, b) => a - b)
+
+  if (pages.length > 0 && blocks.every(block => typeof block.page === 'number')) {
+    return { pages, references: pages.length >= PASSIM_THRESHOLD ? 'passim' : pages.join(', ') }
+  }
+
+  const paragraphs = Array.from(new Set(
+    blocks.map(block => paragraphNumbers.get(block.id)).filter((paragraph): paragraph is number => paragraph !== undefined)
+  )).sort((a, b) => a - b)
+  if (paragraphs.length >= PASSIM_THRESHOLD) return { pages, references: 'passim' }
+  return { pages, references: `${paragraphs.length > 1 ? '¶¶' : '¶'} ${paragraphs.join(', ')}` }
+}
+
+/**
+ * Sort key within a section: statutes and regulations by code, title and section;
+ * the U.S. Constitution before state constitutions, articles before amendments, in numeric order;
+ * everything else alphabetically
+ */
+function getSortKey(category: ToaCategory, entry: GeneratedToaEntry, parsed: ParsedAuthority): string {
+  if (category === 'statutes' || category === 'regulations') {
+    // Federal codes come before session laws, and session laws before state codes
+    const order = isFederalCode(parsed.code) ? '0' : parsed.code === 'Stat.' ? '1' : '2'
+    return `${order} ${(parsed.code || '').replace(/[.\s]/g, '')} ${parsed.title || ''} ${parsed.section || ''} ${entry.authority}`
+  }
+  if (category === 'constitutionalProvisions') {
+    const order = /^U\.\s?S\.\s?Const/.test(entry.authority) ? '0' : '1'
+    const [provision] = findConstitutionCitations(entry.authority)
+    if (!provision) return `${order} ${entry.authority}`
+    const { jurisdiction, article, amendment, section } = provision.components
+    const number = parseProvisionNumber(article || amendment) ?? 0
+    return `${order} ${jurisdiction} ${article ? '1' : amendment ? '2' : '0'} ${number} ${section || '0'} ${entry.authority}`
+  }
+  return entry.authority
+}
+
+function formatEntryLine(entry: GeneratedToaEntry): string {
+  const leaderLength = Math.max(3, TOA_LINE_WIDTH - entry.authority.length - entry.references.length - 2)
+  return `${entry.authority} ${'.'.repeat(leaderLength)} ${entry.references}`
+}
+
+/**
+ * Generate a table of authorities from a document's identified citations
+ * Short forms (Id., supra, "550 U.S. at 555") are not listed themselves, but resolved ones
+ * add their paragraphs to their antecedent's references; citations inside structural
+ * blocks, such as an existing table, are not references
+ */
+export function generateTableOfAuthorities(jsonData: CitationDocument): GeneratedTableOfAuthorities {
+  const content = jsonData.document.content || []
+  const citations = jsonData.document.citations || []
+
+  // Locate each citation's block from its inline marker
+  const blocksByCitation = new Map<string, ContentParagraph[]>()
+  for (const block of content) {
+    if (isStructuralContent(block)) continue
+    for (const match of Array.from(block.text.matchAll(/\[CITATION:([^\]]+)\]/g))) {
+      const blocks = blocksByCitation.get(match[1]) || []
+      if (!blocks.includes(block)) blocks.push(block)
+      blocksByCitation.set(match[1], blocks)
+    }
+  }
+
+  const groups = new Map<string, AuthorityGroup>()
+  const groupByCitation = new Map<string, AuthorityGroup>()
+  for (const citation of citations) {
+    const blocks = blocksByCitation.get(citation.id)
+    if (!blocks || citation.shortForm || isShortFormCitation(citation.citationText)) continue
+
+    const parsed = parseCitation(citation, blocks[0].text)
+    const group = groups.get(parsed.key)
+    if (group) {
+      group.citations.push(citation)
+      blocks.forEach(block => { if (!group.blocks.includes(block)) group.blocks.push(block) })
+      if (!group.parsed.name && parsed.name) group.parsed.name = parsed.name
+    } else {
+      groups.set(parsed.key, { category: categorize(citation, parsed), parsed, citations: [citation], blocks: [...blocks] })
+    }
+    groupByCitation.set(citation.id, groups.get(parsed.key)!)
+  }
+
+  for (const citation of citations) {
+    const group = citation.antecedentId ? groupByCitation.get(citation.antecedentId) : undefined
+    const blocks = blocksByCitation.get(citation.id)
+    if (!group || !blocks) continue
+    blocks.forEach(block => { if (!group.blocks.includes(block)) group.blocks.push(block) })
+  }
+
+  const paragraphNumbers = numberBodyParagraphs(content)
+  const sections: GeneratedToaSection[] = []
+  for (const { category, heading } of TOA_CATEGORY_HEADINGS) {
+    const sorted = Array.from(groups.values())
+      .filter(group => group.category === category)
+      .map(group => {
+        const blocks = content.filter(block => group.blocks.includes(block)) // Document order
+        const entry: GeneratedToaEntry = {
+          authority: formatAuthority(group),
+          citationIds: group.citations.map(citation => citation.id),
+          paragraphIds: blocks.map(block => block.id),
+          ...formatReferences(blocks, paragraphNumbers),
+        }
+        return { entry, sortKey: getSortKey(category, entry, group.parsed) }
+      })
+      .sort((a, b) => a.sortKey.localeCompare(b.sortKey, undefined, { numeric: true, sensitivity: 'base' }))
+
+    if (sorted.length > 0) {
+      sections.push({ category, heading, entries: sorted.map(item => item.entry) })
+    }
+  }
+
+  const lines = ['TABLE OF AUTHORITIES']
+  for (const section of sections) {
+    lines.push(section.heading)
+    section.entries.forEach(entry => lines.push(formatEntryLine(entry)))
+  }
+
+  const entryCount = sections.reduce((sum, section) => sum + section.entries.length, 0)
+  console.log('[generateTableOfAuthorities] Generated', entryCount, 'entries in', sections.length, 'sections')
+
+  return {
+    sections,
+    entryCount,
+    text: lines.join('\n\n'), // Blank lines so each entry parses as its own block
+  }
+}
+
+/**
+ * Insert a generated table into plain text, replacing an existing table of authorities
+ * Without one, the table goes after the caption and document title, before the first section
+ * `content` must be the result of parsing the same text with parseTextDocument
+ */
+export function insertTableOfAuthorities(documentText: string, toaText: string, content: ContentParagraph[]): string {
+  const text = documentText.replace(/\r\n/g, '\n').replace(/\r/g, '\n')
+
+  // Recover each block's span using the same paragraph split as parseTextDocument
+  const spans: Array<{ start: number; end: number }> = []
+  const separator = /\n\s*\n+/g
+  let chunkStart = 0
+  let match: RegExpExecArray | null
+  const pushSpan = (start: number, end: number) => {
+    const chunk = text.slice(start, end)
+    if (chunk.trim().length === 0) return
+    const leading = chunk.length - chunk.trimStart().length
+    spans.push({ start: start + leading, end: start + chunk.trimEnd().length })
+  }
+  while ((match = separator.exec(text)) !== null) {
+    pushSpan(chunkStart, match.index)
+    chunkStart = match.index + match[0].length
+  }
+  pushSpan(chunkStart, text.length)
+
+  if (spans.length !== content.length) {
+    console.warn('[insertTableOfAuthorities] Block layout does not match the text; placing table at the top')
+    return `${toaText}\n\n${text}`
+  }
+
+  const firstToa = content.findIndex(block => block.type === 'tableOfAuthorities')
+  if (firstToa !== -1) {
+    let lastToa = firstToa
+    content.forEach((block, index) => { if (block.type === 'tableOfAuthorities') lastToa = index })
+    return text.slice(0, spans[firstToa].start) + toaText + text.slice(spans[lastToa].end)
+  }
+
+  let insertAt = 0
+  content.forEach((block, index) => { if (block.type === 'caption') insertAt = index + 1 })
+  let headingsEnd = insertAt
+  while (
+    headingsEnd < content.length &&
+    content[headingsEnd].type === 'heading' &&
+    getOutlineMarkerLevel(content[headingsEnd].text) === null
+  ) {
+    headingsEnd++
+  }
+  // Unnumbered headings above a numbered one are the title; when body text follows instead,
+  // the last of them ("INTRODUCTION") opens the first section and the table goes before it
+  const numberedNext = headingsEnd < content.length && content[headingsEnd].type === 'heading'
+  insertAt = numberedNext || headingsEnd === insertAt ? headingsEnd : headingsEnd - 1
+
+  if (insertAt >= content.length) {
+    return `${text.trimEnd()}\n\n${toaText}\n`
+  }
+  return `${text.slice(0, spans[insertAt].start)}${toaText}\n\n${text.slice(spans[insertAt].start)}`
+}
@@ -106,6 +106,11 @@ export function extractTokens(
       return extractOpenAITokens(response, model)
     case 'gemini':
       return extractGeminiTokens(response, model)
+    case 'grok': {
+      // Grok is served through the OpenAI-compatible API
+      const usage = extractOpenAITokens(response, model)
+      return usage ? { ...usage, provider: 'grok' } : null
+    }
     default:
       return null
   }
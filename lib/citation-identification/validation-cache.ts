@@ -0,0 +1,242 @@
+/**
+ * Validation Result Cache
+ * Tier 2 and Tier 3 results shared across documents, keyed by normalized citation, so an authority
+ * cited in brief after brief goes to the panel once per agent configuration instead of once per document.
+ * A result is reused only while unexpired and produced by the same agent names, definition versions
+ * and models, so editing an agent or changing TIER2_PANEL_MODELS stops old entries from matching
+ * Uses Prisma, so it is imported by server code only; validation.ts is shared with the client
+ */
+
+import { Prisma } from '@prisma/client'
+import { CaseComponents, Citation, CitationValidation, Tier3Result, ValidationCacheHit } from '@/types/citation-json'
+import { prisma } from '@/lib/prisma'
+import { ProviderApiKeys } from '@/lib/llm'
+import { LLM_MOCK, VALIDATION_CACHE_TTL_DAYS } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import { seededHash } from '@/lib/utils'
+import { SIGNAL_PREFIX_PATTERN, isShortFormCitation, normalizeCaseName, normalizeForSearch, parseCitation } from './authority'
+import { AgentDefinition, ValidationTier } from './validation'
+import { getAgentDefinitions } from './agent-definitions'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface ValidationCacheStats {
+  total: number
+  expired: number
+  stale: number // Unexpired, but produced by agent definitions or models no longer in use
+  hits: number
+}
+
+export function isValidationCacheEnabled(): boolean {
+  return VALIDATION_CACHE_TTL_DAYS > 0
+}
+
+/**
+ * Key identifying what the panel was asked about a citation, or null when the citation cannot be judged on its own
+ * Cases add the normalized name and year to the volume/reporter/page, since a fabricated case is often
+ * a made-up name on a real cite. The prompts also show the pin cite, signal and parenthetical, and a
+ * verdict on a pin past the end of the opinion or a "But see" cite does not hold for other uses of the
+ * authority, so they are part of the key; the parenthetical is hashed to keep keys short
+ */
+export function getCitationCacheKey(citation: Citation): string | null {
+  // Id., supra and short cites depend on the citations around them
+  if (citation.shortForm || isShortFormCitation(citation.citationText)) return null
+
+  const parsed = parseCitation(citation)
+  if (parsed.kind === 'case' && !parsed.name) return null
+
+  const components = citation.extractedComponents as Partial<CaseComponents>
+  const context = [
+    citation.citationType === 'case' && components?.pinCite ? `pin ${components.pinCite.replace(/\s+/g, '')}` : '',
+    citation.signal ? `signal ${citation.signal.toLowerCase()}` : '',
+    citation.parenthetical ? `paren ${seededHash(normalizeForSearch(citation.parenthetical)).toString(36)}` : '',
+  ].filter(Boolean).join('|')
+  const suffix = context ? `|${context}` : ''
+  if (parsed.kind !== 'case') return `${parsed.key}${suffix}`
+
+  const year = components?.year
+  const name = normalizeCaseName(parsed.name!.replace(SIGNAL_PREFIX_PATTERN, ''))
+  return `${parsed.key}:${name}:${year && !isNaN(year) ? year : ''}${suffix}`
+}
+
+/**
+ * Fingerprint of the agents a result came from: name, definition version, provider, model and temperature
+ * of each. An agent whose provider has no key runs on the fallback model, which is recorded instead;
+ * mock results are marked so they are never served once real models are back
+ */
+export function getDefinitionsVersion(
+  definitions: AgentDefinition[],
+  apiKeys: ProviderApiKeys
+): string {
+  const agents = definitions
+    .map(definition => {
+      const model = apiKeys[definition.provider] ? `${definition.provider}:${definition.model}` : 'fallback'
+      return `${definition.name}@${definition.version}:${model}:${definition.temperature}`
+    })
+    .sort()
+    .join(',')
+  return LLM_MOCK ? `mock|${agents}` : agents
+}
+
+export async function getCurrentDefinitionsVersion(
+  tier: ValidationTier,
+  apiKeys: ProviderApiKeys
+): Promise<string> {
+  return getDefinitionsVersion(await getAgentDefinitions(tier), apiKeys)
+}
+
+/**
+ * Results whose agents failed after retries are not worth reusing
+ */
+function hasFailedAgent(result: CitationValidation | Tier3Result): boolean {
+  return result.panel_evaluation.some(verdict =>
+    verdict.reasoning === 'api_error' ||
+    verdict.uncertain_reason === 'api_error' ||
+    verdict.reasoning?.startsWith('Error occurred during Tier 3 investigation')
+  )
+}
+
+/**
+ * Copy of a cached result marked as a cache hit. No tokens were spent on it this run, so the
+ * copy carries no token usage or cost; the stored entry keeps the original figures
+ */
+function toCacheHit<T extends CitationValidation | Tier3Result>(result: T, cache: ValidationCacheHit): T {
+  const { run_cost, ...rest } = result
+  return {
+    ...rest,
+    panel_evaluation: result.panel_evaluation.map(({ token_usage, cost, ...verdict }) => verdict),
+    cache,
+  } as T
+}
+
+/**
+ * Cached Tier 2 or Tier 3 result for a citation key, or null on a miss
+ * Lookup failures are logged and treated as misses so validation still runs
+ */
+export async function getCachedValidation(key: string, tier: 'tier2', version: string): Promise<CitationValidation | null>
+export async function getCachedValidation(key: string, tier: 'tier3', version: string): Promise<Tier3Result | null>
+export async function getCachedValidation(
+  key: string,
+  tier: ValidationTier,
+  version: string
+): Promise<CitationValidation | Tier3Result | null> {
+  if (!isValidationCacheEnabled()) return null
+
+  try {
+    const entry = await prisma.validationCacheEntry.findUnique({ where: { normalizedKey: key } })
+    if (!entry || entry.expiresAt <= new Date()) return null
+
+    const result = tier === 'tier2'
+      ? entry.panelVersion === version ? entry.panelResult : null
+      : entry.tier3Version === version ? entry.tier3Result : null
+    if (!result) return null
+
+    await prisma.validationCacheEntry.update({
+      where: { id: entry.id },
+      data: { hitCount: { increment: 1 } },
+    })
+
+    logger.debug(`Validation cache hit`, { key, tier }, 'ValidationCache')
+    return toCacheHit(result as unknown as CitationValidation | Tier3Result, {
+      key,
+      cached_at: tier === 'tier2' ? entry.createdAt.toISOString() : (result as unknown as Tier3Result).timestamp,
+    })
+  } catch (error) {
+    logger.warn(`Validation cache lookup failed for ${key}`, error, 'ValidationCache')
+    return null
+  }
+}
+
+/**
+ * Store a fresh Tier 2 result, replacing any earlier entry for the key along with its Tier 3 result
+ */
+export async function cacheTier2Validation(
+  key: string,
+  citation: Citation,
+  validation: CitationValidation,
+  version: string
+): Promise<void> {
+  // Index lookups cost nothing to repeat and follow the index, not the panel
+  if (!isValidationCacheEnabled() || validation.panel_evaluation.length === 0 || hasFailedAgent(validation)) return
+
+  const now = new Date()
+  const data = {
+    citationText: citation.citationText,
+    panelResult: validation as unknown as Prisma.InputJsonValue,
+    panelVersion: version,
+    tier3Result: Prisma.DbNull,
+    tier3Version: null,
+    hitCount: 0,
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + VALIDATION_CACHE_TTL_DAYS * DAY_MS),
+  }
+
+  try {
+    await prisma.validationCacheEntry.upsert({
+      where: { normalizedKey: key },
+      create: { normalizedKey: key, ...data },
+      update: data,
+    })
+  } catch (error) {
+    logger.warn(`Failed to cache Tier 2 result for ${key}`, error, 'ValidationCache')
+  }
+}
+
+/**
+ * Attach a fresh Tier 3 result to the entry holding the Tier 2 result it was escalated from
+ */
+export async function cacheTier3Validation(
+  key: string,
+  tier2Version: string,
+  tier3Result: Tier3Result,
+  version: string
+): Promise<void> {
+  if (!isValidationCacheEnabled() || hasFailedAgent(tier3Result)) return
+
+  try {
+    await prisma.validationCacheEntry.updateMany({
+      where: { normalizedKey: key, panelVersion: tier2Version },
+      data: {
+        tier3Result: tier3Result as unknown as Prisma.InputJsonValue,
+        tier3Version: version,
+      },
+    })
+  } catch (error) {
+    logger.warn(`Failed to cache Tier 3 result for ${key}`, error, 'ValidationCache')
+  }
+}
+
+export async function getValidationCacheStats(apiKeys: ProviderApiKeys): Promise<ValidationCacheStats> {
+  const now = new Date()
+  const [total, expired, hits, panelVersion] = await Promise.all([
+    prisma.validationCacheEntry.count(),
+    prisma.validationCacheEntry.count({ where: { expiresAt: { lte: now } } }),
+    prisma.validationCacheEntry.aggregate({ _sum: { hitCount: true } }),
+    getCurrentDefinitionsVersion('tier2', apiKeys),
+  ])
+  const stale = await prisma.validationCacheEntry.count({
+    where: { expiresAt: { gt: now }, panelVersion: { not: panelVersion } },
+  })
+
+  return { total, expired, stale, hits: hits._sum.hitCount || 0 }
+}
+
+/**
+ * Delete cache entries: one citation key, only expired and stale entries, or everything
+ * Returns the number of entries deleted
+ */
+export async function invalidateValidationCache(
+  options: { key?: string; staleOnly?: boolean; apiKeys?: ProviderApiKeys } = {}
+): Promise<number> {
+  let where: Prisma.ValidationCacheEntryWhereInput = {}
+  if (options.key) {
+    where = { normalizedKey: options.key }
+  } else if (options.staleOnly) {
+    const panelVersion = await getCurrentDefinitionsVersion('tier2', options.apiKeys || {})
+    where = { OR: [{ expiresAt: { lte: new Date() } }, { panelVersion: { not: panelVersion } }] }
+  }
+
+  const { count } = await prisma.validationCacheEntry.deleteMany({ where })
+  logger.info(`Invalidated ${count} validation cache entries`, { key: options.key, staleOnly: options.staleOnly }, 'ValidationCache')
+  return count
+}
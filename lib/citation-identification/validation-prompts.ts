@@ -3,7 +3,18 @@
  * Prompt templates for Tier 2 validation agents per validationT2.md specification
  */
 
-import { Citation, CaseComponents, StatuteComponents, RegulationComponents, RuleComponents } from '@/types/citation-json'
+import {
+  Citation,
+  CaseComponents,
+  StatuteComponents,
+  RegulationComponents,
+  RuleComponents,
+  ConstitutionComponents,
+  SessionLawComponents,
+  SecondaryComponents,
+} from '@/types/citation-json'
+import { formatPinCiteForPrompt } from './pin-cites'
+import { formatSignalForPrompt } from './signals'
 
 /**
  * Agent 1: Authority Specialist
@@ -23,6 +34,10 @@ export function getCitationAuthorityValidatorPrompt(
 - Reporter: ${caseComponents.reporter || 'N/A'}
 - Page: ${caseComponents.page || 'N/A'}
 - Year: ${caseComponents.year || 'N/A'}`
+    const pinCiteText = formatPinCiteForPrompt(citation)
+    if (pinCiteText) {
+      componentsText += `\n- ${pinCiteText}`
+    }
   } else if (citation.citationType === 'statute') {
     const statuteComponents = components as StatuteComponents
     componentsText = `- Code: ${statuteComponents.code || 'N/A'}
@@ -33,6 +48,26 @@ export function getCitationAuthorityValidatorPrompt(
     componentsText = `- Code: ${regComponents.code || 'N/A'}
 - Title: ${regComponents.title || 'N/A'}
 - Section: ${regComponents.section || 'N/A'}`
+  } else if (citation.citationType === 'constitution') {
+    const constitutionComponents = components as ConstitutionComponents
+    componentsText = `- Constitution: ${constitutionComponents.jurisdiction || 'N/A'}
+- ${constitutionComponents.amendment ? `Amendment: ${constitutionComponents.amendment}` : `Article: ${constitutionComponents.article || 'N/A'}`}
+- Section: ${constitutionComponents.section || 'N/A'}
+- Clause: ${constitutionComponents.clause || 'N/A'}`
+  } else if (citation.citationType === 'sessionLaw') {
+    const sessionLawComponents = components as SessionLawComponents
+    componentsText = `- Public Law: ${sessionLawComponents.publicLaw || 'N/A'}
+- Statutes at Large: ${sessionLawComponents.volume ? `${sessionLawComponents.volume} Stat. ${sessionLawComponents.page}` : 'N/A'}
+- Year: ${sessionLawComponents.year || 'N/A'}`
+  } else if (citation.citationType === 'secondary') {
+    const secondaryComponents = components as SecondaryComponents
+    componentsText = `- Kind: ${secondaryComponents.kind || 'N/A'}
+- Author: ${secondaryComponents.author || 'N/A'}
+- Title: ${secondaryComponents.title || secondaryComponents.subject || 'N/A'}
+- Source: ${[secondaryComponents.volume, secondaryComponents.journal || secondaryComponents.series, secondaryComponents.page].filter(Boolean).join(' ') || 'N/A'}
+- Section: ${secondaryComponents.section || 'N/A'}
+- Edition: ${secondaryComponents.edition || 'N/A'}
+- Year: ${secondaryComponents.year || 'N/A'}`
   } else {
     componentsText = 'See citation text for components'
   }
@@ -54,6 +89,7 @@ Evaluate STRICTLY:
 - Was this reporter active in this year?
 - Is the volume plausible for this reporter/year?
 - Is the page number within normal range?
+- If a pin cite is given, is it a plausible distance into an opinion starting at that page?
 - Did this court exist during that time?
 
 Provide a confidence score from 1-10 where:
@@ -142,6 +178,10 @@ export function getTemporalRealityValidatorPrompt(
     const caseComponents = components as CaseComponents
     courtText = caseComponents.court || 'N/A'
     yearText = String(caseComponents.year || 'N/A')
+  } else if (citation.citationType === 'sessionLaw') {
+    yearText = String((components as SessionLawComponents).year || 'N/A')
+  } else if (citation.citationType === 'secondary') {
+    yearText = String((components as SecondaryComponents).year || 'N/A')
   }
 
   return `You are a temporal validator. Your ONLY job is to evaluate whether the
@@ -190,6 +230,18 @@ export function getLegalKnowledgeValidatorPrompt(
   citation: Citation,
   context: string
 ): string {
+  const pinCiteText = formatPinCiteForPrompt(citation)
+  const pinCiteSection = pinCiteText ? `${pinCiteText}\n` : ''
+  const pinCiteQuestion = pinCiteText
+    ? '\n- Could the proposition the document cites this for plausibly appear on the pinpointed pages?'
+    : ''
+  const signalSection = formatSignalForPrompt(citation)
+  const characterizationQuestion = citation.parenthetical
+    ? `\n- Is the parenthetical a plausible description of what this authority held${citation.signal ? `, given the "${citation.signal}" signal` : ''}?`
+    : citation.signal
+      ? `\n- Is "${citation.signal}" a plausible way to offer this authority for the point in the context?`
+      : ''
+
   return `You are a broad legal knowledge validator. You evaluate general doctrinal and
 subject-matter plausibility.
 
@@ -201,12 +253,12 @@ You DO NOT:
 
 Citation: ${citation.citationText}
 Citation Type: ${citation.citationType}
-Context: ${context}
+${signalSection}${pinCiteSection}Context: ${context}
 
 Evaluate ONLY:
 - Does this type of authority logically apply to this issue?
 - Is this court an appropriate forum for this subject matter?
-- Does the general legal rule described plausibly match the authority category?
+- Does the general legal rule described plausibly match the authority category?${pinCiteQuestion}${characterizationQuestion}
 
 Provide a confidence score from 1-10 where:
 - 10 = Completely certain the citation is real (doctrinally consistent and appropriate)
@@ -232,6 +284,11 @@ export function getRealityAssessmentExpertPrompt(
   citation: Citation,
   context: string
 ): string {
+  const signalSection = formatSignalForPrompt(citation)
+  const signalQuestion = citation.signal && citation.parenthetical
+    ? '\n- Does the parenthetical contradict the signal (e.g., "But see" with a parenthetical that supports the proposition)?'
+    : ''
+
   return `You are a broad-pattern reality checker. Your job is to detect ONLY clear
 cross-dimensional contradictions.
 
@@ -244,12 +301,12 @@ You DO NOT:
 
 Citation: ${citation.citationText}
 Citation Type: ${citation.citationType}
-Context: ${context}
+${signalSection}Context: ${context}
 
 Evaluate ONLY:
 - Are there contradictions between authority type, issue, and jurisdiction?
 - Are there combinations that cannot coexist (e.g., criminal statute cited as civil precedent)?
-- Is the formatting structurally incoherent in a way no specialist would handle?
+- Is the formatting structurally incoherent in a way no specialist would handle?${signalQuestion}
 
 Provide a confidence score from 1-10 where:
 - 10 = Completely certain the citation is real (no contradictions detected)
@@ -3,8 +3,6 @@
  * Main service for running 5-agent panel validation per validationT2.md specification
  */
 
-import Anthropic from '@anthropic-ai/sdk'
-import retry from 'async-retry'
 import { Citation, CitationDocument, AgentVerdict, Consensus, CitationValidation, AgreementLevel, CitationRecommendationType, Tier3Result, Tier3AgentVerdict, Tier3Consensus, Tier3FinalStatus, Tier3AgreementLevel, Tier3RiskLevel } from '@/types/citation-json'
 import {
   getCitationAuthorityValidatorPrompt,
@@ -22,7 +20,10 @@ import {
   getPatternRecognitionExpertPrompt
 } from './tier3-prompts'
 import { extractDocumentContext } from './context-extractor'
-import { extractTokens, calculateCost, calculateRunCost } from './token-tracking'
+import { applyAntecedentVerdicts, needsOwnValidation } from './short-forms'
+import { calculateCost, calculateRunCost, Provider } from './token-tracking'
+import { chat, getProviderFromModel, ProviderApiKeys } from '@/lib/llm'
+import { TIER2_PANEL_MODELS } from '@/lib/env'
 import { logger } from '@/lib/logger'
 
 // Agent configurations
@@ -68,124 +69,179 @@ const TIER3_AGENT_CONFIGS = [
 const MODEL = 'claude-haiku-4-5-20251001' // Claude Haiku 4.5 for Tier 2 (fast and cost-efficient)
 const TIER3_MODEL = 'claude-sonnet-4-5-20250929' // Claude Sonnet 4.5 for Tier 3 (most capable model)
 
-// Retry configuration
-const RETRY_CONFIG = {
-  retries: 3,
-  minTimeout: 1000, // 1 second
-  maxTimeout: 10000, // 10 seconds
-  factor: 2, // Exponential backoff: 1s, 2s, 4s
-  randomize: true, // Add jitter to prevent thundering herd
+export const PROVIDERS: Provider[] = ['anthropic', 'openai', 'gemini', 'grok']
+
+export interface PanelAgentModel {
+  provider: Provider
+  model: string
 }
 
+const DEFAULT_PANEL_MODEL: PanelAgentModel = { provider: 'anthropic', model: MODEL }
+
 /**
- * Determine if an error is retryable
- * Retry on: rate limits, timeouts, network errors, server errors (5xx)
- * Don't retry on: authentication errors (401), bad requests (400), not found (404)
+ * Provider and model for each Tier 2 agent, from a comma-separated list of agent=provider:model
+ * (or agent=model, taking the provider from the model name), e.g.
+ * "case_ecology_validator_v1=openai:gpt-4o,temporal_reality_validator_v1=gemini:gemini-2.0-flash"
+ * Agents not listed run on Claude Haiku
  */
-function isRetryableError(error: any): boolean {
-  // Check for Anthropic API error structure
-  if (error?.status) {
-    const status = error.status
-    // Retry on rate limits (429) and server errors (5xx)
-    if (status === 429 || (status >= 500 && status < 600)) {
-      return true
-    }
-    // Don't retry on client errors (4xx) except rate limits
-    if (status >= 400 && status < 500) {
-      return false
-    }
+export function getPanelModels(config: string = TIER2_PANEL_MODELS): Record<string, PanelAgentModel> {
+  const panelModels: Record<string, PanelAgentModel> = {}
+  for (const agentConfig of AGENT_CONFIGS) {
+    panelModels[agentConfig.name] = DEFAULT_PANEL_MODEL
   }
-  
-  // Check for network/timeout errors
-  if (error?.code) {
-    const code = error.code.toLowerCase()
-    // Retry on network errors
-    if (code === 'econnreset' || code === 'etimedout' || code === 'econnrefused' || 
-        code === 'enotfound' || code === 'timeout' || code === 'network_error') {
-      return true
+
+  for (const entry of config.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [agent, assignment = ''] = entry.split('=').map(part => part.trim())
+    if (!(agent in panelModels) || !assignment) {
+      logger.warn(`Ignoring Tier 2 panel model entry "${entry}"`, { agents: Object.keys(panelModels) }, 'Validation')
+      continue
+    }
+
+    const separator = assignment.indexOf(':')
+    const prefix = separator === -1 ? '' : assignment.slice(0, separator)
+    if (PROVIDERS.includes(prefix as Provider)) {
+      panelModels[agent] = { provider: prefix as Provider, model: assignment.slice(separator + 1) }
+    } else {
+      panelModels[agent] = { provider: getProviderFromModel(assignment), model: assignment }
     }
   }
-  
-  // Check error message for common retryable patterns
-  const message = error?.message?.toLowerCase() || ''
-  if (message.includes('rate limit') || 
-      message.includes('timeout') || 
-      message.includes('network') ||
-      message.includes('server error') ||
-      message.includes('temporary')) {
-    return true
+
+  return panelModels
+}
+
+export type ValidationTier = 'tier2' | 'tier3'
+
+/**
+ * A validation agent as it runs: name, prompt and model, with the version stamped on its verdicts
+ * Built-in agents come from the configs above; admin-edited ones from ValidationAgentDefinition rows
+ */
+export interface AgentDefinition {
+  id?: string // Stored definition row; built-in agents have none
+  name: string
+  tier: ValidationTier
+  version: number
+  provider: Provider
+  model: string
+  temperature: number
+  getPrompt: (citation: Citation, context: string) => string
+}
+
+// Model used when an agent's provider has no API key
+const FALLBACK_MODELS: Record<ValidationTier, PanelAgentModel> = {
+  tier2: DEFAULT_PANEL_MODEL,
+  tier3: { provider: 'anthropic', model: TIER3_MODEL },
+}
+
+const MAX_TOKENS: Record<ValidationTier, number> = {
+  tier2: 1024,
+  tier3: 2048,
+}
+
+/**
+ * The code-defined prompt for a built-in agent name, or null
+ */
+export function getBuiltInPrompt(name: string): AgentDefinition['getPrompt'] | null {
+  const agentConfig = [...AGENT_CONFIGS, ...TIER3_AGENT_CONFIGS].find(config => config.name === name)
+  return agentConfig ? agentConfig.getPrompt : null
+}
+
+/**
+ * The built-in panel for a tier: Tier 2 on the models from getPanelModels, Tier 3 on Claude Sonnet
+ * Balanced temperature (0.4) for consistent but not overly conservative validation
+ */
+export function getBuiltInAgentDefinitions(tier: ValidationTier): AgentDefinition[] {
+  if (tier === 'tier3') {
+    return TIER3_AGENT_CONFIGS.map(agentConfig => ({
+      name: agentConfig.name,
+      tier,
+      version: 1,
+      ...FALLBACK_MODELS.tier3,
+      temperature: 0.4,
+      getPrompt: agentConfig.getPrompt,
+    }))
+  }
+
+  const panelModels = getPanelModels()
+  return AGENT_CONFIGS.map(agentConfig => ({
+    name: agentConfig.name,
+    tier,
+    version: 1,
+    ...panelModels[agentConfig.name],
+    temperature: 0.4,
+    getPrompt: agentConfig.getPrompt,
+  }))
+}
+
+interface ResolvedAgentModel extends PanelAgentModel {
+  fallbackFrom?: string // Model the definition named, when its provider has no key
+}
+
+/**
+ * Provider and model an agent actually runs on: its own, unless that provider has no key
+ * A fallback is logged and recorded on the verdict, so a panel split across providers
+ * cannot quietly turn into one that runs entirely on Claude
+ */
+function resolveAgentModel(definition: AgentDefinition, apiKeys: ProviderApiKeys): ResolvedAgentModel {
+  if (apiKeys[definition.provider]) {
+    return { provider: definition.provider, model: definition.model }
+  }
+  const fallback = FALLBACK_MODELS[definition.tier]
+  logger.warn(`No API key for ${definition.provider}, running agent ${definition.name} on ${fallback.model}`, undefined, definition.tier === 'tier3' ? 'Tier3' : 'Validation')
+  return { ...fallback, fallbackFrom: `${definition.provider}:${definition.model}` }
+}
+
+// Verdict fields identifying the definition that produced it and the model it ran on
+function definitionStamp(
+  definition: AgentDefinition,
+  resolved: ResolvedAgentModel
+): { model: string; fallback_from?: string; definition_version: number; definition_id?: string } {
+  return {
+    model: resolved.model,
+    ...(resolved.fallbackFrom ? { fallback_from: resolved.fallbackFrom } : {}),
+    definition_version: definition.version,
+    ...(definition.id ? { definition_id: definition.id } : {}),
   }
-  
-  // Default: retry on unknown errors (could be transient)
-  return true
 }
 
 /**
  * Call a single validation agent with retry logic
  */
 async function callValidationAgent(
-  agentConfig: typeof AGENT_CONFIGS[number],
+  definition: AgentDefinition,
   citation: Citation,
   context: string,
-  apiKey: string
+  apiKeys: ProviderApiKeys
 ): Promise<AgentVerdict> {
-  const anthropic = new Anthropic({ apiKey })
-  const prompt = agentConfig.getPrompt(citation, context)
+  const prompt = definition.getPrompt(citation, context)
+  const resolved = resolveAgentModel(definition, apiKeys)
+  const { provider, model } = resolved
   
   try {
-    const message = await retry(
-      async (bail: (error: Error) => void): Promise<Anthropic.Messages.Message> => {
-        try {
-          return await anthropic.messages.create({
-            model: MODEL,
-            max_tokens: 1024,
-            temperature: 0.4, // Balanced temperature for consistent but not overly conservative validation
-            messages: [
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-          })
-        } catch (error: any) {
-          // If error is not retryable, bail out immediately
-          if (!isRetryableError(error)) {
-            bail(error instanceof Error ? error : new Error(String(error)))
-            throw error // This will never execute but satisfies TypeScript
-          }
-          // Otherwise, throw to trigger retry
-          throw error
-        }
-      },
-      {
-        ...RETRY_CONFIG,
-        onRetry: (error: Error, attempt: number) => {
-          logger.warn(
-            `Retrying agent ${agentConfig.name}`,
-            error,
-            'Validation'
-          )
+    const { text: responseText, tokenUsage } = await chat({
+      provider,
+      model,
+      apiKey: apiKeys[provider] || '',
+      maxTokens: MAX_TOKENS.tier2,
+      temperature: definition.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
         },
-      }
-    )
-    
-    // Extract token usage from response
-    const tokenUsage = extractTokens(message, MODEL, 'anthropic')
-    
-    // Extract text from response
-    const responseText = message.content
-      .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
-      .map(block => block.text)
-      .join('\n')
+      ],
+      label: `agent ${definition.name}`,
+      logContext: 'Validation',
+      task: 'tier2_agent',
+    })
     
     // Parse response
-    const parsed = parseAgentResponse(responseText, agentConfig.name)
+    const parsed = parseAgentResponse(responseText, definition.name)
     
     // Build agent verdict - prioritize new format (numeric score)
     const verdict: AgentVerdict = {
-      agent: agentConfig.name,
+      agent: definition.name,
       timestamp: new Date().toISOString(),
-      model: MODEL,
+      ...definitionStamp(definition, resolved),
     }
     
     // New format: numeric scoring
@@ -219,15 +275,15 @@ async function callValidationAgent(
     
     return verdict
   } catch (error) {
-    logger.error(`Error calling agent ${agentConfig.name} after retries`, error, 'Validation')
+    logger.error(`Error calling agent ${definition.name} after retries`, error, 'Validation')
     
     // Return default score of 5 (middle) on error after retries exhausted
     return {
-      agent: agentConfig.name,
+      agent: definition.name,
       score: 5,
       reasoning: 'api_error',
       timestamp: new Date().toISOString(),
-      model: MODEL,
+      ...definitionStamp(definition, resolved),
     }
   }
 }
@@ -383,16 +439,18 @@ export function calculateConsensus(panelEvaluations: AgentVerdict[]): Consensus
 }
 
 /**
- * Validate a single citation with the 5-agent panel
+ * Validate a single citation with the 5-agent panel, or the stored panel definitions when given
+ * apiKeys holds a key for each provider the panel uses; Anthropic's is required
  */
 export async function validateCitationWithPanel(
   citation: Citation,
   documentContext: string,
-  apiKey: string
+  apiKeys: ProviderApiKeys,
+  definitions: AgentDefinition[] = getBuiltInAgentDefinitions('tier2')
 ): Promise<CitationValidation> {
-  // Call all 5 agents in parallel
-  const agentPromises = AGENT_CONFIGS.map(agentConfig =>
-    callValidationAgent(agentConfig, citation, documentContext, apiKey)
+  // Call all agents in parallel, each on its configured provider and model
+  const agentPromises = definitions.map(definition =>
+    callValidationAgent(definition, citation, documentContext, apiKeys)
   )
   
   const panelEvaluations = await Promise.all(agentPromises)
@@ -415,63 +473,36 @@ export async function validateCitationWithPanel(
  * Call a single Tier 3 agent with retry logic
  */
 async function callTier3Agent(
-  agentConfig: typeof TIER3_AGENT_CONFIGS[number],
+  definition: AgentDefinition,
   citation: Citation,
   context: string,
   // tier2Results parameter kept for logging but not passed to prompts (Tier 3 evaluates independently)
   tier2Results: CitationValidation,
-  apiKey: string
+  apiKeys: ProviderApiKeys
 ): Promise<Tier3AgentVerdict> {
-  const anthropic = new Anthropic({ apiKey })
   // Remove tier2Results from prompt call - Tier 3 evaluates independently
-  const prompt = agentConfig.getPrompt(citation, context)
-  const agentName = agentConfig.name
+  const prompt = definition.getPrompt(citation, context)
+  const agentName = definition.name
+  const resolved = resolveAgentModel(definition, apiKeys)
+  const { provider, model } = resolved
   
   try {
-    const message = await retry(
-      async (bail: (error: Error) => void): Promise<Anthropic.Messages.Message> => {
-        try {
-          return await anthropic.messages.create({
-            model: TIER3_MODEL,
-            max_tokens: 2048,
-            temperature: 0.4, // Balanced temperature for consistent but not overly conservative validation
-            messages: [
-              {
-                role: 'user',
-                content: prompt,
-              },
-            ],
-          })
-        } catch (error: any) {
-          // If error is not retryable, bail out immediately
-          if (!isRetryableError(error)) {
-            bail(error instanceof Error ? error : new Error(String(error)))
-            throw error // This will never execute but satisfies TypeScript
-          }
-          // Otherwise, throw to trigger retry
-          throw error
-        }
-      },
-      {
-        ...RETRY_CONFIG,
-        onRetry: (error: Error, attempt: number) => {
-          logger.warn(
-            `Retrying agent ${agentName}`,
-            error,
-            'Tier3'
-          )
+    const { text: responseText, tokenUsage } = await chat({
+      provider,
+      model,
+      apiKey: apiKeys[provider] || '',
+      maxTokens: MAX_TOKENS.tier3,
+      temperature: definition.temperature,
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
         },
-      }
-    )
-    
-    // Extract token usage from response
-    const tokenUsage = extractTokens(message, TIER3_MODEL, 'anthropic')
-    
-    // Extract text from response
-    const responseText = message.content
-      .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
-      .map(block => block.text)
-      .join('\n')
+      ],
+      label: `agent ${agentName}`,
+      logContext: 'Tier3',
+      task: 'tier3_agent',
+    })
     
     // Parse response
     const parsed = parseTier3AgentResponse(responseText, agentName)
@@ -481,7 +512,7 @@ async function callTier3Agent(
       agent: agentName,
       reasoning: parsed.reasoning,
       timestamp: new Date().toISOString(),
-      model: TIER3_MODEL,
+      ...definitionStamp(definition, resolved),
     }
     
     // New format: risk-based evaluation
@@ -525,52 +556,11 @@ async function callTier3Agent(
       risk_level: 'MODERATE_RISK',
       reasoning: `Error occurred during Tier 3 investigation: ${error instanceof Error ? error.message : String(error)}`,
       timestamp: new Date().toISOString(),
-      model: TIER3_MODEL,
+      ...definitionStamp(definition, resolved),
     }
   }
 }
 
-/**
- * Helper function to get Tier 3 final status from new format (risk-based) or legacy format
- * Maps risk levels to final_status for backward compatibility
- */
-export function getTier3FinalStatus(tier3Result: Tier3Result | null | undefined): Tier3FinalStatus | null {
-  if (!tier3Result) {
-    return null
-  }
-  
-  // New format: use consensus.final_risk_level and map to final_status
-  if (tier3Result.consensus?.final_risk_level) {
-    const riskLevel = tier3Result.consensus.final_risk_level
-    if (riskLevel === 'LOW_RISK') {
-      return 'VALID'
-    } else if (riskLevel === 'MODERATE_RISK') {
-      return 'WARN'
-    } else if (riskLevel === 'NEEDS_ADDITIONAL_REVIEW') {
-      return 'FAIL'
-    }
-  }
-  
-  // Legacy format: use consensus.final_status
-  if (tier3Result.consensus?.final_status) {
-    return tier3Result.consensus.final_status
-  }
-  
-  // Old format: map legacy verdict to new status
-  if (tier3Result.verdict) {
-    if (tier3Result.verdict === 'VERIFIED_REAL' || tier3Result.verdict === 'LIKELY_REAL') {
-      return 'VALID'
-    } else if (tier3Result.verdict === 'NEEDS_HUMAN_REVIEW') {
-      return 'WARN'
-    } else if (tier3Result.verdict === 'LIKELY_FABRICATED') {
-      return 'FAIL'
-    }
-  }
-  
-  // Default to WARN if we can't determine
-  return 'WARN'
-}
-
 /**
  * Calculate Tier 3 consensus from 3-agent panel evaluations
  * Supports both new format (risk-based) and legacy format (verdict-based)
@@ -731,18 +721,19 @@ export function calculateTier3Consensus(panelEvaluations: Tier3AgentVerdict[]):
 }
 
 /**
- * Perform Tier 3 investigation for a citation with 3-agent panel
+ * Perform Tier 3 investigation for a citation with 3-agent panel, or the stored panel definitions when given
  */
 export async function validateCitationTier3(
   citation: Citation,
   context: string,
   tier2Results: CitationValidation,
-  apiKey: string
+  apiKeys: ProviderApiKeys,
+  definitions: AgentDefinition[] = getBuiltInAgentDefinitions('tier3')
 ): Promise<Tier3Result> {
   try {
-    // Call all 3 agents in parallel
-    const agentPromises = TIER3_AGENT_CONFIGS.map(agentConfig =>
-      callTier3Agent(agentConfig, citation, context, tier2Results, apiKey)
+    // Call all agents in parallel
+    const agentPromises = definitions.map(definition =>
+      callTier3Agent(definition, citation, context, tier2Results, apiKeys)
     )
     
     const panelEvaluations = await Promise.all(agentPromises)
@@ -764,7 +755,7 @@ export async function validateCitationTier3(
       reasoning: aggregatedReasoning,
       key_evidence: consensus.reasoning,
       timestamp: new Date().toISOString(),
-      model: TIER3_MODEL,
+      model: panelEvaluations[0]?.model || TIER3_MODEL,
     }
     
     // Calculate and add run cost
@@ -819,7 +810,7 @@ export async function validateCitationTier3(
  */
 export async function validateAllCitations(
   jsonData: CitationDocument,
-  apiKey: string,
+  apiKeys: ProviderApiKeys,
   onProgress?: (tier2Current: number, tier2Total: number, tier3Current: number, tier3Total: number) => void
 ): Promise<CitationDocument> {
   const { document } = jsonData
@@ -844,7 +835,13 @@ export async function validateAllCitations(
       onProgress(i + 1, citations.length, 0, 0)
     }
     
-    const validation = await validateCitationWithPanel(citation, context, apiKey)
+    // Resolved short forms take their antecedent's verdict below
+    if (!needsOwnValidation(citation)) {
+      citationsWithTier2.push(citation)
+      continue
+    }
+    
+    const validation = await validateCitationWithPanel(citation, context, apiKeys)
     
     // Check if Tier 3 is needed
     if (validation.consensus.tier_3_trigger) {
@@ -882,7 +879,7 @@ export async function validateAllCitations(
         citation,
         context,
         citation.validation,
-        apiKey
+        apiKeys
       )
       
       // Send progress after completing Tier 3
@@ -902,6 +899,8 @@ export async function validateAllCitations(
     }
   }
   
+  applyAntecedentVerdicts(updatedCitations)
+  
   // Return updated document
   return {
     document: {
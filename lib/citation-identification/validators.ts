@@ -4,13 +4,28 @@
  */
 
 import { CitationMatch } from './patterns'
-import { isValidReporter, isValidCourt, isValidCode, isValidRule } from './lookup-tables'
+import {
+  isValidReporter,
+  isValidCourt,
+  isValidCode,
+  isValidRule,
+  getStatesForReporter,
+  getStateForCourt,
+  getStateForCode,
+} from './lookup-tables'
+import { parsePinCite, checkPinCite } from './pin-cites'
+import { checkParallelCitations, parseParallelCitations } from './parallel-citations'
+import { checkReporterRange } from './reporter-ranges'
+import { checkConstitutionCitation, constitutionComponents } from './constitutions'
+import { checkSessionLawCitation, sessionLawComponents } from './session-laws'
+import { checkSecondarySource, findUnlistedSecondarySource, secondarySourceComponents } from './secondary-sources'
 
 export type Tier1Status = 'VALID_FORMAT' | 'INVALID_FORMAT' | 'AMBIGUOUS_FORMAT'
 
 export interface Tier1Result {
   status: Tier1Status
   confidence: number
+  issues?: string[]
 }
 
 /**
@@ -24,6 +39,15 @@ export interface Tier1Result {
  * Optional components (don't affect validity):
  * - court (often in parenthetical, not always present)
  * - year (often in parenthetical, not always present)
+ *
+ * A pin cite, when present, must not fall before the first page and its ranges must run forward
+ *
+ * State reporters must publish decisions of the court named in the parenthetical, and a
+ * regional reporter (P.3d, N.E.2d) needs a court to say which state the case is from
+ *
+ * The reporters of a parallel cite must fit the year and must not repeat each other
+ *
+ * Each reporter must have published the volume, been in print in the year, and report the court
  */
 export function validateCaseCitation(match: CitationMatch): Tier1Result {
   const { components } = match
@@ -33,8 +57,9 @@ export function validateCaseCitation(match: CitationMatch): Tier1Result {
   const court = components.court || ''
   const yearStr = components.year || ''
   
-  // Required: reporter must be valid
-  const reporterValid = isValidReporter(reporter)
+  // Required: reporter must be valid (federal or state)
+  const reporterStates = getStatesForReporter(reporter)
+  const reporterValid = isValidReporter(reporter) || reporterStates.length > 0
   
   // Required: volume must exist
   const volumeExists = volume.trim().length > 0
@@ -44,7 +69,8 @@ export function validateCaseCitation(match: CitationMatch): Tier1Result {
   const pageValid = pageExists && (page.trim() === '___' || /^\d+/.test(page.trim()))
   
   // Optional: court validation (if present, should be valid, but absence is OK)
-  const courtValid = !court || isValidCourt(court)
+  const courtState = getStateForCourt(court)
+  const courtValid = !court || isValidCourt(court) || courtState !== null
   
   // Optional: year validation (if present, should be reasonable, but absence is OK)
   let yearValid = true
@@ -54,12 +80,50 @@ export function validateCaseCitation(match: CitationMatch): Tier1Result {
     yearValid = !isNaN(year) && year >= 1800 && year <= currentYear + 1
   }
   
+  // A pin cite that contradicts the first page means one of the two is wrong
+  const issues = components.pin ? checkPinCite(page, parsePinCite(components.pin)) : []
+  
+  // A state reporter only publishes decisions from its own states' courts
+  if (reporterStates.length > 0 && courtState && !reporterStates.includes(courtState)) {
+    issues.push(`${reporter} does not report ${court} decisions`)
+  }
+  
+  // A volume, year or court the reporter never covered means the citation cannot be real
+  const citedYear = parseInt(yearStr, 10)
+  issues.push(...checkReporterRange(volume, reporter, citedYear, court))
+  
+  if (components.parallel) {
+    const references = parseParallelCitations(components.parallel)
+    issues.push(...checkParallelCitations(references, citedYear))
+    // The first reference is the citation's own reporter, checked above
+    for (const reference of references.slice(1)) {
+      issues.push(...checkReporterRange(reference.volume, reference.reporter, citedYear, court))
+    }
+  }
+  
+  if (issues.length > 0) {
+    return {
+      status: 'INVALID_FORMAT',
+      confidence: 0.9,
+      issues,
+    }
+  }
+  
+  // A regional reporter alone does not say which state's court decided the case
+  if (reporterStates.length > 1 && !isValidReporter(reporter) && !court && volumeExists && pageValid) {
+    return {
+      status: 'AMBIGUOUS_FORMAT',
+      confidence: 0.70,
+      issues: [`Regional reporter ${reporter} needs the court in the parenthetical`],
+    }
+  }
+  
   // VALID_FORMAT: reporter is valid AND volume/page exist
   // Court and year are optional - their presence/absence doesn't affect format validity
   // Page can be "___" for not-yet-paginated cases
   if (reporterValid && volumeExists && pageValid) {
     // Higher confidence if court/year are also present and valid
-    const hasOptionalInfo = (court && isValidCourt(court)) || (yearStr && yearValid)
+    const hasOptionalInfo = (court && courtValid) || (yearStr && yearValid)
     return {
       status: 'VALID_FORMAT',
       confidence: hasOptionalInfo ? 0.99 : 0.95,
@@ -88,7 +152,7 @@ export function validateStatuteCitation(match: CitationMatch): Tier1Result {
   const { components } = match
   const code = components.code
   
-  const codeValid = isValidCode(code)
+  const codeValid = isValidCode(code) || getStateForCode(code, 'statute') !== null
   
   if (codeValid) {
     return {
@@ -110,7 +174,7 @@ export function validateRegulationCitation(match: CitationMatch): Tier1Result {
   const { components } = match
   const code = components.code
   
-  const codeValid = isValidCode(code)
+  const codeValid = isValidCode(code) || getStateForCode(code, 'regulation') !== null
   
   if (codeValid) {
     return {
@@ -147,6 +211,97 @@ export function validateRuleCitation(match: CitationMatch): Tier1Result {
   }
 }
 
+/**
+ * Validate a constitution citation and determine tier_1 status
+ * 
+ * A state constitution must name a known state; U.S. Constitution articles (I-VII),
+ * amendments (I-XXVII) and their sections must exist
+ */
+export function validateConstitutionCitation(match: CitationMatch): Tier1Result {
+  const components = constitutionComponents(match.components)
+  const isFederal = /^U\.\s?S\.$/.test(components.jurisdiction.trim())
+  
+  if (!isFederal && !components.state) {
+    return {
+      status: 'INVALID_FORMAT',
+      confidence: 0.80,
+      issues: [`${components.jurisdiction} is not a known state abbreviation`],
+    }
+  }
+  
+  const issues = checkConstitutionCitation(components)
+  if (issues.length > 0) {
+    return {
+      status: 'INVALID_FORMAT',
+      confidence: 0.9,
+      issues,
+    }
+  }
+  
+  return {
+    status: 'VALID_FORMAT',
+    confidence: isFederal ? 0.99 : 0.95,
+  }
+}
+
+/**
+ * Validate a session law citation and determine tier_1 status
+ * 
+ * The public law number must name a Congress that has sat, and that Congress must fit the year;
+ * a Statutes at Large cite alone is valid but identifies the law less surely
+ */
+export function validateSessionLawCitation(match: CitationMatch): Tier1Result {
+  const components = sessionLawComponents(match.components)
+  
+  const issues = checkSessionLawCitation(components)
+  if (issues.length > 0) {
+    return {
+      status: 'INVALID_FORMAT',
+      confidence: 0.9,
+      issues,
+    }
+  }
+  
+  return {
+    status: 'VALID_FORMAT',
+    confidence: components.publicLaw && components.volume ? 0.98 : components.publicLaw ? 0.95 : 0.90,
+  }
+}
+
+/**
+ * Validate a secondary source citation and determine tier_1 status
+ * 
+ * A.L.R. and Restatement series must exist and the year cannot be in the future;
+ * a journal or Restatement subject missing from the lookup tables is ambiguous
+ */
+export function validateSecondaryCitation(match: CitationMatch): Tier1Result {
+  const components = secondarySourceComponents(match.components)
+  
+  const issues = checkSecondarySource(components)
+  if (issues.length > 0) {
+    return {
+      status: 'INVALID_FORMAT',
+      confidence: 0.9,
+      issues,
+    }
+  }
+  
+  const unlisted = findUnlistedSecondarySource(components)
+  if (unlisted) {
+    return {
+      status: 'AMBIGUOUS_FORMAT',
+      confidence: 0.70,
+      issues: [unlisted],
+    }
+  }
+  
+  // Journals and Restatements are checked against the lookup tables; treatises and dictionaries only by shape
+  return {
+    status: 'VALID_FORMAT',
+    confidence: components.kind === 'lawReview' || components.kind === 'restatement' ? 0.95 : 0.85,
+  }
+}
+
 /**
  * Validate a citation based on its type
  */
@@ -160,6 +315,12 @@ export function validateCitation(match: CitationMatch): Tier1Result {
       return validateRegulationCitation(match)
     case 'rule':
       return validateRuleCitation(match)
+    case 'constitution':
+      return validateConstitutionCitation(match)
+    case 'sessionLaw':
+      return validateSessionLawCitation(match)
+    case 'secondary':
+      return validateSecondaryCitation(match)
     default:
       return {
         status: 'AMBIGUOUS_FORMAT',
@@ -1,7 +1,10 @@
 import { getNextQueueItem, markQueueItemProcessing, markQueueItemCompleted, markQueueItemFailed, checkJobCompletion } from "@/lib/citation-identification/queue"
-import { validateCitationWithPanel, validateCitationTier3 } from "@/lib/citation-identification/validation"
+import { validateCitationTier3 } from "@/lib/citation-identification/validation"
+import { settleWithAuthorityIndex, validateCitationWithIndex } from "@/lib/citation-identification/authority-index"
+import { getAgentDefinitions } from "@/lib/citation-identification/agent-definitions"
+import { cacheTier2Validation, cacheTier3Validation, getCachedValidation, getCitationCacheKey, getCurrentDefinitionsVersion, getDefinitionsVersion } from "@/lib/citation-identification/validation-cache"
 import { extractDocumentContext } from "@/lib/citation-identification/context-extractor"
-import { ANTHROPIC_API_KEY } from "@/lib/env"
+import { ANTHROPIC_API_KEY, PROVIDER_API_KEYS } from "@/lib/env"
 import { prisma } from "@/lib/prisma"
 import { logger } from "@/lib/logger"
 
@@ -10,7 +13,7 @@ import { logger } from "@/lib/logger"
  */
 export async function processQueueItems(maxItems: number = 5): Promise<{ processed: number; itemIds: string[]; hasMore: boolean; remainingPending: number }> {
   if (!ANTHROPIC_API_KEY) {
-    throw new Error("Anthropic API key not configured")
+    throw new Error("Anthropic API key not configured (set LLM_MOCK=true to run without one)")
   }
 
   logger.debug(`Processing up to ${maxItems} items`, { maxItems }, 'Worker')
@@ -65,17 +68,31 @@ export async function processQueueItems(maxItems: number = 5): Promise<{ process
       }
 
       const context = extractDocumentContext(citation.id, jsonData, true)
+      // Results for the same authority are shared across documents; null for citations judged in context
+      const cacheKey = getCitationCacheKey(citation)
+      const tier2Version = await getCurrentDefinitionsVersion('tier2', PROVIDER_API_KEYS)
 
       if (queueItem.tier === 'tier2') {
         // Process Tier 2 validation
-        logger.debug(`Starting Tier 2 validation for citation`, { citationId: queueItem.citationId }, 'Worker')
-        const validation = await validateCitationWithPanel(
-          citation,
-          context,
-          ANTHROPIC_API_KEY
-        )
-
-        logger.debug(`Tier 2 validation complete`, { citationId: queueItem.citationId, needsTier3: validation.consensus.tier_3_trigger }, 'Worker')
+        logger.debug(`Starting Tier 2 validation for citation`, { citationId: queueItem.citationId, cacheKey }, 'Worker')
+        // The index is consulted before the cache, so a case it can now settle never gets an old panel verdict
+        const settlement = await settleWithAuthorityIndex(citation)
+        let validation = settlement.validation
+          || (cacheKey ? await getCachedValidation(cacheKey, 'tier2', tier2Version) : null)
+
+        if (!validation) {
+          validation = await validateCitationWithIndex(
+            citation,
+            context,
+            PROVIDER_API_KEYS,
+            settlement
+          )
+          if (cacheKey) {
+            await cacheTier2Validation(cacheKey, citation, validation, tier2Version)
+          }
+        }
+
+        logger.debug(`Tier 2 validation complete`, { citationId: queueItem.citationId, needsTier3: validation.consensus.tier_3_trigger, cached: !!validation.cache }, 'Worker')
         const needsTier3 = validation.consensus.tier_3_trigger
         
         // markQueueItemCompleted now throws on failure, so we catch it here
@@ -105,12 +122,22 @@ export async function processQueueItems(maxItems: number = 5): Promise<{ process
           throw new Error('Tier 2 result not found')
         }
 
-        const tier3Result = await validateCitationTier3(
-          citation,
-          context,
-          tier2Item.result as any,
-          ANTHROPIC_API_KEY
-        )
+        const tier3Definitions = await getAgentDefinitions("tier3")
+        const tier3Version = getDefinitionsVersion(tier3Definitions, PROVIDER_API_KEYS)
+        let tier3Result = cacheKey ? await getCachedValidation(cacheKey, 'tier3', tier3Version) : null
+
+        if (!tier3Result) {
+          tier3Result = await validateCitationTier3(
+            citation,
+            context,
+            tier2Item.result as any,
+            PROVIDER_API_KEYS,
+            tier3Definitions
+          )
+          if (cacheKey) {
+            await cacheTier3Validation(cacheKey, tier2Version, tier3Result, tier3Version)
+          }
+        }
 
         // markQueueItemCompleted now throws on failure, so we catch it here
         try {
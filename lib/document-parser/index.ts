@@ -4,7 +4,23 @@
  */
 
 import mammoth from 'mammoth'
-import { ContentParagraph, CitationDocument, CitationMetadata } from '@/types/citation-json'
+import { ContentParagraph, CitationDocument, CitationMetadata, NoteKind, ParagraphStyle } from '@/types/citation-json'
+import { getOutlineMarkerLevel } from './outline'
+import { classifyDocumentRegions } from './structure'
+
+export { parsePdfDocument } from './pdf'
+export { buildDocumentOutline, getSectionBlockIds } from './outline'
+export type { OutlineNode } from './outline'
+export { classifyDocumentRegions, extractCaptionFields, extractTableOfAuthoritiesEntries } from './structure'
+export type { TableOfAuthoritiesEntry } from './structure'
+
+/**
+ * Check whether an upload should be parsed as PDF
+ * Falls back to the file extension because some browsers send an empty MIME type
+ */
+export function isPdfFile(mimeType: string | null | undefined, filename: string): boolean {
+  return mimeType === 'application/pdf' || filename.toLowerCase().endsWith('.pdf')
+}
 
 // Helper to convert ArrayBuffer to Buffer if needed (for Node.js runtime)
 function toMammothBuffer(buffer: ArrayBuffer): { arrayBuffer: ArrayBuffer } | { buffer: Buffer } {
@@ -21,6 +37,213 @@ function toMammothBuffer(buffer: ArrayBuffer): { arrayBuffer: ArrayBuffer } | {
   return { arrayBuffer: buffer }
 }
 
+// Helper function to extract text from HTML, preserving structure
+function extractTextFromHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n') // Convert <br> to newlines
+    .replace(/<\/p>/gi, '\n\n') // Convert </p> to double newlines
+    .replace(/<\/div>/gi, '\n\n') // Convert </div> to double newlines
+    .replace(/<\/h[1-6]>/gi, '\n\n') // Convert </h> to double newlines
+    .replace(/<[^>]+>/g, '') // Remove all remaining HTML tags
+    .replace(/&nbsp;/g, ' ') // Replace &nbsp; with space
+    .replace(/&amp;/g, '&') // Replace &amp; with &
+    .replace(/&lt;/g, '<') // Replace &lt; with <
+    .replace(/&gt;/g, '>') // Replace &gt; with >
+    .replace(/&quot;/g, '"') // Replace &quot; with "
+    .replace(/&#39;/g, "'") // Replace &#39; with '
+    .replace(/&#160;/g, ' ') // Replace &#160; with space
+    .replace(/\n{3,}/g, '\n\n') // Collapse multiple newlines
+    .trim()
+}
+
+interface DocumentNote {
+  kind: NoteKind
+  noteId: string // Mammoth's note id, e.g. "footnote-3"
+  number: number
+  text: string
+  anchorText: string | null // Text of the block containing the reference mark
+}
+
+/**
+ * Pull footnotes and endnotes out of mammoth's HTML
+ * extractRawText drops notes entirely; convertToHtml renders each reference mark as
+ * <sup><a id="footnote-ref-N"> and the notes themselves as a trailing list of <li id="footnote-N">
+ * Returns the notes and the HTML with note lists and reference marks removed
+ */
+function extractNotesFromHtml(html: string): { notes: DocumentNote[]; bodyHtml: string } {
+  const noteRegex = /<li id="(footnote|endnote)-(-?\d+)">([\s\S]*?)<\/li>/gi
+  const noteTexts = new Map<string, { kind: NoteKind; text: string }>()
+  let match
+  while ((match = noteRegex.exec(html)) !== null) {
+    const kind = match[1].toLowerCase() as NoteKind
+    const innerHtml = match[3].replace(/<a href="#(?:footnote|endnote)-ref-[^"]*">[\s\S]*?<\/a>/gi, '') // Drop back-links
+    const text = extractTextFromHtml(innerHtml).replace(/\s+/g, ' ').trim()
+    if (text) {
+      noteTexts.set(`${kind}-${match[2]}`, { kind, text })
+    }
+  }
+
+  // Remove the note lists, then the reference marks, leaving only body content
+  const bodyHtml = html
+    .replace(/<ol>\s*(?:<li id="(?:footnote|endnote)-[^"]*">[\s\S]*?<\/li>\s*)+<\/ol>/gi, '')
+    .replace(/<sup><a href="#(?:footnote|endnote)-[^"]*" id="(?:footnote|endnote)-ref-[^"]*">[\s\S]*?<\/a><\/sup>/gi, '')
+
+  // Word numbers notes in order of their reference marks, footnotes and endnotes separately
+  const notes: DocumentNote[] = []
+  const counters: Record<NoteKind, number> = { footnote: 0, endnote: 0 }
+  const blockRegex = /<(p|h[1-6]|li)[^>]*>([\s\S]*?)<\/\1>/gi
+  while ((match = blockRegex.exec(html)) !== null) {
+    const blockHtml = match[2]
+    const refRegex = /id="(footnote|endnote)-ref-(-?\d+)"/gi
+    let ref
+    while ((ref = refRegex.exec(blockHtml)) !== null) {
+      const noteId = `${ref[1].toLowerCase()}-${ref[2]}`
+      const note = noteTexts.get(noteId)
+      if (!note || notes.some(n => n.noteId === noteId)) continue
+      counters[note.kind]++
+      const anchorHtml = blockHtml.replace(/<sup><a [^>]*-ref-[^>]*>[\s\S]*?<\/a><\/sup>/gi, '')
+      notes.push({
+        kind: note.kind,
+        noteId,
+        number: counters[note.kind],
+        text: note.text,
+        anchorText: extractTextFromHtml(anchorHtml).replace(/\s+/g, ' ').trim(),
+      })
+    }
+  }
+
+  // Notes whose reference mark could not be found (e.g. inside a table) keep list order
+  for (const [noteId, note] of noteTexts) {
+    if (notes.some(n => n.noteId === noteId)) continue
+    counters[note.kind]++
+    notes.push({ kind: note.kind, noteId, number: counters[note.kind], text: note.text, anchorText: null })
+  }
+
+  return { notes, bodyHtml }
+}
+
+/**
+ * Insert footnote blocks after the block that references them
+ * Anchors are matched on alphanumeric text because raw text and HTML differ in whitespace and entities
+ */
+function insertNotes(content: ContentParagraph[], notes: DocumentNote[]): ContentParagraph[] {
+  if (notes.length === 0) return content
+
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '')
+  const normalizedBlocks = content.map(block => normalize(block.text))
+  const notesByBlock = new Map<number, DocumentNote[]>()
+  const unanchored: DocumentNote[] = []
+
+  for (const note of notes) {
+    const anchor = note.anchorText ? normalize(note.anchorText) : ''
+    let blockIndex = anchor ? normalizedBlocks.indexOf(anchor) : -1
+    if (blockIndex === -1 && anchor.length >= 20) {
+      // Raw text may split or merge paragraphs differently - fall back to a prefix match
+      const prefix = anchor.substring(0, 60)
+      blockIndex = normalizedBlocks.findIndex(text => text.includes(prefix) || (text.length >= 20 && anchor.startsWith(text)))
+    }
+    if (blockIndex === -1) {
+      unanchored.push(note)
+    } else {
+      if (!notesByBlock.has(blockIndex)) notesByBlock.set(blockIndex, [])
+      notesByBlock.get(blockIndex)!.push(note)
+    }
+  }
+
+  const result: ContentParagraph[] = []
+  let footnoteCounter = 1
+  const toBlock = (note: DocumentNote, anchorParagraphId?: string): ContentParagraph => ({
+    type: 'footnote',
+    id: `footnote_${String(footnoteCounter++).padStart(3, '0')}`,
+    footnoteNumber: note.number,
+    noteKind: note.kind,
+    ...(anchorParagraphId ? { anchorParagraphId } : {}),
+    text: note.text,
+  })
+
+  content.forEach((block, index) => {
+    result.push(block)
+    for (const note of notesByBlock.get(index) || []) {
+      result.push(toBlock(note, block.id))
+    }
+  })
+  for (const note of unanchored) {
+    result.push(toBlock(note))
+  }
+
+  return result
+}
+
+interface StyledParagraph {
+  text: string
+  styleId: string | null
+  styleName: string | null
+}
+
+/**
+ * Collect every paragraph of mammoth's document tree with its Word style
+ * Text is built the same way as mammoth's raw text, so entries line up with extractRawText paragraphs
+ */
+function collectStyledParagraphs(element: any, paragraphs: StyledParagraph[]): void {
+  if (!element) return
+  if (element.type === 'paragraph') {
+    paragraphs.push({
+      text: elementToRawText(element),
+      styleId: element.styleId || null,
+      styleName: element.styleName || null,
+    })
+    return
+  }
+  for (const child of element.children || []) {
+    collectStyledParagraphs(child, paragraphs)
+  }
+}
+
+function elementToRawText(element: any): string {
+  if (element.type === 'text') return element.value
+  if (element.type === 'tab') return '\t'
+  return (element.children || []).map(elementToRawText).join('')
+}
+
+/**
+ * Map a Word paragraph style to a block role (and heading level)
+ * Matches both display names ("Heading 2", "toc 1") and style ids ("Heading2", "TOC1")
+ */
+function classifyParagraphStyle(styled: StyledParagraph): { style: ParagraphStyle; level?: number } {
+  const name = (styled.styleName || styled.styleId || '').trim()
+  const heading = name.match(/^heading\s*([1-6])$/i)
+  if (heading) return { style: 'heading', level: parseInt(heading[1]) }
+  if (/^toc(\s*\d+|\s*heading)?$/i.test(name) || /^table of contents/i.test(name)) return { style: 'toc' }
+  if (/caption/i.test(name)) return { style: 'caption' }
+  if (/quote|block\s*text/i.test(name)) return { style: 'blockQuote' }
+  if (/signature/i.test(name)) return { style: 'signatureBlock' }
+  return { style: 'normal' }
+}
+
+/**
+ * Create a lookup that walks the styled paragraphs in document order
+ * Raw text paragraphs are matched on alphanumeric text; unmatched paragraphs get no style
+ */
+function createStyleMatcher(styledParagraphs: StyledParagraph[]): (text: string) => StyledParagraph | null {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '')
+  const normalized = styledParagraphs.map(p => normalize(p.text))
+  let cursor = 0
+
+  return (text: string) => {
+    const target = normalize(text)
+    if (!target) return null
+    // Look ahead a bounded distance so one unmatched paragraph does not desynchronize the rest
+    const limit = Math.min(normalized.length, cursor + 50)
+    for (let i = cursor; i < limit; i++) {
+      if (normalized[i] === target) {
+        cursor = i + 1
+        return styledParagraphs[i]
+      }
+    }
+    return null
+  }
+}
+
 /**
  * Parse Word document buffer to JSON structure
  */
@@ -38,6 +261,7 @@ export async function parseWordDocument(
   // Convert Word document to HTML
   // Mammoth can accept arrayBuffer or buffer - try both formats
   let result
+  const styledParagraphs: StyledParagraph[] = []
   try {
     console.log('[parseWordDocument] Calling mammoth.convertToHtml')
     console.log('[parseWordDocument] Buffer details:', {
@@ -49,7 +273,13 @@ export async function parseWordDocument(
     // Convert buffer to format mammoth expects (arrayBuffer or Buffer)
     const mammothOptions = toMammothBuffer(buffer)
     console.log('[parseWordDocument] Mammoth options:', Object.keys(mammothOptions))
-    result = await mammoth.convertToHtml(mammothOptions)
+    result = await mammoth.convertToHtml(mammothOptions, {
+      // Record paragraph styles as mammoth reads the document; the tree is returned unchanged
+      transformDocument: (documentElement: any) => {
+        collectStyledParagraphs(documentElement, styledParagraphs)
+        return documentElement
+      },
+    })
     console.log('[parseWordDocument] Mammoth conversion successful, HTML length:', result.value?.length || 0)
   } catch (error) {
     console.error('[parseWordDocument] Mammoth conversion error:', error)
@@ -63,6 +293,10 @@ export async function parseWordDocument(
   console.log('[parseWordDocument] Extracted HTML, length:', html?.length || 0)
   console.log('[parseWordDocument] HTML preview (first 500 chars):', html?.substring(0, 500))
 
+  // Footnotes and endnotes only survive in the HTML output
+  const { notes, bodyHtml } = extractNotesFromHtml(html || '')
+  console.log('[parseWordDocument] Extracted', notes.length, 'footnotes/endnotes')
+
   // Parse HTML to extract paragraphs and headings
   const content: ContentParagraph[] = []
   let paraCounter = 1
@@ -119,20 +353,32 @@ export async function parseWordDocument(
       console.log('[parseWordDocument] Total characters in paragraphs:', paragraphs.reduce((sum, p) => sum + p.length, 0))
       console.log('[parseWordDocument] Original text length:', plainText.length)
 
+      // When the document uses Heading styles, trust them over text heuristics
+      const findStyle = createStyleMatcher(styledParagraphs)
+      const usesHeadingStyles = styledParagraphs.some(p => classifyParagraphStyle(p).style === 'heading')
+      console.log('[parseWordDocument] Styled paragraphs:', styledParagraphs.length, 'uses heading styles:', usesHeadingStyles)
+
       // Process each paragraph/line
       paragraphs.forEach((para, index) => {
+        const styled = findStyle(para)
+        const styleInfo = styled ? classifyParagraphStyle(styled) : null
+        const styleName = styled?.styleName ? { styleName: styled.styleName } : {}
+
         // Try to detect headings (lines that are short and might be headings)
-        const isLikelyHeading = para.length < 150 && 
+        const isLikelyHeading = !usesHeadingStyles && (!styleInfo || styleInfo.style === 'normal') && para.length < 150 && 
           (para.match(/^[IVX]+\.?\s+[A-Z]/) || // Roman numerals (I., II., III., etc.)
            para.match(/^[A-Z][A-Z\s]{0,120}$/) || // All caps short line
            para.match(/^[0-9]+\.\s+[A-Z]/) || // Numbered heading (1., 2., etc.)
            para.match(/^[A-Z]\.\s+[A-Z]/)) // Letter heading (A., B., etc.)
 
-        if (isLikelyHeading) {
+        if (styleInfo?.style === 'heading' || isLikelyHeading) {
           content.push({
             type: 'heading',
             id: `heading_${String(headingCounter).padStart(3, '0')}`,
-            level: 1, // Default to level 1, could be improved
+            // Style level when available, otherwise the outline marker (I. / A. / 1. / a.)
+            level: styleInfo?.level || getOutlineMarkerLevel(para) || 1,
+            ...(styleInfo?.style === 'heading' ? { style: styleInfo.style } : {}),
+            ...styleName,
             text: para,
           })
           headingCounter++
@@ -140,6 +386,8 @@ export async function parseWordDocument(
           content.push({
             type: 'paragraph',
             id: `para_${String(paraCounter).padStart(3, '0')}`,
+            ...(styleInfo ? { style: styleInfo.style } : {}),
+            ...styleName,
             text: para,
           })
           paraCounter++
@@ -169,31 +417,12 @@ export async function parseWordDocument(
   if (content.length === 0) {
     console.log('[parseWordDocument] FALLBACK: Parsing HTML structure')
     
-    // Helper function to extract text from HTML, preserving structure
-    function extractTextFromHtml(html: string): string {
-      return html
-        .replace(/<br\s*\/?>/gi, '\n') // Convert <br> to newlines
-        .replace(/<\/p>/gi, '\n\n') // Convert </p> to double newlines
-        .replace(/<\/div>/gi, '\n\n') // Convert </div> to double newlines
-        .replace(/<\/h[1-6]>/gi, '\n\n') // Convert </h> to double newlines
-        .replace(/<[^>]+>/g, '') // Remove all remaining HTML tags
-        .replace(/&nbsp;/g, ' ') // Replace &nbsp; with space
-        .replace(/&amp;/g, '&') // Replace &amp; with &
-        .replace(/&lt;/g, '<') // Replace &lt; with <
-        .replace(/&gt;/g, '>') // Replace &gt; with >
-        .replace(/&quot;/g, '"') // Replace &quot; with "
-        .replace(/&#39;/g, "'") // Replace &#39; with '
-        .replace(/&#160;/g, ' ') // Replace &#160; with space
-        .replace(/\n{3,}/g, '\n\n') // Collapse multiple newlines
-        .trim()
-    }
-
     // Try to parse structured HTML blocks
     const blockRegex = /<(p|h[1-6]|div|li)[^>]*>([\s\S]*?)<\/\1>/gi
     let match
     const processedBlocks = new Set<string>()
 
-    while ((match = blockRegex.exec(html)) !== null) {
+    while ((match = blockRegex.exec(bodyHtml)) !== null) {
       const fullMatch = match[0]
       const tag = match[1].toLowerCase()
       const innerHtml = match[2]
@@ -234,9 +463,9 @@ export async function parseWordDocument(
     console.log('[parseWordDocument] Extracted', content.length, 'blocks from HTML parsing')
 
     // Final fallback: extract all text from HTML
-    if (content.length === 0 && html) {
+    if (content.length === 0 && bodyHtml) {
       console.log('[parseWordDocument] FINAL FALLBACK: Extracting all text from HTML')
-      const allText = extractTextFromHtml(html)
+      const allText = extractTextFromHtml(bodyHtml)
       if (allText && allText.trim().length > 0) {
         // Split into paragraphs
         const paragraphs = allText
@@ -256,10 +485,13 @@ export async function parseWordDocument(
     }
   }
 
-  console.log('[parseWordDocument] Parsed', content.length, 'content blocks')
+  // Place footnotes right after the paragraph that references them
+  const contentWithNotes = content.length > 0 ? insertNotes(content, notes) : content
+
+  console.log('[parseWordDocument] Parsed', contentWithNotes.length, 'content blocks')
   
   // Validate that we have content
-  if (content.length === 0) {
+  if (contentWithNotes.length === 0) {
     console.error('[parseWordDocument] ERROR: No content extracted from document!')
     console.error('[parseWordDocument] HTML length:', html?.length || 0)
     console.error('[parseWordDocument] HTML sample:', html?.substring(0, 1000))
@@ -268,23 +500,27 @@ export async function parseWordDocument(
 
   // Log sample of extracted content for debugging
   console.log('[parseWordDocument] Sample content (first 3 blocks):')
-  content.slice(0, 3).forEach((block, idx) => {
+  contentWithNotes.slice(0, 3).forEach((block, idx) => {
     console.log(`  [${idx}] ${block.type} (${block.id}): ${block.text.substring(0, 100)}...`)
   })
 
+  // Separate caption, table of authorities, signature block and certificate of service from the body
+  const regions = classifyDocumentRegions(contentWithNotes)
+
   // Create metadata
   const metadata: CitationMetadata = {
     filename,
     uploadDate,
     // documentType is optional, will be detected later if needed
     totalCitations: 0, // Will be populated by citation identification
+    ...(regions.caption ? { caption: regions.caption } : {}),
   }
 
   // Create document structure
   const document: CitationDocument = {
     document: {
       metadata,
-      content,
+      content: regions.content,
       citations: [], // Will be populated by citation identification
     },
   }
@@ -360,7 +596,7 @@ export async function parseTextDocument(
       content.push({
         type: 'heading',
         id: `heading_${String(headingCounter).padStart(3, '0')}`,
-        level: 1, // Default to level 1, could be improved
+        level: getOutlineMarkerLevel(para) || 1, // Level from the outline marker (I. / A. / 1. / a.)
         text: para,
       })
       headingCounter++
@@ -388,19 +624,23 @@ export async function parseTextDocument(
     console.log(`  [${idx}] ${block.type} (${block.id}): ${block.text.substring(0, 100)}...`)
   })
 
+  // Separate caption, table of authorities, signature block and certificate of service from the body
+  const regions = classifyDocumentRegions(content)
+
   // Create metadata
   const metadata: CitationMetadata = {
     filename,
     uploadDate,
     // documentType is optional, will be detected later if needed
     totalCitations: 0, // Will be populated by citation identification
+    ...(regions.caption ? { caption: regions.caption } : {}),
   }
 
   // Create document structure
   const document: CitationDocument = {
     document: {
       metadata,
-      content,
+      content: regions.content,
       citations: [], // Will be populated by citation identification
     },
   }
@@ -0,0 +1,96 @@
+/**
+ * Document Outline
+ * Rebuilds a brief's nested outline (I, A, 1, a) from heading blocks
+ */
+
+import { ContentParagraph } from '@/types/citation-json'
+
+export interface OutlineNode {
+  id: string // Heading block id
+  text: string
+  level: number // 1-6
+  marker: string | null // Outline marker without punctuation, e.g. "I", "A", "1", "a"
+  blockIds: string[] // Non-heading blocks between this heading and the next one
+  children: OutlineNode[]
+}
+
+// Marker patterns in brief outline order: I. / A. / 1. / a. / i.
+const OUTLINE_MARKERS: Array<{ pattern: RegExp; level: number }> = [
+  { pattern: /^([IVX]+)\.\s/, level: 1 }, // Roman numerals
+  { pattern: /^([A-Z])\.\s/, level: 2 }, // Capital letters
+  { pattern: /^(\d+)\.\s/, level: 3 }, // Arabic numerals
+  { pattern: /^([ivx]{2,})[.)]\s|^\(([ivx]{2,})\)\s/, level: 5 }, // Lowercase roman (ii., iii.) - checked before letters
+  { pattern: /^([a-z])[.)]\s|^\(([a-z])\)\s/, level: 4 }, // Lowercase letters
+]
+
+/**
+ * Get the outline level implied by a heading's leading marker
+ * Returns null when the text has no recognizable marker
+ */
+export function getOutlineMarkerLevel(text: string): number | null {
+  const marker = getOutlineMarker(text)
+  return marker ? marker.level : null
+}
+
+function getOutlineMarker(text: string): { marker: string; level: number } | null {
+  const trimmed = text.trim()
+  for (const { pattern, level } of OUTLINE_MARKERS) {
+    const match = trimmed.match(pattern)
+    if (match) {
+      return { marker: match[1] || match[2], level }
+    }
+  }
+  return null
+}
+
+/**
+ * Build the nested outline from a document's content blocks
+ * Uses each heading's level; blocks before the first heading are not part of any section
+ */
+export function buildDocumentOutline(content: ContentParagraph[]): OutlineNode[] {
+  const roots: OutlineNode[] = []
+  const stack: OutlineNode[] = []
+  let current: OutlineNode | null = null
+
+  for (const block of content) {
+    if (block.type !== 'heading') {
+      if (current) current.blockIds.push(block.id)
+      continue
+    }
+
+    const text = block.text
+      .replace(/\[CITATION:[^\]]+\]/g, '')
+      .replace(/\[\/CITATION:[^\]]+\]/g, '')
+      .trim()
+    const node: OutlineNode = {
+      id: block.id,
+      text,
+      level: block.level || getOutlineMarkerLevel(text) || 1,
+      marker: getOutlineMarker(text)?.marker || null,
+      blockIds: [],
+      children: [],
+    }
+
+    // Close sections at the same or a deeper level
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop()
+    }
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node)
+    } else {
+      roots.push(node)
+    }
+    stack.push(node)
+    current = node
+  }
+
+  return roots
+}
+
+/**
+ * Collect the block ids of a section including all of its subsections
+ */
+export function getSectionBlockIds(node: OutlineNode): string[] {
+  return [node.id, ...node.blockIds, ...node.children.flatMap(getSectionBlockIds)]
+}
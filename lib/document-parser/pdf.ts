@@ -0,0 +1,473 @@
+/**
+ * PDF Document Parser
+ * Converts PDF documents to the same JSON structure as Word documents
+ * Uses pdf.js text positions to rebuild reading order (columns) and drop running headers/footers
+ */
+
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api'
+import { ContentParagraph, CitationDocument, CitationMetadata } from '@/types/citation-json'
+import { classifyDocumentRegions } from './structure'
+
+// Fraction of the page height treated as header/footer margin
+const MARGIN_ZONE_RATIO = 0.1
+
+// A header/footer line must repeat on at least this share of pages
+const REPEATED_LINE_RATIO = 0.5
+
+// Items whose baselines differ by less than this (in PDF units) are on the same line
+const LINE_Y_TOLERANCE = 2.5
+
+interface PdfLine {
+  text: string
+  x: number // Left edge
+  right: number // Right edge
+  y: number // Baseline (PDF coordinates, origin bottom-left)
+  fontSize: number
+}
+
+interface PdfPage {
+  pageNumber: number
+  width: number
+  height: number
+  lines: PdfLine[]
+}
+
+interface PdfBlock {
+  text: string
+  page: number
+  fontSize: number
+}
+
+/**
+ * Group positioned text items into lines sorted top-to-bottom, left-to-right
+ * Runs on the same baseline separated by a wide gap (a column gutter) become separate lines
+ */
+function groupItemsIntoLines(items: TextItem[]): PdfLine[] {
+  const sorted = [...items].sort((a, b) => {
+    const dy = b.transform[5] - a.transform[5]
+    if (Math.abs(dy) > LINE_Y_TOLERANCE) return dy
+    return a.transform[4] - b.transform[4]
+  })
+
+  const rows: Array<{ items: TextItem[]; y: number }> = []
+  for (const item of sorted) {
+    const y = item.transform[5]
+    const current = rows[rows.length - 1]
+    if (current && Math.abs(current.y - y) <= LINE_Y_TOLERANCE) {
+      current.items.push(item)
+    } else {
+      rows.push({ items: [item], y })
+    }
+  }
+
+  const lines: PdfLine[] = []
+  for (const row of rows) {
+    row.items.sort((a, b) => a.transform[4] - b.transform[4])
+
+    let segment: TextItem[] = []
+    let previousRight: number | null = null
+    const flushSegment = () => {
+      if (segment.length > 0) lines.push(buildLine(segment, row.y))
+      segment = []
+    }
+
+    for (const item of row.items) {
+      const x = item.transform[4]
+      const fontSize = Math.abs(item.transform[3]) || item.height || 10
+      if (previousRight !== null && x - previousRight > fontSize * 1.5) {
+        flushSegment()
+      }
+      segment.push(item)
+      previousRight = x + item.width
+    }
+    flushSegment()
+  }
+
+  return lines.filter(line => line.text.length > 0)
+}
+
+/**
+ * Build a single line from left-to-right sorted items on one baseline
+ */
+function buildLine(items: TextItem[], y: number): PdfLine {
+  // Join items, inserting a space where pdf.js left a visible gap between runs
+  let text = ''
+  let previousRight: number | null = null
+  for (const item of items) {
+    const x = item.transform[4]
+    const gap = previousRight === null ? 0 : x - previousRight
+    const fontSize = Math.abs(item.transform[3]) || item.height || 10
+    if (text && !text.endsWith(' ') && !item.str.startsWith(' ') && gap > fontSize * 0.15) {
+      text += ' '
+    }
+    text += item.str
+    previousRight = x + item.width
+  }
+
+  const first = items[0]
+  const last = items[items.length - 1]
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    x: first.transform[4],
+    right: last.transform[4] + last.width,
+    y,
+    fontSize: Math.max(...items.map(i => Math.abs(i.transform[3]) || i.height || 0)),
+  }
+}
+
+/**
+ * Normalize a header/footer candidate so "Page 3 of 12" and "Page 4 of 12" compare equal
+ */
+function normalizeMarginLine(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Remove running headers, footers and page numbers
+ * A line in the top or bottom margin zone is dropped if it is a bare page number
+ * or if the same (digit-normalized) text appears on enough other pages
+ */
+function removeHeadersAndFooters(pages: PdfPage[]): number {
+  const isInMargin = (line: PdfLine, page: PdfPage) =>
+    line.y > page.height * (1 - MARGIN_ZONE_RATIO) || line.y < page.height * MARGIN_ZONE_RATIO
+
+  const occurrences = new Map<string, Set<number>>()
+  for (const page of pages) {
+    for (const line of page.lines) {
+      if (!isInMargin(line, page)) continue
+      const key = normalizeMarginLine(line.text)
+      if (!occurrences.has(key)) occurrences.set(key, new Set())
+      occurrences.get(key)!.add(page.pageNumber)
+    }
+  }
+
+  const minRepeats = Math.max(2, Math.ceil(pages.length * REPEATED_LINE_RATIO))
+  const pageNumberPattern = /^(?:page\s+)?[-–]?\s*(?:\d+|[ivxlc]+)\s*[-–]?(?:\s+of\s+\d+)?$/i
+  let removed = 0
+
+  for (const page of pages) {
+    page.lines = page.lines.filter(line => {
+      if (!isInMargin(line, page)) return true
+      const repeated = (occurrences.get(normalizeMarginLine(line.text))?.size || 0) >= minRepeats
+      if (pageNumberPattern.test(line.text) || (pages.length > 1 && repeated)) {
+        removed++
+        return false
+      }
+      return true
+    })
+  }
+
+  return removed
+}
+
+/**
+ * Find a vertical gutter separating two text columns, if the page has one
+ * Returns the x coordinate of the gutter, or null for single-column pages
+ */
+function findColumnGutter(page: PdfPage): number | null {
+  if (page.lines.length < 6) return null
+
+  const candidates: number[] = []
+  for (let ratio = 0.35; ratio <= 0.65; ratio += 0.01) {
+    candidates.push(page.width * ratio)
+  }
+
+  // Pick the candidate crossed by the fewest lines
+  let best: { gutter: number; crossing: number } | null = null
+  for (const gutter of candidates) {
+    let left = 0
+    let right = 0
+    let crossing = 0
+    for (const line of page.lines) {
+      if (line.right <= gutter) left++
+      else if (line.x >= gutter) right++
+      else crossing++
+    }
+    // Both sides need real content, and only a few full-width lines (title, caption) may span it
+    if (left >= 3 && right >= 3 && crossing <= Math.max(2, page.lines.length * 0.15)) {
+      if (!best || crossing < best.crossing) {
+        best = { gutter, crossing }
+      }
+    }
+  }
+
+  return best ? best.gutter : null
+}
+
+/**
+ * Order a page's lines for reading
+ * Full-width lines act as separators; between them, the left column is read before the right
+ */
+function orderLinesForReading(page: PdfPage): PdfLine[][] {
+  const gutter = findColumnGutter(page)
+  if (gutter === null) {
+    return [page.lines]
+  }
+
+  const flows: PdfLine[][] = []
+  let left: PdfLine[] = []
+  let right: PdfLine[] = []
+
+  const flushColumns = () => {
+    if (left.length > 0) flows.push(left)
+    if (right.length > 0) flows.push(right)
+    left = []
+    right = []
+  }
+
+  for (const line of page.lines) {
+    if (line.right <= gutter) {
+      left.push(line)
+    } else if (line.x >= gutter) {
+      right.push(line)
+    } else {
+      flushColumns()
+      flows.push([line])
+    }
+  }
+  flushColumns()
+
+  return flows
+}
+
+/**
+ * Join a flow of lines into paragraph blocks
+ * A paragraph ends on a large vertical gap, a font size change, or a short line ending a sentence
+ */
+function linesToBlocks(lines: PdfLine[], pageNumber: number): PdfBlock[] {
+  if (lines.length === 0) return []
+
+  const gaps: number[] = []
+  for (let i = 1; i < lines.length; i++) {
+    const gap = lines[i - 1].y - lines[i].y
+    if (gap > 0) gaps.push(gap)
+  }
+  gaps.sort((a, b) => a - b)
+  const typicalGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : lines[0].fontSize * 1.2
+
+  const flowLeft = Math.min(...lines.map(l => l.x))
+  const flowRight = Math.max(...lines.map(l => l.right))
+  const flowWidth = flowRight - flowLeft || 1
+
+  const blocks: PdfBlock[] = []
+  let current: { lines: PdfLine[] } | null = null
+
+  const flush = () => {
+    if (!current) return
+    let text = ''
+    for (const line of current.lines) {
+      if (text.endsWith('-') && /^[a-z]/.test(line.text)) {
+        text = text.slice(0, -1) + line.text // Rejoin words hyphenated across lines
+      } else {
+        text = text ? `${text} ${line.text}` : line.text
+      }
+    }
+    blocks.push({
+      text: text.trim(),
+      page: pageNumber,
+      fontSize: Math.max(...current.lines.map(l => l.fontSize)),
+    })
+    current = null
+  }
+
+  lines.forEach((line, index) => {
+    if (!current) {
+      current = { lines: [line] }
+      return
+    }
+    const previous = lines[index - 1]
+    const gap = previous.y - line.y
+    const largeGap = gap > typicalGap * 1.5 || gap < 0
+    const fontChange = Math.abs(previous.fontSize - line.fontSize) > 1
+    const previousEndedShort = previous.right < flowLeft + flowWidth * 0.7 && /[.:;!?"”)]$/.test(previous.text)
+    const indented = line.x > flowLeft + previous.fontSize * 1.5 && previous.x <= flowLeft + 1
+
+    if (largeGap || fontChange || previousEndedShort || indented) {
+      flush()
+      current = { lines: [line] }
+    } else {
+      current.lines.push(line)
+    }
+  })
+  flush()
+
+  return blocks
+}
+
+/**
+ * Detect headings (same heuristics as the Word/text parsers, plus font size)
+ */
+function isLikelyHeading(text: string, fontSize: number, bodyFontSize: number): boolean {
+  if (text.length >= 150) return false
+  const patternHeading = !!(
+    text.match(/^[IVX]+\.?\s+[A-Z]/) || // Roman numerals (I., II., III., etc.)
+    text.match(/^[A-Z][A-Z\s]{0,120}$/) || // All caps short line
+    text.match(/^[0-9]+\.\s+[A-Z]/) || // Numbered heading (1., 2., etc.)
+    text.match(/^[A-Z]\.\s+[A-Z]/) // Letter heading (A., B., etc.)
+  )
+  const largerFont = fontSize > bodyFontSize * 1.15 && !/[.;,]$/.test(text)
+  return patternHeading || largerFont
+}
+
+/**
+ * Parse PDF document buffer to JSON structure
+ * Produces the same CitationDocument shape as parseWordDocument, with page numbers on each block
+ */
+export async function parsePdfDocument(
+  buffer: ArrayBuffer,
+  filename: string,
+  uploadDate: string
+): Promise<CitationDocument> {
+  console.log('[parsePdfDocument] Starting parse:', {
+    filename,
+    bufferSize: buffer.byteLength,
+  })
+
+  let pdf
+  try {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    // pdf.js takes ownership of the data, so hand it a copy
+    pdf = await pdfjs.getDocument({
+      data: new Uint8Array(buffer.slice(0)),
+      isEvalSupported: false,
+      useSystemFonts: true,
+      disableFontFace: true,
+    }).promise
+  } catch (error) {
+    console.error('[parsePdfDocument] pdf.js load error:', error)
+    throw new Error(`Failed to open PDF document: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  console.log('[parsePdfDocument] PDF loaded, pages:', pdf.numPages)
+
+  // Collect positioned lines for each page
+  const pages: PdfPage[] = []
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: 1 })
+    const textContent = await page.getTextContent()
+    const items = textContent.items.filter(
+      (item: TextItem | TextMarkedContent): item is TextItem => 'str' in item && item.str.trim().length > 0
+    )
+    pages.push({
+      pageNumber,
+      width: viewport.width,
+      height: viewport.height,
+      lines: groupItemsIntoLines(items),
+    })
+    page.cleanup()
+  }
+  await pdf.destroy()
+
+  const totalLines = pages.reduce((sum, page) => sum + page.lines.length, 0)
+  if (totalLines === 0) {
+    console.error('[parsePdfDocument] ERROR: No text layer found in PDF')
+    throw new Error('Failed to extract any text from the PDF. The document may be a scanned image without a text layer.')
+  }
+
+  const removedLines = removeHeadersAndFooters(pages)
+  console.log('[parsePdfDocument] Removed', removedLines, 'header/footer lines')
+
+  // Rebuild paragraphs in reading order
+  const blocks: PdfBlock[] = []
+  for (const page of pages) {
+    const flows = orderLinesForReading(page)
+    if (flows.length > 1) {
+      console.log(`[parsePdfDocument] Page ${page.pageNumber}: ${flows.length} reading flows (multi-column layout)`)
+    }
+    for (const flow of flows) {
+      blocks.push(...linesToBlocks(flow, page.pageNumber))
+    }
+  }
+
+  // Merge paragraphs that continue across a page or column break
+  const mergedBlocks: PdfBlock[] = []
+  for (const block of blocks) {
+    const previous = mergedBlocks[mergedBlocks.length - 1]
+    if (
+      previous &&
+      !/[.:;!?"”)]$/.test(previous.text) &&
+      /^[a-z(§]/.test(block.text) &&
+      Math.abs(previous.fontSize - block.fontSize) <= 1
+    ) {
+      previous.text = previous.text.endsWith('-')
+        ? previous.text.slice(0, -1) + block.text
+        : `${previous.text} ${block.text}`
+    } else {
+      mergedBlocks.push({ ...block })
+    }
+  }
+
+  // Body font size = most common block font size
+  const sizeCounts = new Map<number, number>()
+  mergedBlocks.forEach(block => {
+    const size = Math.round(block.fontSize)
+    sizeCounts.set(size, (sizeCounts.get(size) || 0) + block.text.length)
+  })
+  const bodyFontSize = [...sizeCounts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 12
+
+  // Larger fonts get higher heading levels (largest = level 1)
+  const headingSizes = [...new Set(
+    mergedBlocks
+      .filter(block => Math.round(block.fontSize) > bodyFontSize)
+      .map(block => Math.round(block.fontSize))
+  )].sort((a, b) => b - a)
+
+  const content: ContentParagraph[] = []
+  let paraCounter = 1
+  let headingCounter = 1
+
+  mergedBlocks.forEach(block => {
+    if (isLikelyHeading(block.text, block.fontSize, bodyFontSize)) {
+      const sizeRank = headingSizes.indexOf(Math.round(block.fontSize))
+      content.push({
+        type: 'heading',
+        id: `heading_${String(headingCounter).padStart(3, '0')}`,
+        level: sizeRank >= 0 ? Math.min(sizeRank + 1, 6) : 1,
+        text: block.text,
+        page: block.page,
+      })
+      headingCounter++
+    } else {
+      content.push({
+        type: 'paragraph',
+        id: `para_${String(paraCounter).padStart(3, '0')}`,
+        text: block.text,
+        page: block.page,
+      })
+      paraCounter++
+    }
+  })
+
+  console.log('[parsePdfDocument] Parsed', content.length, 'content blocks')
+
+  // Log sample of extracted content for debugging
+  console.log('[parsePdfDocument] Sample content (first 3 blocks):')
+  content.slice(0, 3).forEach((block, idx) => {
+    console.log(`  [${idx}] ${block.type} (${block.id}, p.${block.page}): ${block.text.substring(0, 100)}...`)
+  })
+
+  // Separate caption, table of authorities, signature block and certificate of service from the body
+  const regions = classifyDocumentRegions(content)
+
+  // Create metadata
+  const metadata: CitationMetadata = {
+    filename,
+    uploadDate,
+    totalCitations: 0, // Will be populated by citation identification
+    pageCount: pages.length,
+    ...(regions.caption ? { caption: regions.caption } : {}),
+  }
+
+  // Create document structure
+  const document: CitationDocument = {
+    document: {
+      metadata,
+      content: regions.content,
+      citations: [], // Will be populated by citation identification
+    },
+  }
+
+  console.log('[parsePdfDocument] Document structure created successfully')
+  return document
+}
@@ -0,0 +1,348 @@
+/**
+ * Document Structure Classifier
+ * Separates the caption, table of authorities, signature block and certificate of service
+ * from the body of a brief so they are not treated as ordinary paragraphs
+ */
+
+import { ContentParagraph, CaseCaption } from '@/types/citation-json'
+
+// How far into the document the caption may start
+const CAPTION_START_WINDOW = 3
+
+// Caption, signature and TOA lines are short; a longer block ends the region
+const MAX_CAPTION_LINE_LENGTH = 250
+const MAX_SIGNATURE_LINE_LENGTH = 150
+const MAX_TOA_ENTRY_LENGTH = 500 // An entry can hold a long case name, its parallel cites and a string of page numbers
+
+const COURT_PATTERN = /\b(COURT|TRIBUNAL|BANKRUPTCY|JUDICIAL DISTRICT|COURT OF APPEALS?)\b/i
+const COURT_NAME_START_PATTERN = /^(in the\s+)?(united states|supreme|superior|circuit|district|bankruptcy|county|family|probate|court)\b/i
+const COURT_CONTINUATION_PATTERN = /^(FOR|OF|IN AND FOR)\s+THE\b|^(NORTHERN|SOUTHERN|EASTERN|WESTERN|CENTRAL|MIDDLE)\s+DISTRICT\b|^DISTRICT OF\b|\bDIVISION$/i
+const CASE_NUMBER_PATTERN = /\b(?:Case|Civil Action|Civ\. Action|Criminal|Crim\.|Docket|Index|Cause|Adv(?:ersary)?\.? Proc(?:eeding)?\.?)\s*(?:No|Number)s?\.?:?\s*([A-Za-z0-9][A-Za-z0-9:\-–.\/ ]*\d[A-Za-z0-9\-–\/()]*)/i
+const BARE_CASE_NUMBER_PATTERN = /\b\d{1,2}:\d{2}-[a-z]{2,4}-\d{3,6}(?:-[A-Z]{1,4})*\b/i
+const PARTY_ROLE_PATTERN = /^(.*?)[,\s]*\b(Plaintiffs?|Defendants?|Petitioners?|Respondents?|Appellants?|Appellees?|Movants?|Intervenors?|Debtors?|Counter-?(?:Plaintiffs?|Defendants?)|Third-Party (?:Plaintiffs?|Defendants?))((?:\s*(?:,|and|-|–)\s*[A-Z][a-z-]+)*)[.,;]?\s*$/i
+const VERSUS_PATTERN = /\s+(?:v\.|vs\.?|versus|against)\s+/i
+const CAPTION_FILLER_PATTERN = /^[\s)(§:xX\-_*|]*$/ // Column rules and brackets used to lay out captions
+const IN_RE_PATTERN = /^(In re|In the Matter of)\b/i
+
+const TOA_HEADING_PATTERN = /^(TABLE OF (AUTHORITIES|CITATIONS|CASES)|INDEX OF AUTHORITIES)\b/i
+const TOA_CATEGORY_PATTERN = /^((federal|state|other|u\.s\.|united states)\s+)?(cases|statutes|rules|regulations|authorities|constitutional provisions|treatises|law review articles|secondary (sources|authorities)|miscellaneous|legislative (history|materials)|other authorities|page\(?s?\)?)(\s+and\s+\w+)?(\s+page\(?s?\)?)?:?$/i
+const TOA_ENTRY_PATTERN = /(\.{3,}|…|\t|\s{2,})\s*(¶{1,2}\s*)?(\d+(\s*[,–-]\s*\d+)*|passim)\s*$|(¶{1,2}\s*)?(\d+(\s*,\s*\d+)+|passim)\s*$/i
+
+const SIGNATURE_START_PATTERN = /^(Respectfully submitted|Dated:|Date:|\/s\/|By:\s|s\/\s)/i
+const CERTIFICATE_OF_SERVICE_PATTERN = /^(CERTIFICATE OF SERVICE|PROOF OF SERVICE|AFFIDAVIT OF SERVICE|CERTIFICATE OF FILING AND SERVICE)\b/i
+
+function isBodyBlock(block: ContentParagraph): boolean {
+  return block.type === 'paragraph' || block.type === 'heading'
+}
+
+/**
+ * Check whether a block looks like part of a case caption
+ */
+function isCaptionLine(block: ContentParagraph): boolean {
+  if (block.style === 'caption') return true
+  const text = block.text.trim()
+  if (text.length > MAX_CAPTION_LINE_LENGTH) return false
+  return (
+    COURT_PATTERN.test(text) ||
+    COURT_CONTINUATION_PATTERN.test(text) ||
+    CASE_NUMBER_PATTERN.test(text) ||
+    BARE_CASE_NUMBER_PATTERN.test(text) ||
+    (text.length <= 120 && PARTY_ROLE_PATTERN.test(text)) ||
+    /^(v\.|vs\.?|versus|against|-\s*against\s*-)$/i.test(text) ||
+    IN_RE_PATTERN.test(text) ||
+    CAPTION_FILLER_PATTERN.test(text)
+  )
+}
+
+/**
+ * Find the caption at the top of the document
+ * The caption runs from the first caption-like block through the last one before body text starts;
+ * short unmatched lines in between (party names laid out in a table) belong to it
+ */
+function findCaptionRange(content: ContentParagraph[]): { start: number; end: number } | null {
+  const start = content.findIndex(block => isBodyBlock(block) && isCaptionLine(block))
+  if (start === -1 || start >= CAPTION_START_WINDOW) return null
+  // The first line must be a short court or "In re" line, not just a stray bracket or a sentence about the court
+  const first = content[start]
+  const firstText = first.text.trim()
+  const opensCaption = first.style === 'caption' || (
+    firstText.length <= 120 &&
+    ((COURT_PATTERN.test(firstText) && (firstText === firstText.toUpperCase() || COURT_NAME_START_PATTERN.test(firstText))) ||
+      IN_RE_PATTERN.test(firstText))
+  )
+  if (!opensCaption) return null
+
+  let end = start
+  let gap = 0
+  for (let i = start + 1; i < content.length; i++) {
+    const block = content[i]
+    if (!isBodyBlock(block)) continue
+    if (isCaptionLine(block)) {
+      end = i
+      gap = 0
+    } else if (block.text.length <= MAX_CAPTION_LINE_LENGTH / 2 && gap < 2 && block.type !== 'heading') {
+      gap++ // Possibly a party name; only kept if another caption line follows
+    } else {
+      break
+    }
+  }
+
+  return { start, end }
+}
+
+/**
+ * Extract court, case number and parties from caption blocks
+ */
+export function extractCaptionFields(blocks: ContentParagraph[]): CaseCaption {
+  const lines = blocks.map(block => block.text.trim()).filter(text => text && !CAPTION_FILLER_PATTERN.test(text))
+  const caption: CaseCaption = { parties: [] }
+
+  // Court name, joined with its continuation lines ("FOR THE SOUTHERN DISTRICT OF NEW YORK")
+  const courtIndex = lines.findIndex(line => COURT_PATTERN.test(line) && !CASE_NUMBER_PATTERN.test(line))
+  if (courtIndex !== -1) {
+    const courtLines = [lines[courtIndex]]
+    for (let i = courtIndex + 1; i < lines.length && COURT_CONTINUATION_PATTERN.test(lines[i]); i++) {
+      courtLines.push(lines[i])
+    }
+    caption.court = courtLines.join(' ').replace(/\s+/g, ' ').trim()
+  }
+
+  for (const line of lines) {
+    const match = line.match(CASE_NUMBER_PATTERN) || line.match(BARE_CASE_NUMBER_PATTERN)
+    if (match) {
+      caption.caseNumber = (match[1] || match[0]).trim().replace(/[.,;]$/, '')
+      break
+    }
+  }
+
+  // Parties: a name followed by its role, either on one line or with the role on the next line
+  const isStructural = (line: string) =>
+    COURT_PATTERN.test(line) || COURT_CONTINUATION_PATTERN.test(line) ||
+    CASE_NUMBER_PATTERN.test(line) || BARE_CASE_NUMBER_PATTERN.test(line) ||
+    /^(v\.|vs\.?|versus|against|-\s*against\s*-)$/i.test(line)
+  const segments = lines.flatMap(line => line.split(VERSUS_PATTERN))
+  let pendingName: string | null = null
+  for (const segment of segments) {
+    const text = segment.trim()
+    if (!text || isStructural(text)) {
+      pendingName = null
+      continue
+    }
+    const roleMatch = text.match(PARTY_ROLE_PATTERN)
+    if (roleMatch) {
+      const name = roleMatch[1].replace(/[,\s]+$/, '').trim() || pendingName
+      if (name) {
+        caption.parties.push({ name, role: normalizeRole(roleMatch[2]) })
+      }
+      pendingName = null
+    } else if (IN_RE_PATTERN.test(text)) {
+      caption.parties.push({ name: text.replace(/[,.]$/, '') })
+      pendingName = null
+    } else {
+      pendingName = pendingName ? `${pendingName} ${text}` : text
+      pendingName = pendingName.replace(/[,\s]+$/, '')
+    }
+  }
+
+  return caption
+}
+
+function normalizeRole(role: string): string {
+  const singular = role.replace(/s$/i, '')
+  return singular.charAt(0).toUpperCase() + singular.slice(1).toLowerCase()
+}
+
+/**
+ * Find the table of authorities
+ * Starts at its heading and runs through category headings and entries ending in page references
+ */
+function findTableOfAuthoritiesRange(content: ContentParagraph[]): { start: number; end: number } | null {
+  const start = content.findIndex(block => isBodyBlock(block) && TOA_HEADING_PATTERN.test(block.text.trim()))
+  if (start === -1) return null
+
+  let end = start
+  for (let i = start + 1; i < content.length; i++) {
+    const block = content[i]
+    if (!isBodyBlock(block)) continue
+    const text = block.text.trim()
+    const isCategory = TOA_CATEGORY_PATTERN.test(text)
+    const isEntry = TOA_ENTRY_PATTERN.test(text) && text.length <= MAX_TOA_ENTRY_LENGTH
+    if (block.style === 'toc') break // A table of contents after the TOA
+    if (isCategory || isEntry) {
+      end = i
+    } else if (block.type !== 'heading' && text.length <= MAX_CAPTION_LINE_LENGTH && i === end + 1) {
+      // Entries that wrap before their page numbers: keep only if an entry follows
+      const next = content.slice(i + 1).find(isBodyBlock)
+      if (next && TOA_ENTRY_PATTERN.test(next.text.trim())) {
+        end = i
+      } else {
+        break
+      }
+    } else {
+      break
+    }
+  }
+
+  return { start, end }
+}
+
+/**
+ * Find the certificate of service, which runs from its heading to the next heading or the end
+ */
+function findCertificateOfServiceRange(content: ContentParagraph[]): { start: number; end: number } | null {
+  let start = -1
+  for (let i = content.length - 1; i >= 0; i--) {
+    if (isBodyBlock(content[i]) && CERTIFICATE_OF_SERVICE_PATTERN.test(content[i].text.trim())) {
+      start = i
+      break
+    }
+  }
+  if (start === -1) return null
+
+  let end = start
+  for (let i = start + 1; i < content.length; i++) {
+    if (content[i].type === 'heading') break
+    end = i
+  }
+  return { start, end }
+}
+
+/**
+ * Find the signature block that closes the brief (before any certificate of service)
+ */
+function findSignatureBlockRange(
+  content: ContentParagraph[],
+  limit: number
+): { start: number; end: number } | null {
+  let start = -1
+  for (let i = limit - 1; i >= 0; i--) {
+    const block = content[i]
+    if (!isBodyBlock(block)) continue
+    if (block.style === 'signatureBlock' || SIGNATURE_START_PATTERN.test(block.text.trim())) {
+      start = i
+      // Keep walking back over adjacent signature lines ("Dated:", "Respectfully submitted,")
+      while (
+        start > 0 &&
+        isBodyBlock(content[start - 1]) &&
+        (content[start - 1].style === 'signatureBlock' || SIGNATURE_START_PATTERN.test(content[start - 1].text.trim()))
+      ) {
+        start--
+      }
+      break
+    }
+    // Only look in the closing part of the document
+    if (block.text.length > MAX_SIGNATURE_LINE_LENGTH * 2) break
+  }
+  if (start === -1) return null
+
+  let end = start
+  for (let i = start + 1; i < limit; i++) {
+    const block = content[i]
+    if (block.type === 'heading') break
+    if (!isBodyBlock(block)) continue
+    if (block.text.length > MAX_SIGNATURE_LINE_LENGTH && block.style !== 'signatureBlock') break
+    end = i
+  }
+  return { start, end }
+}
+
+/**
+ * Classify structural regions of a parsed document
+ * Matching blocks keep their ids; only their type changes. Returns the caption fields when found.
+ */
+export function classifyDocumentRegions(content: ContentParagraph[]): {
+  content: ContentParagraph[]
+  caption: CaseCaption | null
+} {
+  const types = new Map<number, ContentParagraph['type']>()
+  const markRange = (range: { start: number; end: number } | null, type: ContentParagraph['type']) => {
+    if (!range) return
+    for (let i = range.start; i <= range.end; i++) {
+      if (isBodyBlock(content[i]) && !types.has(i)) types.set(i, type)
+    }
+  }
+
+  const captionRange = findCaptionRange(content)
+  markRange(captionRange, 'caption')
+  markRange(findTableOfAuthoritiesRange(content), 'tableOfAuthorities')
+  const certificateRange = findCertificateOfServiceRange(content)
+  markRange(certificateRange, 'certificateOfService')
+  markRange(findSignatureBlockRange(content, certificateRange ? certificateRange.start : content.length), 'signatureBlock')
+
+  const classified = content.map((block, index) => {
+    const type = types.get(index)
+    return type ? { ...block, type } : block
+  })
+
+  let caption: CaseCaption | null = null
+  if (captionRange) {
+    caption = extractCaptionFields(content.slice(captionRange.start, captionRange.end + 1))
+  }
+
+  console.log('[classifyDocumentRegions] Classified', types.size, 'structural blocks', {
+    caption: !!captionRange,
+    tableOfAuthorities: classified.some(b => b.type === 'tableOfAuthorities'),
+    signatureBlock: classified.some(b => b.type === 'signatureBlock'),
+    certificateOfService: !!certificateRange,
+  })
+
+  return { content: classified, caption }
+}
+
+export interface TableOfAuthoritiesEntry {
+  blockIds: string[] // More than one when the entry wraps before its page references
+  text: string // Authority as listed, without dot leaders and page references
+  category?: string // Category heading the entry falls under, e.g. "Cases"
+  pages: string[] // Page (or ¶) references as listed, e.g. ["3", "7-9"] or ["passim"]
+}
+
+const TOA_PAGES_PATTERN = /(?:\.{3,}|…|\t|\s{2,})\s*(?:¶{1,2}\s*)?(\d+(?:\s*[,–-]\s*\d+)*|passim)\s*$|\s(?:¶{1,2}\s*)?(\d+(?:\s*,\s*\d+)+|passim)\s*$/i
+
+/**
+ * Extract the entries listed in a classified table of authorities
+ * Joins entries that wrap across blocks and splits off their page references
+ */
+export function extractTableOfAuthoritiesEntries(content: ContentParagraph[]): TableOfAuthoritiesEntry[] {
+  const entries: TableOfAuthoritiesEntry[] = []
+  let category: string | undefined
+  let pendingText = ''
+  let pendingIds: string[] = []
+
+  for (const block of content) {
+    if (block.type !== 'tableOfAuthorities') continue
+    const text = block.text
+      .replace(/\[CITATION:[^\]]+\]/g, '')
+      .replace(/\[\/CITATION:[^\]]+\]/g, '')
+      .trim()
+    if (!text || TOA_HEADING_PATTERN.test(text)) continue
+
+    if (TOA_CATEGORY_PATTERN.test(text)) {
+      if (!/^page/i.test(text)) {
+        category = text.replace(/\s+page\(?s?\)?:?$/i, '').replace(/:$/, '')
+      }
+      pendingText = ''
+      pendingIds = []
+      continue
+    }
+
+    const joined = pendingText ? `${pendingText} ${text}` : text
+    const pagesMatch = joined.match(TOA_PAGES_PATTERN)
+    if (!pagesMatch) {
+      pendingText = joined
+      pendingIds.push(block.id)
+      continue
+    }
+
+    const pageList = pagesMatch[1] || pagesMatch[2]
+    entries.push({
+      blockIds: [...pendingIds, block.id],
+      text: joined.slice(0, pagesMatch.index).replace(/[\s.…,]+$/, '').trim(),
+      category,
+      pages: /passim/i.test(pageList) ? ['passim'] : pageList.split(',').map(page => page.trim()).filter(Boolean),
+    })
+    pendingText = ''
+    pendingIds = []
+  }
+
+  return entries
+}
@@ -1,6 +1,34 @@
 export const BLOB_READ_WRITE_TOKEN = process.env.BLOB_READ_WRITE_TOKEN || '';
-export const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || '';
-export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || '';
-export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
-export const GROK_API_KEY = process.env.GROK_API_KEY || '';
 
+// Offline mode: every model call is answered by the mock provider (lib/llm/providers/mock.ts), and a
+// provider without a key gets a placeholder so key checks pass; nothing is sent over the network
+export const LLM_MOCK = process.env.LLM_MOCK === 'true';
+const MOCK_API_KEY = 'mock';
+
+export const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY || (LLM_MOCK ? MOCK_API_KEY : '');
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || (LLM_MOCK ? MOCK_API_KEY : '');
+export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || (LLM_MOCK ? MOCK_API_KEY : '');
+export const GROK_API_KEY = process.env.GROK_API_KEY || (LLM_MOCK ? MOCK_API_KEY : '');
+
+export const PROVIDER_API_KEYS = {
+  anthropic: ANTHROPIC_API_KEY,
+  openai: OPENAI_API_KEY,
+  gemini: GEMINI_API_KEY,
+  grok: GROK_API_KEY,
+};
+
+// Tier 2 agent assignments, e.g. "case_ecology_validator_v1=openai:gpt-4o" (see getPanelModels)
+export const TIER2_PANEL_MODELS = process.env.TIER2_PANEL_MODELS || '';
+
+export const AUTHORITY_INDEX_PATH = process.env.AUTHORITY_INDEX_PATH || '';
+export const OPINION_CORPUS_PATH = process.env.OPINION_CORPUS_PATH || '';
+
+// Days a cached Tier 2/3 result is reused across documents; 0 turns the cache off
+export const VALIDATION_CACHE_TTL_DAYS = parseFloat(process.env.VALIDATION_CACHE_TTL_DAYS || '30');
+
+// Mock provider settings: seed for generated responses, a JSON array of scripted rules (see MockRule),
+// the share of calls that fail with a 429, 5xx or timeout, and a delay before each response
+export const LLM_MOCK_SEED = process.env.LLM_MOCK_SEED || 'mock';
+export const LLM_MOCK_SCRIPT = process.env.LLM_MOCK_SCRIPT || '';
+export const LLM_MOCK_ERROR_RATE = parseFloat(process.env.LLM_MOCK_ERROR_RATE || '0');
+export const LLM_MOCK_LATENCY_MS = parseInt(process.env.LLM_MOCK_LATENCY_MS || '0', 10);
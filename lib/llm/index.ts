@@ -0,0 +1,72 @@
+/**
+ * LLM Client
+ * Chat completion across Anthropic, OpenAI, Grok and Gemini with retry/backoff, timeouts,
+ * cancellation and token usage, used by validation, heavy analysis and document drafting.
+ * With LLM_MOCK set, every call goes to the offline mock provider instead
+ *
+ * Adding a provider: add it to Provider (token-tracking.ts), write an adapter under ./providers
+ * and register it in PROVIDERS. Adding a model: its pricing in model-pricing.ts, and its
+ * name prefix in getProviderFromModel if the provider is new
+ */
+
+import { anthropicProvider } from './providers/anthropic'
+import { geminiProvider } from './providers/gemini'
+import { mockProvider } from './providers/mock'
+import { GROK_MODELS, grokProvider, openAIProvider } from './providers/openai'
+import { withRetry } from './retry'
+import { ChatRequest, ChatResponse, LLMProvider, Provider } from './types'
+import { LLM_MOCK } from '@/lib/env'
+
+export * from './types'
+export { GROK_MODELS }
+export { RETRY_CONFIG, isRetryableError } from './retry'
+export { extractJSONText, parseJSONResponse } from './json'
+export type { MockFailure, MockRule } from './providers/mock'
+
+const PROVIDERS: Record<Provider, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openAIProvider,
+  grok: grokProvider,
+  gemini: geminiProvider,
+}
+
+/**
+ * Send a chat completion to the request's provider, retrying transient failures
+ * Throws once retries are exhausted, on a non-retryable error, or when the signal aborts
+ */
+export async function chat(request: ChatRequest): Promise<ChatResponse> {
+  const adapter = LLM_MOCK ? mockProvider : PROVIDERS[request.provider]
+  if (!adapter) {
+    throw new Error(`Unsupported provider: ${request.provider}`)
+  }
+  if (adapter.models && !adapter.models.includes(request.model)) {
+    throw new Error(`Invalid ${request.provider} model: ${request.model}. Valid models are: ${adapter.models.join(', ')}`)
+  }
+
+  return withRetry(() => adapter.complete(request), {
+    retries: request.retries,
+    signal: request.signal,
+    label: request.label,
+    logContext: request.logContext,
+  })
+}
+
+/**
+ * Determine provider from model name
+ */
+export function getProviderFromModel(model: string): Provider {
+  if (model.startsWith('claude-') || model.startsWith('claude_')) {
+    return 'anthropic'
+  }
+  if (GROK_MODELS.includes(model)) {
+    return 'grok'
+  }
+  if (model.startsWith('gpt-') || model.startsWith('gpt_')) {
+    return 'openai'
+  }
+  if (model.startsWith('gemini-') || model.startsWith('gemini_')) {
+    return 'gemini'
+  }
+  // Default to anthropic for backward compatibility
+  return 'anthropic'
+}
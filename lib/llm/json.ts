@@ -0,0 +1,53 @@
+/**
+ * JSON extraction from model output
+ * Models asked for JSON still wrap it in code fences or surround it with prose now and then
+ */
+
+/**
+ * The first complete JSON object in a response: the contents of a ```json fence if there is one,
+ * otherwise the object starting at the first brace, matched by counting braces
+ */
+export function extractJSONText(responseText: string): string {
+  let jsonText = responseText.trim()
+
+  // Try to extract JSON from code blocks first
+  const jsonMatch = jsonText.match(/```json\s*([\s\S]*?)\s*```/) ||
+                    jsonText.match(/```\s*([\s\S]*?)\s*```/)
+  if (jsonMatch) {
+    jsonText = jsonMatch[1].trim()
+  }
+
+  const firstBrace = jsonText.indexOf('{')
+  if (firstBrace === -1) return jsonText
+
+  // Find the matching closing brace by counting braces
+  let braceCount = 0
+  let endIndex = -1
+  for (let i = firstBrace; i < jsonText.length; i++) {
+    if (jsonText[i] === '{') braceCount++
+    if (jsonText[i] === '}') {
+      braceCount--
+      if (braceCount === 0) {
+        endIndex = i + 1
+        break
+      }
+    }
+  }
+  if (endIndex > firstBrace) {
+    return jsonText.substring(firstBrace, endIndex)
+  }
+
+  // Fallback to last brace if matching fails
+  const lastBrace = jsonText.lastIndexOf('}')
+  if (lastBrace > firstBrace) {
+    return jsonText.substring(firstBrace, lastBrace + 1)
+  }
+  return jsonText.substring(firstBrace)
+}
+
+/**
+ * Parse the JSON object in a response, throwing when there is none
+ */
+export function parseJSONResponse<T = any>(responseText: string): T {
+  return JSON.parse(extractJSONText(responseText)) as T
+}
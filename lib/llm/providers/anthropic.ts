@@ -0,0 +1,41 @@
+/**
+ * Anthropic Claude adapter
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import { extractTokens } from '@/lib/citation-identification/token-tracking'
+import { ChatRequest, ChatResponse, LLMProvider } from '../types'
+
+export const anthropicProvider: LLMProvider = {
+  async complete(request: ChatRequest): Promise<ChatResponse> {
+    // Retries are handled by the client, not the SDK
+    const anthropic = new Anthropic({ apiKey: request.apiKey, maxRetries: 0 })
+
+    // Claude has no JSON mode; JSON requests rely on the prompt and are parsed by the caller
+    const message = await anthropic.messages.create(
+      {
+        model: request.model,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.system && { system: request.system }),
+        messages: request.messages.map(msg => ({ role: msg.role, content: msg.content })),
+      },
+      {
+        ...(request.timeoutMs !== undefined && { timeout: request.timeoutMs }),
+        signal: request.signal,
+      }
+    )
+
+    const text = message.content
+      .filter((block): block is Anthropic.Messages.TextBlock => block.type === 'text')
+      .map(block => block.text)
+      .join('\n')
+
+    return {
+      text,
+      tokenUsage: extractTokens(message, request.model, 'anthropic'),
+      provider: 'anthropic',
+      model: request.model,
+    }
+  },
+}
@@ -0,0 +1,45 @@
+/**
+ * Google Gemini adapter
+ */
+
+import { extractTokens } from '@/lib/citation-identification/token-tracking'
+import { ChatRequest, ChatResponse, LLMProvider } from '../types'
+
+export const geminiProvider: LLMProvider = {
+  async complete(request: ChatRequest): Promise<ChatResponse> {
+    // Dynamic import to avoid webpack chunking issues
+    const { GoogleGenerativeAI } = await import('@google/generative-ai')
+    const genAI = new GoogleGenerativeAI(request.apiKey)
+    const genModel = genAI.getGenerativeModel({
+      model: request.model,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.json && { responseMimeType: 'application/json' }),
+      },
+    })
+
+    // A single user turn is sent as is; a conversation is flattened into a transcript after the system prompt
+    let prompt: string
+    if (request.messages.length === 1 && !request.system) {
+      prompt = request.messages[0].content
+    } else {
+      prompt = request.system ? `${request.system}\n\n` : ''
+      for (const msg of request.messages) {
+        prompt += `${msg.role === 'assistant' ? 'Assistant' : 'User'}: ${msg.content}\n\n`
+      }
+    }
+
+    const result = await genModel.generateContent(prompt, {
+      ...(request.timeoutMs !== undefined && { timeout: request.timeoutMs }),
+      signal: request.signal,
+    })
+
+    return {
+      text: result.response.text(),
+      tokenUsage: extractTokens(result.response, request.model, 'gemini'),
+      provider: 'gemini',
+      model: request.model,
+    }
+  },
+}
@@ -0,0 +1,190 @@
+/**
+ * Mock adapter
+ * Answers every call offline when LLM_MOCK is set, so validation, the queue worker, heavy analysis and
+ * drafting run without API keys or network. A call gets the first matching LLM_MOCK_SCRIPT rule, or else
+ * a response seeded from LLM_MOCK_SEED and the prompt, in the format its task's caller parses: the same
+ * prompt and seed always give the same answer. Token usage is estimated at four characters per token
+ */
+
+import { LLM_MOCK_ERROR_RATE, LLM_MOCK_LATENCY_MS, LLM_MOCK_SCRIPT, LLM_MOCK_SEED } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import { seededHash, seededPick } from '@/lib/utils'
+import { ChatRequest, ChatResponse, LLMProvider, LLMTask } from '../types'
+
+export type MockFailure = 'rate_limit' | 'server_error' | 'timeout'
+
+export interface MockRule {
+  task?: LLMTask
+  model?: string
+  match?: string // Text the system prompt or a message must contain
+  response?: string
+  error?: MockFailure // Fail instead of answering
+  times?: number // Apply to the first N matching calls only, e.g. fail once and then recover
+}
+
+const MOCK_FAILURES: MockFailure[] = ['rate_limit', 'server_error', 'timeout']
+
+// Tier 2 scores and Tier 3 risk levels drawn by the seeded hash; most citations look real
+const TIER2_SCORES = [10, 9, 9, 8, 8, 8, 7, 6, 4, 2]
+const TIER3_RISK_LEVELS = ['LOW_RISK', 'LOW_RISK', 'LOW_RISK', 'MODERATE_RISK', 'NEEDS_ADDITIONAL_REVIEW']
+const HEAVY_RISK_LEVELS = ['Low Risk', 'Low Risk', 'Low Risk', 'Medium Risk', 'human review']
+
+let rules: MockRule[] | null = null
+const ruleUses = new Map<MockRule, number>()
+const promptAttempts = new Map<number, number>()
+
+function getRules(): MockRule[] {
+  if (rules) return rules
+  rules = []
+  if (!LLM_MOCK_SCRIPT) return rules
+
+  try {
+    const parsed = JSON.parse(LLM_MOCK_SCRIPT)
+    if (!Array.isArray(parsed)) throw new Error('expected a JSON array of rules')
+    rules = parsed
+  } catch (error) {
+    logger.error('Ignoring invalid LLM_MOCK_SCRIPT', error, 'MockLLM')
+  }
+  return rules
+}
+
+function promptText(request: ChatRequest): string {
+  return [request.system || '', ...request.messages.map(msg => msg.content)].join('\n')
+}
+
+function failure(kind: MockFailure): Error {
+  switch (kind) {
+    case 'rate_limit':
+      return Object.assign(new Error('Rate limit exceeded (mock)'), { status: 429 })
+    case 'server_error':
+      return Object.assign(new Error('Internal server error (mock)'), { status: 500 })
+    case 'timeout':
+      return Object.assign(new Error('Request timed out (mock)'), { code: 'ETIMEDOUT' })
+  }
+}
+
+function abortError(): Error {
+  return Object.assign(new Error('Request was aborted'), { name: 'AbortError' })
+}
+
+async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) throw abortError()
+  if (ms <= 0) return
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+function findRule(request: ChatRequest, prompt: string): MockRule | undefined {
+  return getRules().find(rule => {
+    if (rule.task && rule.task !== request.task) return false
+    if (rule.model && rule.model !== request.model) return false
+    if (rule.match && !prompt.includes(rule.match)) return false
+    return rule.times === undefined || (ruleUses.get(rule) || 0) < rule.times
+  })
+}
+
+/**
+ * Seeded failure for LLM_MOCK_ERROR_RATE; a retry of the same prompt draws again, so it can recover
+ */
+function injectedFailure(prompt: string): MockFailure | null {
+  if (!(LLM_MOCK_ERROR_RATE > 0)) return null
+  const promptHash = seededHash(prompt)
+  const attempt = (promptAttempts.get(promptHash) || 0) + 1
+  promptAttempts.set(promptHash, attempt)
+
+  const draw = seededHash(`${LLM_MOCK_SEED}:error:${promptHash}:${attempt}`)
+  if ((draw % 10000) / 10000 >= LLM_MOCK_ERROR_RATE) return null
+  return MOCK_FAILURES[draw % MOCK_FAILURES.length]
+}
+
+function heavyAnalysisResponse(prompt: string, seed: string): string {
+  // buildHeavyAnalysisPrompt lists each citation as "1. ID: cit_001"
+  const ids = Array.from(prompt.matchAll(/^\s*\d+\.\s+ID:\s*(\S+)/gm), match => match[1])
+  return JSON.stringify({
+    citations: ids.map(id => ({
+      id,
+      riskLevel: seededPick(HEAVY_RISK_LEVELS, `${seed}:${id}`),
+      caseFit: 'Mock analysis; the citation was not read against the document.',
+      analysis: `Generated offline with seed ${LLM_MOCK_SEED}.`,
+    })),
+  })
+}
+
+function documentEditResponse(request: ChatRequest): string {
+  const content = request.messages[request.messages.length - 1]?.content || ''
+  const jsonBlock = content.match(/```json\n([\s\S]*?)\n```/)
+  let document = ''
+  let instruction = content.split('\n\nIMPORTANT:')[0]
+  if (jsonBlock) {
+    try {
+      const current = JSON.parse(jsonBlock[1])
+      document = current.document || ''
+      instruction = current.request || instruction
+    } catch {
+      // Leave the document empty; the mock still answers in the edit format
+    }
+  }
+
+  return JSON.stringify({
+    explanation: 'Mock edit: the request is appended to the document.',
+    document: document ? `${document}\n\n${instruction}` : `# Draft\n\n${instruction}`,
+  })
+}
+
+function seededResponse(request: ChatRequest, prompt: string): string {
+  const seed = `${LLM_MOCK_SEED}:${request.model}:${seededHash(prompt)}`
+  switch (request.task) {
+    case 'tier2_agent':
+      return `SCORE: ${seededPick(TIER2_SCORES, seed)}\nREASONING: Mock evaluation generated offline; the citation was not checked against any source.`
+    case 'tier3_agent':
+      return `RISK_LEVEL: ${seededPick(TIER3_RISK_LEVELS, seed)}\nREASONING: Mock investigation generated offline; the citation was not checked against any source.\nCASE_LINK: NOT_FOUND`
+    case 'heavy_analysis':
+      return heavyAnalysisResponse(prompt, seed)
+    case 'document_edit':
+      return documentEditResponse(request)
+    case 'document_ask':
+      return 'Mock answer generated offline. No model read the document or the question.'
+    default:
+      return request.json ? '{}' : 'Mock response generated offline.'
+  }
+}
+
+export const mockProvider: LLMProvider = {
+  async complete(request: ChatRequest): Promise<ChatResponse> {
+    await delay(LLM_MOCK_LATENCY_MS, request.signal)
+
+    const prompt = promptText(request)
+    const rule = findRule(request, prompt)
+    if (rule) {
+      ruleUses.set(rule, (ruleUses.get(rule) || 0) + 1)
+    }
+
+    const failureKind = rule ? rule.error : injectedFailure(prompt)
+    if (failureKind) {
+      logger.debug(`Mock ${failureKind} for ${request.label || 'LLM call'}`, { model: request.model }, 'MockLLM')
+      throw failure(failureKind)
+    }
+
+    const text = rule?.response ?? seededResponse(request, prompt)
+    const inputTokens = Math.ceil(prompt.length / 4)
+    const outputTokens = Math.ceil(text.length / 4)
+
+    return {
+      text,
+      tokenUsage: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+        provider: request.provider,
+        model: request.model,
+      },
+      provider: request.provider,
+      model: request.model,
+    }
+  },
+}
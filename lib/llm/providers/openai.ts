@@ -0,0 +1,73 @@
+/**
+ * OpenAI adapter, also used for Grok through xAI's OpenAI-compatible API
+ */
+
+import type OpenAI from 'openai'
+import { extractTokens } from '@/lib/citation-identification/token-tracking'
+import { ChatRequest, ChatResponse, LLMProvider, Provider } from '../types'
+
+// Grok models (xAI - using OpenAI-compatible API)
+export const GROK_MODELS = ['grok-3-fast-beta', 'grok-3-fast', 'grok-3-fast-latest']
+
+interface OpenAICompatibleOptions {
+  provider: Extract<Provider, 'openai' | 'grok'>
+  baseURL?: string
+  models?: string[] // Only these models are accepted, when set
+}
+
+function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  return {
+    models: options.models,
+    async complete(request: ChatRequest): Promise<ChatResponse> {
+      // Dynamic import to avoid webpack chunking issues
+      const { default: OpenAI } = await import('openai')
+      // Retries are handled by the client, not the SDK
+      const openai = new OpenAI({ apiKey: request.apiKey, baseURL: options.baseURL, maxRetries: 0 })
+
+      const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = request.messages.map(msg => ({
+        role: msg.role,
+        content: msg.content,
+      }))
+      if (request.system) {
+        messages.unshift({ role: 'system', content: request.system })
+      }
+
+      const requestParams: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
+        model: request.model,
+        messages,
+      }
+      if (request.temperature !== undefined) {
+        requestParams.temperature = request.temperature
+      }
+      // GPT-5.1 models require 'max_completion_tokens' instead of 'max_tokens'
+      if (request.model.startsWith('gpt-5.1')) {
+        requestParams.max_completion_tokens = request.maxTokens
+      } else {
+        requestParams.max_tokens = request.maxTokens
+      }
+      if (request.json) {
+        requestParams.response_format = { type: 'json_object' }
+      }
+
+      const completion = await openai.chat.completions.create(requestParams, {
+        ...(request.timeoutMs !== undefined && { timeout: request.timeoutMs }),
+        signal: request.signal,
+      })
+
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        tokenUsage: extractTokens(completion, request.model, options.provider),
+        provider: options.provider,
+        model: request.model,
+      }
+    },
+  }
+}
+
+export const openAIProvider = createOpenAICompatibleProvider({ provider: 'openai' })
+
+export const grokProvider = createOpenAICompatibleProvider({
+  provider: 'grok',
+  baseURL: 'https://api.x.ai/v1',
+  models: GROK_MODELS,
+})
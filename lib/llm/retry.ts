@@ -0,0 +1,98 @@
+/**
+ * Retry and backoff shared by every LLM call
+ */
+
+import retry from 'async-retry'
+import { logger } from '@/lib/logger'
+
+// Retry configuration
+export const RETRY_CONFIG = {
+  retries: 3,
+  minTimeout: 1000, // 1 second
+  maxTimeout: 10000, // 10 seconds
+  factor: 2, // Exponential backoff: 1s, 2s, 4s
+  randomize: true, // Add jitter to prevent thundering herd
+}
+
+/**
+ * Determine if an error is retryable
+ * Retry on: rate limits, timeouts, network errors, server errors (5xx)
+ * Don't retry on: cancellation, authentication errors (401), bad requests (400), not found (404)
+ */
+export function isRetryableError(error: any): boolean {
+  // A cancelled call stays cancelled
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+    return false
+  }
+
+  // Check for API error structure (Anthropic and OpenAI both set status)
+  if (error?.status) {
+    const status = error.status
+    // Retry on rate limits (429) and server errors (5xx)
+    if (status === 429 || (status >= 500 && status < 600)) {
+      return true
+    }
+    // Don't retry on client errors (4xx) except rate limits
+    if (status >= 400 && status < 500) {
+      return false
+    }
+  }
+
+  // Check for network/timeout errors
+  if (error?.code && typeof error.code === 'string') {
+    const code = error.code.toLowerCase()
+    if (code === 'econnreset' || code === 'etimedout' || code === 'econnrefused' ||
+        code === 'enotfound' || code === 'timeout' || code === 'network_error') {
+      return true
+    }
+  }
+
+  // Check error message for common retryable patterns
+  const message = error?.message?.toLowerCase() || ''
+  if (message.includes('rate limit') ||
+      message.includes('timeout') ||
+      message.includes('network') ||
+      message.includes('server error') ||
+      message.includes('temporary')) {
+    return true
+  }
+
+  // Default: retry on unknown errors (could be transient)
+  return true
+}
+
+export interface RetryOptions {
+  retries?: number
+  signal?: AbortSignal
+  label?: string
+  logContext?: string
+}
+
+/**
+ * Run an attempt with exponential backoff, giving up at once on errors that will not go away
+ */
+export async function withRetry<T>(attempt: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  return retry(
+    async (bail: (error: Error) => void): Promise<T> => {
+      try {
+        return await attempt()
+      } catch (error: any) {
+        // If error is not retryable (or the caller cancelled), bail out immediately
+        if (options.signal?.aborted || !isRetryableError(error)) {
+          bail(error instanceof Error ? error : new Error(String(error)))
+          // Return rather than rethrow: a thrown error would schedule another attempt after the bail
+          return undefined as never
+        }
+        // Otherwise, throw to trigger retry
+        throw error
+      }
+    },
+    {
+      ...RETRY_CONFIG,
+      retries: options.retries ?? RETRY_CONFIG.retries,
+      onRetry: (error: Error) => {
+        logger.warn(`Retrying ${options.label || 'LLM call'}`, error, options.logContext || 'LLM')
+      },
+    }
+  )
+}
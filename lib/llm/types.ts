@@ -0,0 +1,51 @@
+/**
+ * LLM Client Types
+ * One request and response shape for every provider, so callers never touch a provider SDK
+ */
+
+import type { Provider, TokenUsage } from '@/lib/citation-identification/token-tracking'
+
+export type { Provider, TokenUsage }
+
+// API key per provider; a caller passes the keys it has
+export type ProviderApiKeys = Partial<Record<Provider, string>>
+
+// What a call is for; the mock provider answers in the format the task's caller parses
+export type LLMTask = 'tier2_agent' | 'tier3_agent' | 'heavy_analysis' | 'document_ask' | 'document_edit'
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface ChatRequest {
+  provider: Provider
+  model: string
+  apiKey: string
+  messages: LLMMessage[]
+  system?: string
+  maxTokens: number
+  temperature?: number
+  json?: boolean // Ask for a bare JSON object where the provider supports it; the prompt still describes the shape
+  timeoutMs?: number // Per attempt
+  signal?: AbortSignal // Cancels the call, including any pending retries
+  retries?: number // Default: RETRY_CONFIG.retries
+  label?: string // Names the caller in retry warnings, e.g. "agent tier2_citation_validator_v1"
+  logContext?: string // Logger context for retry warnings, default "LLM"
+  task?: LLMTask
+}
+
+export interface ChatResponse {
+  text: string
+  tokenUsage: TokenUsage | null
+  provider: Provider
+  model: string
+}
+
+/**
+ * Adapter for one provider's SDK: a single attempt, without retries
+ */
+export interface LLMProvider {
+  models?: string[] // Only these models are accepted, when set
+  complete(request: ChatRequest): Promise<ChatResponse>
+}
@@ -23,6 +23,9 @@ export const citationTypeColors = {
   statute: "bg-green-100 text-green-800",
   regulation: "bg-purple-100 text-purple-800",
   rule: "bg-orange-100 text-orange-800",
+  constitution: "bg-teal-100 text-teal-800",
+  sessionLaw: "bg-lime-100 text-lime-800",
+  secondary: "bg-pink-100 text-pink-800",
   unknown: "bg-gray-100 text-gray-800",
 } as const;
 
@@ -23,3 +23,29 @@ export function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj)) as T
 }
 
+
+/**
+ * Escape a string for use as a literal inside a regular expression
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * FNV-1a hash of a string, so choices made from a seed repeat exactly across runs
+ */
+export function seededHash(text: string): number {
+  let value = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i)
+    value = Math.imul(value, 0x01000193)
+  }
+  return value >>> 0
+}
+
+/**
+ * The option a seed picks, always the same one for the same seed and options
+ */
+export function seededPick<T>(options: T[], seed: string): T {
+  return options[seededHash(seed) % options.length]
+}
@@ -14,6 +14,8 @@ const nextConfig = {
   },
   // Ensure these packages are properly bundled
   transpilePackages: [],
+  // pdf.js loads its worker from its own package directory at runtime
+  serverExternalPackages: ['pdfjs-dist'],
   // Turbopack config (Next.js 16 uses Turbopack by default)
   turbopack: {},
 }
@@ -0,0 +1,22 @@
+import { describe, it } from 'node:test'
+import { AgentVerdict, Tier3AgentVerdict } from '@/types/citation-json'
+import { calculateConsensus, calculateTier3Consensus } from '@/lib/citation-identification/validation'
+import { PanelFixture, assertMatchesGolden, readFixture } from '../helpers'
+
+describe('consensus golden files', () => {
+  it('matches the Tier 2 consensus of every recorded panel', () => {
+    const panels = readFixture<PanelFixture<AgentVerdict>[]>('panels/tier2.json')
+    assertMatchesGolden('consensus-tier2', panels.map(panel => ({
+      source: panel.source,
+      consensus: calculateConsensus(panel.panel_evaluation),
+    })))
+  })
+
+  it('matches the Tier 3 consensus of every recorded panel', () => {
+    const panels = readFixture<PanelFixture<Tier3AgentVerdict>[]>('panels/tier3.json')
+    assertMatchesGolden('consensus-tier3', panels.map(panel => ({
+      source: panel.source,
+      consensus: calculateTier3Consensus(panel.panel_evaluation),
+    })))
+  })
+})
@@ -0,0 +1,16 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseWordDocument } from '@/lib/document-parser'
+import { assertMatchesGolden, muted, readSampleBuffer } from '../helpers'
+
+describe('parseWordDocument golden file', () => {
+  it('matches the blocks parsed from Citation_Test_Document.docx', async () => {
+    const buffer = readSampleBuffer('Citation_Test_Document.docx')
+    const document = await muted(() =>
+      parseWordDocument(buffer, 'Citation_Test_Document.docx', '2025-01-01T00:00:00.000Z')
+    )
+
+    assert.equal(document.document.citations.length, 0)
+    assertMatchesGolden('document-parser-citation-test-document', document)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test'
+import { CitationDocument } from '@/types/citation-json'
+import { findAllCitations } from '@/lib/citation-identification/patterns'
+import { identifyCitationsEyecite } from '@/lib/citation-identification/eyecite-adapter'
+import { assertMatchesGolden, listFixtures, muted, readFixture } from '../helpers'
+
+/**
+ * Citations found in each block, keyed by block id, leaving out blocks without any
+ */
+async function findCitationsByBlock(document: CitationDocument) {
+  const found: Record<string, ReturnType<typeof findAllCitations>> = {}
+  await muted(() => {
+    for (const block of document.document.content) {
+      const matches = findAllCitations(block.text)
+      if (matches.length > 0) found[block.id] = matches
+    }
+  })
+  return found
+}
+
+async function identify(document: CitationDocument) {
+  const { document: identified } = await muted(() => identifyCitationsEyecite(document))
+  return identified.document.citations
+}
+
+describe('findAllCitations golden files', () => {
+  for (const name of listFixtures('documents')) {
+    it(`matches the patterns found in ${name}`, async () => {
+      const document = readFixture<CitationDocument>(`documents/${name}.json`)
+      assertMatchesGolden(`patterns-${name}`, await findCitationsByBlock(document))
+    })
+  }
+})
+
+describe('identifyCitationsEyecite golden files', () => {
+  for (const name of listFixtures('documents')) {
+    it(`matches the citations identified in ${name}`, async () => {
+      const document = readFixture<CitationDocument>(`documents/${name}.json`)
+      assertMatchesGolden(`eyecite-${name}`, await identify(document))
+    })
+  }
+})
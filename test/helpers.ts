@@ -0,0 +1,81 @@
+/**
+ * Test Helpers
+ * Fixture loading, golden-file comparison and muting of the pipeline's console logging
+ */
+
+import assert from 'node:assert/strict'
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs'
+import path from 'path'
+
+export const TEST_DIR = __dirname
+export const FIXTURES_DIR = path.join(TEST_DIR, 'fixtures')
+export const EXPECTED_DIR = path.join(TEST_DIR, 'golden', 'expected')
+
+// Panel recorded in a sample, as written to fixtures/panels by the fixture builder
+export interface PanelFixture<T> {
+  source: string // Sample file and citation the panel came from
+  panel_evaluation: T[]
+}
+
+export function readJSON<T>(filePath: string): T {
+  return JSON.parse(readFileSync(filePath, 'utf8')) as T
+}
+
+export function readFixture<T>(relativePath: string): T {
+  return readJSON<T>(path.join(FIXTURES_DIR, relativePath))
+}
+
+/**
+ * A sample file in test/ as the ArrayBuffer the document parsers take
+ */
+export function readSampleBuffer(file: string): ArrayBuffer {
+  const buffer = readFileSync(path.join(TEST_DIR, file))
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer
+}
+
+/**
+ * JSON fixture names in a fixtures subdirectory, without the extension
+ */
+export function listFixtures(subdirectory: string): string[] {
+  return readdirSync(path.join(FIXTURES_DIR, subdirectory))
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort()
+}
+
+/**
+ * Compare output with test/golden/expected/<name>.json
+ * With UPDATE_GOLDEN set the file is rewritten instead; review the diff before committing it
+ */
+export function assertMatchesGolden(name: string, actual: unknown): void {
+  const file = path.join(EXPECTED_DIR, `${name}.json`)
+  // Round-trip so undefined fields and Date objects compare the way they are stored
+  const normalized = JSON.parse(JSON.stringify(actual))
+
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(path.dirname(file), { recursive: true })
+    writeFileSync(file, `${JSON.stringify(normalized, null, 2)}\n`)
+    return
+  }
+
+  assert.ok(existsSync(file), `Missing golden file ${name}.json; run npm run test:update-golden to create it`)
+  assert.deepStrictEqual(
+    normalized,
+    readJSON(file),
+    `Output differs from golden file ${name}.json; if the change is intended, run npm run test:update-golden and review the diff`
+  )
+}
+
+/**
+ * Run code with console.log/info/debug/warn silenced; identification logs every pattern it tries
+ */
+export async function muted<T>(run: () => T | Promise<T>): Promise<T> {
+  const saved = { log: console.log, info: console.info, debug: console.debug, warn: console.warn }
+  const noop = () => {}
+  Object.assign(console, { log: noop, info: noop, debug: noop, warn: noop })
+  try {
+    return await run()
+  } finally {
+    Object.assign(console, saved)
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Fixture Builder
+ * Regenerates test/fixtures from the citation check samples in test/:
+ * - documents/: each sample document with its citation markers stripped and citations removed,
+ *   ready to be identified again. A sample whose markers cannot be stripped cleanly is skipped,
+ *   since its original text cannot be recovered
+ * - panels/: every recorded Tier 2 and Tier 3 panel, reduced to the fields consensus reads
+ *
+ * Run with `npm run test:fixtures`, then `npm run test:update-golden` and review the golden diff
+ */
+
+import { mkdirSync, readdirSync, writeFileSync } from 'fs'
+import path from 'path'
+import { AgentVerdict, CitationDocument, Tier3AgentVerdict } from '@/types/citation-json'
+import { FIXTURES_DIR, PanelFixture, TEST_DIR, readJSON } from '../helpers'
+
+interface TestRunExport {
+  citations: Array<{
+    citationId: string
+    runs: Array<{
+      runNumber: number
+      tier2?: { panel_evaluation?: AgentVerdict[] }
+      tier3?: { panel_evaluation?: Tier3AgentVerdict[] }
+    }>
+  }>
+}
+
+const MARKER_PATTERN = /\[CITATION:([^\]]+)\]([\s\S]*?)\[\/CITATION:\1\]/g
+const REASONING_LIMIT = 200 // Consensus quotes at most the first 100 characters
+
+/**
+ * Text without citation markers, or null if stray markers remain
+ * Replaces until nothing changes, which also unwinds markers nested inside other markers
+ */
+function stripMarkers(text: string): string | null {
+  let stripped = text
+  let previous: string
+  do {
+    previous = stripped
+    stripped = stripped.replace(MARKER_PATTERN, '$2')
+  } while (stripped !== previous)
+  return /\[\/?CITATION/.test(stripped) ? null : stripped
+}
+
+/**
+ * Fixture name for a sample: the first block of its file id, e.g. 7207534a. Checks of the same
+ * file share a document, so only the first clean one is kept
+ */
+function fixtureName(file: string): string {
+  const match = file.match(/([0-9a-f]{8})-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/)
+  return match ? match[1] : path.basename(file, '.json')
+}
+
+function buildDocument(sample: CitationDocument): CitationDocument | null {
+  const content = []
+  for (const block of sample.document.content) {
+    const text = stripMarkers(block.text)
+    if (text === null) return null
+    content.push({ ...block, text })
+  }
+
+  return {
+    document: {
+      metadata: {
+        filename: sample.document.metadata.filename,
+        uploadDate: sample.document.metadata.uploadDate,
+        totalCitations: 0,
+      },
+      content,
+      citations: [],
+    },
+  }
+}
+
+function reduceVerdict(verdict: AgentVerdict | Tier3AgentVerdict): AgentVerdict | Tier3AgentVerdict {
+  return {
+    agent: verdict.agent,
+    score: 'score' in verdict ? verdict.score : undefined,
+    verdict: verdict.verdict,
+    invalid_reason: verdict.invalid_reason,
+    uncertain_reason: verdict.uncertain_reason,
+    risk_level: 'risk_level' in verdict ? verdict.risk_level : undefined,
+    reasoning: verdict.reasoning?.substring(0, REASONING_LIMIT),
+    timestamp: verdict.timestamp,
+    model: verdict.model,
+  }
+}
+
+function addPanel<T extends AgentVerdict | Tier3AgentVerdict>(
+  panels: PanelFixture<T>[],
+  seen: Set<string>,
+  source: string,
+  panel: T[] | undefined
+): void {
+  if (!panel || panel.length === 0) return
+  const panel_evaluation = panel.map(verdict => reduceVerdict(verdict) as T)
+  const key = JSON.stringify(panel_evaluation)
+  if (seen.has(key)) return
+  seen.add(key)
+  panels.push({ source, panel_evaluation })
+}
+
+function writeFixture(relativePath: string, data: unknown): void {
+  const file = path.join(FIXTURES_DIR, relativePath)
+  mkdirSync(path.dirname(file), { recursive: true })
+  writeFileSync(file, `${JSON.stringify(data, null, 2)}\n`)
+  console.log(`Wrote ${path.relative(TEST_DIR, file)}`)
+}
+
+function main() {
+  const samples = readdirSync(TEST_DIR).filter(file => file.endsWith('.json')).sort()
+  const tier2: PanelFixture<AgentVerdict>[] = []
+  const tier3: PanelFixture<Tier3AgentVerdict>[] = []
+  const seen2 = new Set<string>()
+  const seen3 = new Set<string>()
+  const documents = new Set<string>()
+
+  for (const file of samples) {
+    const sample = readJSON<CitationDocument & TestRunExport>(path.join(TEST_DIR, file))
+
+    // Multi-run test exports carry panels only
+    if (!sample.document) {
+      for (const citation of sample.citations || []) {
+        for (const run of citation.runs) {
+          const source = `${file}#${citation.citationId}/run${run.runNumber}`
+          addPanel(tier2, seen2, source, run.tier2?.panel_evaluation)
+          addPanel(tier3, seen3, source, run.tier3?.panel_evaluation)
+        }
+      }
+      continue
+    }
+
+    for (const citation of sample.document.citations) {
+      const source = `${file}#${citation.id}`
+      addPanel(tier2, seen2, source, citation.validation?.panel_evaluation)
+      addPanel(tier3, seen3, source, citation.tier_3?.panel_evaluation)
+    }
+
+    const name = fixtureName(file)
+    if (documents.has(name)) continue
+    const document = buildDocument(sample)
+    if (!document) {
+      console.warn(`Skipping document from ${file}: corrupted citation markers`)
+      continue
+    }
+    documents.add(name)
+    writeFixture(`documents/${name}.json`, document)
+  }
+
+  writeFixture('panels/tier2.json', tier2)
+  writeFixture('panels/tier3.json', tier3)
+  console.log(`${documents.size} documents, ${tier2.length} Tier 2 panels, ${tier3.length} Tier 3 panels`)
+}
+
+main()
@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { compareCaseNames } from '@/lib/citation-identification/authority'
+
+describe('compareCaseNames', () => {
+  it('matches short and abbreviated names of the same case', () => {
+    assert.equal(compareCaseNames('Twombly', 'Bell Atlantic Corp. v. Twombly'), 'full')
+    assert.equal(compareCaseNames('Bell Atl. Corp. v. Twombly', 'Bell Atlantic Corp. v. Twombly'), 'full')
+    assert.equal(compareCaseNames('United States v. Jones', 'United States v. Jones'), 'full')
+    assert.equal(compareCaseNames('In re Smith', 'In re Smith'), 'full')
+  })
+
+  it('does not treat one shared party as the same case', () => {
+    assert.equal(compareCaseNames('Smith v. Jones', 'Smith v. Brown'), 'partial')
+    assert.equal(compareCaseNames('Doe v. Roe', 'Doe v. Acme Corp.'), 'partial')
+    assert.equal(compareCaseNames('Smith v. Jones', 'Adams v. Baker'), 'none')
+  })
+
+  it('does not let a government party or "in re" stand in for the other side', () => {
+    assert.equal(compareCaseNames('United States v. Jones', 'Jones v. Smith'), 'partial')
+    assert.equal(compareCaseNames('People v. Smith', 'Smith v. Board of Education'), 'partial')
+    assert.equal(compareCaseNames('In re Smith', 'Smith v. Acme'), 'partial')
+  })
+
+  it('matches a one-word short name only to a side it names alone', () => {
+    assert.equal(compareCaseNames('Smith', 'Smith v. Jones'), 'full')
+    assert.equal(compareCaseNames('Smith', 'John Smith Trucking v. Jones'), 'partial')
+  })
+})
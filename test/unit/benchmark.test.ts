@@ -0,0 +1,157 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AgentVerdict, BenchmarkLabel, Citation, GroundTruthLabel, Tier3AgentVerdict, Tier3RiskLevel } from '@/types/citation-json'
+import { calculateConsensus, calculateTier3Consensus } from '@/lib/citation-identification/validation'
+import {
+  BenchmarkPrediction,
+  calculateDetectionMetrics,
+  getRunConfiguration,
+  scoreBenchmarkRun,
+} from '@/lib/citation-identification/benchmark'
+
+const TIMESTAMP = '2025-01-01T00:00:00.000Z'
+
+function prediction(label: GroundTruthLabel, flagged: boolean, probability = flagged ? 1 : 0): BenchmarkPrediction {
+  return { label, flagged, probability }
+}
+
+function panel(scores: number[], model = 'model-a'): AgentVerdict[] {
+  return scores.map((score, i) => ({
+    agent: `agent_${i + 1}`,
+    score,
+    reasoning: `Reasoning for ${score}`,
+    timestamp: TIMESTAMP,
+    model,
+  }))
+}
+
+function tier3Panel(levels: Tier3RiskLevel[]): Tier3AgentVerdict[] {
+  return levels.map((risk_level, i) => ({
+    agent: `tier3_agent_${i + 1}`,
+    risk_level,
+    reasoning: `Reasoning for ${risk_level}`,
+    timestamp: TIMESTAMP,
+    model: 'model-b',
+  }))
+}
+
+function citation(id: string, citationText: string, scores?: number[], tier3?: Tier3RiskLevel[]): Citation {
+  const panel_evaluation = scores ? panel(scores) : undefined
+  const tier3_evaluation = tier3 ? tier3Panel(tier3) : undefined
+  return {
+    id,
+    citationText,
+    validation: panel_evaluation ? { panel_evaluation, consensus: calculateConsensus(panel_evaluation) } : undefined,
+    tier_3: tier3_evaluation
+      ? { panel_evaluation: tier3_evaluation, consensus: calculateTier3Consensus(tier3_evaluation), timestamp: TIMESTAMP, model: 'model-b' }
+      : null,
+  } as Citation
+}
+
+function label(citationId: string, citationText: string, groundTruth: GroundTruthLabel): BenchmarkLabel {
+  return { citationId, citationText, label: groundTruth }
+}
+
+describe('calculateDetectionMetrics', () => {
+  it('counts fabricated and mis-cited citations as positives', () => {
+    const metrics = calculateDetectionMetrics([
+      prediction('fabricated', true),
+      prediction('miscited', false),
+      prediction('real', true),
+      prediction('real', false),
+    ])
+
+    assert.equal(metrics.truePositives, 1)
+    assert.equal(metrics.falseNegatives, 1)
+    assert.equal(metrics.falsePositives, 1)
+    assert.equal(metrics.trueNegatives, 1)
+    assert.equal(metrics.precision, 0.5)
+    assert.equal(metrics.recall, 0.5)
+    assert.equal(metrics.f1, 0.5)
+    assert.equal(metrics.accuracy, 0.5)
+    assert.deepEqual(metrics.recallByLabel, { fabricated: 1, miscited: 0 })
+  })
+
+  it('leaves rates undefined when there is nothing to divide by', () => {
+    const metrics = calculateDetectionMetrics([prediction('real', false)])
+
+    assert.equal(metrics.precision, null)
+    assert.equal(metrics.recall, null)
+    assert.equal(metrics.f1, null)
+    assert.equal(metrics.recallByLabel.fabricated, null)
+    assert.equal(metrics.accuracy, 1)
+  })
+
+  it('scores calibration against the observed rate in each probability bin', () => {
+    const metrics = calculateDetectionMetrics([
+      prediction('fabricated', true, 0.9),
+      prediction('real', true, 0.9),
+      prediction('real', false, 0.1),
+    ])
+
+    assert.equal(metrics.calibration.length, 2)
+    assert.deepEqual(metrics.calibration.map(bin => bin.count), [1, 2])
+    assert.equal(metrics.calibration[1].observedRate, 0.5)
+    assert.ok(Math.abs(metrics.brierScore! - (0.01 + 0.81 + 0.01) / 3) < 1e-9)
+    assert.ok(Math.abs(metrics.expectedCalibrationError! - (0.1 + 2 * 0.4) / 3) < 1e-9)
+  })
+})
+
+describe('scoreBenchmarkRun', () => {
+  const citations = [
+    citation('cit_001', 'Ashcroft v. Iqbal, 556 U.S. 662 (2009)', [9, 9, 9, 9, 9]),
+    citation('cit_002', 'Smith v. Jones, 999 F.3d 1 (9th Cir. 2021)', [2, 3, 2, 3, 2], ['NEEDS_ADDITIONAL_REVIEW', 'NEEDS_ADDITIONAL_REVIEW', 'MODERATE_RISK']),
+    citation('cit_003', 'Bell Atl. Corp. v. Twombly, 550 U.S. 544 (2007)', [4, 5, 4, 5, 4], ['LOW_RISK', 'LOW_RISK', 'LOW_RISK']),
+    citation('cit_004', 'Doe v. Roe, 123 F. Supp. 3d 45 (D. Mass. 2015)'),
+  ]
+
+  it('prefers the Tier 3 assessment and reports each tier separately', () => {
+    const metrics = scoreBenchmarkRun(citations, [
+      label('cit_001', 'Ashcroft v. Iqbal, 556 U.S. 662 (2009)', 'real'),
+      label('cit_002', 'Smith v. Jones, 999 F.3d 1 (9th Cir. 2021)', 'fabricated'),
+      label('cit_003', 'Bell Atl. Corp. v. Twombly, 550 U.S. 544 (2007)', 'real'),
+      label('cit_004', 'Doe v. Roe, 123 F. Supp. 3d 45 (D. Mass. 2015)', 'miscited'),
+    ])
+
+    assert.equal(metrics.unvalidated, 1)
+    assert.equal(metrics.tiers.final.evaluated, 3)
+    assert.equal(metrics.tiers.final.precision, 1)
+    assert.equal(metrics.tiers.final.recall, 1)
+    // Tier 2 alone also flags the real citation Tier 3 cleared
+    assert.equal(metrics.tiers.tier2.falsePositives, 1)
+    assert.equal(metrics.tiers.tier3.evaluated, 2)
+  })
+
+  it('matches labels by citation text when ids differ and counts labels it cannot find', () => {
+    const metrics = scoreBenchmarkRun(citations, [
+      label('cit_999', 'Smith v. Jones, 999 F.3d 1 (9th Cir. 2021)', 'fabricated'),
+      label('cit_998', 'Nowhere v. Nobody, 1 U.S. 1 (1800)', 'fabricated'),
+    ])
+
+    assert.equal(metrics.tiers.final.truePositives, 1)
+    assert.equal(metrics.unmatchedLabels, 1)
+  })
+
+  it('breaks results down by agent and model', () => {
+    const metrics = scoreBenchmarkRun(citations, [
+      label('cit_001', 'Ashcroft v. Iqbal, 556 U.S. 662 (2009)', 'real'),
+      label('cit_002', 'Smith v. Jones, 999 F.3d 1 (9th Cir. 2021)', 'fabricated'),
+    ])
+
+    assert.deepEqual(metrics.models.map(model => `${model.tier}:${model.name}`), ['tier2:model-a', 'tier3:model-b'])
+    assert.equal(metrics.agents.filter(agent => agent.tier === 'tier2').length, 5)
+    assert.equal(metrics.agents[0].metrics.evaluated, 2)
+  })
+})
+
+describe('getRunConfiguration', () => {
+  it('lists each agent and model once per tier', () => {
+    const configuration = getRunConfiguration([
+      citation('cit_001', 'Ashcroft v. Iqbal, 556 U.S. 662 (2009)', [9, 9, 9, 9, 9]),
+      citation('cit_002', 'Smith v. Jones, 999 F.3d 1 (9th Cir. 2021)', [2, 3, 2, 3, 2], ['LOW_RISK', 'LOW_RISK', 'LOW_RISK']),
+    ])
+
+    assert.equal(configuration.agents.length, 8)
+    assert.deepEqual(configuration.agents[0], { tier: 'tier2', agent: 'agent_1', model: 'model-a', definition_version: undefined })
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AgentVerdict, Tier3AgentVerdict, Tier3AgentVerdictType, Tier3RiskLevel, ValidationVerdict } from '@/types/citation-json'
+import { calculateConsensus, calculateTier3Consensus } from '@/lib/citation-identification/validation'
+
+const TIMESTAMP = '2025-01-01T00:00:00.000Z'
+
+function scored(...scores: number[]): AgentVerdict[] {
+  return scores.map((score, i) => ({
+    agent: `agent_${i + 1}`,
+    score,
+    reasoning: `Reasoning for ${score}`,
+    timestamp: TIMESTAMP,
+    model: 'test-model',
+  }))
+}
+
+function voted(...verdicts: ValidationVerdict[]): AgentVerdict[] {
+  return verdicts.map((verdict, i) => ({
+    agent: `agent_${i + 1}`,
+    verdict,
+    invalid_reason: verdict === 'INVALID' ? 'nonexistent_reporter' : undefined,
+    timestamp: TIMESTAMP,
+    model: 'test-model',
+  }))
+}
+
+function risked(...levels: Tier3RiskLevel[]): Tier3AgentVerdict[] {
+  return levels.map((risk_level, i) => ({
+    agent: `tier3_agent_${i + 1}`,
+    risk_level,
+    reasoning: `Reasoning for ${risk_level}`,
+    timestamp: TIMESTAMP,
+    model: 'test-model',
+  }))
+}
+
+describe('calculateConsensus', () => {
+  it('treats high, consistent scores as a likely valid citation', () => {
+    const consensus = calculateConsensus(scored(9, 9, 8, 9, 10))
+
+    assert.equal(consensus.recommendation, 'CITATION_LIKELY_VALID')
+    assert.equal(consensus.agreement_level, 'unanimous')
+    assert.equal(consensus.average_score, 9)
+    assert.equal(consensus.confidence_score, 0.9)
+    assert.equal(consensus.tier_3_trigger, false)
+  })
+
+  it('flags low scores as likely hallucinated, escalates them and quotes the concerns', () => {
+    const consensus = calculateConsensus(scored(2, 3, 2, 4, 3))
+
+    assert.equal(consensus.recommendation, 'CITATION_LIKELY_HALLUCINATED')
+    assert.equal(consensus.tier_3_trigger, true)
+    assert.match(consensus.reasoning, /Concerns: agent_1: Reasoning for 2/)
+  })
+
+  it('escalates a split panel even when the average is high enough', () => {
+    const consensus = calculateConsensus(scored(10, 10, 10, 10, 2))
+
+    assert.equal(consensus.average_score, 8.4)
+    assert.equal(consensus.recommendation, 'CITATION_LIKELY_VALID')
+    assert.equal(consensus.agreement_level, 'split')
+    assert.equal(consensus.tier_3_trigger, true)
+  })
+
+  it('treats a middling average as uncertain', () => {
+    const consensus = calculateConsensus(scored(6, 7, 6, 7, 6))
+
+    assert.equal(consensus.recommendation, 'CITATION_UNCERTAIN')
+    assert.equal(consensus.tier_3_trigger, false)
+  })
+
+  it('counts legacy verdicts', () => {
+    const valid = calculateConsensus(voted('VALID', 'VALID', 'VALID', 'VALID', 'UNCERTAIN'))
+    assert.equal(valid.recommendation, 'CITATION_LIKELY_VALID')
+    assert.equal(valid.agreement_level, 'strong')
+    assert.equal(valid.tier_3_trigger, false)
+
+    const invalid = calculateConsensus(voted('INVALID', 'INVALID', 'INVALID', 'VALID', 'UNCERTAIN'))
+    assert.equal(invalid.recommendation, 'CITATION_LIKELY_HALLUCINATED')
+    assert.equal(invalid.tier_3_trigger, true)
+    assert.match(invalid.reasoning, /agent_1: nonexistent_reporter/)
+  })
+})
+
+describe('calculateTier3Consensus', () => {
+  it('settles a unanimous panel', () => {
+    const consensus = calculateTier3Consensus(risked('LOW_RISK', 'LOW_RISK', 'LOW_RISK'))
+
+    assert.equal(consensus.final_risk_level, 'LOW_RISK')
+    assert.equal(consensus.agreement_level, 'unanimous')
+    assert.equal(consensus.confidence_score, 1)
+  })
+
+  it('follows the majority', () => {
+    const consensus = calculateTier3Consensus(risked('NEEDS_ADDITIONAL_REVIEW', 'LOW_RISK', 'NEEDS_ADDITIONAL_REVIEW'))
+
+    assert.equal(consensus.final_risk_level, 'NEEDS_ADDITIONAL_REVIEW')
+    assert.equal(consensus.agreement_level, 'majority')
+    assert.deepEqual(consensus.risk_level_counts, { LOW_RISK: 1, MODERATE_RISK: 0, NEEDS_ADDITIONAL_REVIEW: 2 })
+    assert.match(consensus.reasoning, /tier3_agent_1: Reasoning for NEEDS_ADDITIONAL_REVIEW/)
+  })
+
+  it('falls back to moderate risk when every agent differs', () => {
+    const consensus = calculateTier3Consensus(risked('LOW_RISK', 'MODERATE_RISK', 'NEEDS_ADDITIONAL_REVIEW'))
+
+    assert.equal(consensus.final_risk_level, 'MODERATE_RISK')
+    assert.equal(consensus.agreement_level, 'split')
+  })
+
+  it('grades legacy verdicts by the number of valid votes', () => {
+    const legacy = (...verdicts: Tier3AgentVerdictType[]) =>
+      calculateTier3Consensus(verdicts.map((verdict, i) => ({
+        agent: `tier3_agent_${i + 1}`,
+        verdict,
+        timestamp: TIMESTAMP,
+        model: 'test-model',
+      })))
+
+    assert.equal(legacy('VALID', 'VALID', 'VALID').final_status, 'VALID')
+    assert.equal(legacy('VALID', 'VALID', 'INVALID').final_status, 'WARN')
+    assert.equal(legacy('VALID', 'INVALID', 'UNCERTAIN').final_status, 'FAIL')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { findAllCitations } from '@/lib/citation-identification/patterns'
+import { muted } from '../helpers'
+
+async function find(text: string) {
+  return muted(() => findAllCitations(text))
+}
+
+describe('findAllCitations', () => {
+  it('finds a federal case with its components', async () => {
+    const [match, ...rest] = await find('Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1999).')
+
+    assert.equal(rest.length, 0)
+    assert.equal(match.type, 'case')
+    assert.equal(match.fullMatch, 'Smith v. Jones, 123 F.3d 456, 460 (9th Cir. 1999)')
+    assert.deepEqual(match.components, {
+      party_1: 'Smith',
+      party_2: 'Jones',
+      volume: '123',
+      reporter: 'F.3d',
+      page: '456',
+      pin: '460',
+      court: '9th Cir.',
+      year: '1999',
+    })
+  })
+
+  it('finds a state case and its state', async () => {
+    const [match] = await find('Doe v. Roe, 45 Cal. App. 4th 100 (1996)')
+
+    assert.equal(match.type, 'case')
+    assert.equal(match.components.reporter, 'Cal. App. 4th')
+    assert.equal(match.components.state, 'CA')
+  })
+
+  it('leaves an introductory signal out of the case name', async () => {
+    const [match] = await find('See also Smith v. Jones, 123 F.3d 456 (9th Cir. 1999).')
+
+    assert.equal(match.fullMatch, 'Smith v. Jones, 123 F.3d 456 (9th Cir. 1999)')
+    assert.equal(match.startIndex, 'See also '.length)
+    assert.equal(match.components.party_1, 'Smith')
+  })
+
+  it('finds statutes, regulations, rules and constitutional provisions', async () => {
+    const text = 'Under 42 U.S.C. § 1983, 29 C.F.R. § 1604.11, Fed. R. Civ. P. 56 and U.S. Const. amend. XIV, § 1.'
+    const matches = await find(text)
+
+    assert.deepEqual(
+      matches.map(match => [match.type, match.fullMatch]),
+      [
+        ['statute', '42 U.S.C. § 1983'],
+        ['regulation', '29 C.F.R. § 1604.11'],
+        ['rule', 'Fed. R. Civ. P. 56'],
+        ['constitution', 'U.S. Const. amend. XIV, § 1'],
+      ]
+    )
+  })
+
+  it('returns matches in order with offsets into the text', async () => {
+    const text = 'Smith v. Jones, 123 F.3d 456 (9th Cir. 1999); 42 U.S.C. § 1983.'
+    const matches = await find(text)
+
+    assert.equal(matches.length, 2)
+    for (const match of matches) {
+      assert.equal(text.slice(match.startIndex, match.endIndex), match.fullMatch)
+    }
+    assert.ok(matches[0].endIndex <= matches[1].startIndex)
+  })
+
+  it('finds nothing in text without citations', async () => {
+    assert.deepEqual(await find('The parties met on Tuesday to discuss settlement.'), [])
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseAgentResponse } from '@/lib/citation-identification/response-parser'
+import { muted } from '../helpers'
+
+describe('parseAgentResponse', () => {
+  it('reads a score and the reasoning up to the first blank line', () => {
+    assert.deepEqual(
+      parseAgentResponse('SCORE: 8\nREASONING: Reporter and volume are consistent.\n\nTrailing notes', 'agent'),
+      { score: 8, reasoning: 'Reporter and volume are consistent.' }
+    )
+  })
+
+  it('reads a score without reasoning', () => {
+    assert.deepEqual(parseAgentResponse('SCORE: 3', 'agent'), { score: 3, reasoning: undefined })
+  })
+
+  it('ignores scores outside 1-10', () => {
+    assert.equal(parseAgentResponse('SCORE: 11', 'agent').score, undefined)
+  })
+
+  it('reads a legacy JSON verdict and its reason', () => {
+    const response = '```json\n{"label": "INVALID", "reason": "Reporter volume does not exist"}\n```'
+    assert.deepEqual(parseAgentResponse(response, 'agent'), {
+      verdict: 'INVALID',
+      invalid_reason: 'Reporter volume does not exist',
+    })
+  })
+
+  it('reads legacy text verdicts', () => {
+    assert.deepEqual(parseAgentResponse('VALID', 'agent'), { verdict: 'VALID' })
+    assert.deepEqual(parseAgentResponse('INVALID: nonexistent_reporter', 'agent'), {
+      verdict: 'INVALID',
+      invalid_reason: 'nonexistent_reporter',
+    })
+  })
+
+  it('falls back to UNCERTAIN when the response has no verdict', async () => {
+    const parsed = await muted(() => parseAgentResponse('I cannot tell.', 'agent'))
+    assert.equal(parsed.verdict, 'UNCERTAIN')
+  })
+})
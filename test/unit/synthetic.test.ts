@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { CaseComponents, Citation, CitationDocument, SyntheticPerturbationType } from '@/types/citation-json'
+import { generateSyntheticDocument } from '@/lib/citation-identification/synthetic'
+
+const BENDER_QUOTE = 'the district court must consider the arbitration agreement as a whole'
+
+function caseCitation(id: string, citationText: string, components: Partial<CaseComponents>): Citation {
+  return {
+    id,
+    citationText,
+    citationType: 'case',
+    extractedComponents: { parties: [], court: '', ...components } as CaseComponents,
+    tier_1: { status: 'VALID_FORMAT', confidence: 0.99 },
+    tier_2: { evaluations: [], consensus: 'VALID', consensusConfidence: 0, escalated: false },
+    tier_3: null,
+    recommendations: null,
+  }
+}
+
+function sampleDocument(): CitationDocument {
+  const bender = caseCitation('cit_001', '971 F.2d 698', {
+    parties: ['Bender', 'A.G. Edwards & Sons, Inc.'],
+    reporter: 'F.2d',
+    page: '698',
+    court: 'ca11',
+    year: 1992,
+    pinCite: '700',
+    pinPages: [{ text: '700', start: 700, end: 700 }],
+  })
+  bender.quotations = [{ text: BENDER_QUOTE, paragraphId: 'para_001' }]
+  bender.validation = {
+    panel_evaluation: [],
+    consensus: {
+      agreement_level: 'unanimous',
+      confidence_score: 1,
+      recommendation: 'CITATION_LIKELY_VALID',
+      reasoning: 'Earlier run',
+      tier_3_trigger: false,
+    },
+  }
+
+  const shortForm = caseCitation('cit_002', '971 F.2d at 700', { reporter: 'F.2d', page: '698' })
+  shortForm.antecedentId = 'cit_001'
+  shortForm.shortForm = { kind: 'shortCase', status: 'resolved', pinCite: '700' }
+
+  return {
+    document: {
+      metadata: { filename: 'brief.docx', uploadDate: '2025-01-01T00:00:00.000Z', totalCitations: 2, testRunId: 'old-run' },
+      content: [
+        {
+          type: 'paragraph',
+          id: 'para_001',
+          text: `See Bender v. A.G. Edwards & Sons, Inc., [CITATION:cit_001]971 F.2d 698[/CITATION:cit_001], 700 (11th Cir. 1992) ("${BENDER_QUOTE}").`,
+        },
+        {
+          type: 'paragraph',
+          id: 'para_002',
+          text: 'The same rule applies here. [CITATION:cit_002]971 F.2d at 700[/CITATION:cit_002].',
+        },
+      ],
+      citations: [bender, shortForm],
+    },
+  }
+}
+
+function generate(type: SyntheticPerturbationType, seed = 'test') {
+  return generateSyntheticDocument(sampleDocument(), { seed, rate: 1, types: [type] })
+}
+
+describe('generateSyntheticDocument', () => {
+  it('gives the same faults for the same seed and leaves the source untouched', () => {
+    const source = sampleDocument()
+    const first = generateSyntheticDocument(source, { seed: 'repeatable', rate: 1 })
+    const second = generateSyntheticDocument(source, { seed: 'repeatable', rate: 1 })
+
+    assert.deepEqual(first.perturbations, second.perturbations)
+    assert.deepEqual(first.document.document.content, second.document.document.content)
+    assert.deepEqual(source, sampleDocument())
+  })
+
+  it('changes the volume in the text and the citation, and marks the citation mis-cited', () => {
+    const { document, perturbations } = generate('wrong_volume')
+    const [perturbation] = perturbations
+    const citation = document.document.citations[0]
+
+    assert.equal(perturbation.citationId, 'cit_001')
+    assert.equal(perturbation.label, 'miscited')
+    assert.notEqual(perturbation.perturbed, '971')
+    assert.equal(citation.citationText, `${perturbation.perturbed} F.2d 698`)
+    assert.ok(document.document.content[0].text.includes(`[CITATION:cit_001]${citation.citationText}[/CITATION:cit_001]`))
+  })
+
+  it('moves a single pin page along with a swapped first page', () => {
+    const { document, perturbations } = generate('swapped_page')
+    const components = document.document.citations[0].extractedComponents as CaseComponents
+    const shift = parseInt(components.page, 10) - 698
+
+    assert.notEqual(shift, 0)
+    assert.equal(perturbations[0].perturbed, components.page)
+    assert.equal(components.pinCite, String(700 + shift))
+    assert.match(document.document.content[0].text, new RegExp(`F\\.2d ${components.page}\\[/CITATION:cit_001\\], ${700 + shift} \\(`))
+  })
+
+  it('replaces party names outside the marked citation text and labels the citation fabricated', () => {
+    const { document, perturbations } = generate('invented_parties')
+    const components = document.document.citations[0].extractedComponents as CaseComponents
+
+    assert.equal(perturbations[0].label, 'fabricated')
+    assert.ok(!document.document.content[0].text.includes('Bender'))
+    assert.ok(!document.document.content[0].text.includes('A.G. Edwards'))
+    assert.ok(document.document.content[0].text.startsWith(`See ${components.parties[0]} v. ${components.parties[1]}, `))
+  })
+
+  it('gives a year the reporter never covered and reruns Tier 1 on the result', () => {
+    const { document, perturbations } = generate('impossible_court_year')
+    const citation = document.document.citations[0]
+    const year = (citation.extractedComponents as CaseComponents).year
+
+    assert.ok(year > 1993)
+    assert.equal(perturbations[0].perturbed, `(11th Cir. ${year})`)
+    assert.equal(citation.tier_1.status, 'INVALID_FORMAT')
+    assert.match(citation.tier_1.issues!.join(' '), /F\.2d ended in 1993/)
+  })
+
+  it('moves the citation to a neighbouring reporter series', () => {
+    const { document, perturbations } = generate('wrong_reporter_series')
+    const reporter = (document.document.citations[0].extractedComponents as CaseComponents).reporter
+
+    assert.ok(['F.', 'F.3d'].includes(reporter))
+    assert.equal(perturbations[0].perturbed, reporter)
+    assert.equal(document.document.citations[0].citationText, `971 ${reporter} 698`)
+  })
+
+  it('replaces a quotation in the text and on the citation', () => {
+    const { document, perturbations } = generate('fabricated_quotation')
+    const quotation = document.document.citations[0].quotations![0]
+
+    assert.equal(perturbations[0].label, 'fabricated')
+    assert.notEqual(quotation.text, BENDER_QUOTE)
+    assert.ok(document.document.content[0].text.includes(`("${quotation.text}")`))
+  })
+
+  it('labels every citation, passing an antecedent\'s ground truth to its short forms', () => {
+    const { document, labels } = generate('wrong_volume')
+
+    assert.deepEqual(labels.map(label => [label.citationId, label.label]), [['cit_001', 'miscited'], ['cit_002', 'miscited']])
+    assert.match(labels[1].notes!, /Short form of cit_001/)
+    assert.equal(document.document.citations[0].validation, undefined)
+    assert.equal(document.document.metadata.testRunId, undefined)
+    assert.equal(document.document.metadata.synthetic?.perturbations.length, 1)
+  })
+
+  it('leaves a short form real when only its antecedent\'s quotation is fabricated', () => {
+    const { labels } = generate('fabricated_quotation')
+
+    assert.deepEqual(labels.map(label => [label.citationId, label.label]), [['cit_001', 'fabricated'], ['cit_002', 'real']])
+    assert.equal(labels[1].notes, null)
+  })
+})
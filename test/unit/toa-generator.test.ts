@@ -0,0 +1,27 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseTextDocument } from '@/lib/document-parser'
+import { insertTableOfAuthorities } from '@/lib/citation-identification/toa-generator'
+import { muted } from '../helpers'
+
+async function insert(text: string) {
+  const parsed = await muted(() => parseTextDocument(text, 'draft.txt', '2025-01-01T00:00:00.000Z'))
+  return insertTableOfAuthorities(text, 'TABLE OF AUTHORITIES', parsed.document.content)
+}
+
+describe('insertTableOfAuthorities', () => {
+  it('goes after the title and before an unnumbered first section heading', async () => {
+    const text = 'MEMORANDUM OF LAW\n\nINTRODUCTION\n\nPlaintiff brings this action.\n\nARGUMENT\n\nThe claim fails.'
+
+    assert.equal(
+      await insert(text),
+      'MEMORANDUM OF LAW\n\nTABLE OF AUTHORITIES\n\nINTRODUCTION\n\nPlaintiff brings this action.\n\nARGUMENT\n\nThe claim fails.'
+    )
+  })
+
+  it('goes before a numbered first section heading', async () => {
+    const text = 'MEMORANDUM OF LAW\n\nI. INTRODUCTION\n\nPlaintiff brings this action.'
+
+    assert.equal(await insert(text), 'MEMORANDUM OF LAW\n\nTABLE OF AUTHORITIES\n\nI. INTRODUCTION\n\nPlaintiff brings this action.')
+  })
+})
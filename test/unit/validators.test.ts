@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { validateCaseCitation } from '@/lib/citation-identification/validators'
+
+function caseMatch(components: Record<string, string>) {
+  return { fullMatch: '', startIndex: 0, endIndex: 0, type: 'case' as const, components }
+}
+
+describe('validateCaseCitation', () => {
+  it('accepts regional reporters for every state they cover, by abbreviation or eyecite court id', () => {
+    const cites = [
+      { volume: '40', reporter: 'P.3d', page: '100', court: 'Cal.', year: '2002' },
+      { volume: '40', reporter: 'P.3d', page: '100', court: 'calctapp', year: '2002' },
+      { volume: '800', reporter: 'A.2d', page: '100', court: 'Conn.', year: '2002' },
+      { volume: '800', reporter: 'A.2d', page: '100', court: 'vt', year: '2002' },
+    ]
+    for (const components of cites) {
+      assert.equal(validateCaseCitation(caseMatch(components)).status, 'VALID_FORMAT', JSON.stringify(components))
+    }
+  })
+
+  it('dates each New York Supplement series by the year it was in print', () => {
+    const cite = (reporter: string, year: string) =>
+      validateCaseCitation(caseMatch({ volume: '100', reporter, page: '100', court: 'N.Y. App. Div.', year })).status
+
+    assert.equal(cite('N.Y.S.2d', '2010'), 'VALID_FORMAT')
+    assert.equal(cite('N.Y.S.3d', '2010'), 'INVALID_FORMAT')
+  })
+
+  it('rejects a state reporter cited for another state\'s court', () => {
+    const result = validateCaseCitation(caseMatch({ volume: '40', reporter: 'P.3d', page: '100', court: 'ill', year: '2002' }))
+
+    assert.equal(result.status, 'INVALID_FORMAT')
+    assert.deepEqual(result.issues, ['P.3d does not report ill decisions'])
+  })
+})
@@ -3,9 +3,41 @@
  * Based on citationjson.md specification
  */
 
-export type CitationType = "case" | "statute" | "regulation" | "rule" | "secondary";
+export type CitationType = "case" | "statute" | "regulation" | "rule" | "constitution" | "sessionLaw" | "secondary";
+
+export type ContentType =
+  | "paragraph"
+  | "heading"
+  | "section"
+  | "footnote"
+  | "caption" // Case caption: court, parties, case number
+  | "tableOfAuthorities"
+  | "signatureBlock"
+  | "certificateOfService";
+
+// Structural regions that are skipped during citation identification by default
+export const STRUCTURAL_CONTENT_TYPES: ContentType[] = [
+  "caption",
+  "tableOfAuthorities",
+  "signatureBlock",
+  "certificateOfService",
+];
 
-export type ContentType = "paragraph" | "heading" | "section";
+/**
+ * Check whether a content block is a structural region (caption, TOA, signature, certificate)
+ */
+export function isStructuralContent(paragraph: { type: ContentType }): boolean {
+  return STRUCTURAL_CONTENT_TYPES.includes(paragraph.type);
+}
+
+export interface IdentificationOptions {
+  includeStructuralBlocks?: boolean; // Also identify citations in caption, TOA, signature and certificate blocks
+}
+
+export type NoteKind = "footnote" | "endnote";
+
+// Role of a block taken from its Word paragraph style
+export type ParagraphStyle = "heading" | "toc" | "caption" | "blockQuote" | "signatureBlock" | "normal";
 
 export type Tier1Status = "VALID_FORMAT" | "INVALID_FORMAT" | "AMBIGUOUS_FORMAT";
 
@@ -47,6 +79,9 @@ export interface Tier3AgentVerdict {
   uncertain_reason?: string; // Reason code if verdict is UNCERTAIN (legacy)
   timestamp: string; // ISO 8601 timestamp
   model: string; // e.g., "claude-sonnet-4-5-20250929"
+  fallback_from?: string; // Model the definition named, when its provider had no API key and `model` ran instead
+  definition_version?: number; // Version of the agent definition that produced this verdict
+  definition_id?: string; // Stored ValidationAgentDefinition row; absent for built-in agents
   token_usage?: {
     input_tokens: number;
     output_tokens: number;
@@ -102,6 +137,9 @@ export interface AgentVerdict {
   uncertain_reason?: string; // Reason code if verdict is UNCERTAIN (legacy)
   timestamp: string; // ISO 8601 timestamp
   model: string; // e.g., "claude-haiku-4-5-20251001"
+  fallback_from?: string; // Model the definition named, when its provider had no API key and `model` ran instead
+  definition_version?: number; // Version of the agent definition that produced this verdict
+  definition_id?: string; // Stored ValidationAgentDefinition row; absent for built-in agents
   token_usage?: {
     input_tokens: number;
     output_tokens: number;
@@ -135,9 +173,37 @@ export interface Consensus {
   tier_3_trigger: boolean;
 }
 
+export type AuthorityIndexStatus = "verified" | "mismatch" | "partial" | "not_found";
+
+export interface IndexedAuthority {
+  volume: string;
+  reporter: string;
+  page: string;
+  caseName: string;
+  court?: string;
+  year?: number;
+}
+
+export interface AuthorityIndexResult {
+  // verified: an indexed case matches the volume, reporter, page and name (and year, when both give one)
+  // mismatch: the volume and page belong to a differently named case; partial: the name agrees only in part
+  // (one party) or the name matches but the year does not, so the panel still decides
+  status: AuthorityIndexStatus;
+  matches: IndexedAuthority[]; // Indexed cases at the cited volume, reporter and page
+  source: string; // Index the result came from, e.g. the dump's file name
+}
+
+// Set on a Tier 2 or Tier 3 result reused from the cross-document validation cache instead of run
+export interface ValidationCacheHit {
+  key: string; // Normalized citation the result is cached under, e.g. "case:556:us:662:ashcroft v iqbal:2009"
+  cached_at: string; // ISO 8601 timestamp of the run that produced the result
+}
+
 export interface CitationValidation {
-  panel_evaluation: AgentVerdict[];
+  panel_evaluation: AgentVerdict[]; // Empty when the local authority index settled the citation
   consensus: Consensus;
+  authority_index?: AuthorityIndexResult; // Set when a local authority index is configured and the citation is a case
+  cache?: ValidationCacheHit; // Set when the result came from the validation cache; no tokens were spent on it
   run_cost?: {
     byModel: Record<string, {
       input_cost: number;
@@ -154,6 +220,17 @@ export interface CitationValidation {
   };
 }
 
+export interface CaptionParty {
+  name: string;
+  role?: string; // Plaintiff, Defendant, Petitioner, etc.
+}
+
+export interface CaseCaption {
+  court?: string;
+  caseNumber?: string;
+  parties: CaptionParty[];
+}
+
 export interface CitationMetadata {
   filename: string;
   uploadDate: string; // ISO 8601
@@ -166,35 +243,65 @@ export interface CitationMetadata {
   heavyAnalysisRunId?: string;        // UUID to group heavy analysis runs together
   heavyAnalysisRunNumber?: number;    // Which run in the heavy analysis test (1, 2, 3...)
   heavyAnalysisRunTotal?: number;     // Total runs in this heavy analysis test
+  pageCount?: number;        // Number of pages in the source document (PDF only)
+  caption?: CaseCaption;     // Court, case number and parties from the document caption
+  synthetic?: SyntheticDocumentInfo; // Set on benchmark documents with injected faults
 }
 
 export interface ContentParagraph {
   type: ContentType;
   id: string; // para_001, heading_001, etc.
   level?: number; // For headings, 1-6
+  style?: ParagraphStyle; // Role from the Word paragraph style (Word documents only)
+  styleName?: string; // Word paragraph style name as written in the document, e.g. "Heading 2"
   text: string; // Text with inline citations marked as [CITATION:cit_001]...[/CITATION:cit_001]
   notes?: string; // Optional reviewer notes for this paragraph
+  page?: number; // 1-based page the block starts on (PDF only)
+  footnoteNumber?: number; // For footnotes, the note number as shown in the document
+  noteKind?: NoteKind; // For footnotes, whether this is a footnote or an endnote
+  anchorParagraphId?: string; // For footnotes, id of the block containing the note reference
+}
+
+export interface PinPageRange {
+  text: string; // As written, e.g. "462-63" or "462 n.3"
+  start: number;
+  end: number; // Same as start for a single page; abbreviated ends are expanded ("462-63" -> 463)
+  footnote?: string; // e.g. "3" for "462 n.3"
+}
+
+export interface ReporterReference {
+  volume: string;
+  reporter: string;
+  page: string;
+  pinCite?: string;
+  pinPages?: PinPageRange[];
 }
 
 export interface CaseComponents {
   parties: string[];
   reporter: string;
-  page: string;
+  page: string; // First page of the case
   court: string;
   year: number;
+  pinCite?: string; // Pin cite as written, e.g. "462", "462-63" or "462, 465 n.3"
+  pinPages?: PinPageRange[]; // Pages the pin cite points to
+  state?: string; // Postal code for state court decisions, e.g. "CA"
+  parallelCitations?: ReporterReference[]; // Every reporter a parallel cite gives, the first being reporter/page above
 }
 
 export interface StatuteComponents {
   title: string;
-  code: string; // U.S.C., etc.
+  code: string; // U.S.C., Cal. Civ. Code, etc.
   section: string;
   subdivision?: string | null;
+  state?: string; // Postal code for state statutes
 }
 
 export interface RegulationComponents {
   title: string;
-  code: string; // C.F.R., etc.
+  code: string; // C.F.R., Cal. Code Regs., etc.
   section: string;
+  state?: string; // Postal code for state regulations
 }
 
 export interface RuleComponents {
@@ -203,15 +310,56 @@ export interface RuleComponents {
   subdivision?: string | null;
 }
 
+export interface ConstitutionComponents {
+  jurisdiction: string; // "U.S." or a state abbreviation, e.g. "Cal."
+  article?: string; // As written, e.g. "III"
+  amendment?: string; // As written, e.g. "XIV"
+  section?: string;
+  clause?: string;
+  preamble?: boolean;
+  state?: string; // Postal code for state constitutions
+}
+
+export interface SessionLawComponents {
+  publicLaw?: string; // Public law number as written, e.g. "111-148"
+  congress?: number; // Congress that enacted the law, e.g. 111
+  section?: string; // Section of the act, e.g. "1501"
+  volume?: string; // Statutes at Large volume
+  page?: string; // First page in the Statutes at Large
+  pinCite?: string;
+  year?: number;
+}
+
+export type SecondarySourceKind = "lawReview" | "treatise" | "restatement" | "alr" | "dictionary";
+
+export interface SecondaryComponents {
+  kind: SecondarySourceKind;
+  author?: string;
+  title?: string; // Article, treatise or annotation title; dictionary name
+  volume?: string;
+  journal?: string; // Law reviews: journal abbreviation, e.g. "Harv. L. Rev."
+  page?: string;
+  pinCite?: string;
+  section?: string; // Treatise or Restatement section, e.g. "402A"
+  edition?: string; // Treatises and dictionaries, e.g. "3d" or "11th"
+  series?: string; // Restatements: "First" through "Fourth"; A.L.R.: "A.L.R.5th", "A.L.R. Fed. 2d"
+  subject?: string; // Restatements, e.g. "Torts" or "Torts: Products Liability"
+  year?: number;
+}
+
 export type ExtractedComponents = 
   | CaseComponents 
   | StatuteComponents 
   | RegulationComponents 
-  | RuleComponents;
+  | RuleComponents
+  | ConstitutionComponents
+  | SessionLawComponents
+  | SecondaryComponents;
 
 export interface Tier1Result {
   status: Tier1Status;
   confidence: number; // 0-1
+  issues?: string[]; // Local checks that failed, e.g. a pin cite before the first page
 }
 
 export interface Tier2Evaluation {
@@ -242,6 +390,7 @@ export interface Tier3Result {
   
   timestamp: string; // ISO 8601 timestamp
   model: string; // e.g., "claude-sonnet-4-5-20250929"
+  cache?: ValidationCacheHit; // Set when the result came from the validation cache; no tokens were spent on it
   run_cost?: {
     byModel: Record<string, {
       input_cost: number;
@@ -258,9 +407,21 @@ export interface Tier3Result {
   };
 }
 
+// Bluebook style rules checked by the citation linter
+export type BluebookRule =
+  | "reporter-abbreviation" // "F. 3d" -> "F.3d"
+  | "ordinal" // "2nd Cir." -> "2d Cir."
+  | "court-parenthetical" // missing circuit, or a redundant "U.S." for the Supreme Court
+  | "section-symbol" // "§1983" -> "§ 1983"
+  | "versus" // "vs." -> "v."
+  | "code-abbreviation"; // "42 USC 1983" -> "42 U.S.C. § 1983"
+
 export interface CitationRecommendation {
-  citationText: string;
+  citationText: string; // Suggested citation; for style corrections, the citation as corrected
   reason: string;
+  rule?: BluebookRule; // Set on Bluebook style corrections
+  original?: string; // Text the correction replaces, e.g. "F. 3d"
+  replacement?: string; // Text it is replaced with; absent when the reviewer must supply it (e.g. an unknown district)
 }
 
 // Heavy Model Analysis Types
@@ -296,6 +457,54 @@ export interface ManualReview {
   notes?: string; // Optional notes from reviewer
 }
 
+// Introductory signals (Bluebook R1.2), stored in their capitalized form
+export type CitationSignal =
+  | "E.g."
+  | "Accord"
+  | "See"
+  | "See, e.g."
+  | "See also"
+  | "Cf."
+  | "Compare"
+  | "Contra"
+  | "But see"
+  | "But cf."
+  | "See generally";
+
+// Short-form citations point back to an earlier full citation
+export type ShortFormKind = "id" | "supra" | "shortCase"; // Id. / ibid., "Smith, supra", "Smith, 123 F.3d at 460"
+export type ShortFormStatus = "resolved" | "orphaned" | "ambiguous";
+
+export interface ShortFormResolution {
+  kind: ShortFormKind;
+  status: ShortFormStatus; // orphaned: no antecedent found; ambiguous: more than one candidate
+  pinCite?: string; // e.g. "460" or "460-62"
+  candidateIds?: string[]; // Full citations an ambiguous short form could refer to
+}
+
+export type QuotationMatchStatus = "exact" | "near" | "not_found";
+
+export interface QuotationDiffSegment {
+  type: "same" | "added" | "omitted"; // added: in the quotation but not the source; omitted: in the source but left out
+  text: string;
+}
+
+export interface QuotationVerification {
+  status: QuotationMatchStatus;
+  similarity: number; // Share of the quoted words found, in order, in the closest passage of the source (0-1)
+  source: string; // "user" for pasted source text, otherwise the opinion corpus file
+  matchedText?: string; // Closest passage of the source; set for near matches
+  diff?: QuotationDiffSegment[]; // Word differences between the quotation and matchedText; set for near matches
+  verifiedAt: string; // ISO timestamp
+}
+
+export interface Quotation {
+  text: string; // Quoted words without the quotation marks
+  paragraphId: string;
+  blockQuote?: boolean; // Set when the quotation is an indented block quote
+  verification?: QuotationVerification;
+}
+
 export interface Citation {
   id: string; // cit_001, cit_002, etc.
   citationText: string; // Exact citation as it appears in document
@@ -304,10 +513,16 @@ export interface Citation {
   tier_1: Tier1Result;
   tier_2: Tier2Result;
   tier_3: Tier3Result | null; // null if not escalated
-  recommendations: CitationRecommendation[] | null; // null until Phase 2
+  recommendations: CitationRecommendation[] | null; // Bluebook style corrections; null when there are none
   validation?: CitationValidation; // Tier 2 validation results (per validationT2.md)
   heavy_analysis?: HeavyAnalysisResult; // Heavy model full-document analysis
   manualReview?: ManualReview; // Human reviewer decision
+  footnoteNumber?: number; // Set when the citation appears in a footnote or endnote
+  antecedentId?: string; // Full citation a resolved short form refers to; its verdict is inherited
+  shortForm?: ShortFormResolution; // Set on Id., supra and short case citations
+  signal?: CitationSignal; // Introductory signal, e.g. "See also" or "But cf."
+  parenthetical?: string; // Explanatory parenthetical without its parentheses, e.g. "holding that ..."
+  quotations?: Quotation[]; // Quoted passages the citation is given as the source of
 }
 
 export interface CitationDocument {
@@ -382,6 +597,114 @@ export interface AnalysisStatistics {
   };
 }
 
+// Benchmark Types
+// Ground truth for a citation: "miscited" is a real authority cited with a wrong volume, page, court or year
+export type GroundTruthLabel = "real" | "fabricated" | "miscited";
+
+export interface BenchmarkLabel {
+  citationId: string;
+  citationText: string; // Matched against a run's citations when the id is not found
+  label: GroundTruthLabel;
+  notes?: string | null;
+}
+
+export interface CalibrationBin {
+  lower: number; // Predicted probability range, 0-1
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number; // Share of the bin's citations that were fabricated or mis-cited
+}
+
+// Detection of fabricated and mis-cited citations; a flagged citation is one not assessed as low risk
+export interface DetectionMetrics {
+  evaluated: number; // Labeled citations with a prediction
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number | null; // null when nothing was flagged
+  recall: number | null; // null when no labeled citation is fabricated or mis-cited
+  f1: number | null;
+  accuracy: number | null;
+  recallByLabel: Record<"fabricated" | "miscited", number | null>;
+  brierScore: number | null;
+  expectedCalibrationError: number | null;
+  calibration: CalibrationBin[];
+}
+
+export interface BenchmarkBreakdown {
+  tier: "tier2" | "tier3";
+  name: string; // Agent name or model
+  metrics: DetectionMetrics;
+}
+
+export interface BenchmarkMetrics {
+  tiers: {
+    tier2: DetectionMetrics;
+    tier3: DetectionMetrics; // Escalated citations only
+    final: DetectionMetrics; // Tier 3 result where escalated, otherwise Tier 2
+  };
+  agents: BenchmarkBreakdown[];
+  models: BenchmarkBreakdown[];
+  unmatchedLabels: number; // Labels whose citation is not in the run
+  unvalidated: number; // Labeled citations the run has no Tier 2 result for
+}
+
+export interface BenchmarkAgentConfiguration {
+  tier: "tier2" | "tier3";
+  agent: string;
+  model: string;
+  definition_version?: number;
+}
+
+// Agents, definition versions and models a scored run used, for comparing runs across changes
+export interface BenchmarkConfiguration {
+  agents: BenchmarkAgentConfiguration[];
+}
+
+// A validation run's stored score against the labels its file had when it was scored
+export interface BenchmarkRunScore {
+  id: string;
+  checkId: string;
+  version: number;
+  testRunId: string | null;
+  runNumber: number | null;
+  labelCount: number;
+  configuration: BenchmarkConfiguration;
+  metrics: BenchmarkMetrics;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+// Synthetic Benchmark Types
+export type SyntheticPerturbationType =
+  | "wrong_volume"
+  | "swapped_page"
+  | "invented_parties"
+  | "impossible_court_year"
+  | "wrong_reporter_series"
+  | "fabricated_quotation";
+
+// A known fault injected into a citation of a synthetic benchmark document
+export interface SyntheticPerturbation {
+  citationId: string;
+  type: SyntheticPerturbationType;
+  label: GroundTruthLabel; // Ground truth the citation is recorded with
+  original: string; // Text the fault replaced: the volume, page, parties, parenthetical, reporter or quotation
+  perturbed: string; // Text that replaced it
+  description: string; // e.g. "Volume 971 changed to 958"
+}
+
+export interface SyntheticDocumentInfo {
+  seed: string; // The same source document and seed always give the same perturbations
+  rate: number; // Share of eligible citations perturbed, 0-1
+  sourceFileId?: string;
+  sourceCheckId?: string;
+  generatedAt: string; // ISO 8601
+  perturbations: SyntheticPerturbation[];
+}
+
 // Format detection helpers
 /**
  * Check if an AgentVerdict uses the new format (numeric scoring)